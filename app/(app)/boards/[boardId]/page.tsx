@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter, useSearchParams, useParams } from 'next/navigation';
 import { 
   Plus,
@@ -14,9 +14,21 @@ import {
   X,
   MessageSquare,
   Paperclip,
-  Flag
+  Flag,
+  Download,
+  Trash2,
+  Eye,
+  EyeOff,
+  Link2,
+  BarChart3,
+  Columns,
+  Settings
 } from 'lucide-react';
 import Modal from '@/components/Modal';
+import BoardFilterBar, { BoardView, FilterCardField } from '@/components/BoardFilterBar';
+import BoardReports from '@/components/BoardReports';
+import BoardSettings from '@/components/BoardSettings';
+import TaskKeyText, { TaskKeyReference } from '@/components/TaskKeyText';
 
 interface Task {
   id: string;
@@ -28,20 +40,71 @@ interface Task {
   storyPoints: number | null;
   columnId: string;
   sprintId: string | null;
+  parentTaskId: string | null;
   assignee?: { id: string; username: string; displayName: string | null; avatarUrl: string | null };
   reporter?: { id: string; username: string; displayName: string | null };
   labels?: { id: string; name: string; color: string }[];
   dueDate: string | null;
   sortOrder: number;
   comments?: any[];
+  commentCount?: number;
 }
 
+interface Attachment {
+  id: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+  uploader?: { id: string; username: string; displayName: string | null };
+}
+
+interface Watcher {
+  id: string;
+  userId: string;
+  user?: { id: string; username: string; displayName: string | null };
+}
+
+interface TaskLink {
+  id: string;
+  type: string;
+  label: string;
+  task: {
+    id: string;
+    boardId: string;
+    taskKey: string;
+    title: string;
+    column?: { id: string; name: string; color: string | null };
+  };
+}
+
+interface TaskComment {
+  id: string;
+  content: string;
+  createdAt: string;
+  user?: { id: string; username: string; displayName: string | null };
+}
+
+interface TaskWarning {
+  code: string;
+  message: string;
+}
+
+const LINK_TYPES = [
+  { value: 'blocks', label: 'blocks' },
+  { value: 'is_blocked_by', label: 'is blocked by' },
+  { value: 'relates_to', label: 'relates to' },
+  { value: 'duplicates', label: 'duplicates' },
+  { value: 'is_duplicated_by', label: 'is duplicated by' }
+];
+
 interface Column {
   id: string;
   name: string;
   color: string | null;
   sortOrder: number;
   wipLimit: number | null;
+  wipMode: 'off' | 'warn' | 'block';
   tasks: Task[];
 }
 
@@ -53,17 +116,58 @@ interface Sprint {
   endDate: string | null;
 }
 
+interface SprintSummary {
+  committedPoints: number;
+  committedTaskCount: number;
+  completedPoints: number;
+  completedTaskCount: number;
+  carriedOverPoints: number;
+  carriedOverTaskCount: number;
+  carriedOverToSprintId: string | null;
+}
+
 interface Board {
   id: string;
+  organizationId: string;
   name: string;
   key: string;
   description: string | null;
   columns: Column[];
   sprints: Sprint[];
   labels: { id: string; name: string; color: string }[];
+  groupAccess?: { group: { id: string; name: string } }[];
   myPermission: 'read' | 'write' | 'admin';
 }
 
+interface Epic {
+  id: string;
+  taskKey: string;
+  title: string;
+  childCount: number;
+  doneCount: number;
+  totalPoints: number;
+  donePoints: number;
+  percentDone: number;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+interface Lane {
+  key: string;
+  label: string | null;
+  epic?: Epic;
+  matches: (task: Task) => boolean;
+}
+
+// Which task types a task of each type may be placed under (mirrors lib/task-hierarchy.ts)
+const PARENT_TYPES: Record<string, string[]> = {
+  epic: [],
+  story: ['epic'],
+  task: ['epic'],
+  bug: ['epic'],
+  subtask: ['story', 'task', 'bug']
+};
+
 const TASK_TYPES = [
   { value: 'story', label: 'Story', icon: '📖', color: '#10b981' },
   { value: 'task', label: 'Task', icon: '✓', color: '#3b82f6' },
@@ -89,6 +193,19 @@ export default function BoardPage() {
   const [board, setBoard] = useState<Board | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeSprint, setActiveSprint] = useState<string | null>(null);
+  const [epics, setEpics] = useState<Epic[]>([]);
+  // '' = all tasks, 'none' = tasks without an epic, otherwise an epic id
+  const [activeEpic, setActiveEpic] = useState('');
+
+  // Complete sprint state
+  const [showCompleteSprint, setShowCompleteSprint] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [completeMoveTo, setCompleteMoveTo] = useState('backlog');
+  const [sprintSummary, setSprintSummary] = useState<SprintSummary | null>(null);
+  const [completingSprint, setCompletingSprint] = useState(false);
+  const [sprintError, setSprintError] = useState('');
+  const [view, setView] = useState<BoardView | null>(null);
+  const [mode, setMode] = useState<'board' | 'reports'>('board');
   
   // Task modal state
   const [showTaskModal, setShowTaskModal] = useState(false);
@@ -104,6 +221,7 @@ export default function BoardPage() {
     storyPoints: string;
     dueDate: string;
     labelIds: string[];
+    parentTaskId: string;
   }>({
     title: '',
     description: '',
@@ -114,11 +232,33 @@ export default function BoardPage() {
     assigneeId: '',
     storyPoints: '',
     dueDate: '',
-    labelIds: []
+    labelIds: [],
+    parentTaskId: ''
   });
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
 
+  // Attachment & watcher state
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [watchers, setWatchers] = useState<Watcher[]>([]);
+  const [isWatching, setIsWatching] = useState(false);
+  const [links, setLinks] = useState<TaskLink[]>([]);
+  const [linkForm, setLinkForm] = useState({ type: 'blocks', targetKey: '' });
+  const [linkError, setLinkError] = useState('');
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [taskRefs, setTaskRefs] = useState<Record<string, TaskKeyReference>>({});
+  const [commentText, setCommentText] = useState('');
+  const [postingComment, setPostingComment] = useState(false);
+  const [warnings, setWarnings] = useState<TaskWarning[]>([]);
+  const [showMoveTask, setShowMoveTask] = useState(false);
+  const [moveTargets, setMoveTargets] = useState<{ id: string; name: string; key: string }[]>([]);
+  const [moveColumns, setMoveColumns] = useState<{ id: string; name: string }[]>([]);
+  const [moveForm, setMoveForm] = useState({ targetBoardId: '', columnId: '' });
+  const [movingTask, setMovingTask] = useState(false);
+  const [moveError, setMoveError] = useState('');
+  const [uploadingAttachments, setUploadingAttachments] = useState(false);
+  const [dragOverAttachments, setDragOverAttachments] = useState(false);
+
   // Quick add state
   const [quickAddColumn, setQuickAddColumn] = useState<string | null>(null);
   const [quickAddTitle, setQuickAddTitle] = useState('');
@@ -131,16 +271,118 @@ export default function BoardPage() {
     loadBoard();
   }, [boardId]);
 
+  // Epic progress depends on where every child sits, so refresh it with the board
+  useEffect(() => {
+    if (board) loadEpics();
+  }, [board]);
+
+  // Live updates from other users on this board
+  const hasConnectedRef = useRef(false);
+
+  useEffect(() => {
+    hasConnectedRef.current = false;
+    const source = new EventSource(`/api/boards/${boardId}/events`);
+
+    source.addEventListener('connected', () => {
+      // Events published while we were disconnected are lost, so resync
+      if (hasConnectedRef.current) loadBoard();
+      hasConnectedRef.current = true;
+    });
+
+    const handleTaskEvent = (e: MessageEvent) => upsertTask(JSON.parse(e.data).data.task);
+    source.addEventListener('task.created', handleTaskEvent);
+    source.addEventListener('task.updated', handleTaskEvent);
+    source.addEventListener('task.moved', handleTaskEvent);
+
+    source.addEventListener('task.deleted', (e: MessageEvent) => {
+      removeTask(JSON.parse(e.data).data.taskId);
+    });
+
+    source.addEventListener('comment.created', (e: MessageEvent) => {
+      const { taskId } = JSON.parse(e.data).data;
+      updateTasks(task => task.id === taskId
+        ? { ...task, commentCount: (task.commentCount || 0) + 1 }
+        : task
+      );
+    });
+
+    // Column and sprint changes affect layout, WIP limits and sprint scope, so just reload the board.
+    // Automations can touch labels and assignees of any task, which is simplest handled the same way.
+    [
+      'column.created', 'column.updated', 'column.deleted', 'columns.reordered', 'sprint.updated', 'sprint.completed',
+      'workflow.updated', 'automation.applied'
+    ].forEach(type => {
+      source.addEventListener(type, () => loadBoard());
+    });
+
+    return () => source.close();
+  }, [boardId]);
+
+  // Close the modal if the open task was deleted by someone else
+  useEffect(() => {
+    if (!board || !selectedTask) return;
+    if (!board.columns.some(col => col.tasks.some(t => t.id === selectedTask.id))) {
+      setShowTaskModal(false);
+    }
+  }, [board]);
+
+  const updateTasks = (update: (task: Task) => Task) => {
+    setBoard(prev => prev && {
+      ...prev,
+      columns: prev.columns.map(col => ({ ...col, tasks: col.tasks.map(update) }))
+    });
+  };
+
+  const removeTask = (taskId: string) => {
+    setBoard(prev => prev && {
+      ...prev,
+      columns: prev.columns.map(col => ({ ...col, tasks: col.tasks.filter(t => t.id !== taskId) }))
+    });
+  };
+
+  const upsertTask = (task: Task) => {
+    setBoard(prev => {
+      if (!prev) return prev;
+
+      const existing = prev.columns.flatMap(c => c.tasks).find(t => t.id === task.id);
+      const merged = { ...task, commentCount: existing?.commentCount ?? task.commentCount ?? 0 };
+
+      return {
+        ...prev,
+        columns: prev.columns.map(col => {
+          const others = col.tasks.filter(t => t.id !== task.id);
+          if (col.id !== task.columnId) return { ...col, tasks: others };
+          return { ...col, tasks: [...others, merged].sort((a, b) => a.sortOrder - b.sortOrder) };
+        })
+      };
+    });
+  };
+
   useEffect(() => {
     const taskId = searchParams.get('task');
     if (taskId && board) {
       const task = board.columns.flatMap(c => c.tasks).find(t => t.id === taskId);
       if (task) {
         openTaskModal(task);
+      } else {
+        followMovedTask(taskId);
       }
     }
   }, [searchParams, board]);
 
+  // Old links to a task that was moved to another board
+  const followMovedTask = async (taskId: string) => {
+    try {
+      const res = await fetch(`/api/boards/${boardId}/tasks/${taskId}`);
+      const data = await res.json();
+      if (data.movedTo) {
+        router.replace(`/boards/${data.movedTo.boardId}?task=${taskId}`);
+      }
+    } catch (error) {
+      console.error('Error loading task:', error);
+    }
+  };
+
   const loadBoard = async () => {
     try {
       const res = await fetch(`/api/boards/${boardId}`);
@@ -163,6 +405,16 @@ export default function BoardPage() {
     }
   };
 
+  const loadEpics = async () => {
+    try {
+      const res = await fetch(`/api/boards/${boardId}/epics`);
+      const data = await res.json();
+      setEpics(data.epics || []);
+    } catch (error) {
+      console.error('Error loading epics:', error);
+    }
+  };
+
   const openTaskModal = (task?: Task) => {
     if (task) {
       setSelectedTask(task);
@@ -176,8 +428,19 @@ export default function BoardPage() {
         assigneeId: task.assignee?.id || '',
         storyPoints: task.storyPoints?.toString() || '',
         dueDate: task.dueDate ? task.dueDate.split('T')[0] : '',
-        labelIds: task.labels?.map(l => l.id) || []
+        labelIds: task.labels?.map(l => l.id) || [],
+        parentTaskId: task.parentTaskId || ''
       });
+      setAttachments([]);
+      setWatchers([]);
+      setIsWatching(false);
+      setLinks([]);
+      setLinkForm({ type: 'blocks', targetKey: '' });
+      setLinkError('');
+      setComments([]);
+      setTaskRefs({});
+      setCommentText('');
+      loadTaskDetails(task.id);
     } else {
       setSelectedTask(null);
       setTaskForm({
@@ -190,13 +453,186 @@ export default function BoardPage() {
         assigneeId: '',
         storyPoints: '',
         dueDate: '',
-        labelIds: []
+        labelIds: [],
+        parentTaskId: activeEpic && activeEpic !== 'none' ? activeEpic : ''
       });
     }
     setShowTaskModal(true);
     setError('');
   };
 
+  const loadTaskDetails = async (taskId: string) => {
+    try {
+      const res = await fetch(`/api/boards/${boardId}/tasks/${taskId}`);
+      const data = await res.json();
+      setAttachments(data.task?.attachments || []);
+      setWatchers(data.task?.watchers || []);
+      setIsWatching(!!data.task?.isWatching);
+      setLinks(data.task?.links || []);
+      setComments(data.task?.comments || []);
+      setTaskRefs(data.taskRefs || {});
+    } catch (error) {
+      console.error('Error loading task details:', error);
+    }
+  };
+
+  const handleAddLink = async () => {
+    if (!selectedTask || !linkForm.targetKey.trim()) return;
+
+    setLinkError('');
+    try {
+      const res = await fetch(`/api/boards/${boardId}/tasks/${selectedTask.id}/links`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: linkForm.type, targetKey: linkForm.targetKey.trim() })
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setLinkError(data.error || 'Failed to link task');
+        return;
+      }
+
+      setLinks(data.links || []);
+      setLinkForm({ ...linkForm, targetKey: '' });
+    } catch (error) {
+      setLinkError('Failed to link task');
+    }
+  };
+
+  const handleRemoveLink = async (link: TaskLink) => {
+    if (!selectedTask) return;
+
+    try {
+      const res = await fetch(`/api/boards/${boardId}/tasks/${selectedTask.id}/links/${link.id}`, {
+        method: 'DELETE'
+      });
+      if (res.ok) {
+        setLinks(prev => prev.filter(l => l.id !== link.id));
+      }
+    } catch (error) {
+      console.error('Remove link error:', error);
+    }
+  };
+
+  const handleAddComment = async () => {
+    if (!selectedTask || !commentText.trim()) return;
+
+    setPostingComment(true);
+    try {
+      const res = await fetch(`/api/boards/${boardId}/tasks/${selectedTask.id}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: commentText })
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        setComments(prev => [...prev, data.comment]);
+        setTaskRefs(prev => ({ ...prev, ...data.taskRefs }));
+        setCommentText('');
+      }
+    } catch (error) {
+      console.error('Comment error:', error);
+    } finally {
+      setPostingComment(false);
+    }
+  };
+
+  const handleToggleWatch = async () => {
+    if (!selectedTask) return;
+
+    try {
+      const res = await fetch(`/api/boards/${boardId}/tasks/${selectedTask.id}/watchers`, {
+        method: isWatching ? 'DELETE' : 'POST'
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setWatchers(data.watchers || []);
+        setIsWatching(data.isWatching);
+      }
+    } catch (error) {
+      console.error('Toggle watch error:', error);
+    }
+  };
+
+  const loadAttachments = async (taskId: string) => {
+    try {
+      const res = await fetch(`/api/boards/${boardId}/tasks/${taskId}/attachments`);
+      const data = await res.json();
+      setAttachments(data.attachments || []);
+    } catch (error) {
+      console.error('Error loading attachments:', error);
+    }
+  };
+
+  const handleUploadAttachments = async (fileList: FileList | null) => {
+    if (!selectedTask || !fileList || fileList.length === 0) return;
+
+    setUploadingAttachments(true);
+    try {
+      const formData = new FormData();
+      Array.from(fileList).forEach(file => formData.append('file', file));
+
+      const res = await fetch(`/api/boards/${boardId}/tasks/${selectedTask.id}/attachments`, {
+        method: 'POST',
+        body: formData
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || 'Failed to upload attachment');
+        return;
+      }
+
+      await loadAttachments(selectedTask.id);
+    } catch (error) {
+      setError('Failed to upload attachment');
+    } finally {
+      setUploadingAttachments(false);
+    }
+  };
+
+  const handleDeleteAttachment = async (attachment: Attachment) => {
+    if (!selectedTask) return;
+    if (!confirm(`Delete attachment "${attachment.originalName}"?`)) return;
+
+    try {
+      await fetch(`/api/boards/${boardId}/tasks/${selectedTask.id}/attachments/${attachment.id}`, {
+        method: 'DELETE'
+      });
+      setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+    } catch (error) {
+      console.error('Delete attachment error:', error);
+    }
+  };
+
+  const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return bytes + ' B';
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  };
+
+  // Send a task create/update; when a blocking WIP limit refuses it, board admins may retry with an override
+  const sendTaskRequest = async (url: string, method: 'POST' | 'PUT', body: Record<string, any>) => {
+    const send = (payload: Record<string, any>) => fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    });
+
+    let res = await send(body);
+    let data = await res.json();
+
+    if (res.status === 409 && data.code === 'wip_limit_exceeded' && data.canOverride &&
+        confirm(`${data.message}. Override the WIP limit?`)) {
+      res = await send({ ...body, overrideWipLimit: true });
+      data = await res.json();
+    }
+
+    return { res, data };
+  };
+
   const handleSaveTask = async () => {
     if (!taskForm.title.trim()) {
       setError('Task title is required');
@@ -211,24 +647,20 @@ export default function BoardPage() {
         ? `/api/boards/${boardId}/tasks/${selectedTask.id}`
         : `/api/boards/${boardId}/tasks`;
       
-      const res = await fetch(url, {
-        method: selectedTask ? 'PUT' : 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          ...taskForm,
-          storyPoints: taskForm.storyPoints ? parseInt(taskForm.storyPoints) : null,
-          sprintId: taskForm.sprintId || null,
-          assigneeId: taskForm.assigneeId || null
-        })
+      const { res, data } = await sendTaskRequest(url, selectedTask ? 'PUT' : 'POST', {
+        ...taskForm,
+        storyPoints: taskForm.storyPoints ? parseInt(taskForm.storyPoints) : null,
+        sprintId: taskForm.sprintId || null,
+        assigneeId: taskForm.assigneeId || null,
+        parentTaskId: taskForm.parentTaskId || null
       });
 
-      const data = await res.json();
-
       if (!res.ok) {
         setError(data.error || 'Failed to save task');
         return;
       }
 
+      setWarnings(data.warnings || []);
       setShowTaskModal(false);
       loadBoard();
     } catch (error) {
@@ -242,17 +674,16 @@ export default function BoardPage() {
     if (!quickAddTitle.trim()) return;
 
     try {
-      const res = await fetch(`/api/boards/${boardId}/tasks`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          title: quickAddTitle,
-          columnId,
-          sprintId: activeSprint
-        })
+      const { res, data } = await sendTaskRequest(`/api/boards/${boardId}/tasks`, 'POST', {
+        title: quickAddTitle,
+        columnId,
+        sprintId: activeSprint
       });
 
-      if (res.ok) {
+      if (!res.ok) {
+        alert(data.error || 'Failed to create task');
+      } else {
+        setWarnings(data.warnings || []);
         setQuickAddColumn(null);
         setQuickAddTitle('');
         loadBoard();
@@ -279,11 +710,11 @@ export default function BoardPage() {
     }
 
     try {
-      await fetch(`/api/boards/${boardId}/tasks/${draggedTask.id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ columnId })
-      });
+      const { res, data } = await sendTaskRequest(`/api/boards/${boardId}/tasks/${draggedTask.id}`, 'PUT', { columnId });
+      if (!res.ok) {
+        alert(data.error || 'Failed to move task');
+      }
+      setWarnings(data.warnings || []);
       loadBoard();
     } catch (error) {
       console.error('Move task error:', error);
@@ -293,10 +724,73 @@ export default function BoardPage() {
     setDragOverColumn(null);
   };
 
+  const handleStartSprint = async (sprint: Sprint) => {
+    if (!confirm(`Start "${sprint.name}"?`)) return;
+
+    try {
+      const res = await fetch(`/api/boards/${boardId}/sprints/${sprint.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'active' })
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        alert(data.error || 'Failed to start sprint');
+        return;
+      }
+
+      loadBoard();
+    } catch (error) {
+      console.error('Start sprint error:', error);
+    }
+  };
+
+  const openCompleteSprint = () => {
+    setCompleteMoveTo(board?.sprints.find(sp => sp.status === 'planning')?.id || 'backlog');
+    setSprintSummary(null);
+    setSprintError('');
+    setShowCompleteSprint(true);
+  };
+
+  const handleCompleteSprint = async () => {
+    if (!activeSprint) return;
+
+    setCompletingSprint(true);
+    setSprintError('');
+    try {
+      const res = await fetch(`/api/boards/${boardId}/sprints/${activeSprint}/complete`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ moveTo: completeMoveTo })
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setSprintError(data.error || 'Failed to complete sprint');
+        return;
+      }
+
+      setSprintSummary(data.summary);
+      loadBoard();
+    } catch (error) {
+      setSprintError('Failed to complete sprint');
+    } finally {
+      setCompletingSprint(false);
+    }
+  };
+
   const handleDeleteTask = async () => {
     if (!selectedTask) return;
     
-    if (!confirm(`Delete "${board?.key}-${selectedTask.taskNumber}: ${selectedTask.title}"?`)) return;
+    const children = board?.columns.flatMap(col => col.tasks).filter(t => t.parentTaskId === selectedTask.id) ?? [];
+    const subtaskCount = children.filter(t => t.type === 'subtask').length;
+    const otherCount = children.length - subtaskCount;
+    const consequences = [
+      subtaskCount > 0 && ` Its ${subtaskCount} subtask${subtaskCount === 1 ? ' is' : 's are'} deleted too.`,
+      otherCount > 0 && ` Its ${otherCount} child task${otherCount === 1 ? '' : 's'} will stay on the board.`
+    ].filter(Boolean).join('');
+    if (!confirm(`Delete "${board?.key}-${selectedTask.taskNumber}: ${selectedTask.title}"?${consequences}`)) return;
 
     try {
       await fetch(`/api/boards/${boardId}/tasks/${selectedTask.id}`, {
@@ -309,6 +803,146 @@ export default function BoardPage() {
     }
   };
 
+  const openMoveTask = async () => {
+    setMoveForm({ targetBoardId: '', columnId: '' });
+    setMoveColumns([]);
+    setMoveError('');
+    setShowMoveTask(true);
+    try {
+      const res = await fetch(`/api/boards?organizationId=${board?.organizationId}`);
+      const data = await res.json();
+      setMoveTargets((data.boards || []).filter((b: any) => b.id !== boardId && b.myPermission !== 'read'));
+    } catch (error) {
+      setMoveError('Failed to load boards');
+    }
+  };
+
+  const selectMoveTarget = async (targetBoardId: string) => {
+    setMoveForm({ targetBoardId, columnId: '' });
+    setMoveColumns([]);
+    if (!targetBoardId) return;
+    try {
+      const res = await fetch(`/api/boards/${targetBoardId}`);
+      const data = await res.json();
+      setMoveColumns(data.board?.columns || []);
+    } catch (error) {
+      console.error('Error loading board:', error);
+    }
+  };
+
+  const handleMoveTask = async () => {
+    if (!selectedTask || !moveForm.targetBoardId) return;
+
+    setMovingTask(true);
+    setMoveError('');
+    try {
+      const { res, data } = await sendTaskRequest(`/api/boards/${boardId}/tasks/${selectedTask.id}/move`, 'POST', {
+        targetBoardId: moveForm.targetBoardId,
+        columnId: moveForm.columnId || null
+      });
+
+      if (!res.ok) {
+        setMoveError(data.error || 'Failed to move task');
+        return;
+      }
+
+      setShowMoveTask(false);
+      setShowTaskModal(false);
+      router.push(`/boards/${data.board.id}?task=${data.task.id}`);
+    } catch (error) {
+      setMoveError('Failed to move task');
+    } finally {
+      setMovingTask(false);
+    }
+  };
+
+  const showField = (field: FilterCardField) => !view?.visibleFields || view.visibleFields.includes(field);
+
+  const allTasks = board ? board.columns.flatMap(c => c.tasks) : [];
+
+  // The epic a task rolls up to: its parent, or its parent's parent for subtasks
+  const getEpicId = (task: Task): string | null => {
+    const parent = allTasks.find(t => t.id === task.parentTaskId);
+    if (!parent) return null;
+    if (parent.type === 'epic') return parent.id;
+    const grandparent = allTasks.find(t => t.id === parent.parentTaskId);
+    return grandparent?.type === 'epic' ? grandparent.id : null;
+  };
+
+  const matchesEpic = (task: Task) => {
+    if (!activeEpic) return true;
+    if (activeEpic === 'none') return task.type !== 'epic' && !getEpicId(task);
+    return task.id === activeEpic || getEpicId(task) === activeEpic;
+  };
+
+  const getColumnTasks = (column: Column, lane: Lane) => {
+    let columnTasks = column.tasks.filter(t =>
+      (!activeSprint || t.sprintId === activeSprint || !t.sprintId) && matchesEpic(t) && lane.matches(t)
+    );
+
+    if (view) {
+      const rank = new Map(view.taskIds.map((id, index) => [id, index]));
+      columnTasks = columnTasks.filter(t => rank.has(t.id));
+      if (view.sorted) {
+        columnTasks.sort((a, b) => rank.get(a.id)! - rank.get(b.id)!);
+      }
+    }
+
+    return columnTasks;
+  };
+
+  // Swimlanes for the active filter's "group by" field
+  const getLanes = (): Lane[] => {
+    if (!board || !view?.groupBy) {
+      return [{ key: 'all', label: null, matches: () => true }];
+    }
+
+    const lanes = new Map<string, Lane>();
+    const addLane = (key: string, label: string, matches: (task: Task) => boolean) => {
+      if (!lanes.has(key)) lanes.set(key, { key, label, matches });
+    };
+
+    switch (view.groupBy) {
+      case 'assignee':
+        allTasks.forEach(t => t.assignee
+          ? addLane(t.assignee.id, t.assignee.displayName || t.assignee.username, task => task.assignee?.id === t.assignee!.id)
+          : addLane('none', 'Unassigned', task => !task.assignee)
+        );
+        break;
+      case 'priority':
+        PRIORITIES.forEach(p => addLane(p.value, p.label, task => task.priority === p.value));
+        break;
+      case 'type':
+        TASK_TYPES.forEach(t => addLane(t.value, t.label, task => task.type === t.value));
+        break;
+      case 'sprint':
+        board.sprints.forEach(sp => addLane(sp.id, sp.name, task => task.sprintId === sp.id));
+        addLane('none', 'Backlog', task => !task.sprintId);
+        break;
+      case 'label':
+        board.labels.forEach(l => addLane(l.id, l.name, task => !!task.labels?.some(tl => tl.id === l.id)));
+        addLane('none', 'No label', task => !task.labels?.length);
+        break;
+      case 'epic':
+        epics.forEach(epic => lanes.set(epic.id, {
+          key: epic.id,
+          label: `${epic.taskKey}: ${epic.title}`,
+          epic,
+          matches: task => getEpicId(task) === epic.id
+        }));
+        // Epics themselves sit with the tasks that have no epic
+        addLane('none', 'No epic', task => !getEpicId(task));
+        break;
+    }
+
+    // Hide lanes with nothing to show under the current filter
+    return Array.from(lanes.values()).filter(lane =>
+      board.columns.some(column => getColumnTasks(column, lane).length > 0)
+    );
+  };
+
+  const selectedSprint = board?.sprints.find(sp => sp.id === activeSprint);
+
   const getTypeInfo = (type: string) => TASK_TYPES.find(t => t.value === type) || TASK_TYPES[1];
   const getPriorityInfo = (priority: string) => PRIORITIES.find(p => p.value === priority) || PRIORITIES[2];
 
@@ -335,6 +969,22 @@ export default function BoardPage() {
           {board.description && <p className="text-muted">{board.description}</p>}
         </div>
         <div className="flex gap-2">
+          <div className="mode-toggle">
+            <button
+              className={`btn btn-sm ${mode === 'board' ? 'btn-primary' : 'btn-ghost'}`}
+              onClick={() => setMode('board')}
+            >
+              <Columns size={16} />
+              Board
+            </button>
+            <button
+              className={`btn btn-sm ${mode === 'reports' ? 'btn-primary' : 'btn-ghost'}`}
+              onClick={() => setMode('reports')}
+            >
+              <BarChart3 size={16} />
+              Reports
+            </button>
+          </div>
           {board.sprints.length > 0 && (
             <select 
               className="form-input"
@@ -350,6 +1000,37 @@ export default function BoardPage() {
               ))}
             </select>
           )}
+          {selectedSprint && board.myPermission !== 'read' && selectedSprint.status === 'planning' && (
+            <button className="btn btn-secondary" onClick={() => handleStartSprint(selectedSprint)}>
+              Start Sprint
+            </button>
+          )}
+          {selectedSprint && board.myPermission !== 'read' && selectedSprint.status === 'active' && (
+            <button className="btn btn-secondary" onClick={openCompleteSprint}>
+              Complete Sprint
+            </button>
+          )}
+          {epics.length > 0 && (
+            <select
+              className="form-input"
+              value={activeEpic}
+              onChange={(e) => setActiveEpic(e.target.value)}
+              style={{ width: '200px' }}
+            >
+              <option value="">All Epics</option>
+              <option value="none">No Epic</option>
+              {epics.map(epic => (
+                <option key={epic.id} value={epic.id}>
+                  {epic.taskKey}: {epic.title} ({epic.percentDone}%)
+                </option>
+              ))}
+            </select>
+          )}
+          {board.myPermission === 'admin' && (
+            <button className="btn btn-ghost btn-icon" onClick={() => setShowSettings(true)} title="Board settings">
+              <Settings size={18} />
+            </button>
+          )}
           {board.myPermission !== 'read' && (
             <button className="btn btn-primary" onClick={() => openTaskModal()}>
               <Plus size={18} />
@@ -359,139 +1040,300 @@ export default function BoardPage() {
         </div>
       </div>
 
-      <div className="kanban-board">
-        {board.columns.map(column => {
-          const columnTasks = column.tasks.filter(t => 
-            !activeSprint || t.sprintId === activeSprint || !t.sprintId
-          );
-          
-          return (
-            <div 
-              key={column.id}
-              className={`kanban-column ${dragOverColumn === column.id ? 'drag-over' : ''}`}
-              onDragOver={(e) => handleDragOver(e, column.id)}
-              onDrop={() => handleDrop(column.id)}
-            >
-              <div className="kanban-column-header" style={{ borderTopColor: column.color || '#6366f1' }}>
-                <span className="column-name">{column.name}</span>
-                <span className="column-count">{columnTasks.length}</span>
-                {column.wipLimit && columnTasks.length > column.wipLimit && (
-                  <span className="wip-warning" title="WIP limit exceeded">
-                    <AlertCircle size={14} />
+      {/* Kept mounted in reports mode so the active filter survives switching back */}
+      <div hidden={mode !== 'board'}>
+        <BoardFilterBar
+          boardId={boardId}
+          groups={board.groupAccess?.map(ga => ga.group) || []}
+          isAdmin={board.myPermission === 'admin'}
+          refreshKey={board}
+          onChange={setView}
+        />
+
+        {warnings.map(warning => (
+          <div key={warning.code} className="alert alert-warning board-warning">
+            <AlertCircle size={16} />
+            <span>{warning.message}</span>
+            <button className="btn btn-ghost btn-icon btn-sm" onClick={() => setWarnings([])} title="Dismiss">
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+
+        {getLanes().map(lane => (
+          <div key={lane.key} className="board-lane">
+            {lane.label !== null && (
+              <div className="board-lane-header">
+                <span>{lane.label}</span>
+                {lane.epic && (
+                  <span className="epic-progress">
+                    <span className="epic-progress-bar">
+                      <span style={{ width: `${lane.epic.percentDone}%` }} />
+                    </span>
+                    {lane.epic.percentDone}% · {lane.epic.doneCount}/{lane.epic.childCount} done
+                    {lane.epic.totalPoints > 0 && ` · ${lane.epic.donePoints}/${lane.epic.totalPoints} pts`}
+                    {lane.epic.startDate && lane.epic.endDate && (
+                      ` · ${new Date(lane.epic.startDate).toLocaleDateString()} – ${new Date(lane.epic.endDate).toLocaleDateString()}`
+                    )}
                   </span>
                 )}
               </div>
-
-              <div className="kanban-column-content">
-                {columnTasks.map(task => {
-                  const typeInfo = getTypeInfo(task.type);
-                  const priorityInfo = getPriorityInfo(task.priority);
-                  
-                  return (
-                    <div
-                      key={task.id}
-                      className={`task-card ${draggedTask?.id === task.id ? 'dragging' : ''}`}
-                      draggable={board.myPermission !== 'read'}
-                      onDragStart={() => handleDragStart(task)}
-                      onClick={() => openTaskModal(task)}
-                    >
-                      <div className="task-card-header">
-                        <span className="task-type" style={{ color: typeInfo.color }} title={typeInfo.label}>
-                          {typeInfo.icon}
+            )}
+            <div className="kanban-board">
+              {board.columns.map(column => {
+                const columnTasks = getColumnTasks(column, lane);
+            
+                return (
+                  <div 
+                    key={column.id}
+                    className={`kanban-column ${dragOverColumn === column.id ? 'drag-over' : ''}`}
+                    onDragOver={(e) => handleDragOver(e, column.id)}
+                    onDrop={() => handleDrop(column.id)}
+                  >
+                    <div className="kanban-column-header" style={{ borderTopColor: column.color || '#6366f1' }}>
+                      <span className="column-name">{column.name}</span>
+                      <span className="column-count">
+                        {columnTasks.length}{column.wipLimit && column.wipMode !== 'off' ? ` / ${column.wipLimit}` : ''}
+                      </span>
+                      {column.wipLimit && column.wipMode !== 'off' && columnTasks.length > column.wipLimit && (
+                        <span className="wip-warning" title="WIP limit exceeded">
+                          <AlertCircle size={14} />
                         </span>
-                        <span className="task-key">{board.key}-{task.taskNumber}</span>
-                      </div>
-                      
-                      <div className="task-title">{task.title}</div>
-                      
-                      {task.labels && task.labels.length > 0 && (
-                        <div className="task-labels">
-                          {task.labels.slice(0, 3).map(label => (
-                            <span 
-                              key={label.id} 
-                              className="task-label"
-                              style={{ backgroundColor: label.color + '30', color: label.color }}
-                            >
-                              {label.name}
-                            </span>
-                          ))}
-                          {task.labels.length > 3 && (
-                            <span className="task-label-more">+{task.labels.length - 3}</span>
-                          )}
-                        </div>
                       )}
+                    </div>
 
-                      <div className="task-card-footer">
-                        <div className="task-meta">
-                          <span className="priority-icon" style={{ color: priorityInfo.color }} title={priorityInfo.label}>
-                            <Flag size={12} />
-                          </span>
-                          {task.storyPoints && (
-                            <span className="story-points">{task.storyPoints}</span>
-                          )}
-                          {task.dueDate && (
-                            <span className="due-date">
-                              <Calendar size={12} />
-                              {new Date(task.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
-                            </span>
-                          )}
-                        </div>
-                        {task.assignee && (
-                          <div 
-                            className="task-assignee" 
-                            title={task.assignee.displayName || task.assignee.username}
+                    <div className="kanban-column-content">
+                      {columnTasks.map(task => {
+                        const typeInfo = getTypeInfo(task.type);
+                        const priorityInfo = getPriorityInfo(task.priority);
+                    
+                        return (
+                          <div
+                            key={task.id}
+                            className={`task-card ${draggedTask?.id === task.id ? 'dragging' : ''}`}
+                            draggable={board.myPermission !== 'read'}
+                            onDragStart={() => handleDragStart(task)}
+                            onClick={() => openTaskModal(task)}
                           >
-                            {task.assignee.displayName?.[0]?.toUpperCase() || task.assignee.username[0].toUpperCase()}
+                            <div className="task-card-header">
+                              {showField('type') && (
+                                <span className="task-type" style={{ color: typeInfo.color }} title={typeInfo.label}>
+                                  {typeInfo.icon}
+                                </span>
+                              )}
+                              <span className="task-key">{board.key}-{task.taskNumber}</span>
+                            </div>
+                        
+                            <div className="task-title">{task.title}</div>
+                        
+                            {showField('labels') && task.labels && task.labels.length > 0 && (
+                              <div className="task-labels">
+                                {task.labels.slice(0, 3).map(label => (
+                                  <span 
+                                    key={label.id} 
+                                    className="task-label"
+                                    style={{ backgroundColor: label.color + '30', color: label.color }}
+                                  >
+                                    {label.name}
+                                  </span>
+                                ))}
+                                {task.labels.length > 3 && (
+                                  <span className="task-label-more">+{task.labels.length - 3}</span>
+                                )}
+                              </div>
+                            )}
+
+                            <div className="task-card-footer">
+                              <div className="task-meta">
+                                {showField('priority') && (
+                                  <span className="priority-icon" style={{ color: priorityInfo.color }} title={priorityInfo.label}>
+                                    <Flag size={12} />
+                                  </span>
+                                )}
+                                {showField('points') && task.storyPoints && (
+                                  <span className="story-points">{task.storyPoints}</span>
+                                )}
+                                {showField('comments') && !!task.commentCount && (
+                                  <span className="comment-count" title={`${task.commentCount} comments`}>
+                                    <MessageSquare size={12} />
+                                    {task.commentCount}
+                                  </span>
+                                )}
+                                {showField('due') && task.dueDate && (
+                                  <span className="due-date">
+                                    <Calendar size={12} />
+                                    {new Date(task.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                                  </span>
+                                )}
+                              </div>
+                              {showField('assignee') && task.assignee && (
+                                <div 
+                                  className="task-assignee" 
+                                  title={task.assignee.displayName || task.assignee.username}
+                                >
+                                  {task.assignee.displayName?.[0]?.toUpperCase() || task.assignee.username[0].toUpperCase()}
+                                </div>
+                              )}
+                            </div>
                           </div>
-                        )}
-                      </div>
-                    </div>
-                  );
-                })}
+                        );
+                      })}
 
-                {/* Quick Add */}
-                {board.myPermission !== 'read' && (
-                  <>
-                    {quickAddColumn === column.id ? (
-                      <div className="quick-add-form">
-                        <input
-                          type="text"
-                          className="form-input"
-                          placeholder="What needs to be done?"
-                          value={quickAddTitle}
-                          onChange={(e) => setQuickAddTitle(e.target.value)}
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter') handleQuickAdd(column.id);
-                            if (e.key === 'Escape') setQuickAddColumn(null);
-                          }}
-                          autoFocus
-                        />
-                        <div className="quick-add-actions">
-                          <button className="btn btn-primary btn-sm" onClick={() => handleQuickAdd(column.id)}>
-                            Add
-                          </button>
-                          <button className="btn btn-ghost btn-sm" onClick={() => setQuickAddColumn(null)}>
-                            <X size={14} />
-                          </button>
-                        </div>
-                      </div>
-                    ) : (
-                      <button 
-                        className="quick-add-btn"
-                        onClick={() => setQuickAddColumn(column.id)}
-                      >
-                        <Plus size={16} />
-                        Add task
-                      </button>
-                    )}
-                  </>
-                )}
-              </div>
+                      {/* Quick Add */}
+                      {board.myPermission !== 'read' && (
+                        <>
+                          {quickAddColumn === column.id ? (
+                            <div className="quick-add-form">
+                              <input
+                                type="text"
+                                className="form-input"
+                                placeholder="What needs to be done?"
+                                value={quickAddTitle}
+                                onChange={(e) => setQuickAddTitle(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') handleQuickAdd(column.id);
+                                  if (e.key === 'Escape') setQuickAddColumn(null);
+                                }}
+                                autoFocus
+                              />
+                              <div className="quick-add-actions">
+                                <button className="btn btn-primary btn-sm" onClick={() => handleQuickAdd(column.id)}>
+                                  Add
+                                </button>
+                                <button className="btn btn-ghost btn-sm" onClick={() => setQuickAddColumn(null)}>
+                                  <X size={14} />
+                                </button>
+                              </div>
+                            </div>
+                          ) : (
+                            <button 
+                              className="quick-add-btn"
+                              onClick={() => setQuickAddColumn(column.id)}
+                            >
+                              <Plus size={16} />
+                              Add task
+                            </button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
             </div>
-          );
-        })}
+          </div>
+        ))}
       </div>
 
+      {mode === 'reports' && (
+        <BoardReports boardId={boardId} sprints={board.sprints} refreshKey={board} />
+      )}
+
+      <BoardSettings
+        boardId={boardId}
+        boardName={board.name}
+        organizationId={board.organizationId}
+        columns={board.columns}
+        groups={board.groupAccess?.map(ga => ga.group) || []}
+        labels={board.labels}
+        isOpen={showSettings}
+        onClose={() => setShowSettings(false)}
+      />
+
+      {/* Complete Sprint Modal */}
+      <Modal
+        isOpen={showCompleteSprint}
+        onClose={() => setShowCompleteSprint(false)}
+        title={`Complete ${selectedSprint?.name || 'Sprint'}`}
+        footer={sprintSummary ? (
+          <button className="btn btn-primary" onClick={() => setShowCompleteSprint(false)}>Done</button>
+        ) : (
+          <>
+            <button className="btn btn-secondary" onClick={() => setShowCompleteSprint(false)}>Cancel</button>
+            <button className="btn btn-primary" onClick={handleCompleteSprint} disabled={completingSprint}>
+              {completingSprint ? <span className="spinner" /> : 'Complete Sprint'}
+            </button>
+          </>
+        )}
+      >
+        {sprintError && <div className="alert alert-error mb-4">{sprintError}</div>}
+        {sprintSummary ? (
+          <div className="sprint-summary">
+            <div>
+              <strong>{sprintSummary.completedPoints}</strong> of <strong>{sprintSummary.committedPoints}</strong> committed points completed
+            </div>
+            <div className="text-muted">
+              {sprintSummary.completedTaskCount} tasks done, {sprintSummary.carriedOverTaskCount} tasks
+              ({sprintSummary.carriedOverPoints} pts) moved to{' '}
+              {board.sprints.find(sp => sp.id === sprintSummary.carriedOverToSprintId)?.name || 'the backlog'}
+            </div>
+          </div>
+        ) : (
+          <div className="form-group">
+            <label className="form-label">Move unfinished tasks to</label>
+            <select
+              className="form-input"
+              value={completeMoveTo}
+              onChange={(e) => setCompleteMoveTo(e.target.value)}
+            >
+              <option value="backlog">Backlog</option>
+              {board.sprints.filter(sp => sp.status === 'planning').map(sprint => (
+                <option key={sprint.id} value={sprint.id}>{sprint.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </Modal>
+
+      {/* Move Task Modal */}
+      <Modal
+        isOpen={showMoveTask}
+        onClose={() => setShowMoveTask(false)}
+        title={selectedTask ? `Move ${board.key}-${selectedTask.taskNumber}` : 'Move Task'}
+        footer={
+          <>
+            <button className="btn btn-secondary" onClick={() => setShowMoveTask(false)}>Cancel</button>
+            <button className="btn btn-primary" onClick={handleMoveTask} disabled={movingTask || !moveForm.targetBoardId}>
+              {movingTask ? <span className="spinner" /> : 'Move Task'}
+            </button>
+          </>
+        }
+      >
+        {moveError && <div className="alert alert-error mb-4">{moveError}</div>}
+        <p className="text-sm text-muted mb-4">
+          The task and its subtasks get new keys on the target board; the old keys keep working.
+          Labels and sprints are matched by name.
+        </p>
+        <div className="form-group">
+          <label className="form-label">Board</label>
+          <select
+            className="form-input"
+            value={moveForm.targetBoardId}
+            onChange={(e) => selectMoveTarget(e.target.value)}
+          >
+            <option value="">Select a board</option>
+            {moveTargets.map(target => (
+              <option key={target.id} value={target.id}>{target.name} ({target.key})</option>
+            ))}
+          </select>
+        </div>
+        {moveForm.targetBoardId && (
+          <div className="form-group">
+            <label className="form-label">Column</label>
+            <select
+              className="form-input"
+              value={moveForm.columnId}
+              onChange={(e) => setMoveForm({ ...moveForm, columnId: e.target.value })}
+            >
+              <option value="">Same name, or the default column</option>
+              {moveColumns.map(column => (
+                <option key={column.id} value={column.id}>{column.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </Modal>
+
       {/* Task Modal */}
       <Modal
         isOpen={showTaskModal}
@@ -501,10 +1343,26 @@ export default function BoardPage() {
         footer={
           <>
             {selectedTask && board.myPermission !== 'read' && (
-              <button className="btn btn-danger" onClick={handleDeleteTask} style={{ marginRight: 'auto' }}>
+              <button className="btn btn-danger" onClick={handleDeleteTask}>
                 Delete
               </button>
             )}
+            {selectedTask && board.myPermission !== 'read' && (
+              <button className="btn btn-secondary" onClick={openMoveTask}>
+                Move
+              </button>
+            )}
+            {selectedTask && (
+              <button
+                className="btn btn-ghost"
+                onClick={handleToggleWatch}
+                title={watchers.map(w => w.user?.displayName || w.user?.username).join(', ') || 'No watchers'}
+                style={{ marginRight: 'auto' }}
+              >
+                {isWatching ? <EyeOff size={16} /> : <Eye size={16} />}
+                {isWatching ? 'Unwatch' : 'Watch'} ({watchers.length})
+              </button>
+            )}
             <button className="btn btn-secondary" onClick={() => setShowTaskModal(false)}>Cancel</button>
             {board.myPermission !== 'read' && (
               <button className="btn btn-primary" onClick={handleSaveTask} disabled={saving}>
@@ -540,6 +1398,172 @@ export default function BoardPage() {
                 disabled={board.myPermission === 'read'}
               />
             </div>
+
+            {selectedTask && (
+              <div className="form-group">
+                <label className="form-label">
+                  <Link2 size={14} style={{ marginRight: '0.375rem' }} />
+                  Linked Tasks
+                </label>
+                {links.length > 0 && (
+                  <div className="attachment-list">
+                    {links.map(link => (
+                      <div key={link.id} className="attachment-item">
+                        <span className="link-type">{link.label}</span>
+                        <a
+                          className="attachment-name"
+                          href={`/boards/${link.task.boardId}?task=${link.task.id}`}
+                          title={link.task.title}
+                        >
+                          <span className="link-key">{link.task.taskKey}</span> {link.task.title}
+                        </a>
+                        {link.task.column && (
+                          <span className="attachment-size">{link.task.column.name}</span>
+                        )}
+                        {board.myPermission !== 'read' && (
+                          <button
+                            className="btn btn-ghost btn-icon btn-sm"
+                            onClick={() => handleRemoveLink(link)}
+                            title="Remove link"
+                          >
+                            <X size={14} />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {board.myPermission !== 'read' && (
+                  <div className="link-form">
+                    <select
+                      className="form-input"
+                      value={linkForm.type}
+                      onChange={(e) => setLinkForm({ ...linkForm, type: e.target.value })}
+                    >
+                      {LINK_TYPES.map(type => (
+                        <option key={type.value} value={type.value}>{type.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      className="form-input"
+                      value={linkForm.targetKey}
+                      onChange={(e) => setLinkForm({ ...linkForm, targetKey: e.target.value })}
+                      onKeyDown={(e) => e.key === 'Enter' && handleAddLink()}
+                      placeholder={`${board.key}-1`}
+                    />
+                    <button className="btn btn-secondary" onClick={handleAddLink} disabled={!linkForm.targetKey.trim()}>
+                      Link
+                    </button>
+                  </div>
+                )}
+                {linkError && <div className="form-error">{linkError}</div>}
+              </div>
+            )}
+
+            {selectedTask && (
+              <div className="form-group">
+                <label className="form-label">
+                  <Paperclip size={14} style={{ marginRight: '0.375rem' }} />
+                  Attachments
+                </label>
+                {attachments.length > 0 && (
+                  <div className="attachment-list">
+                    {attachments.map(attachment => (
+                      <div key={attachment.id} className="attachment-item">
+                        <span className="attachment-name" title={attachment.originalName}>
+                          {attachment.originalName}
+                        </span>
+                        <span className="attachment-size">{formatFileSize(attachment.size)}</span>
+                        <a
+                          className="btn btn-ghost btn-icon btn-sm"
+                          href={`/api/boards/${boardId}/tasks/${selectedTask.id}/attachments/${attachment.id}`}
+                          title="Download"
+                        >
+                          <Download size={14} />
+                        </a>
+                        {board.myPermission !== 'read' && (
+                          <button
+                            className="btn btn-ghost btn-icon btn-sm"
+                            onClick={() => handleDeleteAttachment(attachment)}
+                            title="Delete"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {board.myPermission !== 'read' && (
+                  <label
+                    className={`attachment-dropzone ${dragOverAttachments ? 'drag-over' : ''}`}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDragOverAttachments(true);
+                    }}
+                    onDragLeave={() => setDragOverAttachments(false)}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      setDragOverAttachments(false);
+                      handleUploadAttachments(e.dataTransfer.files);
+                    }}
+                  >
+                    {uploadingAttachments ? (
+                      <span className="spinner" />
+                    ) : (
+                      'Drop files here or click to upload'
+                    )}
+                    <input
+                      type="file"
+                      multiple
+                      style={{ display: 'none' }}
+                      onChange={(e) => {
+                        handleUploadAttachments(e.target.files);
+                        e.target.value = '';
+                      }}
+                      disabled={uploadingAttachments}
+                    />
+                  </label>
+                )}
+              </div>
+            )}
+
+            {selectedTask && (
+              <div className="form-group">
+                <label className="form-label">
+                  <MessageSquare size={14} style={{ marginRight: '0.375rem' }} />
+                  Comments
+                </label>
+                {comments.map(comment => (
+                  <div key={comment.id} className="task-comment">
+                    <div className="task-comment-meta">
+                      <strong>{comment.user?.displayName || comment.user?.username}</strong>
+                      <span className="text-muted">{new Date(comment.createdAt).toLocaleString()}</span>
+                    </div>
+                    <TaskKeyText text={comment.content} refs={taskRefs} />
+                  </div>
+                ))}
+                {board.myPermission !== 'read' && (
+                  <div className="link-form">
+                    <textarea
+                      className="form-input"
+                      value={commentText}
+                      onChange={(e) => setCommentText(e.target.value)}
+                      placeholder={`Add a comment... (mention tasks like ${board.key}-1)`}
+                      rows={2}
+                    />
+                    <button
+                      className="btn btn-secondary"
+                      onClick={handleAddComment}
+                      disabled={postingComment || !commentText.trim()}
+                    >
+                      {postingComment ? <span className="spinner" /> : 'Comment'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           <div className="task-form-sidebar">
@@ -548,7 +1572,13 @@ export default function BoardPage() {
               <select
                 className="form-input"
                 value={taskForm.type}
-                onChange={(e) => setTaskForm({ ...taskForm, type: e.target.value as any })}
+                onChange={(e) => {
+                  const type = e.target.value as typeof taskForm.type;
+                  const parent = allTasks.find(t => t.id === taskForm.parentTaskId);
+                  // Drop a parent the new type cannot sit under
+                  const keepParent = parent && PARENT_TYPES[type].includes(parent.type);
+                  setTaskForm({ ...taskForm, type, parentTaskId: keepParent ? taskForm.parentTaskId : '' });
+                }}
                 disabled={board.myPermission === 'read'}
               >
                 {TASK_TYPES.map(type => (
@@ -557,6 +1587,25 @@ export default function BoardPage() {
               </select>
             </div>
 
+            {PARENT_TYPES[taskForm.type].length > 0 && (
+              <div className="form-group">
+                <label className="form-label">{taskForm.type === 'subtask' ? 'Parent' : 'Epic'}</label>
+                <select
+                  className="form-input"
+                  value={taskForm.parentTaskId}
+                  onChange={(e) => setTaskForm({ ...taskForm, parentTaskId: e.target.value })}
+                  disabled={board.myPermission === 'read'}
+                >
+                  <option value="">None</option>
+                  {allTasks
+                    .filter(t => t.id !== selectedTask?.id && PARENT_TYPES[taskForm.type].includes(t.type))
+                    .map(t => (
+                      <option key={t.id} value={t.id}>{board.key}-{t.taskNumber}: {t.title}</option>
+                    ))}
+                </select>
+              </div>
+            )}
+
             <div className="form-group">
               <label className="form-label">Priority</label>
               <select
@@ -671,6 +1720,43 @@ export default function BoardPage() {
           color: var(--primary-color);
         }
         
+        .board-lane + .board-lane {
+          margin-top: 1.5rem;
+        }
+
+        .board-lane-header {
+          display: flex;
+          align-items: center;
+          gap: 1rem;
+          font-weight: 600;
+          margin-bottom: 0.75rem;
+          padding-bottom: 0.375rem;
+          border-bottom: 1px solid var(--border-color);
+        }
+
+        .epic-progress {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          font-size: 0.75rem;
+          font-weight: 400;
+          color: var(--text-muted);
+        }
+
+        .epic-progress-bar {
+          width: 120px;
+          height: 6px;
+          background: var(--glass-bg-hover);
+          border-radius: 9999px;
+          overflow: hidden;
+        }
+
+        .epic-progress-bar span {
+          display: block;
+          height: 100%;
+          background: var(--success-color);
+        }
+
         .kanban-board {
           display: flex;
           gap: 1rem;
@@ -814,7 +1900,8 @@ export default function BoardPage() {
           font-weight: 600;
         }
         
-        .due-date {
+        .due-date,
+        .comment-count {
           display: flex;
           align-items: center;
           gap: 0.25rem;
@@ -885,6 +1972,118 @@ export default function BoardPage() {
           box-shadow: none;
         }
         
+        .attachment-list {
+          display: flex;
+          flex-direction: column;
+          gap: 0.25rem;
+          margin-bottom: 0.5rem;
+        }
+        
+        .attachment-item {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          padding: 0.25rem 0.5rem;
+          border: 1px solid var(--glass-border);
+          border-radius: var(--radius-sm);
+          font-size: 0.875rem;
+        }
+        
+        .attachment-name {
+          flex: 1;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+        
+        .attachment-size {
+          font-size: 0.75rem;
+          color: var(--text-muted);
+        }
+        
+        .mode-toggle {
+          display: flex;
+          gap: 0.25rem;
+          padding: 0.25rem;
+          background: var(--glass-bg);
+          border: 1px solid var(--glass-border);
+          border-radius: var(--radius-md);
+        }
+
+        .sprint-summary {
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+        }
+
+        .link-type {
+          flex-shrink: 0;
+          font-size: 0.75rem;
+          color: var(--text-muted);
+        }
+
+        .link-key {
+          font-family: monospace;
+          color: var(--primary-color);
+        }
+
+        .link-form {
+          display: flex;
+          gap: 0.5rem;
+        }
+
+        .link-form select {
+          width: 160px;
+        }
+
+        .task-comment {
+          padding: 0.5rem 0;
+          border-bottom: 1px solid var(--glass-border);
+          font-size: 0.875rem;
+        }
+
+        .task-comment-meta {
+          display: flex;
+          gap: 0.5rem;
+          margin-bottom: 0.25rem;
+          font-size: 0.75rem;
+        }
+
+        .link-form textarea {
+          flex: 1;
+        }
+
+        .board-warning {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          margin: 0 1rem;
+        }
+
+        .board-warning span {
+          flex: 1;
+        }
+
+        .attachment-dropzone {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          padding: 1rem;
+          border: 1px dashed var(--glass-border);
+          border-radius: var(--radius-md);
+          color: var(--text-muted);
+          font-size: 0.875rem;
+          cursor: pointer;
+          transition: all 0.2s ease;
+        }
+        
+        .attachment-dropzone:hover,
+        .attachment-dropzone.drag-over {
+          border-color: var(--primary-color);
+          color: var(--primary-color);
+          background: rgba(139, 92, 246, 0.1);
+        }
+        
         .label-picker {
           display: flex;
           flex-direction: column;
@@ -50,11 +50,12 @@ export default function BoardsPage() {
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [showNewModal, setShowNewModal] = useState(false);
-  const [newBoard, setNewBoard] = useState({ name: '', description: '', key: '', projectId: '' });
+  const [newBoard, setNewBoard] = useState({ name: '', description: '', key: '', projectId: '', templateId: '' });
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState('');
   const [userGroups, setUserGroups] = useState<any[]>([]);
   const [selectedGroups, setSelectedGroups] = useState<string[]>([]);
+  const [boardTemplates, setBoardTemplates] = useState<{ id: string; name: string; description: string | null }[]>([]);
 
   useEffect(() => {
     loadOrganizations();
@@ -65,6 +66,7 @@ export default function BoardsPage() {
       loadBoards();
       loadUserGroups();
       loadProjects();
+      loadBoardTemplates();
       
       if (searchParams.get('new') === 'true') {
         setShowNewModal(true);
@@ -116,6 +118,17 @@ export default function BoardsPage() {
     }
   };
 
+  const loadBoardTemplates = async () => {
+    if (!currentOrg) return;
+    try {
+      const res = await fetch(`/api/organizations/${currentOrg.id}/board-templates`);
+      const data = await res.json();
+      setBoardTemplates(data.templates || []);
+    } catch (error) {
+      console.error('Error loading board templates:', error);
+    }
+  };
+
   const loadUserGroups = async () => {
     if (!currentOrg) return;
     try {
@@ -173,6 +186,7 @@ export default function BoardsPage() {
           description: newBoard.description,
           key: newBoard.key,
           projectId: newBoard.projectId || null,
+          templateId: newBoard.templateId || null,
           organizationId: currentOrg.id,
           groupIds: selectedGroups
         })
@@ -325,7 +339,7 @@ export default function BoardsPage() {
         isOpen={showNewModal}
         onClose={() => {
           setShowNewModal(false);
-          setNewBoard({ name: '', description: '', key: '', projectId: '' });
+          setNewBoard({ name: '', description: '', key: '', projectId: '', templateId: '' });
           setSelectedGroups([]);
           setError('');
         }}
@@ -359,6 +373,23 @@ export default function BoardsPage() {
             </div>
           )}
           
+          {boardTemplates.length > 0 && (
+            <div className="form-group">
+              <label className="form-label">Template</label>
+              <select
+                className="form-input"
+                value={newBoard.templateId}
+                onChange={(e) => setNewBoard({ ...newBoard, templateId: e.target.value })}
+              >
+                <option value="">Default columns</option>
+                {boardTemplates.map(template => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+              <div className="form-help">Templates bring their columns, labels, workflow and group access</div>
+            </div>
+          )}
+
           <div className="form-group">
             <label className="form-label">Board Name *</label>
             <input
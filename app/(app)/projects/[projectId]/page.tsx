@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { 
   ArrowLeft, 
@@ -16,16 +16,36 @@ import {
   EyeOff,
   Download,
   Upload,
-  FolderPlus
+  FolderPlus,
+  Activity,
+  History,
+  RotateCcw
 } from 'lucide-react';
 import Modal from '@/components/Modal';
-import type { Project, Document, Credential, FileType, Folder, Group } from '@/lib/types';
+import RevisionDiff from '@/components/RevisionDiff';
+import DocumentMerge from '@/components/DocumentMerge';
+import CollaborativeEditor from '@/components/CollaborativeEditor';
+import type { Project, Document, DocumentRevision, Credential, FileType, Folder, Group, ActivityLog } from '@/lib/types';
+import type { DiffMode, TextDiff } from '@/lib/text-diff';
 
-type TabType = 'documents' | 'credentials' | 'files' | 'settings';
+type TabType = 'documents' | 'credentials' | 'files' | 'activity' | 'settings';
+
+const ACTIVITY_ENTITY_LABELS: Record<string, string> = {
+  task: 'Task',
+  comment: 'Comment',
+  sprint: 'Sprint',
+  column: 'Column',
+  document: 'Document',
+  credential: 'Credential',
+  file: 'File',
+  folder: 'Folder',
+  project_group: 'Group access'
+};
 
 export default function ProjectDetailPage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const projectId = params.projectId as string;
   
   const [project, setProject] = useState<Project | null>(null);
@@ -37,6 +57,23 @@ export default function ProjectDetailPage() {
   const [selectedDoc, setSelectedDoc] = useState<Document | null>(null);
   const [showDocModal, setShowDocModal] = useState(false);
   const [docForm, setDocForm] = useState({ title: '', content: '' });
+  const [docPreview, setDocPreview] = useState(false);
+  // Preview HTML from the server's Markdown renderer, and the content it is for
+  const [docRendered, setDocRendered] = useState<{ content: string; html: string } | null>(null);
+  const [showDocHistory, setShowDocHistory] = useState(false);
+  const [docRevisions, setDocRevisions] = useState<DocumentRevision[]>([]);
+  const [revisionDiff, setRevisionDiff] = useState<{
+    from: DocumentRevision | null;
+    to: DocumentRevision;
+    titleChanged: boolean;
+    diff: TextDiff;
+  } | null>(null);
+  const [diffMode, setDiffMode] = useState<DiffMode>('line');
+  const [restoring, setRestoring] = useState(false);
+  // Existing documents are edited live; while connected, content is saved by the live session
+  const [docLive, setDocLive] = useState(false);
+  // Set when saving found a newer version on the server; selectedDoc is the base
+  const [docConflict, setDocConflict] = useState<{ theirs: Document; author: string; message: string } | null>(null);
   
   // Credentials state
   const [credentials, setCredentials] = useState<Credential[]>([]);
@@ -51,6 +88,12 @@ export default function ProjectDetailPage() {
   const [folderName, setFolderName] = useState('');
   const [uploading, setUploading] = useState(false);
   
+  // Activity state
+  const [activities, setActivities] = useState<ActivityLog[]>([]);
+  const [activityCursor, setActivityCursor] = useState<string | null>(null);
+  const [activityFilter, setActivityFilter] = useState({ entityType: '', actorId: '' });
+  const [loadingActivity, setLoadingActivity] = useState(false);
+  
   // Group sharing state
   const [availableGroups, setAvailableGroups] = useState<Group[]>([]);
   const [showShareModal, setShowShareModal] = useState(false);
@@ -71,7 +114,53 @@ export default function ProjectDetailPage() {
     if (projectId && project) {
       loadTabData();
     }
-  }, [activeTab, projectId, project]);
+  }, [activeTab, projectId, project, activityFilter]);
+
+  // Links from search: ?tab=files, ?document=ID
+  useEffect(() => {
+    const tab = searchParams.get('tab');
+    if (searchParams.get('document')) {
+      setActiveTab('documents');
+    } else if (tab === 'documents' || tab === 'credentials' || tab === 'files' || tab === 'activity' || tab === 'settings') {
+      setActiveTab(tab);
+    }
+  }, [searchParams]);
+
+  useEffect(() => {
+    const documentId = searchParams.get('document');
+    if (!documentId || selectedDoc?.id === documentId) return;
+    const doc = documents.find(d => d.id === documentId);
+    if (doc) openDocument(doc);
+  }, [searchParams, documents]);
+
+  // Re-render the preview as the content changes, by typing or live edits from others
+  useEffect(() => {
+    if (!showDocModal || !docPreview || !docForm.content) return;
+    if (docRendered?.content === docForm.content) return;
+
+    const content = docForm.content;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/projects/${projectId}/markdown`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content })
+        });
+        const data = await res.json();
+        if (res.ok && !cancelled) {
+          setDocRendered({ content, html: data.html });
+        }
+      } catch (error) {
+        console.error('Error rendering document:', error);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [showDocModal, docPreview, docForm.content, docRendered, projectId]);
 
   const loadProject = async () => {
     try {
@@ -109,6 +198,9 @@ export default function ProjectDetailPage() {
           setFiles(filesData.files || []);
           setFolders(filesData.folders || []);
           break;
+        case 'activity':
+          await loadActivity();
+          break;
         case 'settings':
           const groupsRes = await fetch('/api/groups');
           const groupsData = await groupsRes.json();
@@ -120,6 +212,44 @@ export default function ProjectDetailPage() {
     }
   };
 
+  const loadActivity = async (cursor?: string) => {
+    setLoadingActivity(true);
+    try {
+      const query = new URLSearchParams({ limit: '30' });
+      if (cursor) query.set('cursor', cursor);
+      if (activityFilter.entityType) query.set('entityType', activityFilter.entityType);
+      if (activityFilter.actorId) query.set('actorId', activityFilter.actorId);
+
+      const res = await fetch(`/api/projects/${projectId}/activity?${query}`);
+      const data = await res.json();
+      setActivities(prev => cursor ? [...prev, ...(data.activities || [])] : (data.activities || []));
+      setActivityCursor(data.nextCursor || null);
+    } catch (error) {
+      console.error('Error loading activity:', error);
+    } finally {
+      setLoadingActivity(false);
+    }
+  };
+
+  const getProjectMembers = () => {
+    const members = new Map<string, { id: string; username: string; displayName: string | null }>();
+    for (const access of project?.groupAccess || []) {
+      for (const member of access.group?.members || []) {
+        if (member.user) members.set(member.user.id, member.user);
+      }
+    }
+    return Array.from(members.values());
+  };
+
+  const describeActivity = (activity: ActivityLog) => {
+    const meta = activity.metadata || {};
+    const subject = meta.taskKey || meta.title || meta.name || meta.groupName || '';
+    const entity = (ACTIVITY_ENTITY_LABELS[activity.entityType] || activity.entityType).toLowerCase();
+    const changedFields = meta.changes ? Object.keys(meta.changes).join(', ') : '';
+
+    return `${activity.action.replace(/_/g, ' ')} ${entity}${subject ? ` "${subject}"` : ''}${changedFields ? ` (${changedFields})` : ''}`;
+  };
+
   // Document handlers
   const handleSaveDocument = async () => {
     setSaving(true);
@@ -127,24 +257,36 @@ export default function ProjectDetailPage() {
     try {
       const url = selectedDoc ? `/api/documents/${selectedDoc.id}` : '/api/documents';
       const method = selectedDoc ? 'PUT' : 'POST';
-      const body = selectedDoc ? docForm : { ...docForm, projectId };
+      const body = !selectedDoc ? { ...docForm, projectId } : docLive ? { title: docForm.title } : docForm;
       
       const res = await fetch(url, {
         method,
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          // Only save over the version this editor started from
+          ...(selectedDoc && !docLive ? { 'If-Match': `"${selectedDoc.version}"` } : {})
+        },
         body: JSON.stringify(body)
       });
       
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 409 && data.document) {
+          setRevisionDiff(null);
+          const author = data.lastRevision?.author;
+          setDocConflict({
+            theirs: data.document,
+            author: author ? author.displayName || author.username : 'Theirs',
+            message: data.error
+          });
+          return;
+        }
         setError(data.error || 'Failed to save document');
         return;
       }
       
       await loadTabData();
-      setShowDocModal(false);
-      setDocForm({ title: '', content: '' });
-      setSelectedDoc(null);
+      closeDocument();
     } catch (err: any) {
       setError('Failed to save document');
     } finally {
@@ -152,6 +294,109 @@ export default function ProjectDetailPage() {
     }
   };
 
+  // Existing documents open in preview, rendered with their embeds
+  const openDocument = async (doc: Document) => {
+    setSelectedDoc(doc);
+    setDocForm({ title: doc.title, content: doc.content || '' });
+    setDocPreview(true);
+    setDocRendered(null);
+    setShowDocModal(true);
+    try {
+      const res = await fetch(`/api/documents/${doc.id}`);
+      const data = await res.json();
+      if (res.ok) {
+        setDocRendered({ content: data.document.content || '', html: data.html });
+      }
+    } catch (error) {
+      console.error('Error loading document:', error);
+    }
+  };
+
+  const closeDocument = () => {
+    setShowDocModal(false);
+    setSelectedDoc(null);
+    setDocForm({ title: '', content: '' });
+    setShowDocHistory(false);
+    setDocRevisions([]);
+    setRevisionDiff(null);
+    setDocConflict(null);
+    setDocLive(false);
+    setDocRendered(null);
+    setError('');
+    if (searchParams.get('document')) {
+      router.replace(`/projects/${projectId}`);
+    }
+  };
+
+  // Continue editing on top of the other save: the merged text still has to be saved
+  const resolveDocConflict = (content: string) => {
+    if (!selectedDoc || !docConflict) return;
+    const { theirs } = docConflict;
+    // A title only changed on their side is taken over, otherwise the edited one wins
+    const title = docForm.title === selectedDoc.title ? theirs.title : docForm.title;
+    setSelectedDoc(theirs);
+    setDocForm({ title, content });
+    setDocConflict(null);
+    setDocPreview(false);
+  };
+
+  const loadDocRevisions = async (docId: string) => {
+    try {
+      const res = await fetch(`/api/documents/${docId}/revisions`);
+      const data = await res.json();
+      setDocRevisions(data.revisions || []);
+    } catch (error) {
+      console.error('Error loading revisions:', error);
+    }
+  };
+
+  const toggleDocHistory = () => {
+    if (!selectedDoc) return;
+    if (!showDocHistory) loadDocRevisions(selectedDoc.id);
+    setShowDocHistory(!showDocHistory);
+    setRevisionDiff(null);
+  };
+
+  // Shows what a revision changed compared with the one before it
+  const openRevision = async (revisionNumber: number, mode: DiffMode = diffMode) => {
+    if (!selectedDoc) return;
+    setDiffMode(mode);
+    try {
+      const res = await fetch(`/api/documents/${selectedDoc.id}/revisions/diff?to=${revisionNumber}&mode=${mode}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to load revision');
+        return;
+      }
+      setRevisionDiff(data);
+    } catch (error) {
+      setError('Failed to load revision');
+    }
+  };
+
+  const handleRestoreRevision = async (revisionNumber: number) => {
+    if (!selectedDoc) return;
+    if (!confirm(`Restore revision ${revisionNumber}? The current version stays in the history.`)) return;
+    setRestoring(true);
+    setError('');
+    try {
+      const res = await fetch(`/api/documents/${selectedDoc.id}/revisions/${revisionNumber}/restore`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to restore revision');
+        return;
+      }
+      setSelectedDoc(data.document);
+      setDocForm({ title: data.document.title, content: data.document.content || '' });
+      setRevisionDiff(null);
+      await Promise.all([loadDocRevisions(selectedDoc.id), loadTabData()]);
+    } catch (error) {
+      setError('Failed to restore revision');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
   const handleDeleteDocument = async (docId: string) => {
     if (!confirm('Are you sure you want to delete this document?')) return;
     try {
@@ -395,6 +640,13 @@ export default function ProjectDetailPage() {
             <File size={16} style={{ marginRight: '0.5rem' }} />
             Files
           </button>
+          <button 
+            className={`tab ${activeTab === 'activity' ? 'active' : ''}`}
+            onClick={() => setActiveTab('activity')}
+          >
+            <Activity size={16} style={{ marginRight: '0.5rem' }} />
+            Activity
+          </button>
           <button 
             className={`tab ${activeTab === 'settings' ? 'active' : ''}`}
             onClick={() => setActiveTab('settings')}
@@ -414,6 +666,7 @@ export default function ProjectDetailPage() {
                 onClick={() => {
                   setSelectedDoc(null);
                   setDocForm({ title: '', content: '' });
+                  setDocPreview(false);
                   setShowDocModal(true);
                 }}
               >
@@ -448,11 +701,7 @@ export default function ProjectDetailPage() {
                             <button
                               className="btn btn-ghost"
                               style={{ padding: 0, height: 'auto' }}
-                              onClick={() => {
-                                setSelectedDoc(doc);
-                                setDocForm({ title: doc.title, content: doc.content || '' });
-                                setShowDocModal(true);
-                              }}
+                              onClick={() => openDocument(doc)}
                             >
                               {doc.title}
                             </button>
@@ -635,6 +884,84 @@ export default function ProjectDetailPage() {
           </div>
         )}
 
+        {/* Activity Tab */}
+        {activeTab === 'activity' && (
+          <div className="card">
+            <div className="card-header">
+              <h3 className="card-title">Activity</h3>
+              <div className="flex gap-2">
+                <select
+                  className="form-input form-select"
+                  value={activityFilter.entityType}
+                  onChange={(e) => setActivityFilter({ ...activityFilter, entityType: e.target.value })}
+                  style={{ width: '160px' }}
+                >
+                  <option value="">All types</option>
+                  {Object.entries(ACTIVITY_ENTITY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <select
+                  className="form-input form-select"
+                  value={activityFilter.actorId}
+                  onChange={(e) => setActivityFilter({ ...activityFilter, actorId: e.target.value })}
+                  style={{ width: '180px' }}
+                >
+                  <option value="">Everyone</option>
+                  {getProjectMembers().map(member => (
+                    <option key={member.id} value={member.id}>
+                      {member.displayName || member.username}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="card-body">
+              {activities.length === 0 ? (
+                <div className="empty-state">
+                  <Activity className="empty-state-icon" />
+                  <h3 className="empty-state-title">No activity yet</h3>
+                  <p className="empty-state-description">
+                    Changes to tasks, documents, credentials and files will show up here.
+                  </p>
+                </div>
+              ) : (
+                <div className="table-container">
+                  <table className="table">
+                    <thead>
+                      <tr>
+                        <th>When</th>
+                        <th>Who</th>
+                        <th>What</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {activities.map(activity => (
+                        <tr key={activity.id}>
+                          <td className="text-sm text-muted">{new Date(activity.createdAt).toLocaleString()}</td>
+                          <td>{activity.user?.displayName || activity.user?.username}</td>
+                          <td>{describeActivity(activity)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {activityCursor && (
+                <div className="flex mt-4" style={{ justifyContent: 'center' }}>
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => loadActivity(activityCursor)}
+                    disabled={loadingActivity}
+                  >
+                    {loadingActivity ? <span className="spinner" /> : 'Load more'}
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Settings Tab */}
         {activeTab === 'settings' && (
           <div className="card">
@@ -714,22 +1041,24 @@ export default function ProjectDetailPage() {
       {/* Document Modal */}
       <Modal
         isOpen={showDocModal}
-        onClose={() => {
-          setShowDocModal(false);
-          setSelectedDoc(null);
-          setDocForm({ title: '', content: '' });
-          setError('');
-        }}
+        onClose={closeDocument}
         title={selectedDoc ? 'Edit Document' : 'New Document'}
+        size={showDocHistory ? 'large' : 'medium'}
         footer={
           <>
-            <button className="btn btn-secondary" onClick={() => setShowDocModal(false)}>
+            {selectedDoc && (
+              <button className="btn btn-ghost" onClick={toggleDocHistory} style={{ marginRight: 'auto' }}>
+                <History size={16} />
+                {showDocHistory ? 'Hide history' : 'History'}
+              </button>
+            )}
+            <button className="btn btn-secondary" onClick={closeDocument}>
               Cancel
             </button>
             <button 
               className="btn btn-primary" 
               onClick={handleSaveDocument}
-              disabled={saving || !docForm.title}
+              disabled={saving || !docForm.title || !!docConflict}
             >
               {saving ? <span className="spinner" /> : 'Save'}
             </button>
@@ -737,25 +1066,155 @@ export default function ProjectDetailPage() {
         }
       >
         {error && <div className="alert alert-error">{error}</div>}
-        <div className="form-group">
-          <label className="form-label">Title</label>
-          <input
-            type="text"
-            className="form-input"
-            value={docForm.title}
-            onChange={(e) => setDocForm({ ...docForm, title: e.target.value })}
-            placeholder="Document title"
-          />
-        </div>
-        <div className="form-group">
-          <label className="form-label">Content</label>
-          <textarea
-            className="form-input form-textarea"
-            value={docForm.content}
-            onChange={(e) => setDocForm({ ...docForm, content: e.target.value })}
-            placeholder="Write your document content..."
-            rows={10}
-          />
+        <div className="doc-editor-layout">
+          <div className="doc-editor">
+            {docConflict && selectedDoc ? (
+              <>
+                <div className="alert alert-warning mb-4">{docConflict.message}</div>
+                <DocumentMerge
+                  base={selectedDoc.content || ''}
+                  mine={docForm.content}
+                  theirs={docConflict.theirs.content || ''}
+                  theirsLabel={docConflict.author}
+                  onApply={resolveDocConflict}
+                  onDiscardMine={() => {
+                    setDocForm({ title: docConflict.theirs.title, content: docConflict.theirs.content || '' });
+                    setSelectedDoc(docConflict.theirs);
+                    setDocConflict(null);
+                  }}
+                />
+              </>
+            ) : revisionDiff ? (
+              <>
+                <div className="flex items-center justify-between mb-4">
+                  <div>
+                    <strong>Revision {revisionDiff.to.revisionNumber}</strong>
+                    <span className="text-muted text-sm">
+                      {revisionDiff.from ? ` compared with revision ${revisionDiff.from.revisionNumber}` : ' (first revision)'}
+                      {` · +${revisionDiff.diff.added} −${revisionDiff.diff.removed} ${diffMode === 'line' ? 'lines' : 'words'}`}
+                    </span>
+                  </div>
+                  <div className="tabs">
+                    <button
+                      className={`tab ${diffMode === 'line' ? 'active' : ''}`}
+                      onClick={() => openRevision(revisionDiff.to.revisionNumber, 'line')}
+                    >
+                      Lines
+                    </button>
+                    <button
+                      className={`tab ${diffMode === 'word' ? 'active' : ''}`}
+                      onClick={() => openRevision(revisionDiff.to.revisionNumber, 'word')}
+                    >
+                      Words
+                    </button>
+                  </div>
+                </div>
+                {revisionDiff.titleChanged && (
+                  <p className="text-sm mb-4">
+                    Title: {revisionDiff.from && <><del>{revisionDiff.from.title}</del> → </>}
+                    {revisionDiff.to.title}
+                  </p>
+                )}
+                <RevisionDiff diff={revisionDiff.diff} />
+                <div className="flex gap-2 mt-4">
+                  <button className="btn btn-secondary btn-sm" onClick={() => setRevisionDiff(null)}>
+                    Back to document
+                  </button>
+                  {docRevisions[0]?.revisionNumber !== revisionDiff.to.revisionNumber && (
+                    <button
+                      className="btn btn-primary btn-sm"
+                      onClick={() => handleRestoreRevision(revisionDiff.to.revisionNumber)}
+                      disabled={restoring}
+                    >
+                      <RotateCcw size={14} />
+                      Restore this revision
+                    </button>
+                  )}
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="form-group">
+                  <label className="form-label">Title</label>
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={docForm.title}
+                    onChange={(e) => setDocForm({ ...docForm, title: e.target.value })}
+                    placeholder="Document title"
+                  />
+                </div>
+                <div className="form-group">
+                  <div className="tabs mb-4">
+                    <button className={`tab ${!docPreview ? 'active' : ''}`} onClick={() => setDocPreview(false)}>
+                      Write
+                    </button>
+                    <button className={`tab ${docPreview ? 'active' : ''}`} onClick={() => setDocPreview(true)}>
+                      Preview
+                    </button>
+                  </div>
+                  {docPreview && (
+                    docForm.content && docRendered ? (
+                      // Sanitized by the server's Markdown renderer
+                      <div className="doc-preview markdown-body" dangerouslySetInnerHTML={{ __html: docRendered.html }} />
+                    ) : (
+                      <div className="doc-preview">
+                        <span className="text-muted">{docForm.content ? 'Rendering...' : 'Nothing to preview'}</span>
+                      </div>
+                    )
+                  )}
+                  {selectedDoc ? (
+                    // Stays connected while the preview is shown
+                    <div style={{ display: docPreview ? 'none' : undefined }}>
+                      <CollaborativeEditor
+                        documentId={selectedDoc.id}
+                        onChange={(content) => setDocForm(form => ({ ...form, content }))}
+                        onLiveChange={setDocLive}
+                        placeholder="Write in Markdown... (PROJ-42 links a task, @username mentions someone, ![[file:ID]] embeds a project file)"
+                      />
+                    </div>
+                  ) : !docPreview && (
+                    <textarea
+                      className="form-input form-textarea"
+                      value={docForm.content}
+                      onChange={(e) => setDocForm({ ...docForm, content: e.target.value })}
+                      placeholder="Write in Markdown... (PROJ-42 links a task, @username mentions someone, ![[file:ID]] embeds a project file)"
+                      rows={10}
+                    />
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* History drawer: click a revision to see what it changed */}
+          {showDocHistory && (
+            <aside className="doc-history">
+              <h4 className="doc-history-title">History</h4>
+              {docRevisions.length === 0 ? (
+                <p className="text-muted text-sm">No revisions yet. Saving the document records one.</p>
+              ) : (
+                docRevisions.map((revision, index) => (
+                  <button
+                    key={revision.id}
+                    className={`doc-history-item ${revisionDiff?.to.revisionNumber === revision.revisionNumber ? 'active' : ''}`}
+                    onClick={() => openRevision(revision.revisionNumber)}
+                  >
+                    <span className="doc-history-item-title">
+                      Revision {revision.revisionNumber}
+                      {index === 0 && <span className="text-muted"> (current)</span>}
+                    </span>
+                    <span className="text-muted text-sm">
+                      {revision.author?.displayName || revision.author?.username} · {new Date(revision.createdAt).toLocaleString()}
+                    </span>
+                    {revision.restoredFrom && (
+                      <span className="text-muted text-sm">Restored from revision {revision.restoredFrom}</span>
+                    )}
+                  </button>
+                ))
+              )}
+            </aside>
+          )}
         </div>
       </Modal>
 
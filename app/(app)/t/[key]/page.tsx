@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import Link from 'next/link';
+
+export default function TaskKeyPage() {
+  const params = useParams();
+  const key = decodeURIComponent(params.key as string);
+  const router = useRouter();
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    openTask();
+  }, [key]);
+
+  // Keys are unique per organization, so look in the current organization first
+  const openTask = async () => {
+    try {
+      const res = await fetch('/api/organizations');
+      const data = await res.json();
+      const savedOrgId = localStorage.getItem('currentOrgId');
+      const orgIds: string[] = (data.organizations || [])
+        .map((o: { id: string }) => o.id)
+        .sort((a: string, b: string) => (b === savedOrgId ? 1 : 0) - (a === savedOrgId ? 1 : 0));
+
+      for (const orgId of orgIds) {
+        const taskRes = await fetch(`/api/organizations/${orgId}/tasks/by-key/${encodeURIComponent(key)}`);
+        if (taskRes.ok) {
+          const { url } = await taskRes.json();
+          router.replace(url);
+          return;
+        }
+      }
+
+      setError(`No task ${key.toUpperCase()} found, or you do not have access to it.`);
+    } catch (error) {
+      setError('Failed to look up task');
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="page-content">
+        <div className="alert alert-error mb-4">{error}</div>
+        <Link href="/boards" className="btn btn-secondary">Back to boards</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="loading-page">
+      <div className="spinner" />
+    </div>
+  );
+}
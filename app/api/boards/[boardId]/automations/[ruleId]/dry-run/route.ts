@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { automationRules, tasks } from '@/lib/db/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { buildTaskQuery } from '@/lib/task-query';
+import { parseRule, dryRunRule, getDueDateOccurrences } from '@/lib/automation';
+
+const DRY_RUN_LIMIT = 50;
+
+// POST - Show what a rule would do, without changing anything. With `taskId`
+// the rule is checked against that task; otherwise against the tasks its
+// condition matches (for due date rules, the occurrences the scheduler would fire next).
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; ruleId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, ruleId } = await params;
+    const { hasAccess } = await checkBoardAccess(boardId, session.userId, 'admin');
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const row = await db.query.automationRules.findFirst({
+      where: and(eq(automationRules.id, ruleId), eq(automationRules.boardId, boardId))
+    });
+
+    if (!row) {
+      return NextResponse.json({ error: 'Automation rule not found' }, { status: 404 });
+    }
+
+    const rule = parseRule(row);
+    const { taskId } = await request.json().catch(() => ({}));
+
+    if (taskId) {
+      const result = await dryRunRule(rule, taskId);
+      if (!result) {
+        return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+      }
+      return NextResponse.json({ dryRun: { results: [result] } });
+    }
+
+    let candidateIds: string[];
+    if (rule.trigger.type === 'due_date_passed') {
+      candidateIds = (await getDueDateOccurrences(rule, new Date())).map(o => o.taskId);
+    } else {
+      const { where } = buildTaskQuery(rule.condition, { boardId, userId: rule.createdBy });
+      const matching = await db.select({ id: tasks.id })
+        .from(tasks)
+        .where(and(eq(tasks.boardId, boardId), where))
+        .orderBy(desc(tasks.updatedAt))
+        .limit(DRY_RUN_LIMIT);
+      candidateIds = matching.map(t => t.id);
+    }
+
+    const results = [];
+    for (const id of candidateIds.slice(0, DRY_RUN_LIMIT)) {
+      const result = await dryRunRule(rule, id);
+      if (result?.conditionMatches) results.push(result);
+    }
+
+    return NextResponse.json({
+      dryRun: { results, truncated: candidateIds.length > DRY_RUN_LIMIT }
+    });
+  } catch (error) {
+    console.error('Dry run automation rule error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { automationRules } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { recordBoardActivity } from '@/lib/activity';
+import { validateRuleInput, parseRule, AutomationRuleError } from '@/lib/automation';
+
+function findRule(boardId: string, ruleId: string) {
+  return db.query.automationRules.findFirst({
+    where: and(eq(automationRules.id, ruleId), eq(automationRules.boardId, boardId)),
+    with: {
+      creator: {
+        columns: { id: true, username: true, displayName: true }
+      }
+    }
+  });
+}
+
+// GET - Get an automation rule
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; ruleId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, ruleId } = await params;
+    const { hasAccess } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const rule = await findRule(boardId, ruleId);
+
+    if (!rule) {
+      return NextResponse.json({ error: 'Automation rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ rule: parseRule(rule) });
+  } catch (error) {
+    console.error('Get automation rule error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT - Update an automation rule (board admins)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; ruleId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, ruleId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'admin');
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const rule = await findRule(boardId, ruleId);
+
+    if (!rule) {
+      return NextResponse.json({ error: 'Automation rule not found' }, { status: 404 });
+    }
+
+    let values;
+    try {
+      values = await validateRuleInput(await request.json(), { boardId, userId: rule.createdBy }, true);
+    } catch (error) {
+      if (error instanceof AutomationRuleError) {
+        return NextResponse.json({ error: error.message, ...error.details }, { status: 400 });
+      }
+      throw error;
+    }
+
+    await db.update(automationRules)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(automationRules.id, ruleId));
+
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'updated',
+      entityType: 'automation',
+      entityId: ruleId,
+      metadata: { name: values.name ?? rule.name, fields: Object.keys(values) }
+    });
+
+    const updated = await findRule(boardId, ruleId);
+
+    return NextResponse.json({
+      message: 'Automation rule updated successfully',
+      rule: parseRule(updated!)
+    });
+  } catch (error) {
+    console.error('Update automation rule error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Delete an automation rule and its execution log (board admins)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; ruleId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, ruleId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'admin');
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const rule = await findRule(boardId, ruleId);
+
+    if (!rule) {
+      return NextResponse.json({ error: 'Automation rule not found' }, { status: 404 });
+    }
+
+    await db.delete(automationRules).where(eq(automationRules.id, ruleId));
+
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'deleted',
+      entityType: 'automation',
+      entityId: ruleId,
+      metadata: { name: rule.name }
+    });
+
+    return NextResponse.json({ message: 'Automation rule deleted successfully' });
+  } catch (error) {
+    console.error('Delete automation rule error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
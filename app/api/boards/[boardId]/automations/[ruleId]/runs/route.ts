@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { automationRules, automationRuns } from '@/lib/db/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+
+// GET - Execution log of an automation rule, newest first (`limit`)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; ruleId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, ruleId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const rule = await db.query.automationRules.findFirst({
+      where: and(eq(automationRules.id, ruleId), eq(automationRules.boardId, boardId)),
+      columns: { id: true }
+    });
+
+    if (!rule) {
+      return NextResponse.json({ error: 'Automation rule not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 200);
+
+    const runs = await db.query.automationRuns.findMany({
+      where: eq(automationRuns.ruleId, ruleId),
+      with: {
+        task: {
+          columns: { id: true, taskNumber: true, title: true }
+        }
+      },
+      orderBy: desc(automationRuns.createdAt),
+      limit
+    });
+
+    return NextResponse.json({
+      runs: runs.map(({ task, ...run }) => ({
+        ...run,
+        results: JSON.parse(run.results),
+        task: task ? { ...task, taskKey: `${board!.key}-${task.taskNumber}` } : null
+      }))
+    });
+  } catch (error) {
+    console.error('Get automation runs error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/lib/db';
+import { automationRules } from '@/lib/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { recordBoardActivity } from '@/lib/activity';
+import { validateRuleInput, parseRule, AutomationRuleError } from '@/lib/automation';
+
+// GET - List automation rules
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId } = await params;
+    const { hasAccess } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const rules = await db.query.automationRules.findMany({
+      where: eq(automationRules.boardId, boardId),
+      with: {
+        creator: {
+          columns: { id: true, username: true, displayName: true }
+        }
+      },
+      orderBy: asc(automationRules.createdAt)
+    });
+
+    return NextResponse.json({ rules: rules.map(parseRule) });
+  } catch (error) {
+    console.error('Get automation rules error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Create an automation rule (board admins; the rule acts as its creator)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'admin');
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    let values;
+    try {
+      values = await validateRuleInput(await request.json(), { boardId, userId: session.userId });
+    } catch (error) {
+      if (error instanceof AutomationRuleError) {
+        return NextResponse.json({ error: error.message, ...error.details }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const ruleId = uuidv4();
+    await db.insert(automationRules).values({
+      id: ruleId,
+      boardId,
+      name: values.name,
+      enabled: values.enabled ?? true,
+      trigger: values.trigger,
+      condition: values.condition ?? '',
+      actions: values.actions,
+      createdBy: session.userId
+    });
+
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'created',
+      entityType: 'automation',
+      entityId: ruleId,
+      metadata: { name: values.name }
+    });
+
+    const rule = await db.query.automationRules.findFirst({
+      where: eq(automationRules.id, ruleId)
+    });
+
+    return NextResponse.json({
+      message: 'Automation rule created successfully',
+      rule: parseRule(rule!)
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Create automation rule error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
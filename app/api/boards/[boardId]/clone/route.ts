@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { boards } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { captureBoardConfig, createBoard, limitGroupAccess, BoardTemplateError } from '@/lib/board-templates';
+
+// POST - Clone a board's configuration, and optionally its tasks, under a new key (board admins)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'admin');
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { name, description, key, includeTasks = false } = await request.json();
+    const source = await captureBoardConfig(boardId);
+
+    // Group access is limited to groups the caller admins, as for boards made
+    // from a template
+    const config = {
+      ...source.config,
+      groupAccess: await limitGroupAccess(source.config.groupAccess, session.userId)
+    };
+
+    let clone;
+    try {
+      clone = await createBoard({
+        organizationId: board!.organizationId,
+        projectId: board!.projectId,
+        name,
+        description: description === undefined ? board!.description : description,
+        key
+      }, session.userId, config, includeTasks
+        ? { boardId, columnIds: source.columnIds, labelIds: source.labelIds }
+        : undefined);
+    } catch (error) {
+      if (error instanceof BoardTemplateError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+      }
+      throw error;
+    }
+
+    const newBoard = await db.query.boards.findFirst({
+      where: eq(boards.id, clone.boardId),
+      with: {
+        creator: {
+          columns: { id: true, username: true, displayName: true }
+        },
+        columns: true,
+        groupAccess: {
+          with: {
+            group: {
+              columns: { id: true, name: true }
+            }
+          }
+        }
+      }
+    });
+
+    return NextResponse.json({
+      message: 'Board cloned successfully',
+      board: newBoard,
+      taskCount: clone.taskCount
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Clone board error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
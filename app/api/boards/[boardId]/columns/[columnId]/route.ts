@@ -3,6 +3,9 @@ import { db } from '@/lib/db';
 import { boardColumns, boards, groupMembers, boardGroups, tasks } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
+import { recordBoardActivity, diffFields } from '@/lib/activity';
+import { publishBoardEvent } from '@/lib/events';
+import { WIP_LIMIT_MODES } from '@/lib/wip-limits';
 
 // Helper to check board access
 async function checkBoardAccess(boardId: string, userId: string, requiredLevel: 'read' | 'write' | 'admin' = 'read') {
@@ -55,13 +58,17 @@ export async function PUT(
     }
 
     const { boardId, columnId } = await params;
-    const { hasAccess } = await checkBoardAccess(boardId, session.userId, 'admin');
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'admin');
 
     if (!hasAccess) {
       return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
     }
 
-    const { name, color, wipLimit, isDefault } = await request.json();
+    const { name, color, wipLimit, wipMode, isDefault } = await request.json();
+
+    if (wipMode !== undefined && !WIP_LIMIT_MODES.includes(wipMode)) {
+      return NextResponse.json({ error: `WIP mode must be one of: ${WIP_LIMIT_MODES.join(', ')}` }, { status: 400 });
+    }
 
     const column = await db.query.boardColumns.findFirst({
       where: and(
@@ -78,6 +85,7 @@ export async function PUT(
     if (name) updates.name = name;
     if (color !== undefined) updates.color = color;
     if (wipLimit !== undefined) updates.wipLimit = wipLimit;
+    if (wipMode !== undefined) updates.wipMode = wipMode;
     
     // If setting as default, unset other defaults
     if (isDefault === true) {
@@ -91,10 +99,23 @@ export async function PUT(
       .set(updates)
       .where(eq(boardColumns.id, columnId));
 
+    const changes = diffFields(column, updates, ['name', 'color', 'wipLimit', 'wipMode', 'isDefault']);
+    if (Object.keys(changes).length > 0) {
+      await recordBoardActivity(board!, {
+        userId: session.userId,
+        action: 'updated',
+        entityType: 'column',
+        entityId: columnId,
+        metadata: { name: column.name, changes }
+      });
+    }
+
     const updatedColumn = await db.query.boardColumns.findFirst({
       where: eq(boardColumns.id, columnId)
     });
 
+    publishBoardEvent({ type: 'column.updated', boardId, actorId: session.userId, data: { column: updatedColumn } });
+
     return NextResponse.json({ 
       message: 'Column updated successfully',
       column: updatedColumn 
@@ -118,7 +139,7 @@ export async function DELETE(
     }
 
     const { boardId, columnId } = await params;
-    const { hasAccess } = await checkBoardAccess(boardId, session.userId, 'admin');
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'admin');
 
     if (!hasAccess) {
       return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
@@ -161,6 +182,16 @@ export async function DELETE(
 
     await db.delete(boardColumns).where(eq(boardColumns.id, columnId));
 
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'deleted',
+      entityType: 'column',
+      entityId: columnId,
+      metadata: { name: column.name }
+    });
+
+    publishBoardEvent({ type: 'column.deleted', boardId, actorId: session.userId, data: { columnId } });
+
     return NextResponse.json({ message: 'Column deleted successfully' });
   } catch (error) {
     console.error('Delete column error:', error);
@@ -4,6 +4,9 @@ import { db } from '@/lib/db';
 import { boardColumns, boards, groupMembers, boardGroups } from '@/lib/db/schema';
 import { eq, asc, max } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
+import { recordBoardActivity } from '@/lib/activity';
+import { publishBoardEvent } from '@/lib/events';
+import { WIP_LIMIT_MODES } from '@/lib/wip-limits';
 
 // Helper to check board access
 async function checkBoardAccess(boardId: string, userId: string, requiredLevel: 'read' | 'write' | 'admin' = 'read') {
@@ -87,18 +90,22 @@ export async function POST(
     }
 
     const { boardId } = await params;
-    const { hasAccess } = await checkBoardAccess(boardId, session.userId, 'admin');
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'admin');
 
     if (!hasAccess) {
       return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
     }
 
-    const { name, color, wipLimit } = await request.json();
+    const { name, color, wipLimit, wipMode } = await request.json();
 
     if (!name) {
       return NextResponse.json({ error: 'Column name is required' }, { status: 400 });
     }
 
+    if (wipMode !== undefined && !WIP_LIMIT_MODES.includes(wipMode)) {
+      return NextResponse.json({ error: `WIP mode must be one of: ${WIP_LIMIT_MODES.join(', ')}` }, { status: 400 });
+    }
+
     // Get highest sort order
     const existingColumns = await db.query.boardColumns.findMany({
       where: eq(boardColumns.boardId, boardId),
@@ -117,13 +124,24 @@ export async function POST(
       color: color || '#6366f1',
       sortOrder: maxOrder + 1,
       wipLimit: wipLimit || null,
+      wipMode: wipMode || 'warn',
       isDefault: false
     });
 
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'created',
+      entityType: 'column',
+      entityId: columnId,
+      metadata: { name }
+    });
+
     const newColumn = await db.query.boardColumns.findFirst({
       where: eq(boardColumns.id, columnId)
     });
 
+    publishBoardEvent({ type: 'column.created', boardId, actorId: session.userId, data: { column: newColumn } });
+
     return NextResponse.json({ 
       message: 'Column created successfully',
       column: newColumn 
@@ -147,7 +165,7 @@ export async function PUT(
     }
 
     const { boardId } = await params;
-    const { hasAccess } = await checkBoardAccess(boardId, session.userId, 'admin');
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'admin');
 
     if (!hasAccess) {
       return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
@@ -166,11 +184,20 @@ export async function PUT(
         .where(eq(boardColumns.id, columnOrder[i].id));
     }
 
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'reordered',
+      entityType: 'column',
+      metadata: { order: columnOrder.map((col: { id: string }) => col.id) }
+    });
+
     const updatedColumns = await db.query.boardColumns.findMany({
       where: eq(boardColumns.boardId, boardId),
       orderBy: asc(boardColumns.sortOrder)
     });
 
+    publishBoardEvent({ type: 'columns.reordered', boardId, actorId: session.userId, data: { columns: updatedColumns } });
+
     return NextResponse.json({ 
       message: 'Columns reordered successfully',
       columns: updatedColumns 
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { getBoardEpics } from '@/lib/task-hierarchy';
+
+// GET - List epics with child counts, story points, progress and date range
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const epics = await getBoardEpics(boardId);
+
+    return NextResponse.json({
+      epics: epics.map(epic => ({ ...epic, taskKey: `${board!.key}-${epic.taskNumber}` }))
+    });
+  } catch (error) {
+    console.error('Get epics error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { createEventStream, subscribeToBoard } from '@/lib/events';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Stream board changes (tasks, columns, comments) as Server-Sent Events
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId } = await params;
+    const { hasAccess } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    return createEventStream(request, (send) => {
+      send('connected', { boardId });
+      return subscribeToBoard(boardId, (event) => send(event.type, event));
+    });
+  } catch (error) {
+    console.error('Board events error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { savedFilters } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import {
+  validateFilterInput,
+  setFilterGroups,
+  clearBoardDefault,
+  canManageFilter,
+  getVisibleFilter,
+  FilterValidationError
+} from '@/lib/saved-filters';
+
+// GET - Get a saved filter
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; filterId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, filterId } = await params;
+    const { hasAccess, permission } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const filter = await getVisibleFilter(boardId, filterId, session.userId, permission);
+
+    if (!filter) {
+      return NextResponse.json({ error: 'Filter not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ filter });
+  } catch (error) {
+    console.error('Get filter error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT - Update a saved filter (owner or board admin)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; filterId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, filterId } = await params;
+    const { hasAccess, permission } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const filter = await db.query.savedFilters.findFirst({
+      where: and(
+        eq(savedFilters.id, filterId),
+        eq(savedFilters.boardId, boardId)
+      )
+    });
+
+    if (!filter) {
+      return NextResponse.json({ error: 'Filter not found' }, { status: 404 });
+    }
+
+    if (!canManageFilter(filter, session.userId, permission)) {
+      return NextResponse.json({ error: 'Only the owner or a board admin can edit this filter' }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    if (body.isDefault !== undefined && body.isDefault !== filter.isDefault && permission !== 'admin') {
+      return NextResponse.json({ error: 'Only board admins can change the board default filter' }, { status: 403 });
+    }
+
+    let values;
+    try {
+      // Query and sort are validated together, so fill in whichever one is missing
+      const input = body.query !== undefined || body.sort !== undefined
+        ? {
+            query: filter.query,
+            sort: filter.sort ? JSON.parse(filter.sort) : null,
+            ...body
+          }
+        : body;
+      values = await validateFilterInput(input, { boardId, userId: session.userId }, true);
+    } catch (error) {
+      if (error instanceof FilterValidationError) {
+        return NextResponse.json({ error: error.message, ...error.details }, { status: 400 });
+      }
+      throw error;
+    }
+
+    // The board default is shown to everyone, so it stays shared with the whole board
+    const staysDefault = values.isDefault ?? filter.isDefault;
+    if (staysDefault && values.visibility !== undefined && values.visibility !== 'board') {
+      return NextResponse.json({
+        error: 'The board default filter is visible to the whole board. Unset it as the default first'
+      }, { status: 400 });
+    }
+
+    // A private filter is owner-only, so a board admin making it private would lose it
+    if (values.visibility === 'private' && filter.ownerId !== session.userId) {
+      return NextResponse.json({ error: 'Only the owner can make this filter private' }, { status: 403 });
+    }
+
+    if (values.isDefault && !filter.isDefault) {
+      await clearBoardDefault(boardId);
+    }
+
+    await db.update(savedFilters)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(savedFilters.id, filterId));
+
+    if (Array.isArray(body.groupIds)) {
+      await setFilterGroups(filterId, body.groupIds);
+    }
+
+    const updatedFilter = await getVisibleFilter(boardId, filterId, session.userId, permission);
+
+    return NextResponse.json({
+      message: 'Filter updated successfully',
+      filter: updatedFilter
+    });
+  } catch (error) {
+    console.error('Update filter error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Delete a saved filter (owner or board admin)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; filterId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, filterId } = await params;
+    const { hasAccess, permission } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const filter = await db.query.savedFilters.findFirst({
+      where: and(
+        eq(savedFilters.id, filterId),
+        eq(savedFilters.boardId, boardId)
+      )
+    });
+
+    if (!filter) {
+      return NextResponse.json({ error: 'Filter not found' }, { status: 404 });
+    }
+
+    if (!canManageFilter(filter, session.userId, permission)) {
+      return NextResponse.json({ error: 'Only the owner or a board admin can delete this filter' }, { status: 403 });
+    }
+
+    await db.delete(savedFilters).where(eq(savedFilters.id, filterId));
+
+    return NextResponse.json({ message: 'Filter deleted successfully' });
+  } catch (error) {
+    console.error('Delete filter error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
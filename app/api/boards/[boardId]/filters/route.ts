@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/lib/db';
+import { savedFilters } from '@/lib/db/schema';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import {
+  validateFilterInput,
+  setFilterGroups,
+  clearBoardDefault,
+  getVisibleFilter,
+  listVisibleFilters,
+  FilterValidationError
+} from '@/lib/saved-filters';
+
+// GET - List saved filters visible to the current user
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId } = await params;
+    const { hasAccess, permission } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const filters = await listVisibleFilters(boardId, session.userId, permission);
+
+    return NextResponse.json({ filters });
+  } catch (error) {
+    console.error('Get filters error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Save a filter
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId } = await params;
+    const { hasAccess, permission } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    if (body.isDefault && permission !== 'admin') {
+      return NextResponse.json({ error: 'Only board admins can set the board default filter' }, { status: 403 });
+    }
+
+    let values;
+    try {
+      values = await validateFilterInput({ query: '', sort: null, ...body }, { boardId, userId: session.userId });
+    } catch (error) {
+      if (error instanceof FilterValidationError) {
+        return NextResponse.json({ error: error.message, ...error.details }, { status: 400 });
+      }
+      throw error;
+    }
+
+    if (values.isDefault) {
+      await clearBoardDefault(boardId);
+    }
+
+    const filterId = uuidv4();
+    await db.insert(savedFilters).values({
+      id: filterId,
+      boardId,
+      ownerId: session.userId,
+      name: values.name,
+      query: values.query,
+      sort: values.sort,
+      groupBy: values.groupBy ?? null,
+      visibleFields: values.visibleFields ?? null,
+      visibility: values.visibility ?? 'private',
+      isDefault: values.isDefault ?? false
+    });
+
+    if (Array.isArray(body.groupIds)) {
+      await setFilterGroups(filterId, body.groupIds);
+    }
+
+    const filter = await getVisibleFilter(boardId, filterId, session.userId, permission);
+
+    return NextResponse.json({
+      message: 'Filter saved successfully',
+      filter
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Create filter error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
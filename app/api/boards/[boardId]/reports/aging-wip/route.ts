@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { getAgingWip, reportResponse } from '@/lib/reports';
+
+// GET - Tasks in progress and how long they have been in flight (?format=csv)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const agingWip = await getAgingWip(boardId);
+
+    return reportResponse(request, `${board!.key}-aging-wip`, { agingWip }, () => ({
+      headers: ['key', 'title', 'type', 'column', 'started', 'age_days'],
+      rows: agingWip.tasks.map(t => [t.taskKey, t.title, t.type, t.column.name, t.startedAt, t.ageDays])
+    }));
+  } catch (error) {
+    console.error('Get aging WIP error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
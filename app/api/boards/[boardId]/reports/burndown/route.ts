@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { sprints } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { getSprintBurndown } from '@/lib/reports';
+
+// GET - Sprint burndown (?sprintId=, defaults to the active sprint)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId } = await params;
+    const { hasAccess } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const sprintId = searchParams.get('sprintId');
+
+    const sprint = await db.query.sprints.findFirst({
+      where: and(
+        eq(sprints.boardId, boardId),
+        sprintId ? eq(sprints.id, sprintId) : eq(sprints.status, 'active')
+      )
+    });
+
+    if (!sprint) {
+      return NextResponse.json({ error: sprintId ? 'Sprint not found' : 'No active sprint' }, { status: 404 });
+    }
+
+    const burndown = await getSprintBurndown(sprint);
+
+    if (!burndown) {
+      return NextResponse.json({ error: 'Sprint has not started yet' }, { status: 400 });
+    }
+
+    return NextResponse.json({ burndown });
+  } catch (error) {
+    console.error('Get burndown error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { getCumulativeFlow, parseReportRange, reportResponse, ReportRangeError } from '@/lib/reports';
+
+// GET - Tasks per column per day (?from=&to=, default last 30 days; ?format=csv)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    let range;
+    try {
+      range = parseReportRange(searchParams, 30);
+    } catch (error) {
+      if (error instanceof ReportRangeError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const flow = await getCumulativeFlow(boardId, range.from, range.to);
+
+    return reportResponse(request, `${board!.key}-cumulative-flow`, { cumulativeFlow: { ...range, ...flow } }, () => ({
+      headers: ['date', ...flow.columns.map(c => c.name)],
+      rows: flow.days.map(day => [day.date, ...flow.columns.map(c => day.counts[c.id])])
+    }));
+  } catch (error) {
+    console.error('Get cumulative flow error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { getCycleTimes, parseReportRange, reportResponse, ReportRangeError } from '@/lib/reports';
+
+// GET - Cycle and lead time of tasks completed in the range (?from=&to=, default last 90 days; ?format=csv)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    let range;
+    try {
+      range = parseReportRange(searchParams, 90);
+    } catch (error) {
+      if (error instanceof ReportRangeError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const cycleTimes = await getCycleTimes(boardId, range.from, range.to);
+
+    return reportResponse(request, `${board!.key}-cycle-time`, { cycleTimes: { ...range, ...cycleTimes } }, () => ({
+      headers: ['key', 'title', 'type', 'created', 'started', 'completed', 'cycle_time_days', 'lead_time_days'],
+      rows: cycleTimes.tasks.map(t => [
+        t.taskKey, t.title, t.type, t.createdAt, t.startedAt, t.completedAt, t.cycleTimeDays, t.leadTimeDays
+      ])
+    }));
+  } catch (error) {
+    console.error('Get cycle time error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { getThroughput, parseReportRange, reportResponse, ReportRangeError } from '@/lib/reports';
+
+// GET - Tasks and points completed per week (?from=&to=, default last 12 weeks; ?format=csv)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    let range;
+    try {
+      range = parseReportRange(searchParams, 84);
+    } catch (error) {
+      if (error instanceof ReportRangeError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const throughput = await getThroughput(boardId, range.from, range.to);
+
+    return reportResponse(request, `${board!.key}-throughput`, { throughput: { ...range, ...throughput } }, () => ({
+      headers: ['week_start', 'tasks', 'points'],
+      rows: throughput.weeks.map(w => [w.weekStart.toISOString().slice(0, 10), w.taskCount, w.points])
+    }));
+  } catch (error) {
+    console.error('Get throughput error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { getVelocity } from '@/lib/reports';
+
+// GET - Committed vs. completed points for recent completed sprints (?limit=, default 6)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId } = await params;
+    const { hasAccess } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '6') || 6, 1), 20);
+    const velocity = await getVelocity(boardId, limit);
+
+    return NextResponse.json({ velocity });
+  } catch (error) {
+    console.error('Get velocity error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
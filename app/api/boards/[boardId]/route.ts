@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { boards, boardColumns, boardGroups, groupMembers, tasks, sprints, taskLabels } from '@/lib/db/schema';
+import { boards, boardColumns, boardGroups, groupMembers, tasks, sprints, taskAttachments, taskLabels } from '@/lib/db/schema';
 import { eq, inArray, asc } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
+import { getStorage } from '@/lib/services/storage';
 
 // Helper to check board access
 async function checkBoardAccess(boardId: string, userId: string, requiredLevel: 'read' | 'write' | 'admin' = 'read') {
@@ -115,15 +116,19 @@ export async function GET(
           with: {
             label: true
           }
+        },
+        comments: {
+          columns: { id: true }
         }
       },
       orderBy: asc(tasks.sortOrder)
     });
 
-    // Transform tasks to include labels directly
-    const tasksWithLabels = boardTasks.map(task => ({
+    // Transform tasks to include labels and comment counts directly
+    const tasksWithLabels = boardTasks.map(({ comments, ...task }) => ({
       ...task,
-      labels: task.labelAssignments?.map(la => la.label) || []
+      labels: task.labelAssignments?.map(la => la.label) || [],
+      commentCount: comments.length
     }));
 
     // Organize tasks by column
@@ -212,8 +217,20 @@ export async function DELETE(
       return NextResponse.json({ error: 'Only the board creator can delete it' }, { status: 403 });
     }
 
+    const attachments = await db.select({ storageKey: taskAttachments.storageKey })
+      .from(taskAttachments)
+      .innerJoin(tasks, eq(tasks.id, taskAttachments.taskId))
+      .where(eq(tasks.boardId, boardId));
+
+    // Deleting the board cascades to its tasks and their attachment rows
     await db.delete(boards).where(eq(boards.id, boardId));
 
+    // So the attachments' stored blobs are removed as well
+    const storage = getStorage();
+    for (const attachment of attachments) {
+      await storage.delete(attachment.storageKey);
+    }
+
     return NextResponse.json({ message: 'Board deleted successfully' });
   } catch (error) {
     console.error('Delete board error:', error);
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { sprints } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { recordBoardActivity } from '@/lib/activity';
+import { publishBoardEvent } from '@/lib/events';
+import { completeSprint, SprintStateError } from '@/lib/sprints';
+
+// POST - Complete the active sprint, moving unfinished tasks to the backlog or the next sprint
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; sprintId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, sprintId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'write');
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Write access required' }, { status: 403 });
+    }
+
+    const sprint = await db.query.sprints.findFirst({
+      where: and(
+        eq(sprints.id, sprintId),
+        eq(sprints.boardId, boardId)
+      )
+    });
+
+    if (!sprint) {
+      return NextResponse.json({ error: 'Sprint not found' }, { status: 404 });
+    }
+
+    // { moveTo: 'backlog' } or { moveTo: '<sprintId>' }
+    const { moveTo = 'backlog' } = await request.json().catch(() => ({}));
+
+    let summary;
+    try {
+      summary = await completeSprint({
+        sprint,
+        moveToSprintId: moveTo && moveTo !== 'backlog' ? moveTo : null,
+        userId: session.userId
+      });
+    } catch (error) {
+      if (error instanceof SprintStateError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+      }
+      throw error;
+    }
+
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'completed',
+      entityType: 'sprint',
+      entityId: sprintId,
+      metadata: {
+        name: sprint.name,
+        committedPoints: summary.committedPoints,
+        completedPoints: summary.completedPoints,
+        carriedOverTaskCount: summary.carriedOverTaskCount,
+        carriedOverToSprintId: summary.carriedOverToSprintId
+      }
+    });
+
+    publishBoardEvent({ type: 'sprint.completed', boardId, actorId: session.userId, data: { sprintId, summary } });
+
+    return NextResponse.json({ 
+      message: 'Sprint completed successfully',
+      summary
+    });
+  } catch (error) {
+    console.error('Complete sprint error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -3,6 +3,10 @@ import { db } from '@/lib/db';
 import { sprints, boards, groupMembers, boardGroups, tasks } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
+import { recordBoardActivity, diffFields } from '@/lib/activity';
+import { publishBoardEvent } from '@/lib/events';
+import { prepareSprintStart, serializeSprintSummary, sprintStartable, SprintStateError, SPRINT_STATUSES } from '@/lib/sprints';
+import { recordTaskHistory } from '@/lib/task-history';
 
 // Helper to check board access
 async function checkBoardAccess(boardId: string, userId: string, requiredLevel: 'read' | 'write' | 'admin' = 'read') {
@@ -70,6 +74,7 @@ export async function GET(
         creator: {
           columns: { id: true, username: true, displayName: true }
         },
+        summary: true,
         tasks: {
           with: {
             assignee: {
@@ -87,7 +92,12 @@ export async function GET(
       return NextResponse.json({ error: 'Sprint not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ sprint });
+    return NextResponse.json({ 
+      sprint: {
+        ...sprint,
+        summary: sprint.summary ? serializeSprintSummary(sprint.summary) : null
+      }
+    });
   } catch (error) {
     console.error('Get sprint error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -107,7 +117,7 @@ export async function PUT(
     }
 
     const { boardId, sprintId } = await params;
-    const { hasAccess } = await checkBoardAccess(boardId, session.userId, 'write');
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'write');
 
     if (!hasAccess) {
       return NextResponse.json({ error: 'Write access required' }, { status: 403 });
@@ -131,22 +141,58 @@ export async function PUT(
     if (goal !== undefined) updates.goal = goal;
     if (startDate !== undefined) updates.startDate = startDate ? new Date(startDate) : null;
     if (endDate !== undefined) updates.endDate = endDate ? new Date(endDate) : null;
-    if (status && ['planning', 'active', 'completed'].includes(status)) {
-      // Only one sprint can be active at a time
-      if (status === 'active') {
-        await db.update(sprints)
-          .set({ status: 'planning' })
-          .where(and(
-            eq(sprints.boardId, boardId),
-            eq(sprints.status, 'active')
-          ));
+
+    try {
+      const dates = {
+        startDate: 'startDate' in updates ? updates.startDate : sprint.startDate,
+        endDate: 'endDate' in updates ? updates.endDate : sprint.endDate
+      };
+
+      if (status !== undefined && !SPRINT_STATUSES.includes(status)) {
+        throw new SprintStateError(`Invalid status. Expected one of: ${SPRINT_STATUSES.join(', ')}`);
       }
-      updates.status = status;
+
+      if (status && status !== sprint.status) {
+        if (status === 'active') {
+          Object.assign(updates, await prepareSprintStart(sprint, dates));
+        } else if (status === 'completed') {
+          throw new SprintStateError('Use POST /complete to complete a sprint');
+        } else {
+          throw new SprintStateError('A started sprint cannot go back to planning');
+        }
+      } else if (sprint.status === 'active' && (!dates.startDate || !dates.endDate)) {
+        throw new SprintStateError('An active sprint must keep its start and end dates');
+      }
+    } catch (error) {
+      if (error instanceof SprintStateError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+      }
+      throw error;
     }
 
-    await db.update(sprints)
+    const updated = await db.update(sprints)
       .set(updates)
-      .where(eq(sprints.id, sprintId));
+      .where(updates.status === 'active' ? sprintStartable(sprint) : eq(sprints.id, sprintId))
+      .returning({ id: sprints.id });
+
+    if (updated.length === 0) {
+      return NextResponse.json({
+        error: 'A sprint on this board was just started. Only one sprint can be active at a time'
+      }, { status: 409 });
+    }
+
+    const changes = diffFields(sprint, updates, ['name', 'goal', 'startDate', 'endDate', 'status']);
+    if (Object.keys(changes).length > 0) {
+      await recordBoardActivity(board!, {
+        userId: session.userId,
+        action: changes.status ? 'started' : 'updated',
+        entityType: 'sprint',
+        entityId: sprintId,
+        metadata: { name: sprint.name, changes }
+      });
+
+      publishBoardEvent({ type: 'sprint.updated', boardId, actorId: session.userId, data: { sprintId, changes } });
+    }
 
     const updatedSprint = await db.query.sprints.findFirst({
       where: eq(sprints.id, sprintId),
@@ -180,7 +226,7 @@ export async function DELETE(
     }
 
     const { boardId, sprintId } = await params;
-    const { hasAccess } = await checkBoardAccess(boardId, session.userId, 'admin');
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'admin');
 
     if (!hasAccess) {
       return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
@@ -197,13 +243,30 @@ export async function DELETE(
       return NextResponse.json({ error: 'Sprint not found' }, { status: 404 });
     }
 
+    const sprintTasks = await db.query.tasks.findMany({
+      where: eq(tasks.sprintId, sprintId),
+      columns: { id: true, boardId: true }
+    });
+
     // Move tasks back to backlog (null sprint)
     await db.update(tasks)
       .set({ sprintId: null })
       .where(eq(tasks.sprintId, sprintId));
 
+    for (const task of sprintTasks) {
+      await recordTaskHistory(task, session.userId, { sprintId: { from: sprintId, to: null } });
+    }
+
     await db.delete(sprints).where(eq(sprints.id, sprintId));
 
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'deleted',
+      entityType: 'sprint',
+      entityId: sprintId,
+      metadata: { name: sprint.name }
+    });
+
     return NextResponse.json({ message: 'Sprint deleted successfully' });
   } catch (error) {
     console.error('Delete sprint error:', error);
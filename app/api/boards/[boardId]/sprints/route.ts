@@ -4,6 +4,8 @@ import { db } from '@/lib/db';
 import { sprints, boards, groupMembers, boardGroups, tasks } from '@/lib/db/schema';
 import { eq, desc, and, asc } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
+import { recordBoardActivity } from '@/lib/activity';
+import { serializeSprintSummary } from '@/lib/sprints';
 
 // Helper to check board access
 async function checkBoardAccess(boardId: string, userId: string, requiredLevel: 'read' | 'write' | 'admin' = 'read') {
@@ -67,7 +69,8 @@ export async function GET(
       with: {
         creator: {
           columns: { id: true, username: true, displayName: true }
-        }
+        },
+        summary: true
       },
       orderBy: desc(sprints.createdAt)
     });
@@ -81,6 +84,7 @@ export async function GET(
 
       return {
         ...sprint,
+        summary: sprint.summary ? serializeSprintSummary(sprint.summary) : null,
         taskCount: sprintTasks.length,
         totalPoints: sprintTasks.reduce((sum, t) => sum + (t.storyPoints || 0), 0)
       };
@@ -106,7 +110,7 @@ export async function POST(
     }
 
     const { boardId } = await params;
-    const { hasAccess } = await checkBoardAccess(boardId, session.userId, 'write');
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'write');
 
     if (!hasAccess) {
       return NextResponse.json({ error: 'Write access required' }, { status: 403 });
@@ -130,6 +134,14 @@ export async function POST(
       createdBy: session.userId
     });
 
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'created',
+      entityType: 'sprint',
+      entityId: sprintId,
+      metadata: { name }
+    });
+
     const newSprint = await db.query.sprints.findFirst({
       where: eq(sprints.id, sprintId),
       with: {
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { taskTemplates } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { recordBoardActivity } from '@/lib/activity';
+import { validateTemplateInput, setTemplateLabels, getTaskTemplates, TaskTemplateError } from '@/lib/recurring-tasks';
+
+// GET - Get a recurring task template with its recent occurrences
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; templateId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, templateId } = await params;
+    const { hasAccess } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const [template] = await getTaskTemplates(boardId, templateId);
+
+    if (!template) {
+      return NextResponse.json({ error: 'Task template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error('Get task template error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT - Update a recurring task template
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; templateId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, templateId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'write');
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Write access required' }, { status: 403 });
+    }
+
+    const [existing] = await getTaskTemplates(boardId, templateId);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Task template not found' }, { status: 404 });
+    }
+
+    let input;
+    try {
+      input = await validateTemplateInput(boardId, await request.json(), true);
+    } catch (error) {
+      if (error instanceof TaskTemplateError) {
+        return NextResponse.json({ error: error.message, ...error.details }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const { values, labelIds } = input;
+    await db.update(taskTemplates)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(taskTemplates.id, templateId));
+
+    if (labelIds) {
+      await setTemplateLabels(templateId, labelIds);
+    }
+
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'updated',
+      entityType: 'task_template',
+      entityId: templateId,
+      metadata: {
+        title: values.title ?? existing.title,
+        fields: [...Object.keys(values), ...(labelIds ? ['labelIds'] : [])]
+      }
+    });
+
+    const [template] = await getTaskTemplates(boardId, templateId);
+
+    return NextResponse.json({
+      message: 'Task template updated successfully',
+      template
+    });
+  } catch (error) {
+    console.error('Update task template error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Delete a recurring task template (tasks it already created are kept)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; templateId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, templateId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'write');
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Write access required' }, { status: 403 });
+    }
+
+    const [existing] = await getTaskTemplates(boardId, templateId);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Task template not found' }, { status: 404 });
+    }
+
+    await db.delete(taskTemplates).where(eq(taskTemplates.id, templateId));
+
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'deleted',
+      entityType: 'task_template',
+      entityId: templateId,
+      metadata: { title: existing.title }
+    });
+
+    return NextResponse.json({ message: 'Task template deleted successfully' });
+  } catch (error) {
+    console.error('Delete task template error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
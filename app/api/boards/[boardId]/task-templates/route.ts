@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/lib/db';
+import { taskTemplates } from '@/lib/db/schema';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { recordBoardActivity } from '@/lib/activity';
+import { validateTemplateInput, setTemplateLabels, getTaskTemplates, TaskTemplateError } from '@/lib/recurring-tasks';
+
+// GET - List recurring task templates
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId } = await params;
+    const { hasAccess } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const templates = await getTaskTemplates(boardId);
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('Get task templates error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Create a recurring task template (its tasks are reported by the creator)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'write');
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Write access required' }, { status: 403 });
+    }
+
+    let input;
+    try {
+      input = await validateTemplateInput(boardId, await request.json());
+    } catch (error) {
+      if (error instanceof TaskTemplateError) {
+        return NextResponse.json({ error: error.message, ...error.details }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const { values, labelIds } = input;
+    const templateId = uuidv4();
+    await db.insert(taskTemplates).values({
+      id: templateId,
+      boardId,
+      title: values.title,
+      description: values.description ?? null,
+      type: values.type ?? 'task',
+      priority: values.priority ?? 'medium',
+      storyPoints: values.storyPoints ?? null,
+      assigneeId: values.assigneeId ?? null,
+      recurrence: values.recurrence,
+      startsAt: values.startsAt,
+      enabled: values.enabled ?? true,
+      createdBy: session.userId
+    });
+
+    if (labelIds) {
+      await setTemplateLabels(templateId, labelIds);
+    }
+
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'created',
+      entityType: 'task_template',
+      entityId: templateId,
+      metadata: { title: values.title, recurrence: values.recurrence }
+    });
+
+    const [template] = await getTaskTemplates(boardId, templateId);
+
+    return NextResponse.json({
+      message: 'Task template created successfully',
+      template
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Create task template error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { tasks, taskAttachments } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { getStorage } from '@/lib/services/storage';
+import { recordBoardActivity } from '@/lib/activity';
+
+async function findAttachment(boardId: string, taskId: string, attachmentId: string) {
+  const task = await db.query.tasks.findFirst({
+    where: and(eq(tasks.id, taskId), eq(tasks.boardId, boardId))
+  });
+
+  if (!task) return { task: null, attachment: null };
+
+  const attachment = await db.query.taskAttachments.findFirst({
+    where: and(
+      eq(taskAttachments.id, attachmentId),
+      eq(taskAttachments.taskId, taskId)
+    )
+  });
+
+  return { task, attachment: attachment || null };
+}
+
+// GET - Download an attachment
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; taskId: string; attachmentId: string }> }
+) {
+  try {
+    const session = await getSession();
+    
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, taskId, attachmentId } = await params;
+    const { hasAccess } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { attachment } = await findAttachment(boardId, taskId, attachmentId);
+
+    if (!attachment) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    const storage = getStorage();
+    const buffer = await storage.download(attachment.storageKey);
+
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        'Content-Type': attachment.mimeType,
+        'Content-Disposition': `attachment; filename="${attachment.originalName}"`,
+        'Content-Length': attachment.size.toString()
+      }
+    });
+  } catch (error) {
+    console.error('Download attachment error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove an attachment and its stored object
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; taskId: string; attachmentId: string }> }
+) {
+  try {
+    const session = await getSession();
+    
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, taskId, attachmentId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'write');
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Write access required' }, { status: 403 });
+    }
+
+    const { task, attachment } = await findAttachment(boardId, taskId, attachmentId);
+
+    if (!task || !attachment) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    // Delete from storage
+    const storage = getStorage();
+    await storage.delete(attachment.storageKey);
+
+    // Delete from database
+    await db.delete(taskAttachments).where(eq(taskAttachments.id, attachmentId));
+
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'attachment_removed',
+      entityType: 'task',
+      entityId: taskId,
+      metadata: { taskKey: `${board?.key}-${task.taskNumber}`, attachmentId, name: attachment.originalName }
+    });
+
+    return NextResponse.json({ message: 'Attachment deleted successfully' });
+  } catch (error) {
+    console.error('Delete attachment error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
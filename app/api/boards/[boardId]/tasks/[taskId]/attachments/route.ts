@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/lib/db';
+import { tasks, taskAttachments } from '@/lib/db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { getStorage } from '@/lib/services/storage';
+import { recordBoardActivity } from '@/lib/activity';
+
+// GET - List attachments for a task
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; taskId: string }> }
+) {
+  try {
+    const session = await getSession();
+    
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, taskId } = await params;
+    const { hasAccess } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const task = await db.query.tasks.findFirst({
+      where: and(eq(tasks.id, taskId), eq(tasks.boardId, boardId)),
+      columns: { id: true }
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const attachments = await db.query.taskAttachments.findMany({
+      where: eq(taskAttachments.taskId, taskId),
+      with: {
+        uploader: {
+          columns: { id: true, username: true, displayName: true }
+        }
+      },
+      orderBy: asc(taskAttachments.createdAt)
+    });
+
+    return NextResponse.json({ attachments });
+  } catch (error) {
+    console.error('Get attachments error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Upload one or more attachments (multipart field "file", repeatable)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; taskId: string }> }
+) {
+  try {
+    const session = await getSession();
+    
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, taskId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'write');
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Write access required' }, { status: 403 });
+    }
+
+    const task = await db.query.tasks.findFirst({
+      where: and(eq(tasks.id, taskId), eq(tasks.boardId, boardId))
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const formData = await request.formData();
+    const uploads = formData.getAll('file').filter((entry): entry is File => typeof entry !== 'string');
+
+    if (uploads.length === 0) {
+      return NextResponse.json({ error: 'File is required' }, { status: 400 });
+    }
+
+    const storage = getStorage();
+    const attachmentIds: string[] = [];
+
+    for (const file of uploads) {
+      const attachmentId = uuidv4();
+      const fileExt = file.name.split('.').pop() || '';
+      const storageKey = `boards/${boardId}/tasks/${taskId}/${attachmentId}.${fileExt}`;
+      const mimeType = file.type || 'application/octet-stream';
+
+      const buffer = Buffer.from(await file.arrayBuffer());
+      await storage.upload(storageKey, buffer, mimeType);
+
+      await db.insert(taskAttachments).values({
+        id: attachmentId,
+        taskId,
+        fileName: `${attachmentId}.${fileExt}`,
+        originalName: file.name,
+        storageKey,
+        mimeType,
+        size: file.size,
+        uploadedBy: session.userId
+      });
+
+      attachmentIds.push(attachmentId);
+
+      await recordBoardActivity(board!, {
+        userId: session.userId,
+        action: 'attachment_added',
+        entityType: 'task',
+        entityId: taskId,
+        metadata: { taskKey: `${board?.key}-${task.taskNumber}`, attachmentId, name: file.name }
+      });
+    }
+
+    const attachments = await db.query.taskAttachments.findMany({
+      where: eq(taskAttachments.taskId, taskId),
+      with: {
+        uploader: {
+          columns: { id: true, username: true, displayName: true }
+        }
+      },
+      orderBy: asc(taskAttachments.createdAt)
+    });
+
+    return NextResponse.json({ 
+      message: 'Attachments uploaded successfully',
+      attachments: attachments.filter(a => attachmentIds.includes(a.id))
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Upload attachment error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
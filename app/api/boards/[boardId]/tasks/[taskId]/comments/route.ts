@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
 import { db } from '@/lib/db';
-import { taskComments, tasks, boards, groupMembers, boardGroups, taskWatchers } from '@/lib/db/schema';
+import { taskComments, tasks, boards, groupMembers, boardGroups, users } from '@/lib/db/schema';
 import { eq, and, asc } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
-import { createNotification } from '@/lib/notifications';
+import { watchTask, notifyTaskWatchers } from '@/lib/task-watchers';
+import { recordBoardActivity } from '@/lib/activity';
+import { publishBoardEvent } from '@/lib/events';
+import { runAutomations } from '@/lib/automation';
+import { findTaskKeyReferences } from '@/lib/task-keys';
 
 // Helper to check board access
 async function checkBoardAccess(boardId: string, userId: string, requiredLevel: 'read' | 'write' | 'admin' = 'read') {
@@ -57,7 +61,7 @@ export async function GET(
     }
 
     const { boardId, taskId } = await params;
-    const { hasAccess } = await checkBoardAccess(boardId, session.userId);
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId);
 
     if (!hasAccess) {
       return NextResponse.json({ error: 'Access denied' }, { status: 403 });
@@ -73,7 +77,9 @@ export async function GET(
       orderBy: asc(taskComments.createdAt)
     });
 
-    return NextResponse.json({ comments });
+    const taskRefs = await findTaskKeyReferences(board!.organizationId, session.userId, comments.map(c => c.content));
+
+    return NextResponse.json({ comments, taskRefs });
   } catch (error) {
     console.error('Get comments error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -124,39 +130,33 @@ export async function POST(
       content: content.trim()
     });
 
-    // Notify task assignee and reporter (if not the commenter)
-    const notifyUsers = new Set<string>();
-    if (task.assigneeId && task.assigneeId !== session.userId) {
-      notifyUsers.add(task.assigneeId);
-    }
-    if (task.reporterId !== session.userId) {
-      notifyUsers.add(task.reporterId);
-    }
-
-    // Also notify watchers
-    const watchers = await db.query.taskWatchers.findMany({
-      where: eq(taskWatchers.taskId, taskId)
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'created',
+      entityType: 'comment',
+      entityId: commentId,
+      metadata: { taskId, taskKey: `${board?.key}-${task.taskNumber}` }
     });
-    for (const watcher of watchers) {
-      if (watcher.userId !== session.userId) {
-        notifyUsers.add(watcher.userId);
-      }
-    }
+
+    // Commenters follow the conversation from now on
+    await watchTask(taskId, session.userId);
 
     const currentUser = await db.query.users.findFirst({
-      where: eq(groupMembers.userId, session.userId),
+      where: eq(users.id, session.userId),
       columns: { displayName: true, username: true }
     });
 
-    for (const userId of Array.from(notifyUsers)) {
-      await createNotification({
-        userId,
-        type: 'task',
-        title: 'New Comment',
-        message: `${currentUser?.displayName || currentUser?.username || 'Someone'} commented on "${board?.key}-${task.taskNumber}: ${task.title}".`,
-        link: `/boards/${boardId}?task=${taskId}`
-      });
-    }
+    // Notify watchers plus the task assignee and reporter (never the commenter)
+    await notifyTaskWatchers({
+      taskId,
+      actorId: session.userId,
+      title: 'New Comment',
+      message: `${currentUser?.displayName || currentUser?.username || 'Someone'} commented on "${board?.key}-${task.taskNumber}: ${task.title}".`,
+      link: `/boards/${boardId}?task=${taskId}`,
+      include: [task.assigneeId, task.reporterId]
+    });
+
+    await runAutomations({ type: 'comment_created', boardId, taskId });
 
     const newComment = await db.query.taskComments.findFirst({
       where: eq(taskComments.id, commentId),
@@ -167,9 +167,12 @@ export async function POST(
       }
     });
 
+    publishBoardEvent({ type: 'comment.created', boardId, actorId: session.userId, data: { taskId, comment: newComment } });
+
     return NextResponse.json({ 
       message: 'Comment added successfully',
-      comment: newComment 
+      comment: newComment,
+      taskRefs: await findTaskKeyReferences(board!.organizationId, session.userId, [newComment?.content])
     }, { status: 201 });
   } catch (error) {
     console.error('Add comment error:', error);
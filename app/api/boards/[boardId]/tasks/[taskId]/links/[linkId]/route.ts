@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { tasks, taskLinks } from '@/lib/db/schema';
+import { eq, and, or } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { recordBoardActivity } from '@/lib/activity';
+import { getTaskLinks } from '@/lib/task-links';
+
+// DELETE - Remove a link (from either end)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; taskId: string; linkId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, taskId, linkId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'write');
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Write access required' }, { status: 403 });
+    }
+
+    const task = await db.query.tasks.findFirst({
+      where: and(eq(tasks.id, taskId), eq(tasks.boardId, boardId))
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const link = await db.query.taskLinks.findFirst({
+      where: and(
+        eq(taskLinks.id, linkId),
+        or(eq(taskLinks.sourceTaskId, taskId), eq(taskLinks.targetTaskId, taskId))
+      )
+    });
+
+    // Links to tasks the user cannot see are hidden from them, so treat them as missing
+    const visible = link && (await getTaskLinks(taskId, session.userId)).find(l => l.id === linkId);
+
+    if (!link || !visible) {
+      return NextResponse.json({ error: 'Link not found' }, { status: 404 });
+    }
+
+    await db.delete(taskLinks).where(eq(taskLinks.id, linkId));
+
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'unlinked',
+      entityType: 'task',
+      entityId: taskId,
+      metadata: { 
+        taskKey: `${board!.key}-${task.taskNumber}`, 
+        linkType: visible.type, 
+        targetTaskKey: visible.task.taskKey 
+      }
+    });
+
+    return NextResponse.json({ message: 'Link removed successfully' });
+  } catch (error) {
+    console.error('Delete task link error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
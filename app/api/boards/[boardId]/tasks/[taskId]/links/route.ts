@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { tasks, taskLinks } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { recordBoardActivity } from '@/lib/activity';
+import {
+  TASK_LINK_TYPES,
+  TaskLinkType,
+  normalizeLink,
+  findExistingLink,
+  resolveLinkTarget,
+  getTaskLinks
+} from '@/lib/task-links';
+import { v4 as uuidv4 } from 'uuid';
+
+// GET - List links of a task (from this task's point of view)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; taskId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, taskId } = await params;
+    const { hasAccess } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const task = await db.query.tasks.findFirst({
+      where: and(eq(tasks.id, taskId), eq(tasks.boardId, boardId)),
+      columns: { id: true }
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const links = await getTaskLinks(taskId, session.userId);
+
+    return NextResponse.json({ links });
+  } catch (error) {
+    console.error('Get task links error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Link this task to another task in the same organization
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; taskId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, taskId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'write');
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Write access required' }, { status: 403 });
+    }
+
+    const task = await db.query.tasks.findFirst({
+      where: and(eq(tasks.id, taskId), eq(tasks.boardId, boardId))
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { type, targetTaskId, targetKey } = body;
+
+    if (!TASK_LINK_TYPES.includes(type)) {
+      return NextResponse.json({ 
+        error: `Invalid link type. Expected one of: ${TASK_LINK_TYPES.join(', ')}` 
+      }, { status: 400 });
+    }
+
+    if (!targetTaskId && !targetKey) {
+      return NextResponse.json({ error: 'targetTaskId or targetKey is required' }, { status: 400 });
+    }
+
+    const target = await resolveLinkTarget({ targetTaskId, targetKey }, board!.organizationId);
+
+    if (!target) {
+      return NextResponse.json({ error: 'Target task not found' }, { status: 404 });
+    }
+
+    // Linking only needs read access on the other board, but it must be readable
+    const targetAccess = await checkBoardAccess(target.board.id, session.userId);
+    if (!targetAccess.hasAccess) {
+      return NextResponse.json({ error: 'Target task not found' }, { status: 404 });
+    }
+
+    if (target.task.id === taskId) {
+      return NextResponse.json({ error: 'A task cannot be linked to itself' }, { status: 400 });
+    }
+
+    const link = normalizeLink(type as TaskLinkType, taskId, target.task.id);
+
+    if (await findExistingLink(link)) {
+      return NextResponse.json({ error: 'These tasks are already linked this way' }, { status: 400 });
+    }
+
+    const linkId = uuidv4();
+    await db.insert(taskLinks).values({
+      id: linkId,
+      ...link,
+      createdBy: session.userId
+    });
+
+    const taskKey = `${board!.key}-${task.taskNumber}`;
+    const targetTaskKey = `${target.board.key}-${target.task.taskNumber}`;
+
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'linked',
+      entityType: 'task',
+      entityId: taskId,
+      metadata: { taskKey, linkType: type, targetTaskKey }
+    });
+
+    const links = await getTaskLinks(taskId, session.userId);
+
+    return NextResponse.json({ 
+      message: 'Tasks linked successfully',
+      link: links.find(l => l.id === linkId),
+      links
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Create task link error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { tasks } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { moveTask, TaskMoveError } from '@/lib/task-move';
+
+// POST - Move a task (and its subtasks) to another board; the old keys keep resolving
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; taskId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, taskId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'write');
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Write access required' }, { status: 403 });
+    }
+
+    const task = await db.query.tasks.findFirst({
+      where: and(eq(tasks.id, taskId), eq(tasks.boardId, boardId))
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const { targetBoardId, columnId, sprintId, overrideWipLimit } = await request.json();
+
+    try {
+      const result = await moveTask(task, board!, { targetBoardId, columnId, sprintId, overrideWipLimit }, session.userId);
+
+      return NextResponse.json({
+        message: `Task moved to ${result.board.name} as ${result.task.taskKey}`,
+        task: result.task,
+        board: result.board,
+        moved: result.moved,
+        ...(result.droppedLabels.length > 0 && { droppedLabels: result.droppedLabels }),
+        ...(result.warnings.length > 0 && { warnings: result.warnings })
+      });
+    } catch (error) {
+      if (error instanceof TaskMoveError) {
+        return NextResponse.json({ error: error.message, ...error.details }, { status: error.status });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Move task error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
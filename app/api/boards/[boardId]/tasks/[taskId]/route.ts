@@ -1,9 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { tasks, boards, groupMembers, boardGroups, taskLabelAssignments, taskComments, taskAttachments } from '@/lib/db/schema';
-import { eq, and, asc } from 'drizzle-orm';
+import { tasks, boards, groupMembers, boardGroups, boardColumns, users, taskLabelAssignments, taskComments, taskAttachments, taskKeyAliases } from '@/lib/db/schema';
+import { eq, and, asc, inArray, notInArray } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
 import { createNotification } from '@/lib/notifications';
+import { getStorage } from '@/lib/services/storage';
+import { watchTask, notifyTaskWatchers } from '@/lib/task-watchers';
+import { recordBoardActivity, diffFields } from '@/lib/activity';
+import { publishBoardEvent } from '@/lib/events';
+import { getTaskLinks, getOpenBlockers } from '@/lib/task-links';
+import { getDoneColumnIds } from '@/lib/board-columns';
+import { validateTaskParent, HierarchyError } from '@/lib/task-hierarchy';
+import { recordTaskHistory } from '@/lib/task-history';
+import { checkWipLimit } from '@/lib/wip-limits';
+import { validateTransition, WORKFLOW_REQUIRED_FIELDS, WorkflowError } from '@/lib/workflow';
+import { runAutomations } from '@/lib/automation';
+import { findTaskKeyReferences } from '@/lib/task-keys';
 import { v4 as uuidv4 } from 'uuid';
 
 // Helper to check board access
@@ -99,6 +111,13 @@ export async function GET(
             }
           }
         },
+        watchers: {
+          with: {
+            user: {
+              columns: { id: true, username: true, displayName: true, avatarUrl: true }
+            }
+          }
+        },
         subtasks: {
           with: {
             assignee: {
@@ -113,15 +132,38 @@ export async function GET(
     });
 
     if (!task) {
-      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+      // Links to a task that has since moved to another board point the client at its new home
+      const alias = await db.query.taskKeyAliases.findFirst({
+        where: and(eq(taskKeyAliases.taskId, taskId), eq(taskKeyAliases.boardId, boardId)),
+        with: {
+          task: {
+            columns: { boardId: true, taskNumber: true },
+            with: { board: { columns: { key: true } } }
+          }
+        }
+      });
+
+      return NextResponse.json({
+        error: 'Task not found',
+        ...(alias && {
+          movedTo: { boardId: alias.task.boardId, taskKey: `${alias.task.board.key}-${alias.task.taskNumber}` }
+        })
+      }, { status: 404 });
     }
 
+    const links = await getTaskLinks(taskId, session.userId);
+    const taskRefs = await findTaskKeyReferences(board!.organizationId, session.userId, task.comments.map(c => c.content));
+
     return NextResponse.json({ 
       task: {
         ...task,
         labels: task.labelAssignments?.map(la => la.label) || [],
-        taskKey: `${board?.key}-${task.taskNumber}`
-      }
+        taskKey: `${board?.key}-${task.taskNumber}`,
+        isWatching: task.watchers.some(w => w.userId === session.userId),
+        links
+      },
+      // Tasks mentioned by key in the comments
+      taskRefs
     });
   } catch (error) {
     console.error('Get task error:', error);
@@ -142,7 +184,7 @@ export async function PUT(
     }
 
     const { boardId, taskId } = await params;
-    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'write');
+    const { hasAccess, board, permission } = await checkBoardAccess(boardId, session.userId, 'write');
 
     if (!hasAccess) {
       return NextResponse.json({ error: 'Write access required' }, { status: 403 });
@@ -171,9 +213,68 @@ export async function PUT(
       storyPoints,
       dueDate,
       sortOrder,
-      labelIds
+      labelIds,
+      parentTaskId,
+      overrideWipLimit
     } = body;
 
+    if (type !== undefined || parentTaskId !== undefined) {
+      try {
+        await validateTaskParent({
+          boardId,
+          taskId,
+          type: type ?? existingTask.type,
+          parentTaskId: parentTaskId !== undefined ? parentTaskId || null : existingTask.parentTaskId
+        });
+      } catch (error) {
+        if (error instanceof HierarchyError) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    }
+
+    const isMove = columnId !== undefined && columnId !== existingTask.columnId;
+
+    if (isMove) {
+      // Required fields are checked against the task as it will be after this update
+      const nextTask: Record<string, any> & { id: string } = { ...existingTask };
+      for (const field of WORKFLOW_REQUIRED_FIELDS) {
+        if (body[field] !== undefined) nextTask[field] = body[field];
+      }
+
+      try {
+        await validateTransition({
+          boardId,
+          userId: session.userId,
+          permission,
+          fromColumnId: existingTask.columnId,
+          toColumnId: columnId,
+          task: nextTask
+        });
+      } catch (error) {
+        if (error instanceof WorkflowError) {
+          return NextResponse.json({ error: error.message, code: error.code, ...error.details }, { status: error.status });
+        }
+        throw error;
+      }
+    }
+
+    // Only moves into another column count against its WIP limit
+    const wipViolation = isMove ? await checkWipLimit(columnId) : null;
+    if (wipViolation?.mode === 'block') {
+      if (!overrideWipLimit) {
+        return NextResponse.json({
+          error: wipViolation.message,
+          ...wipViolation,
+          canOverride: permission === 'admin'
+        }, { status: 409 });
+      }
+      if (permission !== 'admin') {
+        return NextResponse.json({ error: 'Only board admins can override WIP limits' }, { status: 403 });
+      }
+    }
+
     const updates: any = { updatedAt: new Date() };
 
     if (title !== undefined) updates.title = title;
@@ -185,6 +286,7 @@ export async function PUT(
     if (storyPoints !== undefined) updates.storyPoints = storyPoints;
     if (dueDate !== undefined) updates.dueDate = dueDate ? new Date(dueDate) : null;
     if (sortOrder !== undefined) updates.sortOrder = sortOrder;
+    if (parentTaskId !== undefined) updates.parentTaskId = parentTaskId || null;
 
     // Handle assignee change
     if (assigneeId !== undefined) {
@@ -206,8 +308,22 @@ export async function PUT(
       .set(updates)
       .where(eq(tasks.id, taskId));
 
+    const changes = diffFields(existingTask, updates, [
+      'title', 'description', 'type', 'priority', 'columnId', 'sprintId', 'assigneeId', 'storyPoints', 'dueDate', 'parentTaskId'
+    ]);
+
     // Update labels if provided
     if (labelIds !== undefined && Array.isArray(labelIds)) {
+      const previousLabels = await db.query.taskLabelAssignments.findMany({
+        where: eq(taskLabelAssignments.taskId, taskId),
+        columns: { labelId: true }
+      });
+      const previousLabelIds = previousLabels.map(la => la.labelId).sort();
+      const nextLabelIds = [...labelIds].sort();
+      if (previousLabelIds.join(',') !== nextLabelIds.join(',')) {
+        changes.labelIds = { from: previousLabelIds, to: nextLabelIds };
+      }
+
       // Remove existing labels
       await db.delete(taskLabelAssignments)
         .where(eq(taskLabelAssignments.taskId, taskId));
@@ -222,6 +338,77 @@ export async function PUT(
       }
     }
 
+    await recordTaskHistory(existingTask, session.userId, changes, updates.updatedAt);
+
+    if (Object.keys(changes).length > 0) {
+      await recordBoardActivity(board!, {
+        userId: session.userId,
+        action: changes.columnId ? 'moved' : 'updated',
+        entityType: 'task',
+        entityId: taskId,
+        metadata: { taskKey: `${board?.key}-${existingTask.taskNumber}`, changes }
+      });
+    }
+
+    if (wipViolation?.mode === 'block') {
+      await recordBoardActivity(board!, {
+        userId: session.userId,
+        action: 'wip_override',
+        entityType: 'task',
+        entityId: taskId,
+        metadata: {
+          taskKey: `${board?.key}-${existingTask.taskNumber}`,
+          column: wipViolation.column,
+          taskCount: wipViolation.taskCount
+        }
+      });
+    }
+
+    // New assignees start watching; watchers hear about status, priority and assignee changes
+    if (changes.assigneeId?.to) {
+      await watchTask(taskId, changes.assigneeId.to);
+    }
+
+    const watcherUpdates: string[] = [];
+    if (changes.columnId) {
+      const column = await db.query.boardColumns.findFirst({
+        where: eq(boardColumns.id, changes.columnId.to),
+        columns: { name: true }
+      });
+      watcherUpdates.push(`moved to ${column?.name || 'another column'}`);
+    }
+    if (changes.priority) {
+      watcherUpdates.push(`priority changed to ${changes.priority.to}`);
+    }
+    if (changes.assigneeId) {
+      const assignee = changes.assigneeId.to ? await db.query.users.findFirst({
+        where: eq(users.id, changes.assigneeId.to),
+        columns: { username: true, displayName: true }
+      }) : null;
+      watcherUpdates.push(assignee ? `reassigned to ${assignee.displayName || assignee.username}` : 'unassigned');
+    }
+
+    if (watcherUpdates.length > 0) {
+      const actor = await db.query.users.findFirst({
+        where: eq(users.id, session.userId),
+        columns: { username: true, displayName: true }
+      });
+
+      await notifyTaskWatchers({
+        taskId,
+        actorId: session.userId,
+        title: 'Task Updated',
+        message: `${actor?.displayName || actor?.username || 'Someone'} updated "${board?.key}-${existingTask.taskNumber}": ${watcherUpdates.join(', ')}.`,
+        link: `/boards/${boardId}?task=${taskId}`,
+        // The new assignee already received a "Task Assigned" notification
+        exclude: [changes.assigneeId?.to]
+      });
+    }
+
+    if (Object.keys(changes).length > 0) {
+      await runAutomations({ type: changes.columnId ? 'task_moved' : 'task_updated', boardId, taskId, changes });
+    }
+
     const updatedTask = await db.query.tasks.findFirst({
       where: eq(tasks.id, taskId),
       with: {
@@ -243,13 +430,45 @@ export async function PUT(
       }
     });
 
+    const taskResponse = {
+      ...updatedTask,
+      labels: updatedTask?.labelAssignments?.map(la => la.label) || [],
+      taskKey: `${board?.key}-${updatedTask?.taskNumber}`
+    };
+
+    // Soft WIP limits and open blockers don't stop a move, but the client should hear about them
+    const warnings: {
+      code: string;
+      message: string;
+      blockers?: { id: string; taskKey: string; title: string }[];
+      column?: { id: string; name: string; wipLimit: number };
+    }[] = [];
+    if (wipViolation?.mode === 'warn') {
+      warnings.push({ code: wipViolation.code, message: wipViolation.message, column: wipViolation.column });
+    }
+    // Moving into a done column is allowed, but tell the client if blockers are still open
+    if (changes.columnId && (await getDoneColumnIds(boardId)).includes(changes.columnId.to)) {
+      const blockers = await getOpenBlockers(taskId);
+      if (blockers.length > 0) {
+        warnings.push({
+          code: 'blocked',
+          message: `${taskResponse.taskKey} is still blocked by ${blockers.map(b => b.taskKey).join(', ')}`,
+          blockers
+        });
+      }
+    }
+
+    publishBoardEvent({
+      type: changes.columnId ? 'task.moved' : 'task.updated',
+      boardId,
+      actorId: session.userId,
+      data: { task: taskResponse, changes }
+    });
+
     return NextResponse.json({ 
       message: 'Task updated successfully',
-      task: {
-        ...updatedTask,
-        labels: updatedTask?.labelAssignments?.map(la => la.label) || [],
-        taskKey: `${board?.key}-${updatedTask?.taskNumber}`
-      }
+      task: taskResponse,
+      ...(warnings.length > 0 && { warnings })
     });
   } catch (error) {
     console.error('Update task error:', error);
@@ -270,7 +489,7 @@ export async function DELETE(
     }
 
     const { boardId, taskId } = await params;
-    const { hasAccess } = await checkBoardAccess(boardId, session.userId, 'write');
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'write');
 
     if (!hasAccess) {
       return NextResponse.json({ error: 'Write access required' }, { status: 403 });
@@ -287,8 +506,48 @@ export async function DELETE(
       return NextResponse.json({ error: 'Task not found' }, { status: 404 });
     }
 
-    // Delete task (cascades to comments, attachments, label assignments)
-    await db.delete(tasks).where(eq(tasks.id, taskId));
+    // Subtasks go with their parent. Other children (stories, tasks and bugs
+    // under an epic) stay on the board, no longer under it.
+    const subtasks = await db.query.tasks.findMany({
+      where: and(eq(tasks.boardId, boardId), eq(tasks.parentTaskId, taskId), eq(tasks.type, 'subtask')),
+      columns: { id: true, taskNumber: true }
+    });
+    const deletedIds = [taskId, ...subtasks.map(t => t.id)];
+
+    const attachments = await db.query.taskAttachments.findMany({
+      where: inArray(taskAttachments.taskId, deletedIds),
+      columns: { storageKey: true }
+    });
+
+    // Delete the tasks (cascades to comments, attachments, label assignments)
+    await db.batch([
+      db.update(tasks)
+        .set({ parentTaskId: null, updatedAt: new Date() })
+        .where(and(inArray(tasks.parentTaskId, deletedIds), notInArray(tasks.id, deletedIds))),
+      db.delete(tasks).where(inArray(tasks.id, deletedIds))
+    ]);
+
+    // Attachment rows are gone with the tasks, so remove their stored blobs too
+    const storage = getStorage();
+    for (const attachment of attachments) {
+      await storage.delete(attachment.storageKey);
+    }
+
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'deleted',
+      entityType: 'task',
+      entityId: taskId,
+      metadata: {
+        taskKey: `${board?.key}-${task.taskNumber}`,
+        title: task.title,
+        ...(subtasks.length > 0 && { subtasks: subtasks.map(t => `${board?.key}-${t.taskNumber}`) })
+      }
+    });
+
+    for (const id of deletedIds) {
+      publishBoardEvent({ type: 'task.deleted', boardId, actorId: session.userId, data: { taskId: id } });
+    }
 
     return NextResponse.json({ message: 'Task deleted successfully' });
   } catch (error) {
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { tasks, taskWatchers } from '@/lib/db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { watchTask, unwatchTask } from '@/lib/task-watchers';
+
+async function listWatchers(taskId: string) {
+  return db.query.taskWatchers.findMany({
+    where: eq(taskWatchers.taskId, taskId),
+    with: {
+      user: {
+        columns: { id: true, username: true, displayName: true, avatarUrl: true }
+      }
+    },
+    orderBy: asc(taskWatchers.createdAt)
+  });
+}
+
+async function taskExists(boardId: string, taskId: string) {
+  const task = await db.query.tasks.findFirst({
+    where: and(eq(tasks.id, taskId), eq(tasks.boardId, boardId)),
+    columns: { id: true }
+  });
+  return !!task;
+}
+
+// GET - List watchers of a task
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; taskId: string }> }
+) {
+  try {
+    const session = await getSession();
+    
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, taskId } = await params;
+    const { hasAccess } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    if (!(await taskExists(boardId, taskId))) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const watchers = await listWatchers(taskId);
+
+    return NextResponse.json({ 
+      watchers,
+      isWatching: watchers.some(w => w.userId === session.userId)
+    });
+  } catch (error) {
+    console.error('Get watchers error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Watch a task (anyone who can read the board may watch)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; taskId: string }> }
+) {
+  try {
+    const session = await getSession();
+    
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, taskId } = await params;
+    const { hasAccess } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    if (!(await taskExists(boardId, taskId))) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    await watchTask(taskId, session.userId);
+
+    return NextResponse.json({ 
+      message: 'Watching task',
+      watchers: await listWatchers(taskId),
+      isWatching: true
+    });
+  } catch (error) {
+    console.error('Watch task error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Stop watching a task
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string; taskId: string }> }
+) {
+  try {
+    const session = await getSession();
+    
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId, taskId } = await params;
+    const { hasAccess } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    if (!(await taskExists(boardId, taskId))) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    await unwatchTask(taskId, session.userId);
+
+    return NextResponse.json({ 
+      message: 'Stopped watching task',
+      watchers: await listWatchers(taskId),
+      isWatching: false
+    });
+  } catch (error) {
+    console.error('Unwatch task error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { v4 as uuidv4 } from 'uuid';
 import { db } from '@/lib/db';
-import { tasks, boards, groupMembers, boardGroups, boardColumns, taskLabelAssignments, users } from '@/lib/db/schema';
-import { eq, and, max, asc, desc, isNull } from 'drizzle-orm';
+import { tasks, boards, groupMembers, boardGroups } from '@/lib/db/schema';
+import { SQL, eq, and, asc, desc, isNull, count } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
-import { createNotification } from '@/lib/notifications';
+import { buildTaskQuery, QueryError } from '@/lib/task-query';
+import { createTask, TaskCreateError } from '@/lib/task-create';
 
 // Helper to check board access
 async function checkBoardAccess(boardId: string, userId: string, requiredLevel: 'read' | 'write' | 'admin' = 'read') {
@@ -44,7 +44,7 @@ async function checkBoardAccess(boardId: string, userId: string, requiredLevel:
   return { hasAccess: permOrder[highestPerm] >= permOrder[requiredLevel], board, permission: highestPerm };
 }
 
-// GET - Get all tasks for a board (with optional filters)
+// GET - Search tasks on a board (`q` query language, legacy filters, pagination)
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ boardId: string }> }
@@ -68,9 +68,37 @@ export async function GET(
     const columnId = searchParams.get('columnId');
     const assigneeId = searchParams.get('assigneeId');
     const backlogOnly = searchParams.get('backlog') === 'true';
+    const query = searchParams.get('q') || '';
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 200);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0);
+
+    let compiled;
+    try {
+      compiled = buildTaskQuery(query, { boardId, userId: session.userId });
+    } catch (error) {
+      if (error instanceof QueryError) {
+        return NextResponse.json({
+          error: error.message,
+          position: error.position,
+          token: error.token
+        }, { status: 400 });
+      }
+      throw error;
+    }
 
     // Build query
-    let whereClause = eq(tasks.boardId, boardId);
+    const conditions: SQL[] = [eq(tasks.boardId, boardId)];
+    if (compiled.where) conditions.push(compiled.where);
+    if (sprintId) conditions.push(eq(tasks.sprintId, sprintId));
+    if (columnId) conditions.push(eq(tasks.columnId, columnId));
+    if (assigneeId) conditions.push(eq(tasks.assigneeId, assigneeId));
+    if (backlogOnly) conditions.push(isNull(tasks.sprintId));
+
+    const whereClause = and(...conditions);
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(tasks)
+      .where(whereClause);
 
     const boardTasks = await db.query.tasks.findMany({
       where: whereClause,
@@ -93,32 +121,25 @@ export async function GET(
           }
         }
       },
-      orderBy: [asc(tasks.sortOrder), desc(tasks.createdAt)]
+      // ORDER BY from the query wins; the board order breaks ties and keeps pages stable
+      orderBy: [...compiled.orderBy, asc(tasks.sortOrder), desc(tasks.createdAt), asc(tasks.id)],
+      limit,
+      offset
     });
 
-    // Apply filters in memory (simpler for SQLite)
-    let filteredTasks = boardTasks;
-    
-    if (sprintId) {
-      filteredTasks = filteredTasks.filter(t => t.sprintId === sprintId);
-    }
-    if (columnId) {
-      filteredTasks = filteredTasks.filter(t => t.columnId === columnId);
-    }
-    if (assigneeId) {
-      filteredTasks = filteredTasks.filter(t => t.assigneeId === assigneeId);
-    }
-    if (backlogOnly) {
-      filteredTasks = filteredTasks.filter(t => !t.sprintId);
-    }
-
     // Transform to include labels directly
-    const tasksWithLabels = filteredTasks.map(task => ({
+    const tasksWithLabels = boardTasks.map(task => ({
       ...task,
       labels: task.labelAssignments?.map(la => la.label) || []
     }));
 
-    return NextResponse.json({ tasks: tasksWithLabels });
+    return NextResponse.json({
+      tasks: tasksWithLabels,
+      total,
+      limit,
+      offset,
+      nextOffset: offset + boardTasks.length < total ? offset + boardTasks.length : null
+    });
   } catch (error) {
     console.error('Get tasks error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -138,137 +159,26 @@ export async function POST(
     }
 
     const { boardId } = await params;
-    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'write');
+    const { hasAccess, board, permission } = await checkBoardAccess(boardId, session.userId, 'write');
 
     if (!hasAccess) {
       return NextResponse.json({ error: 'Write access required' }, { status: 403 });
     }
 
-    const { 
-      title, 
-      description, 
-      type = 'task', 
-      priority = 'medium',
-      columnId,
-      sprintId,
-      assigneeId,
-      storyPoints,
-      dueDate,
-      labelIds,
-      parentTaskId
-    } = await request.json();
-
-    if (!title) {
-      return NextResponse.json({ error: 'Task title is required' }, { status: 400 });
-    }
-
-    // Get or default column
-    let targetColumnId = columnId;
-    if (!targetColumnId) {
-      const defaultColumn = await db.query.boardColumns.findFirst({
-        where: and(
-          eq(boardColumns.boardId, boardId),
-          eq(boardColumns.isDefault, true)
-        )
-      });
-      
-      if (!defaultColumn) {
-        const firstColumn = await db.query.boardColumns.findFirst({
-          where: eq(boardColumns.boardId, boardId),
-          orderBy: asc(boardColumns.sortOrder)
-        });
-        targetColumnId = firstColumn?.id;
-      } else {
-        targetColumnId = defaultColumn.id;
+    try {
+      const { task, warnings } = await createTask(board!, await request.json(), { userId: session.userId, permission });
+
+      return NextResponse.json({ 
+        message: 'Task created successfully',
+        task,
+        ...(warnings.length > 0 && { warnings })
+      }, { status: 201 });
+    } catch (error) {
+      if (error instanceof TaskCreateError) {
+        return NextResponse.json({ error: error.message, ...error.details }, { status: error.status });
       }
+      throw error;
     }
-
-    if (!targetColumnId) {
-      return NextResponse.json({ error: 'No column available' }, { status: 400 });
-    }
-
-    // Get next task number
-    const existingTasks = await db.query.tasks.findMany({
-      where: eq(tasks.boardId, boardId),
-      columns: { taskNumber: true }
-    });
-    const maxNumber = existingTasks.reduce((max, t) => t.taskNumber > max ? t.taskNumber : max, 0);
-
-    // Get max sort order in target column
-    const columnTasks = await db.query.tasks.findMany({
-      where: eq(tasks.columnId, targetColumnId),
-      columns: { sortOrder: true }
-    });
-    const maxSort = columnTasks.reduce((max, t) => t.sortOrder > max ? t.sortOrder : max, -1);
-
-    const taskId = uuidv4();
-    await db.insert(tasks).values({
-      id: taskId,
-      boardId,
-      columnId: targetColumnId,
-      sprintId: sprintId || null,
-      taskNumber: maxNumber + 1,
-      title,
-      description: description || null,
-      type,
-      priority,
-      storyPoints: storyPoints || null,
-      assigneeId: assigneeId || null,
-      reporterId: session.userId,
-      parentTaskId: parentTaskId || null,
-      dueDate: dueDate ? new Date(dueDate) : null,
-      sortOrder: maxSort + 1
-    });
-
-    // Add labels
-    if (labelIds && Array.isArray(labelIds)) {
-      for (const labelId of labelIds) {
-        await db.insert(taskLabelAssignments).values({
-          id: uuidv4(),
-          taskId,
-          labelId
-        });
-      }
-    }
-
-    // Notify assignee if assigned
-    if (assigneeId && assigneeId !== session.userId) {
-      await createNotification({
-        userId: assigneeId,
-        type: 'task',
-        title: 'Task Assigned',
-        message: `You have been assigned to "${board?.key}-${maxNumber + 1}: ${title}".`,
-        link: `/boards/${boardId}?task=${taskId}`
-      });
-    }
-
-    // Fetch the created task
-    const newTask = await db.query.tasks.findFirst({
-      where: eq(tasks.id, taskId),
-      with: {
-        assignee: {
-          columns: { id: true, username: true, displayName: true, avatarUrl: true }
-        },
-        reporter: {
-          columns: { id: true, username: true, displayName: true }
-        },
-        column: {
-          columns: { id: true, name: true, color: true }
-        },
-        labelAssignments: {
-          with: { label: true }
-        }
-      }
-    });
-
-    return NextResponse.json({ 
-      message: 'Task created successfully',
-      task: {
-        ...newTask,
-        labels: newTask?.labelAssignments?.map(la => la.label) || [],
-        taskKey: `${board?.key}-${maxNumber + 1}`
-      }
-    }, { status: 201 });
   } catch (error) {
     console.error('Create task error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { checkBoardAccess } from '@/lib/board-access';
+import { recordBoardActivity } from '@/lib/activity';
+import { publishBoardEvent } from '@/lib/events';
+import { getBoardWorkflow, validateWorkflowInput, saveBoardWorkflow, WorkflowError } from '@/lib/workflow';
+
+// GET - Get the board workflow (allowed transitions and required fields per column)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId } = await params;
+    const { hasAccess } = await checkBoardAccess(boardId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const workflow = await getBoardWorkflow(boardId);
+
+    return NextResponse.json({ workflow });
+  } catch (error) {
+    console.error('Get workflow error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT - Replace the board workflow (board admins)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { boardId } = await params;
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'admin');
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    let input;
+    try {
+      input = await validateWorkflowInput(boardId, body);
+    } catch (error) {
+      if (error instanceof WorkflowError) {
+        return NextResponse.json({ error: error.message, code: error.code, ...error.details }, { status: error.status });
+      }
+      throw error;
+    }
+
+    await saveBoardWorkflow(boardId, input);
+
+    await recordBoardActivity(board!, {
+      userId: session.userId,
+      action: 'updated',
+      entityType: 'workflow',
+      entityId: boardId,
+      metadata: {
+        transitionCount: input.transitions.length,
+        requiredFields: input.requiredFields
+      }
+    });
+
+    const workflow = await getBoardWorkflow(boardId);
+
+    publishBoardEvent({ type: 'workflow.updated', boardId, actorId: session.userId, data: { workflow } });
+
+    return NextResponse.json({
+      message: 'Workflow updated successfully',
+      workflow
+    });
+  } catch (error) {
+    console.error('Update workflow error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,19 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { v4 as uuidv4 } from 'uuid';
 import { db } from '@/lib/db';
-import { boards, boardColumns, boardGroups, groupMembers, organizationMembers } from '@/lib/db/schema';
+import { boards, boardGroups, boardTemplates, groupMembers, organizationMembers } from '@/lib/db/schema';
 import { eq, inArray, and } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
 import { checkOrgAccess } from '@/lib/org-access';
-
-// Default columns for new boards
-const DEFAULT_COLUMNS = [
-  { name: 'Backlog', color: '#6b7280', sortOrder: 0, isDefault: true },
-  { name: 'To Do', color: '#3b82f6', sortOrder: 1, isDefault: false },
-  { name: 'In Progress', color: '#f59e0b', sortOrder: 2, isDefault: false },
-  { name: 'Done', color: '#10b981', sortOrder: 3, isDefault: false },
-  { name: 'Deployed', color: '#8b5cf6', sortOrder: 4, isDefault: false }
-];
+import { createBoard, limitGroupAccess, parseBoardConfig, BoardTemplateError, DEFAULT_BOARD_CONFIG } from '@/lib/board-templates';
 
 // GET - List all boards the user has access to
 export async function GET(request: NextRequest) {
@@ -143,82 +134,50 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
     }
 
-    const { name, description, key, groupIds, organizationId, projectId } = await request.json();
-
-    if (!name) {
-      return NextResponse.json({ error: 'Board name is required' }, { status: 400 });
-    }
+    const { name, description, key, groupIds, organizationId, projectId, templateId } = await request.json();
 
     if (!organizationId) {
       return NextResponse.json({ error: 'Organization is required' }, { status: 400 });
     }
 
-    if (!key || !/^[A-Z]{2,10}$/.test(key)) {
-      return NextResponse.json({ 
-        error: 'Board key is required and must be 2-10 uppercase letters (e.g., PROJ, DEV)' 
-      }, { status: 400 });
-    }
-
     // Verify user is member of organization
     const { hasAccess } = await checkOrgAccess(organizationId, session.userId);
     if (!hasAccess) {
       return NextResponse.json({ error: 'Not a member of this organization' }, { status: 403 });
     }
 
-    // Check key uniqueness within organization
-    const existingBoard = await db.query.boards.findFirst({
-      where: and(eq(boards.key, key), eq(boards.organizationId, organizationId))
-    });
-
-    if (existingBoard) {
-      return NextResponse.json({ error: 'Board key already exists in this organization' }, { status: 400 });
-    }
-
-    // Create board
-    const boardId = uuidv4();
-    await db.insert(boards).values({
-      id: boardId,
-      organizationId,
-      projectId: projectId || null,
-      name,
-      description: description || null,
-      key,
-      createdBy: session.userId
-    });
-
-    // Create default columns
-    for (const col of DEFAULT_COLUMNS) {
-      await db.insert(boardColumns).values({
-        id: uuidv4(),
-        boardId,
-        name: col.name,
-        color: col.color,
-        sortOrder: col.sortOrder,
-        isDefault: col.isDefault
+    // Columns, labels, workflow and group access come from the template when one is picked
+    let config = DEFAULT_BOARD_CONFIG;
+    if (templateId) {
+      const template = await db.query.boardTemplates.findFirst({
+        where: and(eq(boardTemplates.id, templateId), eq(boardTemplates.organizationId, organizationId))
       });
+      if (!template) {
+        return NextResponse.json({ error: 'Board template not found' }, { status: 404 });
+      }
+      config = parseBoardConfig(template.config);
     }
 
-    // Add group access if provided
-    if (groupIds && Array.isArray(groupIds) && groupIds.length > 0) {
-      // Verify user is admin of these groups
-      const userGroupMemberships = await db.query.groupMembers.findMany({
-        where: eq(groupMembers.userId, session.userId)
-      });
-
-      const adminGroupIds = userGroupMemberships
-        .filter(m => m.role === 'admin')
-        .map(m => m.groupId);
-
-      for (const groupId of groupIds) {
-        if (adminGroupIds.includes(groupId)) {
-          await db.insert(boardGroups).values({
-            id: uuidv4(),
-            boardId,
-            groupId,
-            permissionLevel: 'write'
-          });
-        }
+    // Group access from the template and from the request alike is limited to
+    // groups the creator admins, as they could grant it by hand
+    const requestedAccess = Array.isArray(groupIds)
+      ? groupIds
+          .filter((groupId: string) => !config.groupAccess.some(a => a.groupId === groupId))
+          .map((groupId: string) => ({ groupId, permissionLevel: 'write' as const }))
+      : [];
+    config = {
+      ...config,
+      groupAccess: await limitGroupAccess([...config.groupAccess, ...requestedAccess], session.userId)
+    };
+
+    let boardId;
+    try {
+      ({ boardId } = await createBoard({ organizationId, projectId, name, description, key }, session.userId, config));
+    } catch (error) {
+      if (error instanceof BoardTemplateError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
       }
+      throw error;
     }
 
     // Fetch the created board with relations
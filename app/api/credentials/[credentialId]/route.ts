@@ -4,6 +4,7 @@ import { credentials } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
 import { checkProjectAccess } from '@/lib/auth';
+import { recordActivity, diffFields } from '@/lib/activity';
 import { encrypt } from '@/lib/encryption';
 
 export async function PUT(
@@ -51,6 +52,22 @@ export async function PUT(
       .set(updates)
       .where(eq(credentials.id, credentialId));
 
+    // Never log the secret itself, only that it was rotated
+    const changes = diffFields(credential, updates, ['name', 'type', 'description']);
+    if (value !== undefined) {
+      changes.value = { from: null, to: null };
+    }
+    if (Object.keys(changes).length > 0) {
+      await recordActivity({
+        userId: session.userId,
+        projectId: credential.projectId,
+        action: 'updated',
+        entityType: 'credential',
+        entityId: credentialId,
+        metadata: { name: credential.name, changes }
+      });
+    }
+
     const updatedCredential = await db.query.credentials.findFirst({
       where: eq(credentials.id, credentialId),
       columns: {
@@ -104,6 +121,15 @@ export async function DELETE(
 
     await db.delete(credentials).where(eq(credentials.id, credentialId));
 
+    await recordActivity({
+      userId: session.userId,
+      projectId: credential.projectId,
+      action: 'deleted',
+      entityType: 'credential',
+      entityId: credentialId,
+      metadata: { name: credential.name }
+    });
+
     return NextResponse.json({ message: 'Credential deleted successfully' });
   } catch (error) {
     console.error('Delete credential error:', error);
@@ -5,6 +5,7 @@ import { credentials } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
 import { checkProjectAccess } from '@/lib/auth';
+import { recordActivity } from '@/lib/activity';
 import { encrypt } from '@/lib/encryption';
 
 export async function POST(request: NextRequest) {
@@ -46,6 +47,15 @@ export async function POST(request: NextRequest) {
       createdBy: session.userId
     });
 
+    await recordActivity({
+      userId: session.userId,
+      projectId,
+      action: 'created',
+      entityType: 'credential',
+      entityId: credentialId,
+      metadata: { name, type }
+    });
+
     const credential = await db.query.credentials.findFirst({
       where: eq(credentials.id, credentialId),
       columns: {
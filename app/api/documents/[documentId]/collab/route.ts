@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { documents, users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkProjectAccess } from '@/lib/auth';
+import { createEventStream } from '@/lib/events';
+import { isTextOperation } from '@/lib/ot';
+import {
+  openCollabSession,
+  getCollabSession,
+  joinCollabSession,
+  leaveCollabSession,
+  subscribeToCollab,
+  getCollabParticipant,
+  submitCollabOperation,
+  updateCollabPresence,
+  CollabError
+} from '@/lib/document-collab';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Join live editing of a document: a snapshot, then everyone's
+// operations and cursors as Server-Sent Events
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { documentId } = await params;
+
+    const document = await db.query.documents.findFirst({
+      where: eq(documents.id, documentId)
+    });
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const hasAccess = await checkProjectAccess(session.userId, document.projectId, 'read');
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const canWrite = await checkProjectAccess(session.userId, document.projectId, 'write');
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, session.userId),
+      columns: { id: true, username: true, displayName: true }
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const collab = openCollabSession(document);
+
+    return createEventStream(request, (send) => {
+      const { participant, snapshot } = joinCollabSession(collab, user);
+      send('snapshot', { ...snapshot, canWrite });
+      const unsubscribe = subscribeToCollab(documentId, (event) => send(event.type, event));
+
+      return () => {
+        unsubscribe();
+        leaveCollabSession(collab, participant.clientId);
+      };
+    });
+  } catch (error) {
+    console.error('Document collaboration error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Send an operation made at `revision` and/or the editor's selection:
+// { clientId, revision?, op?, selection? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { documentId } = await params;
+    const { clientId, revision, op, selection } = await request.json();
+
+    const collab = getCollabSession(documentId);
+    if (!collab) {
+      return NextResponse.json({ error: 'Not connected to this document' }, { status: 409 });
+    }
+
+    // Checked on every write, so losing access stops edits right away
+    const hasAccess = await checkProjectAccess(session.userId, collab.projectId, op !== undefined ? 'write' : 'read');
+    if (!hasAccess) {
+      return NextResponse.json({ error: op !== undefined ? 'Write access required' : 'Access denied' }, { status: 403 });
+    }
+
+    const participant = getCollabParticipant(collab, clientId, session.userId);
+
+    if (op !== undefined) {
+      if (!isTextOperation(op) || typeof revision !== 'number') {
+        return NextResponse.json({ error: 'Invalid operation' }, { status: 400 });
+      }
+      submitCollabOperation(collab, participant, revision, op);
+    }
+
+    if (selection !== undefined) {
+      const valid = selection === null || (Number.isInteger(selection?.anchor) && Number.isInteger(selection?.head));
+      if (!valid) {
+        return NextResponse.json({ error: 'Invalid selection' }, { status: 400 });
+      }
+      updateCollabPresence(collab, participant, selection && { anchor: selection.anchor, head: selection.head });
+    }
+
+    return NextResponse.json({ revision: collab.revision });
+  } catch (error) {
+    if (error instanceof CollabError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Document collaboration error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
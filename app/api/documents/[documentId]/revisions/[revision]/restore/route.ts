@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { documents } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkProjectAccess } from '@/lib/auth';
+import { recordActivity } from '@/lib/activity';
+import { getDocumentRevision, updateDocument, documentETag } from '@/lib/document-revisions';
+import { applyDocumentSave } from '@/lib/document-collab';
+
+// POST - Restore a revision's title and content, saved as a new revision
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string; revision: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { documentId, revision: revisionParam } = await params;
+
+    const document = await db.query.documents.findFirst({
+      where: eq(documents.id, documentId)
+    });
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const hasAccess = await checkProjectAccess(session.userId, document.projectId, 'write');
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Write access required' }, { status: 403 });
+    }
+
+    const restored = await getDocumentRevision(documentId, parseInt(revisionParam));
+    if (!restored) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    // Restoring what is already there leaves the history alone
+    const revision = await updateDocument(
+      document,
+      { title: restored.title, content: restored.content, updatedAt: new Date() },
+      session.userId,
+      { restoredFrom: restored.revisionNumber }
+    );
+
+    if (revision) {
+      await recordActivity({
+        userId: session.userId,
+        projectId: document.projectId,
+        action: 'restored',
+        entityType: 'document',
+        entityId: documentId,
+        metadata: { title: restored.title, revision, restoredFrom: restored.revisionNumber }
+      });
+    }
+
+    const updatedDocument = await db.query.documents.findFirst({
+      where: eq(documents.id, documentId),
+      with: {
+        creator: {
+          columns: { id: true, username: true, displayName: true }
+        }
+      }
+    });
+
+    // Anyone editing the document live gets the saved text merged in
+    if (revision) {
+      applyDocumentSave(documentId, updatedDocument!.content);
+    }
+
+    return NextResponse.json({ document: updatedDocument, revision }, {
+      headers: { ETag: documentETag(updatedDocument!.version) }
+    });
+  } catch (error) {
+    console.error('Restore document revision error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { documents } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkProjectAccess } from '@/lib/auth';
+import { getDocumentRevision } from '@/lib/document-revisions';
+
+// GET - One revision of a document, with its content
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string; revision: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { documentId, revision: revisionParam } = await params;
+
+    const document = await db.query.documents.findFirst({
+      where: eq(documents.id, documentId)
+    });
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const hasAccess = await checkProjectAccess(session.userId, document.projectId, 'read');
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const revision = await getDocumentRevision(documentId, parseInt(revisionParam));
+    if (!revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ revision });
+  } catch (error) {
+    console.error('Get document revision error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
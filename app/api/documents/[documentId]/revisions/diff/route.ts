@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { documents } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkProjectAccess } from '@/lib/auth';
+import { getDocumentRevision, getLatestRevisionNumber } from '@/lib/document-revisions';
+import { diffText, DiffMode } from '@/lib/text-diff';
+
+// GET - Diff two revisions: ?from=3&to=5&mode=line|word. `to` defaults to the
+// latest revision and `from` to the one before `to`.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { documentId } = await params;
+    const { searchParams } = new URL(request.url);
+    const mode = (searchParams.get('mode') || 'line') as DiffMode;
+
+    if (mode !== 'line' && mode !== 'word') {
+      return NextResponse.json({ error: 'Mode must be "line" or "word"' }, { status: 400 });
+    }
+
+    const document = await db.query.documents.findFirst({
+      where: eq(documents.id, documentId)
+    });
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const hasAccess = await checkProjectAccess(session.userId, document.projectId, 'read');
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const toNumber = searchParams.get('to')
+      ? parseInt(searchParams.get('to')!)
+      : await getLatestRevisionNumber(documentId);
+    const to = toNumber ? await getDocumentRevision(documentId, toNumber) : null;
+    if (!to) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    // The first revision is compared with an empty document
+    const fromNumber = searchParams.get('from') ? parseInt(searchParams.get('from')!) : to.revisionNumber - 1;
+    const from = fromNumber > 0 ? await getDocumentRevision(documentId, fromNumber) : null;
+    if (fromNumber > 0 && !from) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    const summary = (revision: NonNullable<typeof to>) => {
+      const { content, ...rest } = revision;
+      return rest;
+    };
+
+    return NextResponse.json({
+      from: from ? summary(from) : null,
+      to: summary(to),
+      titleChanged: (from?.title ?? '') !== to.title,
+      diff: diffText(from?.content || '', to.content || '', mode)
+    });
+  } catch (error) {
+    console.error('Diff document revisions error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,9 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { documents } from '@/lib/db/schema';
+import { documents, projects } from '@/lib/db/schema';
+import type { Document } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
 import { checkProjectAccess } from '@/lib/auth';
+import { recordActivity, diffFields } from '@/lib/activity';
+import { renderMarkdown } from '@/lib/markdown';
+import {
+  updateDocument,
+  documentETag,
+  parseDocumentETag,
+  getDocumentRevision,
+  DocumentConflictError
+} from '@/lib/document-revisions';
+import { applyDocumentSave } from '@/lib/document-collab';
 
 export async function GET(
   request: NextRequest,
@@ -36,13 +47,59 @@ export async function GET(
       return NextResponse.json({ error: 'Access denied' }, { status: 403 });
     }
 
-    return NextResponse.json({ document });
+    const project = await db.query.projects.findFirst({
+      where: eq(projects.id, document.projectId),
+      columns: { organizationId: true }
+    });
+    // Rendered for this reader: task chips only for boards they can see
+    const html = project
+      ? await renderMarkdown(document.content || '', {
+        organizationId: project.organizationId,
+        projectId: document.projectId,
+        userId: session.userId
+      })
+      : '';
+
+    return NextResponse.json({ document, html }, {
+      headers: { ETag: documentETag(document.version) }
+    });
   } catch (error) {
     console.error('Get document error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
 
+// 409 with what is on the server now, so the editor can merge
+async function documentConflict(current: Document) {
+  const [document, lastRevision] = await Promise.all([
+    db.query.documents.findFirst({
+      where: eq(documents.id, current.id),
+      with: {
+        creator: {
+          columns: { id: true, username: true, displayName: true }
+        }
+      }
+    }),
+    getDocumentRevision(current.id, current.version)
+  ]);
+  const author = lastRevision?.author;
+
+  return NextResponse.json({
+    error: author
+      ? `${author.displayName || author.username} changed this document since you opened it`
+      : 'This document was changed since you opened it',
+    document,
+    lastRevision: lastRevision && {
+      revisionNumber: lastRevision.revisionNumber,
+      author,
+      createdAt: lastRevision.createdAt
+    }
+  }, {
+    status: 409,
+    headers: { ETag: documentETag(current.version) }
+  });
+}
+
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ documentId: string }> }
@@ -57,6 +114,13 @@ export async function PUT(
     const { documentId } = await params;
     const { title, content, parentId, sortOrder } = await request.json();
 
+    // If-Match makes the save conditional on the version the editor started from
+    const ifMatch = request.headers.get('If-Match');
+    const expectedVersion = parseDocumentETag(ifMatch);
+    if (ifMatch && ifMatch.trim() !== '*' && expectedVersion === null) {
+      return NextResponse.json({ error: 'Invalid If-Match header' }, { status: 400 });
+    }
+
     const document = await db.query.documents.findFirst({
       where: eq(documents.id, documentId)
     });
@@ -79,9 +143,31 @@ export async function PUT(
     if (parentId !== undefined) updates.parentId = parentId;
     if (sortOrder !== undefined) updates.sortOrder = sortOrder;
 
-    await db.update(documents)
-      .set(updates)
-      .where(eq(documents.id, documentId));
+    let revision: number | null;
+    try {
+      revision = await updateDocument(document, updates, session.userId, { expectedVersion });
+    } catch (error) {
+      if (error instanceof DocumentConflictError) {
+        return documentConflict(error.current);
+      }
+      throw error;
+    }
+
+    const changes = diffFields(document, updates, ['title', 'parentId', 'sortOrder']);
+    // Content can be large, so only the size change is logged
+    if (content !== undefined && content !== document.content) {
+      changes.content = { from: document.content?.length ?? 0, to: content?.length ?? 0 };
+    }
+    if (Object.keys(changes).length > 0) {
+      await recordActivity({
+        userId: session.userId,
+        projectId: document.projectId,
+        action: 'updated',
+        entityType: 'document',
+        entityId: documentId,
+        metadata: { title: document.title, changes, ...(revision ? { revision } : {}) }
+      });
+    }
 
     const updatedDocument = await db.query.documents.findFirst({
       where: eq(documents.id, documentId),
@@ -92,7 +178,14 @@ export async function PUT(
       }
     });
 
-    return NextResponse.json({ document: updatedDocument });
+    // Anyone editing the document live gets the saved text merged in
+    if (revision) {
+      applyDocumentSave(documentId, updatedDocument!.content);
+    }
+
+    return NextResponse.json({ document: updatedDocument, revision }, {
+      headers: { ETag: documentETag(updatedDocument!.version) }
+    });
   } catch (error) {
     console.error('Update document error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -127,6 +220,15 @@ export async function DELETE(
 
     await db.delete(documents).where(eq(documents.id, documentId));
 
+    await recordActivity({
+      userId: session.userId,
+      projectId: document.projectId,
+      action: 'deleted',
+      entityType: 'document',
+      entityId: documentId,
+      metadata: { title: document.title }
+    });
+
     return NextResponse.json({ message: 'Document deleted successfully' });
   } catch (error) {
     console.error('Delete document error:', error);
@@ -4,6 +4,7 @@ import { documents } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
 import { checkProjectAccess } from '@/lib/auth';
+import { recordActivity } from '@/lib/activity';
 
 export async function POST(request: NextRequest) {
   try {
@@ -31,6 +32,14 @@ export async function POST(request: NextRequest) {
         .where(eq(documents.id, order.id));
     }
 
+    await recordActivity({
+      userId: session.userId,
+      projectId,
+      action: 'reordered',
+      entityType: 'document',
+      metadata: { count: orders.length }
+    });
+
     return NextResponse.json({ message: 'Documents reordered successfully' });
   } catch (error) {
     console.error('Reorder documents error:', error);
@@ -5,6 +5,8 @@ import { documents } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
 import { checkProjectAccess } from '@/lib/auth';
+import { recordActivity } from '@/lib/activity';
+import { createDocument, documentETag } from '@/lib/document-revisions';
 
 export async function POST(request: NextRequest) {
   try {
@@ -42,7 +44,7 @@ export async function POST(request: NextRequest) {
 
     const documentId = uuidv4();
 
-    await db.insert(documents).values({
+    await createDocument({
       id: documentId,
       projectId,
       title,
@@ -52,6 +54,15 @@ export async function POST(request: NextRequest) {
       createdBy: session.userId
     });
 
+    await recordActivity({
+      userId: session.userId,
+      projectId,
+      action: 'created',
+      entityType: 'document',
+      entityId: documentId,
+      metadata: { title }
+    });
+
     const document = await db.query.documents.findFirst({
       where: eq(documents.id, documentId),
       with: {
@@ -61,7 +72,10 @@ export async function POST(request: NextRequest) {
       }
     });
 
-    return NextResponse.json({ document }, { status: 201 });
+    return NextResponse.json({ document }, {
+      status: 201,
+      headers: { ETag: documentETag(document!.version) }
+    });
   } catch (error) {
     console.error('Create document error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
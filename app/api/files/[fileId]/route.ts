@@ -4,6 +4,7 @@ import { files } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
 import { checkProjectAccess } from '@/lib/auth';
+import { recordActivity, diffFields } from '@/lib/activity';
 import { getStorage } from '@/lib/services/storage';
 
 export async function PUT(
@@ -42,6 +43,18 @@ export async function PUT(
       .set(updates)
       .where(eq(files.id, fileId));
 
+    const changes = diffFields(file, updates, ['name', 'folderId']);
+    if (Object.keys(changes).length > 0) {
+      await recordActivity({
+        userId: session.userId,
+        projectId: file.projectId,
+        action: 'updated',
+        entityType: 'file',
+        entityId: fileId,
+        metadata: { name: file.name, changes }
+      });
+    }
+
     const updatedFile = await db.query.files.findFirst({
       where: eq(files.id, fileId),
       with: {
@@ -94,6 +107,15 @@ export async function DELETE(
     // Delete from database
     await db.delete(files).where(eq(files.id, fileId));
 
+    await recordActivity({
+      userId: session.userId,
+      projectId: file.projectId,
+      action: 'deleted',
+      entityType: 'file',
+      entityId: fileId,
+      metadata: { name: file.name }
+    });
+
     return NextResponse.json({ message: 'File deleted successfully' });
   } catch (error) {
     console.error('Delete file error:', error);
@@ -4,6 +4,7 @@ import { files, folders } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
 import { checkProjectAccess } from '@/lib/auth';
+import { recordActivity, diffFields } from '@/lib/activity';
 import { getStorage } from '@/lib/services/storage';
 
 export async function PUT(
@@ -42,6 +43,18 @@ export async function PUT(
       .set(updates)
       .where(eq(folders.id, folderId));
 
+    const changes = diffFields(folder, updates, ['name', 'parentId']);
+    if (Object.keys(changes).length > 0) {
+      await recordActivity({
+        userId: session.userId,
+        projectId: folder.projectId,
+        action: 'updated',
+        entityType: 'folder',
+        entityId: folderId,
+        metadata: { name: folder.name, changes }
+      });
+    }
+
     const updatedFolder = await db.query.folders.findFirst({
       where: eq(folders.id, folderId)
     });
@@ -96,6 +109,15 @@ export async function DELETE(
     // Delete folder
     await db.delete(folders).where(eq(folders.id, folderId));
 
+    await recordActivity({
+      userId: session.userId,
+      projectId: folder.projectId,
+      action: 'deleted',
+      entityType: 'folder',
+      entityId: folderId,
+      metadata: { name: folder.name, fileCount: folderFiles.length }
+    });
+
     return NextResponse.json({ message: 'Folder deleted successfully' });
   } catch (error) {
     console.error('Delete folder error:', error);
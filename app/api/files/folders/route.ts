@@ -5,6 +5,7 @@ import { folders } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
 import { checkProjectAccess } from '@/lib/auth';
+import { recordActivity } from '@/lib/activity';
 
 export async function POST(request: NextRequest) {
   try {
@@ -35,6 +36,15 @@ export async function POST(request: NextRequest) {
       createdBy: session.userId
     });
 
+    await recordActivity({
+      userId: session.userId,
+      projectId,
+      action: 'created',
+      entityType: 'folder',
+      entityId: folderId,
+      metadata: { name }
+    });
+
     const folder = await db.query.folders.findFirst({
       where: eq(folders.id, folderId),
       with: {
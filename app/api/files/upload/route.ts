@@ -5,6 +5,7 @@ import { files, folders } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
 import { checkProjectAccess } from '@/lib/auth';
+import { recordActivity } from '@/lib/activity';
 import { getStorage } from '@/lib/services/storage';
 
 export async function POST(request: NextRequest) {
@@ -68,6 +69,15 @@ export async function POST(request: NextRequest) {
       createdBy: session.userId
     });
 
+    await recordActivity({
+      userId: session.userId,
+      projectId,
+      action: 'uploaded',
+      entityType: 'file',
+      entityId: fileId,
+      metadata: { name: file.name, size: file.size }
+    });
+
     const savedFile = await db.query.files.findFirst({
       where: eq(files.id, fileId),
       with: {
@@ -3,6 +3,7 @@ import { db } from '@/lib/db';
 import { notifications } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
+import { publishNotificationEvent } from '@/lib/notifications';
 
 // PUT - Mark notification as read
 export async function PUT(
@@ -34,6 +35,8 @@ export async function PUT(
       .set({ isRead: true })
       .where(eq(notifications.id, notificationId));
 
+    await publishNotificationEvent(session.userId, 'notification.read', { notificationId });
+
     return NextResponse.json({ message: 'Notification marked as read' });
   } catch (error) {
     console.error('Update notification error:', error);
@@ -70,6 +73,8 @@ export async function DELETE(
     await db.delete(notifications)
       .where(eq(notifications.id, notificationId));
 
+    await publishNotificationEvent(session.userId, 'notification.deleted', { notificationId });
+
     return NextResponse.json({ message: 'Notification deleted' });
   } catch (error) {
     console.error('Delete notification error:', error);
@@ -3,6 +3,7 @@ import { db } from '@/lib/db';
 import { notifications } from '@/lib/db/schema';
 import { eq, desc, and } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
+import { getUnreadCount, publishNotificationEvent } from '@/lib/notifications';
 
 // GET user's notifications
 export async function GET(request: NextRequest) {
@@ -31,17 +32,9 @@ export async function GET(request: NextRequest) {
       limit
     });
 
-    // Get unread count
-    const unreadNotifications = await db.query.notifications.findMany({
-      where: and(
-        eq(notifications.userId, session.userId),
-        eq(notifications.isRead, false)
-      )
-    });
-
     return NextResponse.json({ 
       notifications: userNotifications,
-      unreadCount: unreadNotifications.length
+      unreadCount: await getUnreadCount(session.userId)
     });
   } catch (error) {
     console.error('Get notifications error:', error);
@@ -65,6 +58,8 @@ export async function POST(request: NextRequest) {
         .set({ isRead: true })
         .where(eq(notifications.userId, session.userId));
 
+      await publishNotificationEvent(session.userId, 'notifications.read_all');
+
       return NextResponse.json({ message: 'All notifications marked as read' });
     }
 
@@ -72,6 +67,8 @@ export async function POST(request: NextRequest) {
       await db.delete(notifications)
         .where(eq(notifications.userId, session.userId));
 
+      await publishNotificationEvent(session.userId, 'notifications.cleared');
+
       return NextResponse.json({ message: 'All notifications cleared' });
     }
 
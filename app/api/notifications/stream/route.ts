@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { getUnreadCount } from '@/lib/notifications';
+import { createEventStream, subscribeToUser } from '@/lib/events';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Stream the current user's notification changes as Server-Sent Events
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const userId = session.userId;
+    const unreadCount = await getUnreadCount(userId);
+
+    return createEventStream(request, (send) => {
+      send('connected', { unreadCount });
+      return subscribeToUser(userId, (event) => send(event.type, event.data));
+    });
+  } catch (error) {
+    console.error('Notification stream error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { boardTemplates } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkOrgAccess } from '@/lib/org-access';
+import { parseBoardConfig } from '@/lib/board-templates';
+
+function findTemplate(orgId: string, templateId: string) {
+  return db.query.boardTemplates.findFirst({
+    where: and(eq(boardTemplates.id, templateId), eq(boardTemplates.organizationId, orgId)),
+    with: {
+      creator: {
+        columns: { id: true, username: true, displayName: true }
+      }
+    }
+  });
+}
+
+// GET - Get a board template
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string; templateId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { orgId, templateId } = await params;
+    const { hasAccess } = await checkOrgAccess(orgId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const template = await findTemplate(orgId, templateId);
+
+    if (!template) {
+      return NextResponse.json({ error: 'Board template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ template: { ...template, config: parseBoardConfig(template.config) } });
+  } catch (error) {
+    console.error('Get board template error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT - Rename a board template (its creator or organization admins)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string; templateId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { orgId, templateId } = await params;
+    const { hasAccess, role } = await checkOrgAccess(orgId, session.userId);
+    const template = hasAccess ? await findTemplate(orgId, templateId) : null;
+
+    if (!hasAccess || (template && template.createdBy !== session.userId && role === 'member')) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    if (!template) {
+      return NextResponse.json({ error: 'Board template not found' }, { status: 404 });
+    }
+
+    const { name, description } = await request.json();
+
+    if (name !== undefined && !name.trim()) {
+      return NextResponse.json({ error: 'Template name is required' }, { status: 400 });
+    }
+
+    await db.update(boardTemplates)
+      .set({
+        ...(name !== undefined && { name: name.trim() }),
+        ...(description !== undefined && { description: description || null }),
+        updatedAt: new Date()
+      })
+      .where(eq(boardTemplates.id, templateId));
+
+    const updated = await findTemplate(orgId, templateId);
+
+    return NextResponse.json({
+      message: 'Board template updated successfully',
+      template: { ...updated!, config: parseBoardConfig(updated!.config) }
+    });
+  } catch (error) {
+    console.error('Update board template error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Delete a board template (its creator or organization admins)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string; templateId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { orgId, templateId } = await params;
+    const { hasAccess, role } = await checkOrgAccess(orgId, session.userId);
+    const template = hasAccess ? await findTemplate(orgId, templateId) : null;
+
+    if (!hasAccess || (template && template.createdBy !== session.userId && role === 'member')) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    if (!template) {
+      return NextResponse.json({ error: 'Board template not found' }, { status: 404 });
+    }
+
+    await db.delete(boardTemplates).where(eq(boardTemplates.id, templateId));
+
+    return NextResponse.json({ message: 'Board template deleted successfully' });
+  } catch (error) {
+    console.error('Delete board template error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/lib/db';
+import { boardTemplates } from '@/lib/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkOrgAccess } from '@/lib/org-access';
+import { checkBoardAccess } from '@/lib/board-access';
+import { captureBoardConfig, parseBoardConfig } from '@/lib/board-templates';
+
+// GET - List the organization's board templates
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { orgId } = await params;
+    const { hasAccess } = await checkOrgAccess(orgId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const templates = await db.query.boardTemplates.findMany({
+      where: eq(boardTemplates.organizationId, orgId),
+      with: {
+        creator: {
+          columns: { id: true, username: true, displayName: true }
+        }
+      },
+      orderBy: asc(boardTemplates.name)
+    });
+
+    return NextResponse.json({
+      templates: templates.map(t => ({ ...t, config: parseBoardConfig(t.config) }))
+    });
+  } catch (error) {
+    console.error('Get board templates error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Save a board's columns, labels, workflow and group access as a template (board admins)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { orgId } = await params;
+    const { name, description, boardId } = await request.json();
+
+    if (!name || !name.trim()) {
+      return NextResponse.json({ error: 'Template name is required' }, { status: 400 });
+    }
+
+    if (!boardId) {
+      return NextResponse.json({ error: 'boardId is required' }, { status: 400 });
+    }
+
+    const { hasAccess, board } = await checkBoardAccess(boardId, session.userId, 'admin');
+
+    if (!hasAccess || board?.organizationId !== orgId) {
+      return NextResponse.json({ error: 'Admin access to the board is required' }, { status: 403 });
+    }
+
+    const { config } = await captureBoardConfig(boardId);
+
+    const templateId = uuidv4();
+    await db.insert(boardTemplates).values({
+      id: templateId,
+      organizationId: orgId,
+      name: name.trim(),
+      description: description || null,
+      config: JSON.stringify(config),
+      sourceBoardId: boardId,
+      createdBy: session.userId
+    });
+
+    const template = await db.query.boardTemplates.findFirst({
+      where: eq(boardTemplates.id, templateId)
+    });
+
+    return NextResponse.json({
+      message: 'Board template created successfully',
+      template: { ...template!, config }
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Create board template error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
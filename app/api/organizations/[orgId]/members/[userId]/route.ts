@@ -5,6 +5,7 @@ import { eq, and } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
 import { createNotification } from '@/lib/notifications';
 import { checkOrgAccess } from '@/lib/org-access';
+import { recordActivity } from '@/lib/activity';
 
 // PUT - Update member role
 export async function PUT(
@@ -60,6 +61,15 @@ export async function PUT(
         eq(organizationMembers.userId, userId)
       ));
 
+    await recordActivity({
+      userId: session.userId,
+      organizationId: orgId,
+      action: 'role_changed',
+      entityType: 'org_member',
+      entityId: userId,
+      metadata: { from: targetMembership.role, to: role }
+    });
+
     // Notify user
     const org = await db.query.organizations.findFirst({
       where: eq(organizations.id, orgId),
@@ -132,6 +142,15 @@ export async function DELETE(
         eq(organizationMembers.userId, userId)
       ));
 
+    await recordActivity({
+      userId: session.userId,
+      organizationId: orgId,
+      action: isSelf ? 'left' : 'removed',
+      entityType: 'org_member',
+      entityId: userId,
+      metadata: { role: targetMembership.role }
+    });
+
     // Notify user if removed by someone else
     if (!isSelf) {
       await createNotification({
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { tasks } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkOrgAccess } from '@/lib/org-access';
+import { checkBoardAccess } from '@/lib/board-access';
+import { resolveTaskKey } from '@/lib/task-keys';
+
+// GET - Find a task by its key (e.g. PROJ-42), including old keys of tasks moved to another board
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string; key: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { orgId, key } = await params;
+    const { hasAccess } = await checkOrgAccess(orgId, session.userId);
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const resolved = await resolveTaskKey(orgId, decodeURIComponent(key));
+    if (!resolved) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const { hasAccess: canRead } = await checkBoardAccess(resolved.board.id, session.userId);
+    if (!canRead) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const task = await db.query.tasks.findFirst({
+      where: eq(tasks.id, resolved.task.id),
+      with: {
+        assignee: {
+          columns: { id: true, username: true, displayName: true, avatarUrl: true }
+        },
+        column: {
+          columns: { id: true, name: true, color: true }
+        }
+      }
+    });
+
+    return NextResponse.json({
+      task: {
+        ...task,
+        taskKey: `${resolved.board.key}-${resolved.task.taskNumber}`
+      },
+      board: { id: resolved.board.id, name: resolved.board.name, key: resolved.board.key },
+      // Set when the key is an old one from before the task was moved
+      aliased: resolved.aliased,
+      url: `/boards/${resolved.board.id}?task=${resolved.task.id}`
+    });
+  } catch (error) {
+    console.error('Get task by key error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
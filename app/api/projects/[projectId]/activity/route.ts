@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { checkProjectAccess } from '@/lib/auth';
+import { listActivity } from '@/lib/activity';
+
+// GET - Project audit timeline (includes activity on boards linked to the project)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const session = await getSession();
+    
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { projectId } = await params;
+
+    const hasAccess = await checkProjectAccess(session.userId, projectId, 'read');
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const entityType = searchParams.get('entityType');
+
+    const result = await listActivity({ projectId }, {
+      cursor: searchParams.get('cursor'),
+      limit: parseInt(searchParams.get('limit') || '50'),
+      entityTypes: entityType ? entityType.split(',') : undefined,
+      actorId: searchParams.get('actorId')
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Get project activity error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -4,6 +4,7 @@ import { projectGroups } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
 import { checkProjectAccess } from '@/lib/auth';
+import { recordActivity } from '@/lib/activity';
 
 export async function PUT(
   request: NextRequest,
@@ -35,6 +36,15 @@ export async function PUT(
         eq(projectGroups.groupId, groupId)
       ));
 
+    await recordActivity({
+      userId: session.userId,
+      projectId,
+      action: 'updated',
+      entityType: 'project_group',
+      entityId: groupId,
+      metadata: { permissionLevel }
+    });
+
     return NextResponse.json({ message: 'Permission updated' });
   } catch (error) {
     console.error('Update permission error:', error);
@@ -78,6 +88,14 @@ export async function DELETE(
         eq(projectGroups.groupId, groupId)
       ));
 
+    await recordActivity({
+      userId: session.userId,
+      projectId,
+      action: 'revoked',
+      entityType: 'project_group',
+      entityId: groupId
+    });
+
     return NextResponse.json({ message: 'Group access removed' });
   } catch (error) {
     console.error('Remove group access error:', error);
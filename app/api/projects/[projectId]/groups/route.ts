@@ -5,6 +5,7 @@ import { projectGroups, groupMembers, groups } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { getSession } from '@/lib/session';
 import { checkProjectAccess } from '@/lib/auth';
+import { recordActivity } from '@/lib/activity';
 
 export async function POST(
   request: NextRequest,
@@ -69,6 +70,15 @@ export async function POST(
       columns: { id: true, name: true }
     });
 
+    await recordActivity({
+      userId: session.userId,
+      projectId,
+      action: existingShare ? 'updated' : 'granted',
+      entityType: 'project_group',
+      entityId: groupId,
+      metadata: { groupName: group?.name, permissionLevel }
+    });
+
     return NextResponse.json({
       message: 'Project shared successfully',
       share: {
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { projects } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getSession } from '@/lib/session';
+import { checkProjectAccess } from '@/lib/auth';
+import { renderMarkdown } from '@/lib/markdown';
+
+// Longest text rendered in one request, the same as a live document
+const MAX_CONTENT_LENGTH = 1_000_000;
+
+// POST - Render Markdown as it would show in one of the project's documents,
+// for previewing unsaved text: { content } -> { html }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const session = await getSession();
+    
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { projectId } = await params;
+
+    const hasAccess = await checkProjectAccess(session.userId, projectId, 'read');
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { content } = await request.json();
+
+    if (typeof content !== 'string') {
+      return NextResponse.json({ error: 'Content is required' }, { status: 400 });
+    }
+
+    if (content.length > MAX_CONTENT_LENGTH) {
+      return NextResponse.json({ error: 'Content is too long' }, { status: 413 });
+    }
+
+    const project = await db.query.projects.findFirst({
+      where: eq(projects.id, projectId),
+      columns: { organizationId: true }
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const html = await renderMarkdown(content, {
+      organizationId: project.organizationId,
+      projectId,
+      userId: session.userId
+    });
+
+    return NextResponse.json({ html });
+  } catch (error) {
+    console.error('Render markdown error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { checkOrgAccess } from '@/lib/org-access';
+import { search, SearchError } from '@/lib/search';
+
+// GET - Search tasks, comments, documents and files in an organization:
+// ?q=&orgId=&limit= -> best matches first, only from boards and projects the user can read
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    
+    if (!session.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const q = searchParams.get('q')?.trim();
+    const orgId = searchParams.get('orgId');
+
+    if (!q || q.length < 2) {
+      return NextResponse.json({ error: 'Search query must be at least 2 characters' }, { status: 400 });
+    }
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    const { hasAccess } = await checkOrgAccess(orgId, session.userId);
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const results = await search(orgId, session.userId, q, parseInt(searchParams.get('limit') || '20') || 20);
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    if (error instanceof SearchError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Search error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,359 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Play, Pencil, Trash2, History } from 'lucide-react';
+
+interface AutomationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: { type: string } & Record<string, any>;
+  condition: string;
+  actions: ({ type: string } & Record<string, any>)[];
+  creator?: { username: string; displayName: string | null };
+}
+
+interface ActionResult {
+  type: string;
+  description: string;
+  changed: boolean;
+  skipped?: string;
+}
+
+interface DryRunResult {
+  task: { id: string; taskKey: string; title: string };
+  conditionMatches: boolean;
+  actions: ActionResult[];
+}
+
+interface AutomationRun {
+  id: string;
+  status: 'running' | 'success' | 'failed';
+  trigger: string;
+  results: ActionResult[];
+  error: string | null;
+  createdAt: string;
+  task: { taskKey: string; title: string } | null;
+}
+
+interface BoardAutomationsProps {
+  boardId: string;
+}
+
+const TRIGGER_LABELS: Record<string, string> = {
+  task_created: 'Task created',
+  task_moved: 'Task moved',
+  task_updated: 'Task updated',
+  comment_created: 'Comment added',
+  due_date_passed: 'Due date passed'
+};
+
+const EMPTY_FORM = {
+  name: '',
+  trigger: '{ "type": "task_created" }',
+  condition: '',
+  actions: '[\n  { "type": "notify", "recipient": "assignee" }\n]'
+};
+
+export function BoardAutomations({ boardId }: BoardAutomationsProps) {
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [dryRun, setDryRun] = useState<{ ruleId: string; results: DryRunResult[] } | null>(null);
+  const [runs, setRuns] = useState<{ ruleId: string; runs: AutomationRun[] } | null>(null);
+
+  useEffect(() => {
+    loadRules();
+  }, [boardId]);
+
+  const loadRules = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/boards/${boardId}/automations`);
+      if (res.ok) {
+        const data = await res.json();
+        setRules(data.rules);
+      } else {
+        setError('Failed to load automations');
+      }
+    } catch (error) {
+      setError('Failed to load automations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEdit = (rule: AutomationRule | null) => {
+    setError('');
+    setEditingId(rule ? rule.id : 'new');
+    setForm(rule ? {
+      name: rule.name,
+      trigger: JSON.stringify(rule.trigger, null, 2),
+      condition: rule.condition,
+      actions: JSON.stringify(rule.actions, null, 2)
+    } : EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    let trigger, actions;
+    try {
+      trigger = JSON.parse(form.trigger);
+      actions = JSON.parse(form.actions);
+    } catch (error) {
+      setError('Trigger and actions must be valid JSON');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const isNew = editingId === 'new';
+      const res = await fetch(`/api/boards/${boardId}/automations${isNew ? '' : `/${editingId}`}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: form.name, trigger, condition: form.condition, actions })
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || 'Failed to save automation');
+        return;
+      }
+
+      setEditingId(null);
+      loadRules();
+    } catch (error) {
+      setError('Failed to save automation');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleEnabled = async (rule: AutomationRule) => {
+    const res = await fetch(`/api/boards/${boardId}/automations/${rule.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled: !rule.enabled })
+    });
+    if (res.ok) {
+      setRules(prev => prev.map(r => r.id === rule.id ? { ...r, enabled: !rule.enabled } : r));
+    }
+  };
+
+  const handleDelete = async (rule: AutomationRule) => {
+    if (!confirm(`Delete the automation "${rule.name}"?`)) return;
+    const res = await fetch(`/api/boards/${boardId}/automations/${rule.id}`, { method: 'DELETE' });
+    if (res.ok) {
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+    }
+  };
+
+  const handleDryRun = async (rule: AutomationRule) => {
+    setRuns(null);
+    const res = await fetch(`/api/boards/${boardId}/automations/${rule.id}/dry-run`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}'
+    });
+    if (res.ok) {
+      const data = await res.json();
+      setDryRun({ ruleId: rule.id, results: data.dryRun.results });
+    }
+  };
+
+  const showRuns = async (rule: AutomationRule) => {
+    setDryRun(null);
+    const res = await fetch(`/api/boards/${boardId}/automations/${rule.id}/runs?limit=20`);
+    if (res.ok) {
+      const data = await res.json();
+      setRuns({ ruleId: rule.id, runs: data.runs });
+    }
+  };
+
+  if (loading) return <div className="spinner" />;
+
+  return (
+    <div className="board-automations">
+      {error && <div className="alert alert-error mb-4">{error}</div>}
+
+      {editingId ? (
+        <div className="automation-form">
+          <div className="form-group">
+            <label className="form-label">Name</label>
+            <input
+              className="form-input"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Assign bugs to triage"
+            />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Trigger</label>
+            <textarea
+              className="form-input code"
+              rows={3}
+              value={form.trigger}
+              onChange={(e) => setForm({ ...form, trigger: e.target.value })}
+            />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Condition (task query, optional)</label>
+            <input
+              className="form-input"
+              value={form.condition}
+              onChange={(e) => setForm({ ...form, condition: e.target.value })}
+              placeholder='label = "bug" AND priority >= high'
+            />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Actions</label>
+            <textarea
+              className="form-input code"
+              rows={6}
+              value={form.actions}
+              onChange={(e) => setForm({ ...form, actions: e.target.value })}
+            />
+          </div>
+          <div className="automation-form-buttons">
+            <button className="btn btn-secondary btn-sm" onClick={() => setEditingId(null)}>Cancel</button>
+            <button className="btn btn-primary btn-sm" onClick={handleSave} disabled={saving}>
+              {saving ? <span className="spinner" /> : 'Save Rule'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button className="btn btn-secondary btn-sm mb-4" onClick={() => startEdit(null)}>New Rule</button>
+      )}
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-muted">No automations yet.</p>
+      ) : rules.map(rule => (
+        <div key={rule.id} className="automation-rule">
+          <div className="automation-header">
+            <label className="automation-toggle" title={rule.enabled ? 'Enabled' : 'Disabled'}>
+              <input type="checkbox" checked={rule.enabled} onChange={() => toggleEnabled(rule)} />
+            </label>
+            <div className="automation-summary">
+              <strong>{rule.name}</strong>
+              <span className="text-sm text-muted">
+                {TRIGGER_LABELS[rule.trigger.type] || rule.trigger.type}
+                {rule.condition && ` · if ${rule.condition}`}
+                {` · ${rule.actions.map(a => a.type).join(', ')}`}
+              </span>
+            </div>
+            <button className="btn btn-ghost btn-icon" onClick={() => handleDryRun(rule)} title="Dry run">
+              <Play size={14} />
+            </button>
+            <button className="btn btn-ghost btn-icon" onClick={() => showRuns(rule)} title="Execution log">
+              <History size={14} />
+            </button>
+            <button className="btn btn-ghost btn-icon" onClick={() => startEdit(rule)} title="Edit">
+              <Pencil size={14} />
+            </button>
+            <button className="btn btn-ghost btn-icon" onClick={() => handleDelete(rule)} title="Delete">
+              <Trash2 size={14} />
+            </button>
+          </div>
+
+          {dryRun?.ruleId === rule.id && (
+            <div className="automation-details">
+              {dryRun.results.length === 0 ? (
+                <p className="text-sm text-muted">No tasks match this rule right now.</p>
+              ) : dryRun.results.map(result => (
+                <div key={result.task.id} className="text-sm">
+                  <strong>{result.task.taskKey}</strong> {result.task.title}
+                  <ul>
+                    {result.actions.map((action, index) => (
+                      <li key={index} className={action.changed ? '' : 'text-muted'}>
+                        {action.description}
+                        {action.skipped ? ` (skipped: ${action.skipped})` : !action.changed && ' (no change)'}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {runs?.ruleId === rule.id && (
+            <div className="automation-details">
+              {runs.runs.length === 0 ? (
+                <p className="text-sm text-muted">This rule has not run yet.</p>
+              ) : runs.runs.map(run => (
+                <div key={run.id} className="automation-run text-sm">
+                  <span className={run.status === 'failed' ? 'run-failed' : ''}>{run.status}</span>
+                  <span className="text-muted">{new Date(run.createdAt).toLocaleString()}</span>
+                  <span>{run.task ? run.task.taskKey : 'deleted task'}</span>
+                  <span className="text-muted">
+                    {run.error || run.results
+                      .filter(r => r.changed || r.skipped)
+                      .map(r => r.skipped ? `${r.description} skipped: ${r.skipped}` : r.description)
+                      .join('; ') || 'no changes'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <style jsx>{`
+        .automation-form {
+          margin-bottom: 1.5rem;
+        }
+
+        .automation-form .code {
+          font-family: monospace;
+          font-size: 0.8125rem;
+        }
+
+        .automation-form-buttons {
+          display: flex;
+          justify-content: flex-end;
+          gap: 0.5rem;
+        }
+
+        .automation-rule {
+          padding: 0.5rem 0;
+          border-bottom: 1px solid var(--border-color);
+        }
+
+        .automation-header {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+        }
+
+        .automation-summary {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          min-width: 0;
+        }
+
+        .automation-details {
+          margin: 0.5rem 0 0 1.75rem;
+        }
+
+        .automation-details ul {
+          margin: 0.25rem 0 0.5rem 1.25rem;
+        }
+
+        .automation-run {
+          display: flex;
+          gap: 0.75rem;
+          padding: 0.125rem 0;
+        }
+
+        .run-failed {
+          color: var(--danger-color);
+        }
+      `}</style>
+    </div>
+  );
+}
+
+export default BoardAutomations;
@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface BoardCopyProps {
+  boardId: string;
+  boardName: string;
+  organizationId: string;
+}
+
+export function BoardCopy({ boardId, boardName, organizationId }: BoardCopyProps) {
+  const router = useRouter();
+  const [template, setTemplate] = useState({ name: `${boardName} template`, description: '' });
+  const [clone, setClone] = useState({ name: `${boardName} (copy)`, key: '', includeTasks: false });
+  const [saving, setSaving] = useState<'template' | 'clone' | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const handleSaveTemplate = async () => {
+    setSaving('template');
+    setError('');
+    setMessage('');
+    try {
+      const res = await fetch(`/api/organizations/${organizationId}/board-templates`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...template, boardId })
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || 'Failed to save template');
+        return;
+      }
+
+      setMessage(`Saved "${data.template.name}". It can be picked when creating a board.`);
+    } catch (error) {
+      setError('Failed to save template');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleClone = async () => {
+    setSaving('clone');
+    setError('');
+    setMessage('');
+    try {
+      const res = await fetch(`/api/boards/${boardId}/clone`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(clone)
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || 'Failed to clone board');
+        return;
+      }
+
+      router.push(`/boards/${data.board.id}`);
+    } catch (error) {
+      setError('Failed to clone board');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="board-copy">
+      {error && <div className="alert alert-error mb-4">{error}</div>}
+      {message && <div className="alert alert-success mb-4">{message}</div>}
+
+      <h3>Save as template</h3>
+      <p className="text-sm text-muted">Columns, labels, WIP limits, workflow and group access. Tasks are not included.</p>
+      <div className="form-group">
+        <label className="form-label">Template name</label>
+        <input
+          className="form-input"
+          value={template.name}
+          onChange={(e) => setTemplate({ ...template, name: e.target.value })}
+        />
+      </div>
+      <div className="form-group">
+        <label className="form-label">Description</label>
+        <input
+          className="form-input"
+          value={template.description}
+          onChange={(e) => setTemplate({ ...template, description: e.target.value })}
+        />
+      </div>
+      <button className="btn btn-secondary btn-sm" onClick={handleSaveTemplate} disabled={saving !== null}>
+        {saving === 'template' ? <span className="spinner" /> : 'Save Template'}
+      </button>
+
+      <h3>Clone board</h3>
+      <div className="form-group">
+        <label className="form-label">Board name</label>
+        <input
+          className="form-input"
+          value={clone.name}
+          onChange={(e) => setClone({ ...clone, name: e.target.value })}
+        />
+      </div>
+      <div className="form-group">
+        <label className="form-label">Board key</label>
+        <input
+          className="form-input"
+          value={clone.key}
+          onChange={(e) => setClone({ ...clone, key: e.target.value.toUpperCase().replace(/[^A-Z]/g, '').slice(0, 10) })}
+          placeholder="e.g., PROD"
+          maxLength={10}
+        />
+      </div>
+      <label className="copy-checkbox">
+        <input
+          type="checkbox"
+          checked={clone.includeTasks}
+          onChange={(e) => setClone({ ...clone, includeTasks: e.target.checked })}
+        />
+        Copy tasks too (they keep their numbers under the new key)
+      </label>
+      <button className="btn btn-secondary btn-sm" onClick={handleClone} disabled={saving !== null || !clone.key}>
+        {saving === 'clone' ? <span className="spinner" /> : 'Clone Board'}
+      </button>
+
+      <style jsx>{`
+        .board-copy h3 {
+          margin-bottom: 0.25rem;
+        }
+
+        .board-copy h3:not(:first-of-type) {
+          margin-top: 2rem;
+        }
+
+        .board-copy p {
+          margin-bottom: 0.75rem;
+        }
+
+        .copy-checkbox {
+          display: flex;
+          align-items: center;
+          gap: 0.375rem;
+          font-size: 0.875rem;
+          margin-bottom: 1rem;
+          cursor: pointer;
+        }
+      `}</style>
+    </div>
+  );
+}
+
+export default BoardCopy;
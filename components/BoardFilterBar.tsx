@@ -0,0 +1,563 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Filter, Save, Star, Trash2, X } from 'lucide-react';
+import Modal from '@/components/Modal';
+
+export type FilterGroupBy = 'assignee' | 'priority' | 'type' | 'sprint' | 'label' | 'epic';
+export type FilterCardField = 'type' | 'labels' | 'priority' | 'points' | 'comments' | 'due' | 'assignee';
+
+export interface BoardView {
+  // Matching task ids, in query order
+  taskIds: string[];
+  sorted: boolean;
+  groupBy: FilterGroupBy | null;
+  visibleFields: FilterCardField[] | null;
+}
+
+interface SavedFilter {
+  id: string;
+  name: string;
+  query: string;
+  sort: { field: string; direction: 'asc' | 'desc' }[] | null;
+  groupBy: FilterGroupBy | null;
+  visibleFields: FilterCardField[] | null;
+  visibility: 'private' | 'board' | 'groups';
+  isDefault: boolean;
+  groups: { id: string; name: string }[];
+  queryString: string;
+  canEdit: boolean;
+  owner?: { id: string; username: string; displayName: string | null };
+}
+
+interface QueryErrorInfo {
+  message: string;
+  position?: number;
+  token?: string;
+}
+
+interface BoardFilterBarProps {
+  boardId: string;
+  groups: { id: string; name: string }[];
+  isAdmin: boolean;
+  // Re-run the active query whenever this changes (e.g. the board reloaded)
+  refreshKey: unknown;
+  onChange: (view: BoardView | null) => void;
+}
+
+const GROUP_BY_OPTIONS: { value: FilterGroupBy; label: string }[] = [
+  { value: 'assignee', label: 'Assignee' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'type', label: 'Type' },
+  { value: 'sprint', label: 'Sprint' },
+  { value: 'label', label: 'Label' },
+  { value: 'epic', label: 'Epic' }
+];
+
+const CARD_FIELDS: { value: FilterCardField; label: string }[] = [
+  { value: 'type', label: 'Type' },
+  { value: 'labels', label: 'Labels' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'points', label: 'Points' },
+  { value: 'comments', label: 'Comments' },
+  { value: 'due', label: 'Due date' },
+  { value: 'assignee', label: 'Assignee' }
+];
+
+const SORT_FIELDS = ['priority', 'due', 'created', 'updated', 'points', 'key', 'title', 'type', 'status'];
+
+// Saved filters keep ordering separately, so split a typed ORDER BY off the query
+function splitOrderBy(input: string) {
+  const match = input.match(/^(.*?)\s*\bORDER\s+BY\s+(.+)$/i);
+  if (!match) return { where: input.trim(), sortField: '', sortDirection: 'asc' as const };
+
+  const [field, direction] = match[2].split(',')[0].trim().split(/\s+/);
+  return {
+    where: match[1].trim(),
+    sortField: field.toLowerCase(),
+    sortDirection: direction?.toLowerCase() === 'desc' ? 'desc' as const : 'asc' as const
+  };
+}
+
+const EMPTY_FORM = {
+  name: '',
+  visibility: 'private' as SavedFilter['visibility'],
+  groupIds: [] as string[],
+  groupBy: '' as FilterGroupBy | '',
+  visibleFields: CARD_FIELDS.map(f => f.value),
+  sortField: '',
+  sortDirection: 'asc' as 'asc' | 'desc',
+  isDefault: false
+};
+
+export function BoardFilterBar({ boardId, groups, isAdmin, refreshKey, onChange }: BoardFilterBarProps) {
+  const [filters, setFilters] = useState<SavedFilter[]>([]);
+  const [activeFilterId, setActiveFilterId] = useState('');
+  const [query, setQuery] = useState('');
+  const [appliedQuery, setAppliedQuery] = useState('');
+  const [queryError, setQueryError] = useState<QueryErrorInfo | null>(null);
+
+  const [showSaveModal, setShowSaveModal] = useState(false);
+  const [editingFilterId, setEditingFilterId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  const activeFilter = filters.find(f => f.id === activeFilterId) || null;
+
+  useEffect(() => {
+    loadFilters(true);
+  }, [boardId]);
+
+  useEffect(() => {
+    if (activeFilter || appliedQuery) {
+      runQuery(activeFilter ? activeFilter.queryString : appliedQuery, activeFilter);
+    }
+  }, [refreshKey]);
+
+  const loadFilters = async (applyDefault = false) => {
+    try {
+      const res = await fetch(`/api/boards/${boardId}/filters`);
+      const data = await res.json();
+      const loaded: SavedFilter[] = data.filters || [];
+      setFilters(loaded);
+
+      const defaultFilter = loaded.find(f => f.isDefault);
+      if (applyDefault && defaultFilter) {
+        selectFilter(defaultFilter);
+      }
+      return loaded;
+    } catch (error) {
+      console.error('Error loading filters:', error);
+      return [];
+    }
+  };
+
+  const runQuery = async (queryString: string, filter: SavedFilter | null) => {
+    if (!queryString.trim() && !filter) {
+      setQueryError(null);
+      onChange(null);
+      return;
+    }
+
+    try {
+      const taskIds: string[] = [];
+      let offset: number | null = 0;
+
+      // Page through every match; the board view needs the full set
+      while (offset !== null) {
+        const params = new URLSearchParams({ q: queryString, limit: '200', offset: String(offset) });
+        const res: Response = await fetch(`/api/boards/${boardId}/tasks?${params}`);
+        const data = await res.json();
+
+        if (!res.ok) {
+          setQueryError({ message: data.error || 'Invalid query', position: data.position, token: data.token });
+          return;
+        }
+
+        taskIds.push(...data.tasks.map((t: { id: string }) => t.id));
+        offset = data.nextOffset;
+      }
+
+      setQueryError(null);
+      onChange({
+        taskIds,
+        sorted: /\bORDER\s+BY\b/i.test(queryString),
+        groupBy: filter?.groupBy || null,
+        visibleFields: filter?.visibleFields || null
+      });
+    } catch (error) {
+      console.error('Error running query:', error);
+    }
+  };
+
+  const selectFilter = (filter: SavedFilter | null) => {
+    setActiveFilterId(filter?.id || '');
+    setQuery(filter?.query || '');
+    setAppliedQuery(filter?.queryString || '');
+    runQuery(filter?.queryString || '', filter);
+  };
+
+  const handleApplyQuery = () => {
+    // Editing the query turns a saved filter into an ad-hoc one
+    setActiveFilterId('');
+    setAppliedQuery(query);
+    runQuery(query, null);
+  };
+
+  const handleClear = () => {
+    setQuery('');
+    selectFilter(null);
+  };
+
+  const openSaveModal = (editing: boolean) => {
+    const source = editing ? activeFilter : null;
+    const typed = splitOrderBy(query);
+    setEditingFilterId(source?.id || null);
+    setForm({
+      name: source?.name || '',
+      visibility: source?.visibility || 'private',
+      groupIds: source?.groups.map(g => g.id) || [],
+      groupBy: source?.groupBy || '',
+      visibleFields: source?.visibleFields || CARD_FIELDS.map(f => f.value),
+      sortField: typed.sortField || source?.sort?.[0]?.field || '',
+      sortDirection: typed.sortField ? typed.sortDirection : source?.sort?.[0]?.direction || 'asc',
+      isDefault: source?.isDefault || false
+    });
+    setFormError('');
+    setShowSaveModal(true);
+  };
+
+  const handleSaveFilter = async () => {
+    if (!form.name.trim()) {
+      setFormError('Filter name is required');
+      return;
+    }
+
+    setSaving(true);
+    setFormError('');
+
+    try {
+      const url = editingFilterId
+        ? `/api/boards/${boardId}/filters/${editingFilterId}`
+        : `/api/boards/${boardId}/filters`;
+
+      const res = await fetch(url, {
+        method: editingFilterId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          query: splitOrderBy(query).where,
+          sort: form.sortField ? [{ field: form.sortField, direction: form.sortDirection }] : null,
+          groupBy: form.groupBy || null,
+          visibleFields: form.visibleFields.length === CARD_FIELDS.length ? null : form.visibleFields,
+          visibility: form.visibility,
+          groupIds: form.visibility === 'groups' ? form.groupIds : [],
+          ...(isAdmin ? { isDefault: form.isDefault } : {})
+        })
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        setFormError(data.error || 'Failed to save filter');
+        return;
+      }
+
+      setShowSaveModal(false);
+      const loaded = await loadFilters();
+      selectFilter(loaded.find(f => f.id === data.filter.id) || data.filter);
+    } catch (error) {
+      setFormError('Failed to save filter');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteFilter = async () => {
+    if (!activeFilter || !confirm(`Delete filter "${activeFilter.name}"?`)) return;
+
+    try {
+      await fetch(`/api/boards/${boardId}/filters/${activeFilter.id}`, { method: 'DELETE' });
+      setFilters(prev => prev.filter(f => f.id !== activeFilter.id));
+      handleClear();
+    } catch (error) {
+      console.error('Delete filter error:', error);
+    }
+  };
+
+  const toggleField = (field: FilterCardField) => {
+    setForm(prev => ({
+      ...prev,
+      visibleFields: prev.visibleFields.includes(field)
+        ? prev.visibleFields.filter(f => f !== field)
+        : [...prev.visibleFields, field]
+    }));
+  };
+
+  const renderQueryError = () => {
+    if (!queryError) return null;
+
+    const { message, position, token } = queryError;
+    const hasPosition = position !== undefined && position <= appliedQuery.length;
+    const tokenLength = Math.max(token?.length || 0, 1);
+
+    return (
+      <div className="filter-error">
+        <span>{message}</span>
+        {hasPosition && (
+          <code className="filter-error-query">
+            {appliedQuery.slice(0, position)}
+            <mark>{appliedQuery.slice(position, position + tokenLength) || ' '}</mark>
+            {appliedQuery.slice(position + tokenLength)}
+          </code>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="board-filter-bar">
+      <div className="flex gap-2">
+        <select
+          className="form-input filter-select"
+          value={activeFilterId}
+          onChange={(e) => selectFilter(filters.find(f => f.id === e.target.value) || null)}
+        >
+          <option value="">All tasks</option>
+          {filters.map(filter => (
+            <option key={filter.id} value={filter.id}>
+              {filter.isDefault ? '★ ' : ''}{filter.name}
+              {filter.visibility !== 'private' ? ' (shared)' : ''}
+            </option>
+          ))}
+        </select>
+
+        <div className="filter-query">
+          <Filter size={16} className="filter-query-icon" />
+          <input
+            type="text"
+            className="form-input"
+            placeholder="assignee = me AND priority >= high ORDER BY due"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleApplyQuery();
+            }}
+          />
+        </div>
+
+        <button className="btn btn-secondary" onClick={handleApplyQuery}>Apply</button>
+        {(activeFilterId || appliedQuery) && (
+          <button className="btn btn-ghost btn-icon" onClick={handleClear} title="Clear filter">
+            <X size={16} />
+          </button>
+        )}
+        <button className="btn btn-ghost" onClick={() => openSaveModal(false)} title="Save as new filter">
+          <Save size={16} />
+          Save
+        </button>
+        {activeFilter?.canEdit && (
+          <>
+            <button className="btn btn-ghost" onClick={() => openSaveModal(true)}>
+              Edit
+            </button>
+            <button className="btn btn-ghost btn-icon" onClick={handleDeleteFilter} title="Delete filter">
+              <Trash2 size={16} />
+            </button>
+          </>
+        )}
+      </div>
+
+      {renderQueryError()}
+
+      <Modal
+        isOpen={showSaveModal}
+        onClose={() => setShowSaveModal(false)}
+        title={editingFilterId ? 'Edit Filter' : 'Save Filter'}
+        footer={
+          <>
+            <button className="btn btn-secondary" onClick={() => setShowSaveModal(false)}>Cancel</button>
+            <button className="btn btn-primary" onClick={handleSaveFilter} disabled={saving}>
+              {saving ? <span className="spinner" /> : 'Save Filter'}
+            </button>
+          </>
+        }
+      >
+        {formError && <div className="alert alert-error mb-4">{formError}</div>}
+
+        <div className="form-group">
+          <label className="form-label">Name</label>
+          <input
+            type="text"
+            className="form-input"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="My open bugs"
+            autoFocus
+          />
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">Query</label>
+          <code className="filter-query-preview">{splitOrderBy(query).where || 'All tasks'}</code>
+        </div>
+
+        <div className="flex gap-2">
+          <div className="form-group" style={{ flex: 1 }}>
+            <label className="form-label">Sort by</label>
+            <select
+              className="form-input"
+              value={form.sortField}
+              onChange={(e) => setForm({ ...form, sortField: e.target.value })}
+            >
+              <option value="">Board order</option>
+              {SORT_FIELDS.map(field => (
+                <option key={field} value={field}>{field}</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group" style={{ flex: 1 }}>
+            <label className="form-label">Direction</label>
+            <select
+              className="form-input"
+              value={form.sortDirection}
+              onChange={(e) => setForm({ ...form, sortDirection: e.target.value as 'asc' | 'desc' })}
+              disabled={!form.sortField}
+            >
+              <option value="asc">Ascending</option>
+              <option value="desc">Descending</option>
+            </select>
+          </div>
+          <div className="form-group" style={{ flex: 1 }}>
+            <label className="form-label">Group by</label>
+            <select
+              className="form-input"
+              value={form.groupBy}
+              onChange={(e) => setForm({ ...form, groupBy: e.target.value as FilterGroupBy | '' })}
+            >
+              <option value="">No grouping</option>
+              {GROUP_BY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">Visible card fields</label>
+          <div className="filter-checkboxes">
+            {CARD_FIELDS.map(field => (
+              <label key={field.value} className="filter-checkbox">
+                <input
+                  type="checkbox"
+                  checked={form.visibleFields.includes(field.value)}
+                  onChange={() => toggleField(field.value)}
+                />
+                {field.label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">Shared with</label>
+          <select
+            className="form-input"
+            value={form.isDefault ? 'board' : form.visibility}
+            onChange={(e) => setForm({ ...form, visibility: e.target.value as SavedFilter['visibility'] })}
+            disabled={form.isDefault}
+          >
+            <option value="private">Only me</option>
+            <option value="board">Everyone on this board</option>
+            <option value="groups">Selected groups</option>
+          </select>
+          {form.visibility === 'groups' && !form.isDefault && (
+            <div className="filter-checkboxes mt-2">
+              {groups.length === 0 && <span className="text-sm text-muted">No groups have access to this board</span>}
+              {groups.map(group => (
+                <label key={group.id} className="filter-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={form.groupIds.includes(group.id)}
+                    onChange={() => setForm(prev => ({
+                      ...prev,
+                      groupIds: prev.groupIds.includes(group.id)
+                        ? prev.groupIds.filter(id => id !== group.id)
+                        : [...prev.groupIds, group.id]
+                    }))}
+                  />
+                  {group.name}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {isAdmin && (
+          <label className="filter-checkbox">
+            <input
+              type="checkbox"
+              checked={form.isDefault}
+              onChange={(e) => setForm({ ...form, isDefault: e.target.checked })}
+            />
+            <Star size={14} />
+            Board default (applied for everyone when they open the board)
+          </label>
+        )}
+      </Modal>
+
+      <style jsx>{`
+        .board-filter-bar {
+          margin-bottom: 1rem;
+        }
+
+        .filter-select {
+          width: 200px;
+        }
+
+        .filter-query {
+          position: relative;
+          flex: 1;
+        }
+
+        .filter-query :global(.filter-query-icon) {
+          position: absolute;
+          left: 0.75rem;
+          top: 50%;
+          transform: translateY(-50%);
+          color: var(--text-muted);
+        }
+
+        .filter-query input {
+          padding-left: 2.25rem;
+          font-family: monospace;
+        }
+
+        .filter-error {
+          display: flex;
+          flex-direction: column;
+          gap: 0.25rem;
+          margin-top: 0.5rem;
+          font-size: 0.875rem;
+          color: var(--danger-color);
+        }
+
+        .filter-error-query {
+          white-space: pre;
+          color: var(--text-secondary);
+        }
+
+        .filter-error-query mark {
+          background: rgba(239, 68, 68, 0.25);
+          color: inherit;
+          border-bottom: 2px solid var(--danger-color);
+        }
+
+        .filter-query-preview {
+          display: block;
+          padding: 0.5rem 0.75rem;
+          background: var(--glass-bg);
+          border-radius: 0.375rem;
+          font-size: 0.875rem;
+        }
+
+        .filter-checkboxes {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.75rem;
+        }
+
+        .filter-checkbox {
+          display: flex;
+          align-items: center;
+          gap: 0.375rem;
+          font-size: 0.875rem;
+          cursor: pointer;
+        }
+      `}</style>
+    </div>
+  );
+}
+
+export default BoardFilterBar;
@@ -0,0 +1,647 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Download } from 'lucide-react';
+
+interface ReportSprint {
+  id: string;
+  name: string;
+  status: 'planning' | 'active' | 'completed';
+}
+
+interface BurndownPoint {
+  date: string;
+  scopePoints: number;
+  remainingPoints: number;
+  completedPoints: number;
+}
+
+interface Burndown {
+  sprint: { id: string; name: string; startDate: string; endDate: string };
+  committedPoints: number;
+  series: BurndownPoint[];
+  ideal: { date: string; remainingPoints: number }[];
+}
+
+interface Velocity {
+  sprints: { sprintId: string; name: string; committedPoints: number; completedPoints: number }[];
+  averageCompleted: number;
+}
+
+interface FlowColumn {
+  id: string;
+  name: string;
+  color: string | null;
+  stage: 'todo' | 'in_progress' | 'done';
+}
+
+interface CumulativeFlow {
+  columns: FlowColumn[];
+  days: { date: string; counts: Record<string, number> }[];
+}
+
+type Percentiles = Record<'p50' | 'p70' | 'p85' | 'p95', number | null>;
+
+interface CycleTimes {
+  tasks: { id: string; taskKey: string; title: string; completedAt: string; cycleTimeDays: number; leadTimeDays: number }[];
+  cycleTime: Percentiles;
+  leadTime: Percentiles;
+}
+
+interface Throughput {
+  weeks: { weekStart: string; taskCount: number; points: number }[];
+  averageTaskCount: number;
+}
+
+interface AgingWip {
+  columns: { id: string; name: string }[];
+  tasks: { id: string; taskKey: string; title: string; column: { id: string; name: string }; ageDays: number }[];
+  cycleTime: Percentiles;
+}
+
+interface BoardReportsProps {
+  boardId: string;
+  sprints: ReportSprint[];
+  // Reload the reports whenever this changes (e.g. the board reloaded)
+  refreshKey: unknown;
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PAD = { top: 16, right: 16, bottom: 32, left: 40 };
+const PLOT_W = WIDTH - PAD.left - PAD.right;
+const PLOT_H = HEIGHT - PAD.top - PAD.bottom;
+
+const formatDay = (date: string | number) =>
+  new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// A handful of round tick values from 0 to at least max
+function ticks(max: number, count = 4) {
+  const step = Math.max(1, Math.ceil(max / count));
+  return Array.from({ length: count + 1 }, (_, i) => i * step);
+}
+
+function YAxis({ values, y }: { values: number[]; y: (v: number) => number }) {
+  return (
+    <g className="chart-axis">
+      {values.map(v => (
+        <g key={v}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(v)} y2={y(v)} className="chart-grid" />
+          <text x={PAD.left - 6} y={y(v) + 4} textAnchor="end">{v}</text>
+        </g>
+      ))}
+    </g>
+  );
+}
+
+function BurndownChart({ burndown }: { burndown: Burndown }) {
+  const start = new Date(burndown.sprint.startDate).getTime();
+  const end = Math.max(
+    new Date(burndown.sprint.endDate).getTime(),
+    ...burndown.series.map(p => new Date(p.date).getTime())
+  );
+  const yTicks = ticks(Math.max(1, burndown.committedPoints, ...burndown.series.map(p => p.scopePoints)));
+  const yMax = yTicks[yTicks.length - 1];
+
+  const x = (date: string) => PAD.left + ((new Date(date).getTime() - start) / Math.max(1, end - start)) * PLOT_W;
+  const y = (value: number) => PAD.top + PLOT_H - (value / yMax) * PLOT_H;
+  const path = (points: { date: string; value: number }[]) =>
+    points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.date).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="chart" role="img" aria-label="Sprint burndown">
+      <YAxis values={yTicks} y={y} />
+      <text x={PAD.left} y={HEIGHT - 8} className="chart-label">{formatDay(burndown.sprint.startDate)}</text>
+      <text x={WIDTH - PAD.right} y={HEIGHT - 8} textAnchor="end" className="chart-label">
+        {formatDay(burndown.sprint.endDate)}
+      </text>
+      <path d={path(burndown.ideal.map(p => ({ date: p.date, value: p.remainingPoints })))} className="line-ideal" />
+      <path d={path(burndown.series.map(p => ({ date: p.date, value: p.scopePoints })))} className="line-scope" />
+      <path d={path(burndown.series.map(p => ({ date: p.date, value: p.remainingPoints })))} className="line-remaining" />
+      {burndown.series.map(p => (
+        <circle key={p.date} cx={x(p.date)} cy={y(p.remainingPoints)} r={3} className="dot-remaining">
+          <title>{formatDay(p.date)}: {p.remainingPoints} remaining of {p.scopePoints}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+function VelocityChart({ velocity }: { velocity: Velocity }) {
+  const yTicks = ticks(Math.max(1, ...velocity.sprints.flatMap(s => [s.committedPoints, s.completedPoints])));
+  const yMax = yTicks[yTicks.length - 1];
+  const y = (value: number) => PAD.top + PLOT_H - (value / yMax) * PLOT_H;
+
+  const slot = PLOT_W / velocity.sprints.length;
+  const bar = Math.min(28, slot / 3);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="chart" role="img" aria-label="Velocity">
+      <YAxis values={yTicks} y={y} />
+      {velocity.sprints.map((sprint, i) => {
+        const center = PAD.left + slot * i + slot / 2;
+        return (
+          <g key={sprint.sprintId}>
+            <rect x={center - bar} y={y(sprint.committedPoints)} width={bar} height={y(0) - y(sprint.committedPoints)} className="bar-committed">
+              <title>{sprint.name}: {sprint.committedPoints} committed</title>
+            </rect>
+            <rect x={center} y={y(sprint.completedPoints)} width={bar} height={y(0) - y(sprint.completedPoints)} className="bar-completed">
+              <title>{sprint.name}: {sprint.completedPoints} completed</title>
+            </rect>
+            <text x={center} y={HEIGHT - 8} textAnchor="middle" className="chart-label">{sprint.name}</text>
+          </g>
+        );
+      })}
+      <line
+        x1={PAD.left}
+        x2={WIDTH - PAD.right}
+        y1={y(velocity.averageCompleted)}
+        y2={y(velocity.averageCompleted)}
+        className="line-average"
+      />
+    </svg>
+  );
+}
+
+function CumulativeFlowChart({ flow }: { flow: CumulativeFlow }) {
+  const totals = flow.days.map(day => flow.columns.reduce((sum, c) => sum + day.counts[c.id], 0));
+  const yTicks = ticks(Math.max(1, ...totals));
+  const yMax = yTicks[yTicks.length - 1];
+  const x = (i: number) => PAD.left + (i / Math.max(1, flow.days.length - 1)) * PLOT_W;
+  const y = (value: number) => PAD.top + PLOT_H - (value / yMax) * PLOT_H;
+
+  // Stack done at the bottom so finished work grows upward, like most CFDs
+  const stacked = [...flow.columns].reverse();
+  const bands = stacked.map((column, index) => {
+    const below = (dayIndex: number) => stacked.slice(0, index).reduce((sum, c) => sum + flow.days[dayIndex].counts[c.id], 0);
+    const top = flow.days.map((day, i) => `${x(i).toFixed(1)},${y(below(i) + day.counts[column.id]).toFixed(1)}`);
+    const bottom = flow.days.map((_, i) => `${x(i).toFixed(1)},${y(below(i)).toFixed(1)}`).reverse();
+    return { column, points: [...top, ...bottom].join(' ') };
+  });
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="chart" role="img" aria-label="Cumulative flow">
+      <YAxis values={yTicks} y={y} />
+      {bands.map(({ column, points }) => (
+        <polygon key={column.id} points={points} fill={column.color || '#6366f1'} fillOpacity={0.7}>
+          <title>{column.name}</title>
+        </polygon>
+      ))}
+      <text x={PAD.left} y={HEIGHT - 8} className="chart-label">{formatDay(flow.days[0].date)}</text>
+      <text x={WIDTH - PAD.right} y={HEIGHT - 8} textAnchor="end" className="chart-label">
+        {formatDay(flow.days[flow.days.length - 1].date)}
+      </text>
+    </svg>
+  );
+}
+
+function PercentileLines({ percentiles, y }: { percentiles: Percentiles; y: (v: number) => number }) {
+  return (
+    <g>
+      {(['p50', 'p85', 'p95'] as const).map(p => percentiles[p] !== null && (
+        <g key={p}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(percentiles[p]!)} y2={y(percentiles[p]!)} className="line-percentile" />
+          <text x={WIDTH - PAD.right} y={y(percentiles[p]!) - 4} textAnchor="end">
+            {p.slice(1)}%: {percentiles[p]}d
+          </text>
+        </g>
+      ))}
+    </g>
+  );
+}
+
+function CycleTimeChart({ cycleTimes }: { cycleTimes: CycleTimes }) {
+  const times = cycleTimes.tasks.map(t => new Date(t.completedAt).getTime());
+  const start = Math.min(...times);
+  const end = Math.max(...times);
+  const yTicks = ticks(Math.max(1, ...cycleTimes.tasks.map(t => t.cycleTimeDays)));
+  const yMax = yTicks[yTicks.length - 1];
+  const x = (date: string) => PAD.left + ((new Date(date).getTime() - start) / Math.max(1, end - start)) * PLOT_W;
+  const y = (value: number) => PAD.top + PLOT_H - (value / yMax) * PLOT_H;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="chart" role="img" aria-label="Cycle time scatter">
+      <YAxis values={yTicks} y={y} />
+      <PercentileLines percentiles={cycleTimes.cycleTime} y={y} />
+      {cycleTimes.tasks.map(t => (
+        <circle key={t.id} cx={x(t.completedAt)} cy={y(t.cycleTimeDays)} r={4} className="dot-task">
+          <title>{t.taskKey}: {t.title} ({t.cycleTimeDays}d cycle, {t.leadTimeDays}d lead)</title>
+        </circle>
+      ))}
+      <text x={PAD.left} y={HEIGHT - 8} className="chart-label">{formatDay(start)}</text>
+      <text x={WIDTH - PAD.right} y={HEIGHT - 8} textAnchor="end" className="chart-label">{formatDay(end)}</text>
+    </svg>
+  );
+}
+
+function ThroughputChart({ throughput }: { throughput: Throughput }) {
+  const yTicks = ticks(Math.max(1, ...throughput.weeks.map(w => w.taskCount)));
+  const yMax = yTicks[yTicks.length - 1];
+  const y = (value: number) => PAD.top + PLOT_H - (value / yMax) * PLOT_H;
+  const slot = PLOT_W / throughput.weeks.length;
+  const bar = Math.min(32, slot * 0.6);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="chart" role="img" aria-label="Throughput per week">
+      <YAxis values={yTicks} y={y} />
+      {throughput.weeks.map((week, i) => {
+        const center = PAD.left + slot * i + slot / 2;
+        return (
+          <g key={week.weekStart}>
+            <rect x={center - bar / 2} y={y(week.taskCount)} width={bar} height={y(0) - y(week.taskCount)} className="bar-completed">
+              <title>Week of {formatDay(week.weekStart)}: {week.taskCount} tasks, {week.points} pts</title>
+            </rect>
+            {i % Math.ceil(throughput.weeks.length / 6) === 0 && (
+              <text x={center} y={HEIGHT - 8} textAnchor="middle" className="chart-label">{formatDay(week.weekStart)}</text>
+            )}
+          </g>
+        );
+      })}
+      <line
+        x1={PAD.left}
+        x2={WIDTH - PAD.right}
+        y1={y(throughput.averageTaskCount)}
+        y2={y(throughput.averageTaskCount)}
+        className="line-average"
+      />
+    </svg>
+  );
+}
+
+function AgingWipChart({ aging }: { aging: AgingWip }) {
+  const yTicks = ticks(Math.max(1, aging.cycleTime.p95 || 0, ...aging.tasks.map(t => t.ageDays)));
+  const yMax = yTicks[yTicks.length - 1];
+  const y = (value: number) => PAD.top + PLOT_H - (value / yMax) * PLOT_H;
+  const slot = PLOT_W / Math.max(1, aging.columns.length);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="chart" role="img" aria-label="Aging work in progress">
+      <YAxis values={yTicks} y={y} />
+      <PercentileLines percentiles={aging.cycleTime} y={y} />
+      {aging.columns.map((column, i) => {
+        const center = PAD.left + slot * i + slot / 2;
+        const columnTasks = aging.tasks.filter(t => t.column.id === column.id);
+        return (
+          <g key={column.id}>
+            {columnTasks.map((t, j) => (
+              <circle
+                key={t.id}
+                cx={center + ((j % 5) - 2) * 8}
+                cy={y(t.ageDays)}
+                r={4}
+                className={aging.cycleTime.p85 !== null && t.ageDays > aging.cycleTime.p85 ? 'dot-late' : 'dot-task'}
+              >
+                <title>{t.taskKey}: {t.title} ({t.ageDays}d in progress)</title>
+              </circle>
+            ))}
+            <text x={center} y={HEIGHT - 8} textAnchor="middle" className="chart-label">{column.name}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export function BoardReports({ boardId, sprints, refreshKey }: BoardReportsProps) {
+  const startedSprints = sprints.filter(s => s.status !== 'planning');
+  const [sprintId, setSprintId] = useState('');
+  const [burndown, setBurndown] = useState<Burndown | null>(null);
+  const [burndownError, setBurndownError] = useState('');
+  const [velocity, setVelocity] = useState<Velocity | null>(null);
+  const [flow, setFlow] = useState<CumulativeFlow | null>(null);
+  const [cycleTimes, setCycleTimes] = useState<CycleTimes | null>(null);
+  const [throughput, setThroughput] = useState<Throughput | null>(null);
+  const [aging, setAging] = useState<AgingWip | null>(null);
+
+  useEffect(() => {
+    if (!sprintId || !startedSprints.some(s => s.id === sprintId)) {
+      setSprintId((startedSprints.find(s => s.status === 'active') || startedSprints[0])?.id || '');
+    }
+  }, [sprints]);
+
+  useEffect(() => {
+    loadBurndown();
+  }, [boardId, sprintId, refreshKey]);
+
+  useEffect(() => {
+    loadVelocity();
+    loadFlowReports();
+  }, [boardId, refreshKey]);
+
+  const loadBurndown = async () => {
+    if (!sprintId) {
+      setBurndown(null);
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/boards/${boardId}/reports/burndown?sprintId=${sprintId}`);
+      const data = await res.json();
+      setBurndown(res.ok ? data.burndown : null);
+      setBurndownError(res.ok ? '' : data.error || 'Failed to load burndown');
+    } catch (error) {
+      console.error('Error loading burndown:', error);
+    }
+  };
+
+  const loadVelocity = async () => {
+    try {
+      const res = await fetch(`/api/boards/${boardId}/reports/velocity`);
+      const data = await res.json();
+      if (res.ok) setVelocity(data.velocity);
+    } catch (error) {
+      console.error('Error loading velocity:', error);
+    }
+  };
+
+  const loadFlowReports = async () => {
+    try {
+      const [flowRes, cycleRes, throughputRes, agingRes] = await Promise.all([
+        fetch(`/api/boards/${boardId}/reports/cumulative-flow`),
+        fetch(`/api/boards/${boardId}/reports/cycle-time`),
+        fetch(`/api/boards/${boardId}/reports/throughput`),
+        fetch(`/api/boards/${boardId}/reports/aging-wip`)
+      ]);
+      if (flowRes.ok) setFlow((await flowRes.json()).cumulativeFlow);
+      if (cycleRes.ok) setCycleTimes((await cycleRes.json()).cycleTimes);
+      if (throughputRes.ok) setThroughput((await throughputRes.json()).throughput);
+      if (agingRes.ok) setAging((await agingRes.json()).agingWip);
+    } catch (error) {
+      console.error('Error loading flow reports:', error);
+    }
+  };
+
+  const csvLink = (report: string) => (
+    <a className="btn btn-ghost btn-sm" href={`/api/boards/${boardId}/reports/${report}?format=csv`}>
+      <Download size={14} />
+      CSV
+    </a>
+  );
+
+  const latest = burndown?.series[burndown.series.length - 1];
+
+  return (
+    <div className="board-reports">
+      <div className="card">
+        <div className="card-header">
+          <span className="card-title">Burndown</span>
+          {startedSprints.length > 0 && (
+            <select className="form-input report-select" value={sprintId} onChange={(e) => setSprintId(e.target.value)}>
+              {startedSprints.map(sprint => (
+                <option key={sprint.id} value={sprint.id}>
+                  {sprint.name} {sprint.status === 'active' ? '(Active)' : ''}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        <div className="card-body">
+          {burndown && latest ? (
+            <>
+              <BurndownChart burndown={burndown} />
+              <div className="chart-legend">
+                <span className="legend-remaining">Remaining ({latest.remainingPoints} pts)</span>
+                <span className="legend-scope">Scope ({latest.scopePoints} pts)</span>
+                <span className="legend-ideal">Ideal (from {burndown.committedPoints} committed)</span>
+              </div>
+            </>
+          ) : (
+            <p className="text-muted">{burndownError || 'Start a sprint to see its burndown.'}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <span className="card-title">Velocity</span>
+          {velocity && velocity.sprints.length > 0 && (
+            <span className="text-muted">Average {velocity.averageCompleted} pts per sprint</span>
+          )}
+        </div>
+        <div className="card-body">
+          {velocity && velocity.sprints.length > 0 ? (
+            <>
+              <VelocityChart velocity={velocity} />
+              <div className="chart-legend">
+                <span className="legend-committed">Committed</span>
+                <span className="legend-completed">Completed</span>
+                <span className="legend-average">Average completed</span>
+              </div>
+            </>
+          ) : (
+            <p className="text-muted">Complete a sprint to see velocity.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <span className="card-title">Cumulative Flow (30 days)</span>
+          {csvLink('cumulative-flow')}
+        </div>
+        <div className="card-body">
+          {flow && flow.columns.length > 0 ? (
+            <>
+              <CumulativeFlowChart flow={flow} />
+              <div className="chart-legend">
+                {flow.columns.map(column => (
+                  <span key={column.id} className="legend-column" style={{ '--legend-color': column.color || '#6366f1' } as any}>
+                    {column.name}
+                  </span>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-muted">No columns yet.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <span className="card-title">Cycle Time (90 days)</span>
+          {csvLink('cycle-time')}
+        </div>
+        <div className="card-body">
+          {cycleTimes && cycleTimes.tasks.length > 0 ? (
+            <>
+              <CycleTimeChart cycleTimes={cycleTimes} />
+              <div className="chart-legend">
+                <span className="legend-remaining">Completed task</span>
+                <span className="text-muted">
+                  Lead time 50%: {cycleTimes.leadTime.p50}d · 85%: {cycleTimes.leadTime.p85}d
+                </span>
+              </div>
+            </>
+          ) : (
+            <p className="text-muted">No tasks completed in the last 90 days.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <span className="card-title">Throughput per Week</span>
+          {throughput && <span className="text-muted">Average {throughput.averageTaskCount} tasks per week</span>}
+          {csvLink('throughput')}
+        </div>
+        <div className="card-body">
+          {throughput && throughput.weeks.length > 0 ? (
+            <ThroughputChart throughput={throughput} />
+          ) : (
+            <p className="text-muted">No throughput data yet.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <span className="card-title">Aging Work in Progress</span>
+          {csvLink('aging-wip')}
+        </div>
+        <div className="card-body">
+          {aging && aging.tasks.length > 0 ? (
+            <>
+              <AgingWipChart aging={aging} />
+              <div className="chart-legend">
+                <span className="legend-remaining">In progress</span>
+                <span className="legend-late">Older than 85% of recent cycle times</span>
+              </div>
+            </>
+          ) : (
+            <p className="text-muted">Nothing is in progress.</p>
+          )}
+        </div>
+      </div>
+
+      <style jsx>{`
+        .board-reports {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(480px, 1fr));
+          gap: 1rem;
+          padding: 1rem;
+        }
+
+        .report-select {
+          width: 200px;
+        }
+
+        .board-reports :global(.chart) {
+          width: 100%;
+          height: auto;
+          overflow: visible;
+        }
+
+        .board-reports :global(.chart text) {
+          font-size: 11px;
+          fill: var(--text-muted);
+        }
+
+        .board-reports :global(.chart-grid) {
+          stroke: var(--border-color);
+          stroke-width: 1;
+        }
+
+        .board-reports :global(.line-remaining) {
+          fill: none;
+          stroke: var(--primary-color);
+          stroke-width: 2;
+        }
+
+        .board-reports :global(.dot-remaining) {
+          fill: var(--primary-color);
+        }
+
+        .board-reports :global(.line-scope) {
+          fill: none;
+          stroke: var(--text-secondary);
+          stroke-width: 1.5;
+          stroke-dasharray: 2 3;
+        }
+
+        .board-reports :global(.line-ideal) {
+          fill: none;
+          stroke: var(--text-muted);
+          stroke-width: 1.5;
+          stroke-dasharray: 6 4;
+        }
+
+        .board-reports :global(.dot-task) {
+          fill: var(--primary-color);
+          fill-opacity: 0.8;
+        }
+
+        .board-reports :global(.dot-late) {
+          fill: var(--danger-color);
+        }
+
+        .board-reports :global(.line-percentile) {
+          stroke: var(--text-muted);
+          stroke-width: 1;
+          stroke-dasharray: 4 4;
+        }
+
+        .board-reports :global(.bar-committed) {
+          fill: var(--text-muted);
+          opacity: 0.5;
+        }
+
+        .board-reports :global(.bar-completed) {
+          fill: var(--success-color);
+        }
+
+        .board-reports :global(.line-average) {
+          stroke: var(--primary-color);
+          stroke-width: 1.5;
+          stroke-dasharray: 6 4;
+        }
+
+        .chart-legend {
+          display: flex;
+          gap: 1rem;
+          margin-top: 0.75rem;
+          font-size: 0.75rem;
+          color: var(--text-secondary);
+        }
+
+        .chart-legend span::before {
+          content: '';
+          display: inline-block;
+          width: 10px;
+          height: 10px;
+          margin-right: 0.375rem;
+          border-radius: 2px;
+          vertical-align: middle;
+        }
+
+        .legend-remaining::before,
+        .legend-average::before {
+          background: var(--primary-color);
+        }
+
+        .legend-scope::before {
+          background: var(--text-secondary);
+        }
+
+        .legend-ideal::before,
+        .legend-committed::before {
+          background: var(--text-muted);
+        }
+
+        .legend-completed::before {
+          background: var(--success-color);
+        }
+
+        .legend-late::before {
+          background: var(--danger-color);
+        }
+
+        .legend-column::before {
+          background: var(--legend-color);
+        }
+      `}</style>
+    </div>
+  );
+}
+
+export default BoardReports;
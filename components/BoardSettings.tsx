@@ -0,0 +1,359 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Modal from '@/components/Modal';
+import BoardAutomations from '@/components/BoardAutomations';
+import BoardTaskTemplates from '@/components/BoardTaskTemplates';
+import BoardCopy from '@/components/BoardCopy';
+
+type RequiredField = 'assigneeId' | 'storyPoints' | 'dueDate' | 'sprintId' | 'description' | 'labelIds' | 'parentTaskId';
+
+interface Transition {
+  requiredPermission: 'write' | 'admin';
+  groupIds: string[];
+}
+
+interface WorkflowResponse {
+  transitions: {
+    fromColumnId: string;
+    toColumnId: string;
+    requiredPermission: 'write' | 'admin';
+    groups: { id: string; name: string }[];
+  }[];
+  requiredFields: Record<string, RequiredField[]>;
+}
+
+interface BoardSettingsProps {
+  boardId: string;
+  boardName: string;
+  organizationId: string;
+  columns: { id: string; name: string }[];
+  groups: { id: string; name: string }[];
+  labels: { id: string; name: string; color: string }[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const REQUIRED_FIELDS: { value: RequiredField; label: string }[] = [
+  { value: 'assigneeId', label: 'Assignee' },
+  { value: 'storyPoints', label: 'Points' },
+  { value: 'dueDate', label: 'Due date' },
+  { value: 'sprintId', label: 'Sprint' },
+  { value: 'description', label: 'Description' },
+  { value: 'labelIds', label: 'Labels' },
+  { value: 'parentTaskId', label: 'Parent' }
+];
+
+const transitionKey = (fromColumnId: string, toColumnId: string) => `${fromColumnId}:${toColumnId}`;
+
+// One select per cell: not allowed, anyone who can edit, admins only, or one group
+function cellValue(transition: Transition | undefined) {
+  if (!transition) return '';
+  if (transition.groupIds.length === 1) return `group:${transition.groupIds[0]}`;
+  if (transition.groupIds.length > 1) return 'groups';
+  return transition.requiredPermission;
+}
+
+export function BoardSettings({ boardId, boardName, organizationId, columns, groups, labels, isOpen, onClose }: BoardSettingsProps) {
+  const [tab, setTab] = useState<'workflow' | 'automations' | 'recurring' | 'copy'>('workflow');
+  const [restrict, setRestrict] = useState(false);
+  const [transitions, setTransitions] = useState<Record<string, Transition>>({});
+  const [requiredFields, setRequiredFields] = useState<Record<string, RequiredField[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) loadWorkflow();
+  }, [isOpen, boardId]);
+
+  const loadWorkflow = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const res = await fetch(`/api/boards/${boardId}/workflow`);
+      if (!res.ok) {
+        setError('Failed to load workflow');
+        return;
+      }
+      const { workflow }: { workflow: WorkflowResponse } = await res.json();
+      setRestrict(workflow.transitions.length > 0);
+      setTransitions(Object.fromEntries(workflow.transitions.map(t => [
+        transitionKey(t.fromColumnId, t.toColumnId),
+        { requiredPermission: t.requiredPermission, groupIds: t.groups.map(g => g.id) }
+      ])));
+      setRequiredFields(workflow.requiredFields);
+    } catch (error) {
+      setError('Failed to load workflow');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestrictChange = (checked: boolean) => {
+    setRestrict(checked);
+    // Start from "every move allowed" so turning restrictions on doesn't lock the board
+    if (checked && Object.keys(transitions).length === 0) {
+      const all: Record<string, Transition> = {};
+      for (const from of columns) {
+        for (const to of columns) {
+          if (from.id !== to.id) all[transitionKey(from.id, to.id)] = { requiredPermission: 'write', groupIds: [] };
+        }
+      }
+      setTransitions(all);
+    }
+  };
+
+  const setCell = (key: string, value: string) => {
+    setTransitions(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[key];
+      } else if (value.startsWith('group:')) {
+        next[key] = { requiredPermission: 'write', groupIds: [value.slice('group:'.length)] };
+      } else if (value === 'write' || value === 'admin') {
+        next[key] = { requiredPermission: value, groupIds: [] };
+      }
+      return next;
+    });
+  };
+
+  const toggleRequired = (columnId: string, field: RequiredField) => {
+    setRequiredFields(prev => {
+      const current = prev[columnId] || [];
+      return {
+        ...prev,
+        [columnId]: current.includes(field) ? current.filter(f => f !== field) : [...current, field]
+      };
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const res = await fetch(`/api/boards/${boardId}/workflow`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          transitions: restrict
+            ? Object.entries(transitions).map(([key, t]) => {
+                const [fromColumnId, toColumnId] = key.split(':');
+                return { fromColumnId, toColumnId, ...t };
+              })
+            : [],
+          requiredFields
+        })
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || 'Failed to save workflow');
+        return;
+      }
+
+      onClose();
+    } catch (error) {
+      setError('Failed to save workflow');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Board Settings"
+      size="large"
+      footer={tab === 'workflow' ? (
+        <>
+          <button className="btn btn-secondary" onClick={onClose}>Cancel</button>
+          <button className="btn btn-primary" onClick={handleSave} disabled={saving || loading}>
+            {saving ? <span className="spinner" /> : 'Save Workflow'}
+          </button>
+        </>
+      ) : (
+        <button className="btn btn-secondary" onClick={onClose}>Close</button>
+      )}
+    >
+      <div className="tabs">
+        <button className={`tab ${tab === 'workflow' ? 'active' : ''}`} onClick={() => setTab('workflow')}>
+          Workflow
+        </button>
+        <button className={`tab ${tab === 'automations' ? 'active' : ''}`} onClick={() => setTab('automations')}>
+          Automations
+        </button>
+        <button className={`tab ${tab === 'recurring' ? 'active' : ''}`} onClick={() => setTab('recurring')}>
+          Recurring Tasks
+        </button>
+        <button className={`tab ${tab === 'copy' ? 'active' : ''}`} onClick={() => setTab('copy')}>
+          Template &amp; Clone
+        </button>
+      </div>
+
+      {tab === 'automations' ? (
+        <BoardAutomations boardId={boardId} />
+      ) : tab === 'recurring' ? (
+        <BoardTaskTemplates boardId={boardId} labels={labels} />
+      ) : tab === 'copy' ? (
+        <BoardCopy boardId={boardId} boardName={boardName} organizationId={organizationId} />
+      ) : (
+        <>
+          {error && <div className="alert alert-error mb-4">{error}</div>}
+
+          {loading ? (
+            <div className="spinner" />
+          ) : (
+            <div className="board-settings">
+              <h3>Workflow</h3>
+
+              <label className="settings-checkbox">
+                <input type="checkbox" checked={restrict} onChange={(e) => handleRestrictChange(e.target.checked)} />
+                Only allow the moves listed below
+              </label>
+
+              {restrict && (
+                <div className="workflow-matrix-wrapper">
+                  <table className="workflow-matrix">
+                    <thead>
+                      <tr>
+                        <th>From \ To</th>
+                        {columns.map(column => <th key={column.id}>{column.name}</th>)}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {columns.map(from => (
+                        <tr key={from.id}>
+                          <th>{from.name}</th>
+                          {columns.map(to => {
+                            if (from.id === to.id) return <td key={to.id} className="workflow-self">—</td>;
+                            const key = transitionKey(from.id, to.id);
+                            const value = cellValue(transitions[key]);
+                            return (
+                              <td key={to.id}>
+                                <select
+                                  className={`form-input ${value ? '' : 'workflow-blocked'}`}
+                                  value={value}
+                                  onChange={(e) => setCell(key, e.target.value)}
+                                >
+                                  <option value="">Not allowed</option>
+                                  <option value="write">Anyone</option>
+                                  <option value="admin">Admins</option>
+                                  {groups.map(group => (
+                                    <option key={group.id} value={`group:${group.id}`}>{group.name}</option>
+                                  ))}
+                                  {value === 'groups' && <option value="groups">Several groups</option>}
+                                </select>
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-sm text-muted">
+                    &quot;Anyone&quot; means anyone who can edit tasks. Board admins can perform every allowed move.
+                  </p>
+                </div>
+              )}
+
+              <h4>Required fields</h4>
+              <p className="text-sm text-muted">Tasks can only be moved into a column once these fields are set.</p>
+              {columns.map(column => (
+                <div key={column.id} className="required-row">
+                  <span className="required-column">{column.name}</span>
+                  <div className="required-fields">
+                    {REQUIRED_FIELDS.map(field => (
+                      <label key={field.value} className="settings-checkbox">
+                        <input
+                          type="checkbox"
+                          checked={(requiredFields[column.id] || []).includes(field.value)}
+                          onChange={() => toggleRequired(column.id, field.value)}
+                        />
+                        {field.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <style jsx>{`
+        .board-settings h3 {
+          margin-bottom: 0.75rem;
+        }
+
+        .board-settings h4 {
+          margin: 1.5rem 0 0.25rem;
+        }
+
+        .settings-checkbox {
+          display: inline-flex;
+          align-items: center;
+          gap: 0.375rem;
+          font-size: 0.875rem;
+          cursor: pointer;
+        }
+
+        .workflow-matrix-wrapper {
+          margin-top: 0.75rem;
+          overflow-x: auto;
+        }
+
+        .workflow-matrix {
+          border-collapse: collapse;
+          font-size: 0.8125rem;
+          margin-bottom: 0.5rem;
+        }
+
+        .workflow-matrix th,
+        .workflow-matrix td {
+          padding: 0.25rem;
+          border: 1px solid var(--border-color);
+          text-align: left;
+          white-space: nowrap;
+        }
+
+        .workflow-matrix select {
+          min-width: 110px;
+          padding: 0.25rem 0.375rem;
+          font-size: 0.8125rem;
+        }
+
+        .workflow-matrix .workflow-blocked {
+          color: var(--text-muted);
+        }
+
+        .workflow-self {
+          text-align: center !important;
+          color: var(--text-muted);
+        }
+
+        .required-row {
+          display: flex;
+          align-items: center;
+          gap: 1rem;
+          padding: 0.5rem 0;
+          border-bottom: 1px solid var(--border-color);
+        }
+
+        .required-column {
+          width: 140px;
+          font-weight: 500;
+        }
+
+        .required-fields {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.75rem;
+        }
+      `}</style>
+    </Modal>
+  );
+}
+
+export default BoardSettings;
@@ -0,0 +1,348 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Pencil, Trash2 } from 'lucide-react';
+
+interface TaskTemplate {
+  id: string;
+  title: string;
+  description: string | null;
+  type: string;
+  priority: string;
+  storyPoints: number | null;
+  recurrence: string;
+  startsAt: string;
+  enabled: boolean;
+  nextOccurrenceAt: string | null;
+  labels: { id: string; name: string; color: string }[];
+  occurrences: { id: string; occurrenceAt: string; task: { id: string; taskKey: string } | null }[];
+}
+
+interface BoardTaskTemplatesProps {
+  boardId: string;
+  labels: { id: string; name: string; color: string }[];
+}
+
+const RECURRENCE_PRESETS = [
+  { value: 'FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR', label: 'Every weekday' },
+  { value: 'FREQ=WEEKLY', label: 'Weekly' },
+  { value: 'FREQ=WEEKLY;INTERVAL=2', label: 'Every two weeks' },
+  { value: 'FREQ=MONTHLY;BYMONTHDAY=1', label: 'First day of the month' },
+  { value: 'FREQ=MONTHLY;BYDAY=1MO', label: 'First Monday of the month' },
+  { value: 'FREQ=MONTHLY;BYMONTHDAY=-1', label: 'Last day of the month' },
+  { value: 'FREQ=YEARLY', label: 'Yearly' }
+];
+
+const EMPTY_FORM = {
+  title: '',
+  description: '',
+  type: 'task',
+  priority: 'medium',
+  storyPoints: '',
+  recurrence: 'FREQ=MONTHLY;BYMONTHDAY=1',
+  startsAt: '',
+  labelIds: [] as string[]
+};
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (value: string) => {
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export function BoardTaskTemplates({ boardId, labels }: BoardTaskTemplatesProps) {
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [boardId]);
+
+  const loadTemplates = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/boards/${boardId}/task-templates`);
+      if (res.ok) {
+        const data = await res.json();
+        setTemplates(data.templates);
+      } else {
+        setError('Failed to load recurring tasks');
+      }
+    } catch (error) {
+      setError('Failed to load recurring tasks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEdit = (template: TaskTemplate | null) => {
+    setError('');
+    setEditingId(template ? template.id : 'new');
+    setForm(template ? {
+      title: template.title,
+      description: template.description || '',
+      type: template.type,
+      priority: template.priority,
+      storyPoints: template.storyPoints?.toString() || '',
+      recurrence: template.recurrence,
+      startsAt: toLocalInput(template.startsAt),
+      labelIds: template.labels.map(l => l.id)
+    } : { ...EMPTY_FORM, startsAt: toLocalInput(new Date().toISOString()) });
+  };
+
+  const toggleLabel = (labelId: string) => {
+    setForm(prev => ({
+      ...prev,
+      labelIds: prev.labelIds.includes(labelId)
+        ? prev.labelIds.filter(id => id !== labelId)
+        : [...prev.labelIds, labelId]
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const isNew = editingId === 'new';
+      const res = await fetch(`/api/boards/${boardId}/task-templates${isNew ? '' : `/${editingId}`}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          storyPoints: form.storyPoints ? parseInt(form.storyPoints) : null,
+          startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : null
+        })
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || 'Failed to save recurring task');
+        return;
+      }
+
+      setEditingId(null);
+      loadTemplates();
+    } catch (error) {
+      setError('Failed to save recurring task');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleEnabled = async (template: TaskTemplate) => {
+    const res = await fetch(`/api/boards/${boardId}/task-templates/${template.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled: !template.enabled })
+    });
+    if (res.ok) {
+      const data = await res.json();
+      setTemplates(prev => prev.map(t => t.id === template.id ? data.template : t));
+    }
+  };
+
+  const handleDelete = async (template: TaskTemplate) => {
+    if (!confirm(`Stop recurring "${template.title}"? Tasks already created are kept.`)) return;
+    const res = await fetch(`/api/boards/${boardId}/task-templates/${template.id}`, { method: 'DELETE' });
+    if (res.ok) {
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+    }
+  };
+
+  if (loading) return <div className="spinner" />;
+
+  return (
+    <div className="board-templates">
+      {error && <div className="alert alert-error mb-4">{error}</div>}
+
+      {editingId ? (
+        <div className="template-form">
+          <div className="form-group">
+            <label className="form-label">Title</label>
+            <input
+              className="form-input"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              placeholder="Monthly dependency review"
+            />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Description</label>
+            <textarea
+              className="form-input"
+              rows={3}
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+          <div className="template-row">
+            <div className="form-group">
+              <label className="form-label">Type</label>
+              <select className="form-input" value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value })}>
+                <option value="task">Task</option>
+                <option value="story">Story</option>
+                <option value="bug">Bug</option>
+                <option value="epic">Epic</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label">Priority</label>
+              <select className="form-input" value={form.priority} onChange={(e) => setForm({ ...form, priority: e.target.value })}>
+                <option value="lowest">Lowest</option>
+                <option value="low">Low</option>
+                <option value="medium">Medium</option>
+                <option value="high">High</option>
+                <option value="highest">Highest</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label">Points</label>
+              <input
+                type="number"
+                min={0}
+                className="form-input"
+                value={form.storyPoints}
+                onChange={(e) => setForm({ ...form, storyPoints: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="template-row">
+            <div className="form-group">
+              <label className="form-label">Repeats</label>
+              <select
+                className="form-input"
+                value={RECURRENCE_PRESETS.some(p => p.value === form.recurrence) ? form.recurrence : ''}
+                onChange={(e) => e.target.value && setForm({ ...form, recurrence: e.target.value })}
+              >
+                {RECURRENCE_PRESETS.map(preset => (
+                  <option key={preset.value} value={preset.value}>{preset.label}</option>
+                ))}
+                <option value="">Custom</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label">RRULE</label>
+              <input
+                className="form-input"
+                value={form.recurrence}
+                onChange={(e) => setForm({ ...form, recurrence: e.target.value })}
+              />
+            </div>
+            <div className="form-group">
+              <label className="form-label">Starting</label>
+              <input
+                type="datetime-local"
+                className="form-input"
+                value={form.startsAt}
+                onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+              />
+            </div>
+          </div>
+          {labels.length > 0 && (
+            <div className="form-group">
+              <label className="form-label">Labels</label>
+              <div className="template-labels">
+                {labels.map(label => (
+                  <label key={label.id} className="template-label">
+                    <input
+                      type="checkbox"
+                      checked={form.labelIds.includes(label.id)}
+                      onChange={() => toggleLabel(label.id)}
+                    />
+                    {label.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="template-form-buttons">
+            <button className="btn btn-secondary btn-sm" onClick={() => setEditingId(null)}>Cancel</button>
+            <button className="btn btn-primary btn-sm" onClick={handleSave} disabled={saving}>
+              {saving ? <span className="spinner" /> : 'Save'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button className="btn btn-secondary btn-sm mb-4" onClick={() => startEdit(null)}>New Recurring Task</button>
+      )}
+
+      {templates.length === 0 ? (
+        <p className="text-sm text-muted">No recurring tasks yet.</p>
+      ) : templates.map(template => (
+        <div key={template.id} className="template-item">
+          <label title={template.enabled ? 'Enabled' : 'Paused'}>
+            <input type="checkbox" checked={template.enabled} onChange={() => toggleEnabled(template)} />
+          </label>
+          <div className="template-summary">
+            <strong>{template.title}</strong>
+            <span className="text-sm text-muted">
+              {RECURRENCE_PRESETS.find(p => p.value === template.recurrence)?.label || template.recurrence}
+              {template.nextOccurrenceAt
+                ? ` · next ${new Date(template.nextOccurrenceAt).toLocaleString()}`
+                : template.enabled ? ' · ended' : ' · paused'}
+              {template.occurrences[0]?.task && ` · last ${template.occurrences[0].task.taskKey}`}
+            </span>
+          </div>
+          <button className="btn btn-ghost btn-icon" onClick={() => startEdit(template)} title="Edit">
+            <Pencil size={14} />
+          </button>
+          <button className="btn btn-ghost btn-icon" onClick={() => handleDelete(template)} title="Delete">
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+
+      <style jsx>{`
+        .template-form {
+          margin-bottom: 1.5rem;
+        }
+
+        .template-row {
+          display: grid;
+          grid-template-columns: repeat(3, 1fr);
+          gap: 0.75rem;
+        }
+
+        .template-labels {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.75rem;
+        }
+
+        .template-label {
+          display: inline-flex;
+          align-items: center;
+          gap: 0.375rem;
+          font-size: 0.875rem;
+        }
+
+        .template-form-buttons {
+          display: flex;
+          justify-content: flex-end;
+          gap: 0.5rem;
+        }
+
+        .template-item {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          padding: 0.5rem 0;
+          border-bottom: 1px solid var(--border-color);
+        }
+
+        .template-summary {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          min-width: 0;
+        }
+      `}</style>
+    </div>
+  );
+}
+
+export default BoardTaskTemplates;
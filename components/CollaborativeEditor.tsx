@@ -0,0 +1,406 @@
+'use client';
+
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import {
+  applyOperation,
+  compose,
+  operationFromChange,
+  transform,
+  transformIndex,
+  TextOperation
+} from '@/lib/ot';
+
+interface Selection {
+  anchor: number;
+  head: number;
+}
+
+interface Participant {
+  clientId: string;
+  userId: string;
+  name: string;
+  selection: Selection | null;
+}
+
+interface CollaborativeEditorProps {
+  documentId: string;
+  onChange: (content: string) => void;
+  // Told whether edits are currently going through the live session
+  onLiveChange?: (live: boolean) => void;
+  placeholder?: string;
+  rows?: number;
+}
+
+const CURSOR_COLORS = ['#f97316', '#22c55e', '#06b6d4', '#a855f7', '#ec4899', '#eab308', '#3b82f6', '#ef4444'];
+
+// Styles the cursor overlay copies from the textarea so text lines up
+const MIRRORED_STYLES = [
+  'fontFamily', 'fontSize', 'fontWeight', 'lineHeight', 'letterSpacing', 'tabSize',
+  'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth'
+] as const;
+
+const PRESENCE_THROTTLE_MS = 150;
+
+function cursorColor(userId: string) {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+}
+
+function transformSelection(selection: Selection | null, op: TextOperation) {
+  return selection && { anchor: transformIndex(selection.anchor, op), head: transformIndex(selection.head, op) };
+}
+
+/**
+ * A textarea edited together with everyone else who has the document open,
+ * through /api/documents/[documentId]/collab. Local edits are sent as
+ * operations one at a time (later ones are buffered until the server confirms
+ * the first) and operations from others are transformed past them, so every
+ * editor ends up with the same text. Others' cursors are drawn over the text.
+ */
+export function CollaborativeEditor({ documentId, onChange, onLiveChange, placeholder, rows = 10 }: CollaborativeEditorProps) {
+  const [content, setContent] = useState('');
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [status, setStatus] = useState<'connecting' | 'live' | 'offline'>('connecting');
+  const [canWrite, setCanWrite] = useState(false);
+  const [error, setError] = useState('');
+
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const mirrorRef = useRef<HTMLDivElement>(null);
+  const sourceRef = useRef<EventSource | null>(null);
+
+  // OT client state, kept in refs so event handlers always see the latest
+  const clientIdRef = useRef('');
+  const revisionRef = useRef(0);
+  const contentRef = useRef('');
+  const outstandingRef = useRef<TextOperation | null>(null);
+  const bufferRef = useRef<TextOperation | null>(null);
+  const participantsRef = useRef(new Map<string, Participant>());
+  const pendingSelectionRef = useRef<Selection | null>(null);
+  const presenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const onLiveChangeRef = useRef(onLiveChange);
+  onLiveChangeRef.current = onLiveChange;
+
+  const showParticipants = () => setParticipants(Array.from(participantsRef.current.values()));
+
+  const setText = (text: string) => {
+    contentRef.current = text;
+    setContent(text);
+    onChangeRef.current(text);
+  };
+
+  const post = (body: Record<string, unknown>) => fetch(`/api/documents/${documentId}/collab`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ clientId: clientIdRef.current, ...body })
+  });
+
+  const sendOperation = async (op: TextOperation) => {
+    try {
+      const res = await post({ revision: revisionRef.current, op });
+      if (res.ok) return;
+      const data = await res.json();
+      if (res.status === 403) {
+        setCanWrite(false);
+        setError(data.error || 'You can no longer edit this document');
+        return;
+      }
+      // Out of sync with the server: start over from its text
+      setError(`${data.error || 'Editing failed'}. Your last change may be lost.`);
+      connect();
+    } catch {
+      setError('Connection lost. Your last change may be lost.');
+      connect();
+    }
+  };
+
+  const connect = () => {
+    sourceRef.current?.close();
+    setStatus('connecting');
+    onLiveChangeRef.current?.(false);
+
+    const source = new EventSource(`/api/documents/${documentId}/collab`);
+    sourceRef.current = source;
+
+    // Also sent after EventSource reconnects by itself; unconfirmed edits are dropped then
+    source.addEventListener('snapshot', (e: MessageEvent) => {
+      const data = JSON.parse(e.data);
+      clientIdRef.current = data.clientId;
+      revisionRef.current = data.revision;
+      outstandingRef.current = null;
+      bufferRef.current = null;
+      participantsRef.current = new Map(data.participants.map((p: Participant) => [p.clientId, p]));
+      showParticipants();
+      setCanWrite(data.canWrite);
+      setText(data.content);
+      setStatus('live');
+      onLiveChangeRef.current?.(true);
+    });
+
+    source.addEventListener('operation', (e: MessageEvent) => {
+      const data = JSON.parse(e.data);
+      revisionRef.current = data.revision;
+
+      // Our own operation coming back confirms it; send what was buffered meanwhile
+      if (data.clientId === clientIdRef.current) {
+        outstandingRef.current = bufferRef.current;
+        bufferRef.current = null;
+        if (outstandingRef.current) sendOperation(outstandingRef.current);
+        return;
+      }
+
+      let op: TextOperation = data.op;
+      if (outstandingRef.current) {
+        [outstandingRef.current, op] = transform(outstandingRef.current, op);
+      }
+      if (bufferRef.current) {
+        [bufferRef.current, op] = transform(bufferRef.current, op);
+      }
+
+      const textarea = textareaRef.current;
+      if (textarea && document.activeElement === textarea) {
+        pendingSelectionRef.current = transformSelection(
+          { anchor: textarea.selectionStart, head: textarea.selectionEnd },
+          op
+        );
+      }
+      participantsRef.current.forEach(p => {
+        p.selection = transformSelection(p.selection, op);
+      });
+      showParticipants();
+      setText(applyOperation(contentRef.current, op));
+    });
+
+    source.addEventListener('presence', (e: MessageEvent) => {
+      const { clientId, selection } = JSON.parse(e.data);
+      const participant = participantsRef.current.get(clientId);
+      if (!participant) return;
+      participant.selection = selection;
+      showParticipants();
+    });
+
+    source.addEventListener('joined', (e: MessageEvent) => {
+      const { participant } = JSON.parse(e.data);
+      if (participant.clientId === clientIdRef.current) return;
+      participantsRef.current.set(participant.clientId, participant);
+      showParticipants();
+    });
+
+    source.addEventListener('left', (e: MessageEvent) => {
+      participantsRef.current.delete(JSON.parse(e.data).clientId);
+      showParticipants();
+    });
+
+    source.onerror = () => {
+      setStatus('offline');
+      onLiveChangeRef.current?.(false);
+    };
+  };
+
+  useEffect(() => {
+    connect();
+    return () => {
+      sourceRef.current?.close();
+      if (presenceTimerRef.current) clearTimeout(presenceTimerRef.current);
+    };
+  }, [documentId]);
+
+  // Copy the textarea's text metrics onto the cursor overlay
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    const mirror = mirrorRef.current;
+    if (!textarea || !mirror) return;
+    const computed = window.getComputedStyle(textarea);
+    MIRRORED_STYLES.forEach(property => {
+      mirror.style[property] = computed[property];
+    });
+  }, []);
+
+  // Keep the local cursor where it was when someone else's edit came in
+  useLayoutEffect(() => {
+    const selection = pendingSelectionRef.current;
+    const textarea = textareaRef.current;
+    if (!selection || !textarea) return;
+    pendingSelectionRef.current = null;
+    textarea.setSelectionRange(
+      Math.min(selection.anchor, selection.head),
+      Math.max(selection.anchor, selection.head),
+      selection.anchor > selection.head ? 'backward' : 'forward'
+    );
+  }, [content]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const op = operationFromChange(contentRef.current, e.target.value);
+    if (op.every(part => typeof part === 'number' && part > 0)) return;
+
+    participantsRef.current.forEach(p => {
+      p.selection = transformSelection(p.selection, op);
+    });
+    showParticipants();
+    setText(e.target.value);
+
+    if (outstandingRef.current) {
+      bufferRef.current = bufferRef.current ? compose(bufferRef.current, op) : op;
+    } else {
+      outstandingRef.current = op;
+      sendOperation(op);
+    }
+  };
+
+  const handleSelect = () => {
+    if (presenceTimerRef.current || status !== 'live') return;
+    presenceTimerRef.current = setTimeout(() => {
+      presenceTimerRef.current = null;
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      const backward = textarea.selectionDirection === 'backward';
+      post({
+        selection: {
+          anchor: backward ? textarea.selectionEnd : textarea.selectionStart,
+          head: backward ? textarea.selectionStart : textarea.selectionEnd
+        }
+      }).catch(() => undefined);
+    }, PRESENCE_THROTTLE_MS);
+  };
+
+  // The text split at other people's cursors, for the overlay
+  const cursors = participants
+    .filter(p => p.selection)
+    .map(p => ({ ...p, position: Math.min(p.selection!.head, content.length) }))
+    .sort((a, b) => a.position - b.position);
+  const overlay: React.ReactNode[] = [];
+  let offset = 0;
+  cursors.forEach(cursor => {
+    overlay.push(content.slice(offset, cursor.position));
+    overlay.push(
+      <span key={cursor.clientId} className="remote-cursor" style={{ borderColor: cursorColor(cursor.userId) }}>
+        <span className="remote-cursor-label" style={{ background: cursorColor(cursor.userId) }}>{cursor.name}</span>
+      </span>
+    );
+    offset = cursor.position;
+  });
+  overlay.push(content.slice(offset) + '\n');
+
+  return (
+    <div className="collaborative-editor">
+      <div className="collab-status">
+        <span className={`collab-indicator collab-${status}`} />
+        <span className="text-sm text-muted">
+          {status === 'live' ? (canWrite ? 'Live' : 'Live, read only') : status === 'connecting' ? 'Connecting…' : 'Offline, reconnecting…'}
+        </span>
+        {participants.length > 0 && (
+          <span className="collab-participants">
+            {participants.map(p => (
+              <span key={p.clientId} className="collab-participant" style={{ borderColor: cursorColor(p.userId) }}>
+                {p.name}
+              </span>
+            ))}
+          </span>
+        )}
+      </div>
+      {error && <div className="alert alert-error mb-4">{error}</div>}
+
+      <div className="collab-input">
+        <textarea
+          ref={textareaRef}
+          className="form-input form-textarea"
+          value={content}
+          onChange={handleChange}
+          onSelect={handleSelect}
+          onScroll={(e) => {
+            if (mirrorRef.current) mirrorRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+          readOnly={status !== 'live' || !canWrite}
+          placeholder={placeholder}
+          rows={rows}
+        />
+        <div ref={mirrorRef} className="collab-mirror" aria-hidden>
+          {overlay}
+        </div>
+      </div>
+
+      <style jsx>{`
+        .collab-status {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          margin-bottom: 0.5rem;
+        }
+
+        .collab-indicator {
+          width: 8px;
+          height: 8px;
+          border-radius: 50%;
+          background: var(--text-muted, #94a3b8);
+        }
+
+        .collab-live {
+          background: #22c55e;
+        }
+
+        .collab-offline {
+          background: #ef4444;
+        }
+
+        .collab-participants {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.25rem;
+          margin-left: auto;
+        }
+
+        .collab-participant {
+          padding: 0 0.5rem;
+          border: 1px solid;
+          border-radius: 999px;
+          font-size: 0.75rem;
+        }
+
+        .collab-input {
+          position: relative;
+        }
+
+        .collab-input textarea {
+          width: 100%;
+        }
+
+        .collab-mirror {
+          position: absolute;
+          inset: 0;
+          overflow: hidden;
+          border-style: solid;
+          border-color: transparent;
+          color: transparent;
+          white-space: pre-wrap;
+          word-wrap: break-word;
+          pointer-events: none;
+        }
+
+        .remote-cursor {
+          position: relative;
+          border-left: 2px solid;
+          margin-left: -1px;
+          margin-right: -1px;
+        }
+
+        .remote-cursor-label {
+          position: absolute;
+          bottom: 100%;
+          left: -2px;
+          padding: 0 0.25rem;
+          border-radius: 3px;
+          color: #fff;
+          font-size: 0.625rem;
+          line-height: 1.4;
+          white-space: nowrap;
+        }
+      `}</style>
+    </div>
+  );
+}
+
+export default CollaborativeEditor;
@@ -0,0 +1,182 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { mergeText } from '@/lib/text-merge';
+
+type Resolution = 'mine' | 'theirs' | 'both';
+
+interface DocumentMergeProps {
+  base: string;
+  mine: string;
+  theirs: string;
+  // Who made the other change, for the column heading
+  theirsLabel: string;
+  onApply: (merged: string) => void;
+  onDiscardMine: () => void;
+}
+
+/**
+ * Three-way merge of the user's edit ("mine") with a save that happened in the
+ * meantime ("theirs"), both starting from `base`. Changes on one side only are
+ * merged automatically; for each conflict the user picks a side or keeps both.
+ */
+export function DocumentMerge({ base, mine, theirs, theirsLabel, onApply, onDiscardMine }: DocumentMergeProps) {
+  const merge = useMemo(() => mergeText(base, mine, theirs), [base, mine, theirs]);
+  const [resolutions, setResolutions] = useState<Record<number, Resolution>>({});
+
+  const unresolved = merge.chunks.filter((chunk, index) => chunk.type === 'conflict' && !resolutions[index]).length;
+
+  const applyMerge = () => {
+    const lines = merge.chunks.flatMap((chunk, index) => {
+      if (chunk.type === 'clean') return chunk.lines;
+      const resolution = resolutions[index];
+      if (resolution === 'mine') return chunk.mine;
+      if (resolution === 'theirs') return chunk.theirs;
+      return [...chunk.mine, ...chunk.theirs];
+    });
+    onApply(lines.join('\n'));
+  };
+
+  const renderLines = (lines: string[]) => lines.length > 0
+    ? lines.map((line, index) => <div key={index} className="merge-line">{line || ' '}</div>)
+    : <div className="merge-line merge-empty">(removed)</div>;
+
+  return (
+    <div className="document-merge">
+      <p className="text-sm text-muted mb-4">
+        {merge.conflicts === 0
+          ? 'Your changes and theirs touch different lines and were merged automatically.'
+          : `${merge.conflicts} ${merge.conflicts === 1 ? 'part was' : 'parts were'} changed on both sides. Choose what to keep for each.`}
+      </p>
+
+      <div className="merge-result">
+        {merge.chunks.map((chunk, index) => {
+          if (chunk.type === 'clean') {
+            return <div key={index} className="merge-clean">{renderLines(chunk.lines)}</div>;
+          }
+
+          const resolution = resolutions[index];
+          const choose = (value: Resolution) => setResolutions({ ...resolutions, [index]: value });
+
+          return (
+            <div key={index} className={`merge-conflict ${resolution ? 'resolved' : ''}`}>
+              <div className="merge-sides">
+                <div className={`merge-side ${resolution === 'mine' || resolution === 'both' ? 'chosen' : ''}`}>
+                  <div className="merge-side-label">Yours</div>
+                  {renderLines(chunk.mine)}
+                </div>
+                <div className={`merge-side ${resolution === 'theirs' || resolution === 'both' ? 'chosen' : ''}`}>
+                  <div className="merge-side-label">{theirsLabel}</div>
+                  {renderLines(chunk.theirs)}
+                </div>
+              </div>
+              {chunk.base.length > 0 && (
+                <details className="merge-base">
+                  <summary>Original</summary>
+                  {renderLines(chunk.base)}
+                </details>
+              )}
+              <div className="flex gap-2">
+                <button className={`btn btn-sm ${resolution === 'mine' ? 'btn-primary' : 'btn-secondary'}`} onClick={() => choose('mine')}>
+                  Keep yours
+                </button>
+                <button className={`btn btn-sm ${resolution === 'theirs' ? 'btn-primary' : 'btn-secondary'}`} onClick={() => choose('theirs')}>
+                  Keep theirs
+                </button>
+                <button className={`btn btn-sm ${resolution === 'both' ? 'btn-primary' : 'btn-secondary'}`} onClick={() => choose('both')}>
+                  Keep both
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <button className="btn btn-primary btn-sm" onClick={applyMerge} disabled={unresolved > 0}>
+          {unresolved > 0 ? `${unresolved} left to resolve` : 'Use merged text'}
+        </button>
+        <button className="btn btn-secondary btn-sm" onClick={onDiscardMine}>
+          Discard my changes
+        </button>
+      </div>
+
+      <style jsx>{`
+        .merge-result {
+          max-height: 400px;
+          overflow-y: auto;
+          padding: 0.5rem;
+          border: 1px solid var(--glass-border);
+          border-radius: var(--radius-sm);
+          font-family: monospace;
+          font-size: 0.8125rem;
+        }
+
+        .merge-line {
+          white-space: pre-wrap;
+          word-break: break-word;
+        }
+
+        .merge-empty {
+          font-style: italic;
+          opacity: 0.6;
+        }
+
+        .merge-clean {
+          padding: 0 0.25rem;
+        }
+
+        .merge-conflict {
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+          margin: 0.5rem 0;
+          padding: 0.5rem;
+          border: 1px solid rgba(239, 68, 68, 0.5);
+          border-radius: var(--radius-sm);
+          font-family: inherit;
+        }
+
+        .merge-conflict.resolved {
+          border-color: var(--glass-border);
+        }
+
+        .merge-sides {
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 0.5rem;
+          font-family: monospace;
+        }
+
+        .merge-side {
+          padding: 0.375rem 0.5rem;
+          border: 1px solid var(--glass-border);
+          border-radius: var(--radius-sm);
+        }
+
+        .merge-side.chosen {
+          border-color: var(--primary-color);
+        }
+
+        .merge-side-label {
+          margin-bottom: 0.25rem;
+          font-family: inherit;
+          font-size: 0.75rem;
+          font-weight: 600;
+          opacity: 0.7;
+        }
+
+        .merge-base {
+          font-size: 0.75rem;
+          opacity: 0.8;
+        }
+
+        .merge-base summary {
+          cursor: pointer;
+        }
+      `}</style>
+    </div>
+  );
+}
+
+export default DocumentMerge;
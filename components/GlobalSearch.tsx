@@ -0,0 +1,169 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { Search, CheckSquare, MessageSquare, FileText, File } from 'lucide-react';
+import type { SearchResult } from '@/lib/types';
+
+interface GlobalSearchProps {
+  orgId: string;
+}
+
+const RESULT_ICONS = {
+  task: CheckSquare,
+  comment: MessageSquare,
+  document: FileText,
+  file: File
+};
+
+/**
+ * Search box for the whole organization: tasks, comments, documents and files.
+ * Ctrl+K (or Cmd+K) jumps to it from anywhere.
+ */
+export function GlobalSearch({ orgId }: GlobalSearchProps) {
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    const handleShortcut = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        inputRef.current?.focus();
+        inputRef.current?.select();
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleShortcut);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleShortcut);
+    };
+  }, []);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const q = query.trim();
+    if (q.length < 2) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(q)}&orgId=${encodeURIComponent(orgId)}`);
+        const data = await res.json();
+        if (cancelled) return;
+        setResults(res.ok ? data.results || [] : []);
+        setActiveIndex(0);
+      } catch (error) {
+        console.error('Search error:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, orgId]);
+
+  const openResult = (result: SearchResult) => {
+    setIsOpen(false);
+    inputRef.current?.blur();
+    router.push(result.url);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      openResult(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+      inputRef.current?.blur();
+    }
+  };
+
+  const showDropdown = isOpen && query.trim().length >= 2;
+
+  return (
+    <div className="global-search" ref={containerRef}>
+      <div className="global-search-input">
+        <Search size={16} />
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search..."
+          aria-label="Search tasks, comments, documents and files"
+        />
+        <kbd>Ctrl K</kbd>
+      </div>
+
+      {showDropdown && (
+        <div className="global-search-dropdown">
+          {results.length === 0 ? (
+            <div className="global-search-empty">
+              {loading ? 'Searching...' : 'No results'}
+            </div>
+          ) : (
+            results.map((result, index) => {
+              const Icon = RESULT_ICONS[result.type];
+              return (
+                <button
+                  key={`${result.type}-${result.id}`}
+                  className={`global-search-result ${index === activeIndex ? 'active' : ''}`}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => openResult(result)}
+                >
+                  <Icon size={16} className="global-search-icon" />
+                  <div className="global-search-body">
+                    {/* Title and snippet are escaped by the server, with matches in <mark> */}
+                    <div className="global-search-title" dangerouslySetInnerHTML={{ __html: result.title }} />
+                    {result.snippet && (
+                      <div className="global-search-snippet" dangerouslySetInnerHTML={{ __html: result.snippet }} />
+                    )}
+                    <div className="global-search-context">
+                      {result.type === 'comment' ? 'Comment on ' : ''}{result.context}
+                    </div>
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default GlobalSearch;
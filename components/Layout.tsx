@@ -15,6 +15,7 @@ import {
   ChevronDown
 } from 'lucide-react';
 import NotificationBell from './NotificationBell';
+import GlobalSearch from './GlobalSearch';
 import type { User } from '@/lib/types';
 
 interface LayoutProps {
@@ -141,6 +142,8 @@ export function Layout({ children, user }: LayoutProps) {
             </Link>
           )}
         </div>
+
+        {currentOrg && <GlobalSearch orgId={currentOrg.id} />}
         
         <nav className="sidebar-nav">
           <div className="sidebar-section">
@@ -14,11 +14,40 @@ export function NotificationBell() {
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    loadNotifications();
-    
-    // Poll for new notifications every 30 seconds
-    const interval = setInterval(loadNotifications, 30000);
-    return () => clearInterval(interval);
+    // Changes are pushed over SSE; the list is only fetched on (re)connect
+    const source = new EventSource('/api/notifications/stream');
+
+    source.addEventListener('connected', () => loadNotifications());
+
+    source.addEventListener('notification.created', (e: MessageEvent) => {
+      const { notification, unreadCount } = JSON.parse(e.data);
+      setNotifications(prev => [notification, ...prev.filter(n => n.id !== notification.id)].slice(0, 10));
+      setUnreadCount(unreadCount);
+    });
+
+    source.addEventListener('notification.read', (e: MessageEvent) => {
+      const { notificationId, unreadCount } = JSON.parse(e.data);
+      setNotifications(prev => prev.map(n => n.id === notificationId ? { ...n, isRead: true } : n));
+      setUnreadCount(unreadCount);
+    });
+
+    source.addEventListener('notification.deleted', (e: MessageEvent) => {
+      const { notificationId, unreadCount } = JSON.parse(e.data);
+      setNotifications(prev => prev.filter(n => n.id !== notificationId));
+      setUnreadCount(unreadCount);
+    });
+
+    source.addEventListener('notifications.read_all', () => {
+      setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
+      setUnreadCount(0);
+    });
+
+    source.addEventListener('notifications.cleared', () => {
+      setNotifications([]);
+      setUnreadCount(0);
+    });
+
+    return () => source.close();
   }, []);
 
   useEffect(() => {
@@ -49,7 +78,7 @@ export function NotificationBell() {
       setNotifications(prev => 
         prev.map(n => n.id === notificationId ? { ...n, isRead: true } : n)
       );
-      setUnreadCount(prev => Math.max(0, prev - 1));
+      // The unread count arrives with the notification.read event
     } catch (error) {
       console.error('Error marking as read:', error);
     }
@@ -60,10 +89,6 @@ export function NotificationBell() {
     try {
       await fetch(`/api/notifications/${notificationId}`, { method: 'DELETE' });
       setNotifications(prev => prev.filter(n => n.id !== notificationId));
-      const notification = notifications.find(n => n.id === notificationId);
-      if (notification && !notification.isRead) {
-        setUnreadCount(prev => Math.max(0, prev - 1));
-      }
     } catch (error) {
       console.error('Error deleting notification:', error);
     }
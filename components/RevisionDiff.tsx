@@ -0,0 +1,85 @@
+'use client';
+
+import type { TextDiff } from '@/lib/text-diff';
+
+interface RevisionDiffProps {
+  diff: TextDiff;
+}
+
+/**
+ * A diff from the revisions API: changed lines marked with +/−, or changed
+ * words struck through and underlined in the running text
+ */
+export function RevisionDiff({ diff }: RevisionDiffProps) {
+  return (
+    <div className={`revision-diff ${diff.mode === 'word' ? 'revision-diff-words' : ''}`}>
+      {diff.mode === 'line'
+        ? diff.chunks.flatMap((chunk, chunkIndex) =>
+          chunk.value.split('\n').map((line, lineIndex) => (
+            <div key={`${chunkIndex}-${lineIndex}`} className={`diff-line diff-${chunk.type}`}>
+              <span className="diff-marker">
+                {chunk.type === 'insert' ? '+' : chunk.type === 'delete' ? '−' : ' '}
+              </span>
+              {line || ' '}
+            </div>
+          ))
+        )
+        : diff.chunks.map((chunk, index) => {
+          if (chunk.type === 'insert') return <ins key={index}>{chunk.value}</ins>;
+          if (chunk.type === 'delete') return <del key={index}>{chunk.value}</del>;
+          return <span key={index}>{chunk.value}</span>;
+        })}
+
+      <style jsx>{`
+        .revision-diff {
+          max-height: 400px;
+          overflow-y: auto;
+          padding: 0.5rem 0;
+          border: 1px solid var(--glass-border);
+          border-radius: var(--radius-sm);
+          font-family: monospace;
+          font-size: 0.8125rem;
+        }
+
+        .revision-diff-words {
+          padding: 0.75rem;
+          font-family: inherit;
+          font-size: 0.875rem;
+          white-space: pre-wrap;
+          word-break: break-word;
+        }
+
+        .diff-line {
+          padding: 0 0.75rem;
+          white-space: pre-wrap;
+          word-break: break-word;
+        }
+
+        .diff-marker {
+          display: inline-block;
+          width: 1.25rem;
+          opacity: 0.6;
+        }
+
+        .diff-insert {
+          background: rgba(34, 197, 94, 0.15);
+        }
+
+        .diff-delete {
+          background: rgba(239, 68, 68, 0.15);
+        }
+
+        ins {
+          text-decoration: none;
+          background: rgba(34, 197, 94, 0.25);
+        }
+
+        del {
+          background: rgba(239, 68, 68, 0.25);
+        }
+      `}</style>
+    </div>
+  );
+}
+
+export default RevisionDiff;
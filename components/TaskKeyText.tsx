@@ -0,0 +1,60 @@
+'use client';
+
+import Link from 'next/link';
+
+export interface TaskKeyReference {
+  taskId: string;
+  boardId: string;
+  taskKey: string;
+  title: string;
+}
+
+interface TaskKeyTextProps {
+  text: string;
+  // From the API's `taskRefs`: only keys of tasks the user can open are linked
+  refs: Record<string, TaskKeyReference>;
+}
+
+// Mirrors TASK_KEY_REFERENCE_PATTERN in lib/task-keys.ts
+const TASK_KEY_PATTERN = /\b([A-Z]{2,10}-\d+)\b/;
+
+/**
+ * Plain text with task keys such as PROJ-42 linked to the task
+ */
+export function TaskKeyText({ text, refs }: TaskKeyTextProps) {
+  // Splitting on a capturing group puts the keys at the odd indexes
+  const parts = text.split(TASK_KEY_PATTERN);
+
+  return (
+    <span className="task-key-text">
+      {parts.map((part, index) => {
+        const ref = index % 2 === 1 ? refs[part] : undefined;
+        if (!ref) return part;
+        return (
+          <Link
+            key={index}
+            href={`/boards/${ref.boardId}?task=${ref.taskId}`}
+            className="task-key-link"
+            title={ref.taskKey === part ? ref.title : `${ref.taskKey}: ${ref.title}`}
+          >
+            {part}
+          </Link>
+        );
+      })}
+
+      <style jsx>{`
+        .task-key-text {
+          white-space: pre-wrap;
+          word-break: break-word;
+        }
+
+        .task-key-text :global(.task-key-link) {
+          font-weight: 500;
+          color: var(--primary-color);
+        }
+      `}</style>
+    </span>
+  );
+}
+
+export default TaskKeyText;
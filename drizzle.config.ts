@@ -3,6 +3,8 @@ import type { Config } from 'drizzle-kit';
 export default {
   schema: './lib/db/schema.ts',
   out: './lib/db/migrations',
+  // Full-text search tables are created by lib/search.ts, not the schema
+  tablesFilter: ['!search_*'],
   driver: 'libsql',
   dbCredentials: {
     url: 'file:./data/collab-hub.db'
@@ -0,0 +1,173 @@
+import { db } from './db';
+import { activityLogs } from './db/schema';
+import { and, desc, eq, inArray, lt, or } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+export type ActivityEntityType =
+  | 'task'
+  | 'comment'
+  | 'sprint'
+  | 'column'
+  | 'document'
+  | 'credential'
+  | 'file'
+  | 'folder'
+  | 'project_group'
+  | 'org_member'
+  | 'workflow'
+  | 'automation'
+  | 'task_template';
+
+export const ACTIVITY_ENTITY_TYPES: ActivityEntityType[] = [
+  'task', 'comment', 'sprint', 'column', 'document', 'credential', 'file', 'folder', 'project_group', 'org_member', 'workflow', 'automation',
+  'task_template'
+];
+
+interface RecordActivityParams {
+  userId: string;
+  action: string;
+  entityType: ActivityEntityType;
+  entityId?: string | null;
+  organizationId?: string | null;
+  projectId?: string | null;
+  boardId?: string | null;
+  metadata?: Record<string, any>;
+}
+
+interface BoardScope {
+  id: string;
+  organizationId: string;
+  projectId: string | null;
+}
+
+export async function recordActivity(params: RecordActivityParams) {
+  const { userId, action, entityType, entityId, organizationId, projectId, boardId, metadata } = params;
+
+  await db.insert(activityLogs).values({
+    id: uuidv4(),
+    organizationId: organizationId || null,
+    projectId: projectId || null,
+    boardId: boardId || null,
+    userId,
+    action,
+    entityType,
+    entityId: entityId || null,
+    metadata: metadata ? JSON.stringify(metadata) : null
+  });
+}
+
+/**
+ * Record an activity scoped to a board (and the board's project, if any)
+ */
+export async function recordBoardActivity(
+  board: BoardScope,
+  params: Omit<RecordActivityParams, 'organizationId' | 'projectId' | 'boardId'>
+) {
+  await recordActivity({
+    ...params,
+    organizationId: board.organizationId,
+    projectId: board.projectId,
+    boardId: board.id
+  });
+}
+
+/**
+ * Build a { field: { from, to } } map of the fields that actually changed
+ */
+export function diffFields(
+  before: Record<string, any>,
+  updates: Record<string, any>,
+  fields: string[]
+): Record<string, { from: any; to: any }> {
+  const changes: Record<string, { from: any; to: any }> = {};
+
+  for (const field of fields) {
+    if (!(field in updates)) continue;
+
+    const from = before[field] instanceof Date ? before[field].toISOString() : before[field] ?? null;
+    const to = updates[field] instanceof Date ? updates[field].toISOString() : updates[field] ?? null;
+
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+interface ListActivityOptions {
+  cursor?: string | null;
+  limit?: number;
+  entityTypes?: string[];
+  actorId?: string | null;
+}
+
+function encodeCursor(createdAt: Date, id: string): string {
+  return Buffer.from(`${createdAt.getTime()}:${id}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { createdAt: Date; id: string } | null {
+  const [time, id] = Buffer.from(cursor, 'base64url').toString('utf8').split(':');
+  const timestamp = parseInt(time);
+
+  if (!id || isNaN(timestamp)) return null;
+
+  return { createdAt: new Date(timestamp), id };
+}
+
+/**
+ * List activity for a project or board, newest first, using keyset pagination
+ * on (createdAt, id) so new entries never shift the pages being read
+ */
+export async function listActivity(
+  scope: { projectId: string } | { boardId: string },
+  options: ListActivityOptions = {}
+) {
+  const limit = Math.min(Math.max(options.limit || 50, 1), 100);
+
+  const conditions = [
+    'projectId' in scope
+      ? eq(activityLogs.projectId, scope.projectId)
+      : eq(activityLogs.boardId, scope.boardId)
+  ];
+
+  if (options.entityTypes && options.entityTypes.length > 0) {
+    conditions.push(inArray(activityLogs.entityType, options.entityTypes));
+  }
+
+  if (options.actorId) {
+    conditions.push(eq(activityLogs.userId, options.actorId));
+  }
+
+  if (options.cursor) {
+    const decoded = decodeCursor(options.cursor);
+    if (decoded) {
+      conditions.push(or(
+        lt(activityLogs.createdAt, decoded.createdAt),
+        and(eq(activityLogs.createdAt, decoded.createdAt), lt(activityLogs.id, decoded.id))
+      )!);
+    }
+  }
+
+  const rows = await db.query.activityLogs.findMany({
+    where: and(...conditions),
+    with: {
+      user: {
+        columns: { id: true, username: true, displayName: true, avatarUrl: true }
+      }
+    },
+    orderBy: [desc(activityLogs.createdAt), desc(activityLogs.id)],
+    limit: limit + 1
+  });
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    activities: page.map(row => ({
+      ...row,
+      metadata: row.metadata ? JSON.parse(row.metadata) : null
+    })),
+    nextCursor: rows.length > limit && last ? encodeCursor(last.createdAt, last.id) : null
+  };
+}
@@ -0,0 +1,381 @@
+import { db } from '../db';
+import {
+  automationRules, automationRuns, boardColumns, groupMembers, taskLabelAssignments, taskLabels, tasks, users
+} from '../db/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { buildTaskQuery } from '../task-query';
+import { recordBoardActivity } from '../activity';
+import { recordTaskHistory } from '../task-history';
+import { createNotification } from '../notifications';
+import { getTaskWatcherIds, watchTask } from '../task-watchers';
+import { publishBoardEvent } from '../events';
+import { checkBoardAccess } from '../board-access';
+import { checkWipLimit } from '../wip-limits';
+import { validateTransition, WorkflowError } from '../workflow';
+import { AutomationAction, AutomationTriggerType, ParsedAutomationRule, parseRule } from './rules';
+
+export interface AutomationEvent {
+  type: AutomationTriggerType;
+  boardId: string;
+  taskId: string;
+  // The { field: { from, to } } map from diffFields, for task_moved and task_updated
+  changes?: Record<string, { from: any; to: any }>;
+}
+
+export interface ActionResult {
+  type: AutomationAction['type'];
+  description: string;
+  // False when the task already matched (e.g. the label was there) or nobody could be found
+  changed: boolean;
+  // Why the action was not carried out, when a board rule stopped it
+  skipped?: string;
+}
+
+function triggerMatches(rule: ParsedAutomationRule, event: AutomationEvent) {
+  const { trigger } = rule;
+  // A move is also an update, so task_updated rules hear about moves too
+  const matchesType = trigger.type === event.type || (trigger.type === 'task_updated' && event.type === 'task_moved');
+  if (!matchesType) return false;
+
+  if (trigger.type === 'task_moved') {
+    const move = event.changes?.columnId;
+    if (!move) return false;
+    if (trigger.fromColumnId && move.from !== trigger.fromColumnId) return false;
+    if (trigger.toColumnId && move.to !== trigger.toColumnId) return false;
+  }
+
+  if (trigger.type === 'task_updated' && trigger.fields) {
+    return trigger.fields.some(field => event.changes?.[field]);
+  }
+
+  return true;
+}
+
+/**
+ * Whether the task matches the rule's condition (a task query, evaluated as the rule's author)
+ */
+export async function conditionMatches(rule: ParsedAutomationRule, taskId: string) {
+  const { where } = buildTaskQuery(rule.condition, { boardId: rule.boardId, userId: rule.createdBy });
+  const [match] = await db.select({ id: tasks.id })
+    .from(tasks)
+    .where(and(eq(tasks.id, taskId), eq(tasks.boardId, rule.boardId), where))
+    .limit(1);
+  return !!match;
+}
+
+async function loadTask(taskId: string) {
+  const task = await db.query.tasks.findFirst({
+    where: eq(tasks.id, taskId),
+    with: {
+      board: true,
+      labelAssignments: { columns: { labelId: true } }
+    }
+  });
+  if (!task) return null;
+
+  const { board, labelAssignments, ...rest } = task;
+  return {
+    ...rest,
+    board,
+    taskKey: `${board.key}-${task.taskNumber}`,
+    labelIds: labelAssignments.map(la => la.labelId)
+  };
+}
+
+type LoadedTask = NonNullable<Awaited<ReturnType<typeof loadTask>>>;
+
+/**
+ * Why a rule may not move a task, if anything stops it: automations follow the
+ * same board rules as people, so a blocking WIP limit stops the move, and so
+ * does a workflow transition the rule's author could not make
+ */
+async function moveBlockedReason(rule: ParsedAutomationRule, task: LoadedTask, toColumnId: string) {
+  const wipViolation = await checkWipLimit(toColumnId);
+  if (wipViolation?.mode === 'block') return wipViolation.message;
+
+  const { permission } = await checkBoardAccess(task.boardId, rule.createdBy);
+  try {
+    await validateTransition({
+      boardId: task.boardId,
+      userId: rule.createdBy,
+      permission,
+      fromColumnId: task.columnId,
+      toColumnId,
+      task
+    });
+  } catch (error) {
+    if (error instanceof WorkflowError) return error.message;
+    throw error;
+  }
+
+  return null;
+}
+
+const displayName = (user: { username: string; displayName: string | null } | undefined) =>
+  user ? user.displayName || user.username : 'unknown user';
+
+/**
+ * Work out what each action does to the task and, unless this is a dry run,
+ * do it. Changes made here never trigger other rules; open boards are told
+ * with an automation.applied event and reload.
+ */
+export async function executeActions(rule: ParsedAutomationRule, task: LoadedTask, dryRun = false) {
+  const results: ActionResult[] = [];
+  const updates: Record<string, any> = {};
+  const link = `/boards/${task.boardId}?task=${task.id}`;
+  const labelIds = new Set(task.labelIds);
+
+  // Later actions see the effect of earlier ones (e.g. unassign then notify the assignee)
+  const current = () => ({ ...task, ...updates });
+
+  for (const action of rule.actions) {
+    switch (action.type) {
+      case 'assign':
+      case 'assign_group_admin': {
+        let userId: string | null = null;
+        if (action.type === 'assign') {
+          userId = action.userId;
+        } else {
+          const admin = await db.query.groupMembers.findFirst({
+            where: and(eq(groupMembers.groupId, action.groupId), eq(groupMembers.role, 'admin')),
+            columns: { userId: true },
+            orderBy: asc(groupMembers.createdAt)
+          });
+          userId = admin?.userId ?? null;
+        }
+
+        if (!userId) {
+          results.push({ type: action.type, description: 'The group has no admin to assign', changed: false });
+          break;
+        }
+
+        const user = await db.query.users.findFirst({
+          where: eq(users.id, userId),
+          columns: { username: true, displayName: true }
+        });
+        const changed = current().assigneeId !== userId;
+        results.push({ type: action.type, description: `Assign to ${displayName(user)}`, changed });
+        if (changed) updates.assigneeId = userId;
+        break;
+      }
+      case 'unassign': {
+        const changed = !!current().assigneeId;
+        results.push({ type: action.type, description: 'Unassign', changed });
+        if (changed) updates.assigneeId = null;
+        break;
+      }
+      case 'add_label':
+      case 'remove_label': {
+        const label = await db.query.taskLabels.findFirst({
+          where: eq(taskLabels.id, action.labelId),
+          columns: { name: true }
+        });
+        const adding = action.type === 'add_label';
+        const changed = adding !== labelIds.has(action.labelId);
+        results.push({
+          type: action.type,
+          description: `${adding ? 'Add' : 'Remove'} label "${label?.name ?? 'deleted label'}"`,
+          changed: changed && !!label
+        });
+        if (!changed || !label) break;
+
+        if (adding) {
+          labelIds.add(action.labelId);
+          if (!dryRun) {
+            await db.insert(taskLabelAssignments).values({ id: uuidv4(), taskId: task.id, labelId: action.labelId });
+          }
+        } else {
+          labelIds.delete(action.labelId);
+          if (!dryRun) {
+            await db.delete(taskLabelAssignments).where(and(
+              eq(taskLabelAssignments.taskId, task.id),
+              eq(taskLabelAssignments.labelId, action.labelId)
+            ));
+          }
+        }
+        break;
+      }
+      case 'move': {
+        const column = await db.query.boardColumns.findFirst({
+          where: and(eq(boardColumns.id, action.columnId), eq(boardColumns.boardId, task.boardId)),
+          columns: { id: true, name: true }
+        });
+        const description = `Move to ${column?.name ?? 'a deleted column'}`;
+        if (!column || current().columnId === column.id) {
+          results.push({ type: action.type, description, changed: false });
+          break;
+        }
+
+        const skipped = await moveBlockedReason(rule, { ...current(), labelIds: Array.from(labelIds) }, column.id);
+        if (skipped) {
+          results.push({ type: action.type, description, changed: false, skipped });
+          break;
+        }
+        results.push({ type: action.type, description, changed: true });
+
+        const columnTasks = await db.query.tasks.findMany({
+          where: eq(tasks.columnId, column.id),
+          columns: { sortOrder: true }
+        });
+        updates.columnId = column.id;
+        updates.sortOrder = columnTasks.reduce((max, t) => t.sortOrder > max ? t.sortOrder : max, -1) + 1;
+        break;
+      }
+      case 'set_priority': {
+        const changed = current().priority !== action.priority;
+        results.push({ type: action.type, description: `Set priority to ${action.priority}`, changed });
+        if (changed) updates.priority = action.priority;
+        break;
+      }
+      case 'notify': {
+        const now = current();
+        const recipients = action.recipient === 'watchers'
+          ? await getTaskWatcherIds(task.id)
+          : [action.recipient === 'assignee' ? now.assigneeId : now.reporterId].filter((id): id is string => !!id);
+        const message = (action.message || `Automation "${rule.name}" ran on ${task.taskKey}: ${task.title}.`)
+          .replace(/\{\{\s*key\s*\}\}/g, task.taskKey)
+          .replace(/\{\{\s*title\s*\}\}/g, task.title);
+
+        results.push({
+          type: action.type,
+          description: recipients.length > 0
+            ? `Notify ${action.recipient} (${recipients.length}): ${message}`
+            : `Notify ${action.recipient}: nobody to notify`,
+          changed: recipients.length > 0
+        });
+
+        if (!dryRun) {
+          for (const userId of recipients) {
+            await createNotification({ userId, type: 'task', title: rule.name, message, link, metadata: { taskId: task.id, ruleId: rule.id } });
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  if (dryRun) return results;
+
+  const changes: Record<string, { from: any; to: any }> = {};
+  for (const field of ['assigneeId', 'columnId', 'priority'] as const) {
+    if (field in updates) changes[field] = { from: task[field], to: updates[field] };
+  }
+  if (labelIds.size !== task.labelIds.length || task.labelIds.some(id => !labelIds.has(id))) {
+    changes.labelIds = { from: [...task.labelIds].sort(), to: Array.from(labelIds).sort() };
+  }
+
+  if (Object.keys(updates).length > 0) {
+    updates.updatedAt = new Date();
+    await db.update(tasks).set(updates).where(eq(tasks.id, task.id));
+    await recordTaskHistory(task, rule.createdBy, changes, updates.updatedAt);
+  }
+
+  if (updates.assigneeId) {
+    await watchTask(task.id, updates.assigneeId);
+    await createNotification({
+      userId: updates.assigneeId,
+      type: 'task',
+      title: 'Task Assigned',
+      message: `You have been assigned to "${task.taskKey}: ${task.title}" by automation "${rule.name}".`,
+      link
+    });
+  }
+
+  if (Object.keys(changes).length > 0) {
+    await recordBoardActivity(task.board, {
+      userId: rule.createdBy,
+      action: 'automation',
+      entityType: 'task',
+      entityId: task.id,
+      metadata: { taskKey: task.taskKey, ruleId: rule.id, ruleName: rule.name, changes }
+    });
+
+    publishBoardEvent({
+      type: 'automation.applied',
+      boardId: task.boardId,
+      actorId: rule.createdBy,
+      data: { taskId: task.id, ruleId: rule.id, changes }
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Run one rule against one task and log the outcome. Failures are logged,
+ * never thrown, so a broken rule cannot break the request that triggered it.
+ * With a dedupe key the run is recorded before any action, so an occurrence
+ * runs once even when two schedulers reach it together.
+ * Returns false when the occurrence already had a run.
+ */
+export async function executeRule(rule: ParsedAutomationRule, taskId: string, dedupeKey: string | null = null) {
+  const claimed = await db.insert(automationRuns)
+    .values({
+      id: uuidv4(),
+      ruleId: rule.id,
+      boardId: rule.boardId,
+      taskId,
+      trigger: rule.trigger.type,
+      status: 'running',
+      results: '[]',
+      dedupeKey
+    })
+    .onConflictDoNothing()
+    .returning({ id: automationRuns.id });
+
+  if (claimed.length === 0) return false;
+  const runId = claimed[0].id;
+
+  try {
+    const task = await loadTask(taskId);
+    if (!task) throw new Error('Task not found');
+
+    const results = await executeActions(rule, task);
+    await db.update(automationRuns)
+      .set({ status: 'success', results: JSON.stringify(results) })
+      .where(eq(automationRuns.id, runId));
+  } catch (error) {
+    console.error(`Automation rule ${rule.id} failed:`, error);
+    await db.update(automationRuns)
+      .set({ status: 'failed', error: error instanceof Error ? error.message : String(error) })
+      .where(eq(automationRuns.id, runId));
+  }
+
+  return true;
+}
+
+/**
+ * Run the board's enabled rules for a task or comment event
+ */
+export async function runAutomations(event: AutomationEvent) {
+  try {
+    const rules = await db.query.automationRules.findMany({
+      where: and(eq(automationRules.boardId, event.boardId), eq(automationRules.enabled, true)),
+      orderBy: asc(automationRules.createdAt)
+    });
+
+    for (const rule of rules.map(parseRule)) {
+      if (!triggerMatches(rule, event)) continue;
+      if (!(await conditionMatches(rule, event.taskId))) continue;
+      await executeRule(rule, event.taskId);
+    }
+  } catch (error) {
+    console.error('Run automations error:', error);
+  }
+}
+
+/**
+ * What a rule would do to a task right now, without changing anything
+ */
+export async function dryRunRule(rule: ParsedAutomationRule, taskId: string) {
+  const task = await loadTask(taskId);
+  if (!task || task.boardId !== rule.boardId) return null;
+
+  const matches = await conditionMatches(rule, taskId);
+  return {
+    task: { id: task.id, taskKey: task.taskKey, title: task.title },
+    conditionMatches: matches,
+    actions: matches ? await executeActions(rule, task, true) : []
+  };
+}
@@ -0,0 +1,5 @@
+export { AUTOMATION_TRIGGERS, AUTOMATION_ACTIONS, AutomationRuleError, validateRuleInput, parseRule } from './rules';
+export type { AutomationTrigger, AutomationTriggerType, AutomationAction, AutomationRuleInput, ParsedAutomationRule } from './rules';
+export { runAutomations, executeRule, dryRunRule, conditionMatches } from './engine';
+export type { AutomationEvent, ActionResult } from './engine';
+export { runScheduledAutomations, getDueDateOccurrences } from './scheduler';
@@ -0,0 +1,213 @@
+import { db } from '../db';
+import { boardColumns, boardGroups, taskLabels } from '../db/schema';
+import type { AutomationRule } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { buildTaskQuery, QueryError } from '../task-query';
+import { checkBoardAccess } from '../board-access';
+
+export const AUTOMATION_TRIGGERS = ['task_created', 'task_moved', 'task_updated', 'comment_created', 'due_date_passed'] as const;
+export type AutomationTriggerType = typeof AUTOMATION_TRIGGERS[number];
+
+export const AUTOMATION_ACTIONS = [
+  'assign', 'assign_group_admin', 'unassign', 'add_label', 'remove_label', 'move', 'set_priority', 'notify'
+] as const;
+export type AutomationActionType = typeof AUTOMATION_ACTIONS[number];
+
+const PRIORITIES = ['lowest', 'low', 'medium', 'high', 'highest'] as const;
+const NOTIFY_RECIPIENTS = ['assignee', 'reporter', 'watchers'] as const;
+
+export interface AutomationTrigger {
+  type: AutomationTriggerType;
+  // task_moved: only moves out of / into these columns (either may be left out)
+  fromColumnId?: string | null;
+  toColumnId?: string | null;
+  // task_updated: only when one of these fields changed
+  fields?: string[];
+}
+
+export type AutomationAction =
+  | { type: 'assign'; userId: string }
+  | { type: 'assign_group_admin'; groupId: string }
+  | { type: 'unassign' }
+  | { type: 'add_label'; labelId: string }
+  | { type: 'remove_label'; labelId: string }
+  | { type: 'move'; columnId: string }
+  | { type: 'set_priority'; priority: typeof PRIORITIES[number] }
+  | { type: 'notify'; recipient: typeof NOTIFY_RECIPIENTS[number]; message?: string };
+
+export interface AutomationRuleInput {
+  name?: string;
+  enabled?: boolean;
+  trigger?: AutomationTrigger;
+  condition?: string;
+  actions?: AutomationAction[];
+}
+
+export class AutomationRuleError extends Error {
+  details: Record<string, any>;
+
+  constructor(message: string, details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'AutomationRuleError';
+    this.details = details;
+  }
+}
+
+async function checkColumn(boardId: string, columnId: string | null | undefined, field: string) {
+  if (!columnId) return;
+  const column = typeof columnId === 'string' && await db.query.boardColumns.findFirst({
+    where: and(eq(boardColumns.id, columnId), eq(boardColumns.boardId, boardId)),
+    columns: { id: true }
+  });
+  if (!column) {
+    throw new AutomationRuleError(`${field} must be a column of this board`, { [field]: columnId });
+  }
+}
+
+async function validateTrigger(boardId: string, trigger: any): Promise<AutomationTrigger> {
+  if (!trigger || typeof trigger !== 'object' || !AUTOMATION_TRIGGERS.includes(trigger.type)) {
+    throw new AutomationRuleError(`trigger.type must be one of: ${AUTOMATION_TRIGGERS.join(', ')}`);
+  }
+
+  switch (trigger.type as AutomationTriggerType) {
+    case 'task_moved':
+      await checkColumn(boardId, trigger.fromColumnId, 'trigger.fromColumnId');
+      await checkColumn(boardId, trigger.toColumnId, 'trigger.toColumnId');
+      return { type: 'task_moved', fromColumnId: trigger.fromColumnId || null, toColumnId: trigger.toColumnId || null };
+    case 'task_updated':
+      if (trigger.fields !== undefined && !Array.isArray(trigger.fields)) {
+        throw new AutomationRuleError('trigger.fields must be an array of task fields');
+      }
+      return { type: 'task_updated', ...(trigger.fields?.length > 0 && { fields: trigger.fields.map(String) }) };
+    default:
+      return { type: trigger.type };
+  }
+}
+
+async function validateAction(boardId: string, action: any, index: number): Promise<AutomationAction> {
+  const at = { action: index };
+
+  if (!action || typeof action !== 'object' || !AUTOMATION_ACTIONS.includes(action.type)) {
+    throw new AutomationRuleError(`Action type must be one of: ${AUTOMATION_ACTIONS.join(', ')}`, at);
+  }
+
+  switch (action.type as AutomationActionType) {
+    case 'assign': {
+      const { hasAccess } = typeof action.userId === 'string'
+        ? await checkBoardAccess(boardId, action.userId, 'write')
+        : { hasAccess: false };
+      if (!hasAccess) {
+        throw new AutomationRuleError('assign needs a userId with write access to this board', at);
+      }
+      return { type: 'assign', userId: action.userId };
+    }
+    case 'assign_group_admin': {
+      const access = typeof action.groupId === 'string' && await db.query.boardGroups.findFirst({
+        where: and(eq(boardGroups.boardId, boardId), eq(boardGroups.groupId, action.groupId))
+      });
+      if (!access) {
+        throw new AutomationRuleError('assign_group_admin needs a groupId with access to this board', at);
+      }
+      return { type: 'assign_group_admin', groupId: action.groupId };
+    }
+    case 'unassign':
+      return { type: 'unassign' };
+    case 'add_label':
+    case 'remove_label': {
+      const label = typeof action.labelId === 'string' && await db.query.taskLabels.findFirst({
+        where: and(eq(taskLabels.id, action.labelId), eq(taskLabels.boardId, boardId))
+      });
+      if (!label) {
+        throw new AutomationRuleError(`${action.type} needs a labelId of this board`, at);
+      }
+      return { type: action.type, labelId: action.labelId };
+    }
+    case 'move':
+      if (!action.columnId) {
+        throw new AutomationRuleError('move needs a columnId', at);
+      }
+      await checkColumn(boardId, action.columnId, 'columnId');
+      return { type: 'move', columnId: action.columnId };
+    case 'set_priority':
+      if (!PRIORITIES.includes(action.priority)) {
+        throw new AutomationRuleError(`set_priority needs a priority: ${PRIORITIES.join(', ')}`, at);
+      }
+      return { type: 'set_priority', priority: action.priority };
+    case 'notify':
+      if (!NOTIFY_RECIPIENTS.includes(action.recipient)) {
+        throw new AutomationRuleError(`notify needs a recipient: ${NOTIFY_RECIPIENTS.join(', ')}`, at);
+      }
+      return {
+        type: 'notify',
+        recipient: action.recipient,
+        ...(action.message && { message: String(action.message) })
+      };
+  }
+}
+
+/**
+ * Check a create/update payload, returning the columns to write. The
+ * condition is compiled against the board so saved rules always run.
+ */
+export async function validateRuleInput(input: AutomationRuleInput, scope: { boardId: string; userId: string }, partial = false) {
+  const values: Record<string, any> = {};
+
+  if (input.name !== undefined || !partial) {
+    if (!input.name || !input.name.trim()) {
+      throw new AutomationRuleError('Rule name is required');
+    }
+    values.name = input.name.trim();
+  }
+
+  if (input.enabled !== undefined) {
+    values.enabled = !!input.enabled;
+  }
+
+  if (input.trigger !== undefined || !partial) {
+    values.trigger = JSON.stringify(await validateTrigger(scope.boardId, input.trigger));
+  }
+
+  if (input.condition !== undefined) {
+    const condition = (input.condition || '').trim();
+    try {
+      buildTaskQuery(condition, scope);
+    } catch (error) {
+      if (error instanceof QueryError) {
+        throw new AutomationRuleError(error.message, { field: 'condition', position: error.position, token: error.token });
+      }
+      throw error;
+    }
+    if (/\bORDER\s+BY\b/i.test(condition)) {
+      throw new AutomationRuleError('Conditions cannot use ORDER BY');
+    }
+    values.condition = condition;
+  }
+
+  if (input.actions !== undefined || !partial) {
+    if (!Array.isArray(input.actions) || input.actions.length === 0) {
+      throw new AutomationRuleError('A rule needs at least one action');
+    }
+    const actions = [];
+    for (let index = 0; index < input.actions.length; index++) {
+      actions.push(await validateAction(scope.boardId, input.actions[index], index));
+    }
+    values.actions = JSON.stringify(actions);
+  }
+
+  return values;
+}
+
+type Parsed<T extends AutomationRule> = Omit<T, 'trigger' | 'actions'> & {
+  trigger: AutomationTrigger;
+  actions: AutomationAction[];
+};
+
+export type ParsedAutomationRule = Parsed<AutomationRule>;
+
+export function parseRule<T extends AutomationRule>(rule: T): Parsed<T> {
+  return {
+    ...rule,
+    trigger: JSON.parse(rule.trigger),
+    actions: JSON.parse(rule.actions)
+  };
+}
@@ -0,0 +1,67 @@
+import { db } from '../db';
+import { automationRules, automationRuns, tasks } from '../db/schema';
+import { and, eq, inArray, isNotNull, lte, notInArray } from 'drizzle-orm';
+import { getDoneColumnIds } from '../board-columns';
+import { conditionMatches, executeRule } from './engine';
+import { parseRule } from './rules';
+
+/**
+ * Tasks a due_date_passed rule would fire for at `now`: overdue, not done,
+ * and not yet handled for their current due date. Moving the due date gives
+ * the task a fresh occurrence.
+ */
+export async function getDueDateOccurrences(rule: { id: string; boardId: string }, now: Date) {
+  const doneColumnIds = await getDoneColumnIds(rule.boardId);
+
+  const overdue = await db.query.tasks.findMany({
+    where: and(
+      eq(tasks.boardId, rule.boardId),
+      isNotNull(tasks.dueDate),
+      lte(tasks.dueDate, now),
+      doneColumnIds.length > 0 ? notInArray(tasks.columnId, doneColumnIds) : undefined
+    ),
+    columns: { id: true, dueDate: true }
+  });
+
+  if (overdue.length === 0) return [];
+
+  const occurrences = overdue.map(task => ({
+    taskId: task.id,
+    dedupeKey: `due_date_passed:${task.id}:${task.dueDate!.getTime()}`
+  }));
+
+  const handled = await db.query.automationRuns.findMany({
+    where: and(
+      eq(automationRuns.ruleId, rule.id),
+      inArray(automationRuns.dedupeKey, occurrences.map(o => o.dedupeKey))
+    ),
+    columns: { dedupeKey: true }
+  });
+  const handledKeys = new Set(handled.map(run => run.dedupeKey));
+
+  return occurrences.filter(o => !handledKeys.has(o.dedupeKey));
+}
+
+/**
+ * Evaluate time-based rules across all boards. Meant to run every few
+ * minutes from scripts/run-automations.ts; each occurrence fires once.
+ */
+export async function runScheduledAutomations(now: Date = new Date()) {
+  const rules = await db.query.automationRules.findMany({
+    where: eq(automationRules.enabled, true)
+  });
+
+  let fired = 0;
+
+  for (const rule of rules.map(parseRule)) {
+    if (rule.trigger.type !== 'due_date_passed') continue;
+
+    for (const occurrence of await getDueDateOccurrences(rule, now)) {
+      if (!(await conditionMatches(rule, occurrence.taskId))) continue;
+      // Another scheduler may have claimed the occurrence since it was listed
+      if (await executeRule(rule, occurrence.taskId, occurrence.dedupeKey)) fired++;
+    }
+  }
+
+  return { fired };
+}
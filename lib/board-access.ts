@@ -0,0 +1,47 @@
+import { db } from '@/lib/db';
+import { boards, boardGroups, groupMembers } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+
+export type BoardPermission = 'read' | 'write' | 'admin';
+
+export async function checkBoardAccess(
+  boardId: string,
+  userId: string,
+  requiredLevel: BoardPermission = 'read'
+) {
+  const board = await db.query.boards.findFirst({
+    where: eq(boards.id, boardId)
+  });
+
+  if (!board) return { hasAccess: false, board: null, permission: null };
+
+  // Creator has admin access
+  if (board.createdBy === userId) {
+    return { hasAccess: true, board, permission: 'admin' as const };
+  }
+
+  const userGroups = await db.query.groupMembers.findMany({
+    where: eq(groupMembers.userId, userId),
+    columns: { groupId: true }
+  });
+
+  const groupIds = userGroups.map(g => g.groupId);
+  if (groupIds.length === 0) return { hasAccess: false, board, permission: null };
+
+  const boardAccess = await db.query.boardGroups.findMany({
+    where: eq(boardGroups.boardId, boardId)
+  });
+
+  const userBoardAccess = boardAccess.filter(ba => groupIds.includes(ba.groupId));
+  if (userBoardAccess.length === 0) return { hasAccess: false, board, permission: null };
+
+  const permOrder = { read: 0, write: 1, admin: 2 };
+  let highestPerm: BoardPermission = 'read';
+  for (const access of userBoardAccess) {
+    if (permOrder[access.permissionLevel] > permOrder[highestPerm]) {
+      highestPerm = access.permissionLevel;
+    }
+  }
+
+  return { hasAccess: permOrder[highestPerm] >= permOrder[requiredLevel], board, permission: highestPerm };
+}
@@ -0,0 +1,44 @@
+import { db } from './db';
+import { boardColumns } from './db/schema';
+import { asc, eq } from 'drizzle-orm';
+
+const DONE_COLUMN_NAME = /^(done|closed|resolved|complete|completed)$/i;
+const TODO_COLUMN_NAME = /^(backlog|to ?do|open|new|ready|selected for development)$/i;
+
+export type ColumnStage = 'todo' | 'in_progress' | 'done';
+
+/**
+ * Board columns in order, each tagged with the stage of work it represents.
+ * Everything from the first column named like "Done" onwards is done (so
+ * "Done → Deployed" both count); boards without such a column treat only their
+ * last column as done. Columns up to the last one named like "To Do" or
+ * "Backlog" (or just the first column) are not started yet.
+ */
+export async function getColumnStages(boardId: string) {
+  const columns = await db.query.boardColumns.findMany({
+    where: eq(boardColumns.boardId, boardId),
+    columns: { id: true, name: true, color: true, sortOrder: true },
+    orderBy: asc(boardColumns.sortOrder)
+  });
+
+  const foundDone = columns.findIndex(c => DONE_COLUMN_NAME.test(c.name.trim()));
+  const firstDone = foundDone === -1 ? columns.length - 1 : foundDone;
+
+  let lastTodo = 0;
+  columns.forEach((c, i) => {
+    if (i < firstDone && TODO_COLUMN_NAME.test(c.name.trim())) lastTodo = i;
+  });
+
+  return columns.map((column, i) => ({
+    ...column,
+    stage: (i >= firstDone ? 'done' : i <= lastTodo ? 'todo' : 'in_progress') as ColumnStage
+  }));
+}
+
+/**
+ * Columns that count as finished work (see getColumnStages)
+ */
+export async function getDoneColumnIds(boardId: string): Promise<string[]> {
+  const columns = await getColumnStages(boardId);
+  return columns.filter(c => c.stage === 'done').map(c => c.id);
+}
@@ -0,0 +1,358 @@
+import { db } from './db';
+import {
+  boardColumns, boardGroups, boards, groupMembers, groups, taskLabelAssignments, taskLabels, tasks,
+  workflowTransitionGroups, workflowTransitions
+} from './db/schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { v4 as uuidv4 } from 'uuid';
+import type { WorkflowRequiredField, TransitionPermission } from './workflow';
+import type { WipLimitMode } from './wip-limits';
+import type { BoardPermission } from './board-access';
+
+/**
+ * Everything a board template carries. Transitions point at columns by their
+ * position in `columns`, so a config can be applied to any board.
+ */
+export interface BoardConfig {
+  columns: {
+    name: string;
+    color: string | null;
+    isDefault: boolean;
+    wipLimit: number | null;
+    wipMode: WipLimitMode;
+    requiredFields: WorkflowRequiredField[];
+  }[];
+  labels: { name: string; color: string }[];
+  transitions: { from: number; to: number; requiredPermission: TransitionPermission; groupIds: string[] }[];
+  groupAccess: { groupId: string; permissionLevel: BoardPermission }[];
+}
+
+// What a board starts with when no template is picked
+export const DEFAULT_BOARD_CONFIG: BoardConfig = {
+  columns: [
+    { name: 'Backlog', color: '#6b7280', isDefault: true, wipLimit: null, wipMode: 'warn', requiredFields: [] },
+    { name: 'To Do', color: '#3b82f6', isDefault: false, wipLimit: null, wipMode: 'warn', requiredFields: [] },
+    { name: 'In Progress', color: '#f59e0b', isDefault: false, wipLimit: null, wipMode: 'warn', requiredFields: [] },
+    { name: 'Done', color: '#10b981', isDefault: false, wipLimit: null, wipMode: 'warn', requiredFields: [] },
+    { name: 'Deployed', color: '#8b5cf6', isDefault: false, wipLimit: null, wipMode: 'warn', requiredFields: [] }
+  ],
+  labels: [],
+  transitions: [],
+  groupAccess: []
+};
+
+export class BoardTemplateError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'BoardTemplateError';
+    this.status = status;
+  }
+}
+
+/**
+ * Snapshot a board's configuration. Also returns the source column and label
+ * ids, in the same order as the config, so tasks can be mapped when cloning.
+ */
+export async function captureBoardConfig(boardId: string) {
+  const columns = await db.query.boardColumns.findMany({
+    where: eq(boardColumns.boardId, boardId),
+    orderBy: asc(boardColumns.sortOrder)
+  });
+  const labels = await db.query.taskLabels.findMany({
+    where: eq(taskLabels.boardId, boardId),
+    orderBy: asc(taskLabels.name)
+  });
+  const transitions = await db.query.workflowTransitions.findMany({
+    where: eq(workflowTransitions.boardId, boardId),
+    with: { groups: { columns: { groupId: true } } }
+  });
+  const access = await db.query.boardGroups.findMany({
+    where: eq(boardGroups.boardId, boardId)
+  });
+
+  const columnIds = columns.map(c => c.id);
+
+  const config: BoardConfig = {
+    columns: columns.map(c => ({
+      name: c.name,
+      color: c.color,
+      isDefault: c.isDefault,
+      wipLimit: c.wipLimit,
+      wipMode: c.wipMode,
+      requiredFields: c.requiredFields ? JSON.parse(c.requiredFields) : []
+    })),
+    labels: labels.map(l => ({ name: l.name, color: l.color })),
+    transitions: transitions.map(t => ({
+      from: columnIds.indexOf(t.fromColumnId),
+      to: columnIds.indexOf(t.toColumnId),
+      requiredPermission: t.requiredPermission,
+      groupIds: t.groups.map(g => g.groupId)
+    })),
+    groupAccess: access.map(a => ({ groupId: a.groupId, permissionLevel: a.permissionLevel }))
+  };
+
+  return { config, columnIds, labelIds: labels.map(l => l.id) };
+}
+
+/**
+ * The writes that set up a new (empty) board from a config, for a db.batch.
+ * Groups that no longer exist in the board's organization are skipped, along
+ * with transition limits that refer to them. Also returns the new column and
+ * label ids in config order.
+ */
+export async function boardConfigWrites(boardId: string, organizationId: string, config: BoardConfig) {
+  const writes: BatchItem<'sqlite'>[] = [];
+
+  const columnIds = config.columns.map(() => uuidv4());
+  writes.push(db.insert(boardColumns).values(config.columns.map((column, index) => ({
+    id: columnIds[index],
+    boardId,
+    name: column.name,
+    color: column.color,
+    sortOrder: index,
+    isDefault: column.isDefault,
+    wipLimit: column.wipLimit,
+    wipMode: column.wipMode,
+    requiredFields: column.requiredFields.length > 0 ? JSON.stringify(column.requiredFields) : null
+  }))));
+
+  const labelIds = config.labels.map(() => uuidv4());
+  if (config.labels.length > 0) {
+    writes.push(db.insert(taskLabels).values(config.labels.map((label, index) => ({
+      id: labelIds[index],
+      boardId,
+      name: label.name,
+      color: label.color
+    }))));
+  }
+
+  // Transition limits are checked on their own rather than against the access
+  // list: access may have been cut down for the creator (limitGroupAccess),
+  // and dropping a limit would open the transition to everyone
+  const requestedGroupIds = Array.from(new Set([
+    ...config.groupAccess.map(a => a.groupId),
+    ...config.transitions.flatMap(t => t.groupIds)
+  ]));
+  const orgGroups = requestedGroupIds.length > 0
+    ? await db.query.groups.findMany({
+        where: and(eq(groups.organizationId, organizationId), inArray(groups.id, requestedGroupIds)),
+        columns: { id: true }
+      })
+    : [];
+  const orgGroupIds = new Set(orgGroups.map(g => g.id));
+
+  for (const access of config.groupAccess) {
+    if (!orgGroupIds.has(access.groupId)) continue;
+    writes.push(db.insert(boardGroups).values({
+      id: uuidv4(),
+      boardId,
+      groupId: access.groupId,
+      permissionLevel: access.permissionLevel
+    }));
+  }
+
+  for (const transition of config.transitions) {
+    const fromColumnId = columnIds[transition.from];
+    const toColumnId = columnIds[transition.to];
+    if (!fromColumnId || !toColumnId) continue;
+
+    const transitionId = uuidv4();
+    writes.push(db.insert(workflowTransitions).values({
+      id: transitionId,
+      boardId,
+      fromColumnId,
+      toColumnId,
+      requiredPermission: transition.requiredPermission
+    }));
+    for (const groupId of transition.groupIds) {
+      if (!orgGroupIds.has(groupId)) continue;
+      writes.push(db.insert(workflowTransitionGroups).values({ id: uuidv4(), transitionId, groupId }));
+    }
+  }
+
+  return { columnIds, labelIds, writes };
+}
+
+/**
+ * Keep only the group access a user could have granted by hand: groups they
+ * admin, at no more than write. Picking a template must not hand out more.
+ */
+export async function limitGroupAccess(access: BoardConfig['groupAccess'], userId: string) {
+  if (access.length === 0) return [];
+
+  const adminGroups = await db.query.groupMembers.findMany({
+    where: and(eq(groupMembers.userId, userId), eq(groupMembers.role, 'admin')),
+    columns: { groupId: true }
+  });
+  const adminGroupIds = new Set(adminGroups.map(m => m.groupId));
+
+  return access
+    .filter(a => adminGroupIds.has(a.groupId))
+    .map(a => ({ groupId: a.groupId, permissionLevel: a.permissionLevel === 'read' ? 'read' : 'write' } as const));
+}
+
+interface NewBoardInput {
+  organizationId: string;
+  projectId?: string | null;
+  name?: string;
+  description?: string | null;
+  key?: string;
+}
+
+// Rows per multi-row insert when copying tasks, well under SQLite's limit on
+// bound parameters
+const INSERT_CHUNK = 200;
+
+function chunk<T>(rows: T[]) {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK) chunks.push(rows.slice(i, i + INSERT_CHUNK));
+  return chunks;
+}
+
+/**
+ * The writes that copy a board's tasks onto a new board. Tasks keep their
+ * numbers, so PROJ-42 becomes NEW-42, and keep their hierarchy and labels;
+ * sprints, comments, attachments and history are not copied.
+ */
+async function cloneTaskWrites(
+  sourceBoardId: string,
+  targetBoardId: string,
+  columnMap: Map<string, string>,
+  labelMap: Map<string, string>
+) {
+  const sourceTasks = await db.query.tasks.findMany({
+    where: eq(tasks.boardId, sourceBoardId),
+    with: { labelAssignments: { columns: { labelId: true } } },
+    orderBy: asc(tasks.taskNumber)
+  });
+
+  const taskMap = new Map<string, string>();
+  for (const task of sourceTasks) {
+    taskMap.set(task.id, uuidv4());
+  }
+
+  const now = new Date();
+  const taskRows = sourceTasks.map(task => ({
+    id: taskMap.get(task.id)!,
+    boardId: targetBoardId,
+    columnId: columnMap.get(task.columnId)!,
+    sprintId: null,
+    taskNumber: task.taskNumber,
+    title: task.title,
+    description: task.description,
+    type: task.type,
+    priority: task.priority,
+    storyPoints: task.storyPoints,
+    assigneeId: task.assigneeId,
+    reporterId: task.reporterId,
+    parentTaskId: task.parentTaskId ? taskMap.get(task.parentTaskId) ?? null : null,
+    dueDate: task.dueDate,
+    sortOrder: task.sortOrder,
+    createdAt: now,
+    updatedAt: now
+  }));
+
+  const labelRows = sourceTasks.flatMap(task => task.labelAssignments
+    .filter(({ labelId }) => labelMap.has(labelId))
+    .map(({ labelId }) => ({ id: uuidv4(), taskId: taskMap.get(task.id)!, labelId: labelMap.get(labelId)! })));
+
+  const writes: BatchItem<'sqlite'>[] = [
+    ...chunk(taskRows).map(rows => db.insert(tasks).values(rows)),
+    ...chunk(labelRows).map(rows => db.insert(taskLabelAssignments).values(rows))
+  ];
+
+  // New tasks on the clone continue after the copied numbers
+  if (sourceTasks.length > 0) {
+    writes.push(db.update(boards)
+      .set({ taskCounter: sourceTasks[sourceTasks.length - 1].taskNumber })
+      .where(eq(boards.id, targetBoardId)));
+  }
+
+  return { writes, taskCount: sourceTasks.length };
+}
+
+interface CopyTasksFrom {
+  boardId: string;
+  // The source board's column and label ids, in config order (from captureBoardConfig)
+  columnIds: string[];
+  labelIds: string[];
+}
+
+/**
+ * Create a board set up from `config`, checking its name and that its key is
+ * well formed and free in the organization. With `copyTasksFrom` the tasks of
+ * that board are copied onto the new one.
+ */
+export async function createBoard(
+  input: NewBoardInput,
+  userId: string,
+  config: BoardConfig = DEFAULT_BOARD_CONFIG,
+  copyTasksFrom?: CopyTasksFrom
+) {
+  const { organizationId, projectId, name, description, key } = input;
+
+  if (!name) {
+    throw new BoardTemplateError('Board name is required');
+  }
+
+  if (!key || !/^[A-Z]{2,10}$/.test(key)) {
+    throw new BoardTemplateError('Board key is required and must be 2-10 uppercase letters (e.g., PROJ, DEV)');
+  }
+
+  // Check key uniqueness within organization
+  const existingBoard = await db.query.boards.findFirst({
+    where: and(eq(boards.key, key), eq(boards.organizationId, organizationId))
+  });
+
+  if (existingBoard) {
+    throw new BoardTemplateError('Board key already exists in this organization');
+  }
+
+  // The board, its whole configuration and any copied tasks are written in one
+  // batch (a single transaction), so a failure never leaves a half-made board
+  const boardId = uuidv4();
+  const { columnIds, labelIds, writes } = await boardConfigWrites(boardId, organizationId, config);
+
+  let taskCount = 0;
+  if (copyTasksFrom) {
+    const columnMap = new Map(copyTasksFrom.columnIds.map((id, index) => [id, columnIds[index]]));
+    const labelMap = new Map(copyTasksFrom.labelIds.map((id, index) => [id, labelIds[index]]));
+    const copy = await cloneTaskWrites(copyTasksFrom.boardId, boardId, columnMap, labelMap);
+    writes.push(...copy.writes);
+    taskCount = copy.taskCount;
+  }
+
+  await db.batch([
+    db.insert(boards).values({
+      id: boardId,
+      organizationId,
+      projectId: projectId || null,
+      name,
+      description: description || null,
+      key,
+      createdBy: userId
+    }),
+    ...writes
+  ]);
+
+  return { boardId, columnIds, labelIds, taskCount };
+}
+
+/**
+ * Parse and sanity-check a stored template config
+ */
+export function parseBoardConfig(value: string): BoardConfig {
+  const config = JSON.parse(value) as BoardConfig;
+  if (!Array.isArray(config.columns) || config.columns.length === 0) {
+    throw new BoardTemplateError('Board template has no columns');
+  }
+  return {
+    columns: config.columns,
+    labels: config.labels ?? [],
+    transitions: config.transitions ?? [],
+    groupAccess: config.groupAccess ?? []
+  };
+}
@@ -17,4 +17,14 @@ const client = createClient({
 
 export const db = drizzle(client, { schema });
 
+// How long a write waits for another process (a script, a second server) to
+// release the database. Statements run synchronously, so writers within this
+// process never wait on each other; multi-statement writes that must not
+// interleave go through db.batch, which wraps them in one transaction.
+// The local client runs a statement as soon as it is called, so this is in
+// place before any query made after importing the module.
+client.execute('PRAGMA busy_timeout = 5000').catch(error => {
+  console.error('Failed to set database busy timeout:', error);
+});
+
 export default db;
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
 import { relations } from 'drizzle-orm';
 
 // Users table - simplified, no global admin
@@ -58,7 +58,10 @@ export const notifications = sqliteTable('notifications', {
   isRead: integer('is_read', { mode: 'boolean' }).notNull().default(false),
   metadata: text('metadata'),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
-});
+}, (table) => ({
+  // Backs the unread count query
+  userReadIdx: index('notifications_user_read_idx').on(table.userId, table.isRead)
+}));
 
 // Groups table - belongs to organization
 export const groups = sqliteTable('groups', {
@@ -109,11 +112,26 @@ export const documents = sqliteTable('documents', {
   content: text('content'),
   parentId: text('parent_id'),
   sortOrder: integer('sort_order').notNull().default(0),
+  version: integer('version').notNull().default(1), // Number of the latest revision, sent as the ETag
   createdBy: text('created_by').notNull().references(() => users.id),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
 });
 
+// Document revisions (a snapshot of the title and content on every save)
+export const documentRevisions = sqliteTable('document_revisions', {
+  id: text('id').primaryKey(),
+  documentId: text('document_id').notNull().references(() => documents.id, { onDelete: 'cascade' }),
+  revisionNumber: integer('revision_number').notNull(),
+  title: text('title').notNull(),
+  content: text('content'),
+  authorId: text('author_id').notNull().references(() => users.id),
+  restoredFrom: integer('restored_from'), // Revision number this one restored, if any
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
+}, (table) => ({
+  documentNumberIdx: uniqueIndex('document_revisions_document_number_idx').on(table.documentId, table.revisionNumber)
+}));
+
 // Credentials table (encrypted storage)
 export const credentials = sqliteTable('credentials', {
   id: text('id').primaryKey(),
@@ -155,7 +173,9 @@ export const folders = sqliteTable('folders', {
 // Activity log table
 export const activityLogs = sqliteTable('activity_logs', {
   id: text('id').primaryKey(),
+  organizationId: text('organization_id').references(() => organizations.id, { onDelete: 'cascade' }),
   projectId: text('project_id').references(() => projects.id, { onDelete: 'cascade' }),
+  boardId: text('board_id').references(() => boards.id, { onDelete: 'cascade' }),
   userId: text('user_id').notNull().references(() => users.id),
   action: text('action').notNull(),
   entityType: text('entity_type').notNull(),
@@ -176,6 +196,7 @@ export const boards = sqliteTable('boards', {
   name: text('name').notNull(),
   description: text('description'),
   key: text('key').notNull(), // e.g., "PROJ" for task keys like PROJ-1
+  taskCounter: integer('task_counter').notNull().default(0), // Last task number handed out, see allocateTaskNumber
   createdBy: text('created_by').notNull().references(() => users.id),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
@@ -199,6 +220,8 @@ export const boardColumns = sqliteTable('board_columns', {
   sortOrder: integer('sort_order').notNull().default(0),
   isDefault: integer('is_default', { mode: 'boolean' }).notNull().default(false), // Default column for new tasks
   wipLimit: integer('wip_limit'), // Work in progress limit (optional)
+  wipMode: text('wip_mode', { enum: ['off', 'warn', 'block'] }).notNull().default('warn'), // How the WIP limit is enforced
+  requiredFields: text('required_fields'), // JSON array of task fields that must be set to enter the column
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
 });
 
@@ -211,11 +234,34 @@ export const sprints = sqliteTable('sprints', {
   startDate: integer('start_date', { mode: 'timestamp' }),
   endDate: integer('end_date', { mode: 'timestamp' }),
   status: text('status', { enum: ['planning', 'active', 'completed'] }).notNull().default('planning'),
+  // Scope snapshot taken when the sprint starts
+  committedPoints: integer('committed_points'),
+  committedTaskCount: integer('committed_task_count'),
+  startedAt: integer('started_at', { mode: 'timestamp' }),
+  completedAt: integer('completed_at', { mode: 'timestamp' }),
   createdBy: text('created_by').notNull().references(() => users.id),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
 });
 
+// Sprint summaries (committed vs. completed, stored when a sprint is completed)
+export const sprintSummaries = sqliteTable('sprint_summaries', {
+  id: text('id').primaryKey(),
+  sprintId: text('sprint_id').notNull().unique().references(() => sprints.id, { onDelete: 'cascade' }),
+  boardId: text('board_id').notNull().references(() => boards.id, { onDelete: 'cascade' }),
+  committedPoints: integer('committed_points').notNull().default(0),
+  committedTaskCount: integer('committed_task_count').notNull().default(0),
+  completedPoints: integer('completed_points').notNull().default(0),
+  completedTaskCount: integer('completed_task_count').notNull().default(0),
+  carriedOverPoints: integer('carried_over_points').notNull().default(0),
+  carriedOverTaskCount: integer('carried_over_task_count').notNull().default(0),
+  completedTaskIds: text('completed_task_ids').notNull(), // JSON array
+  carriedOverTaskIds: text('carried_over_task_ids').notNull(), // JSON array
+  carriedOverToSprintId: text('carried_over_to_sprint_id').references(() => sprints.id, { onDelete: 'set null' }), // null = backlog
+  completedBy: text('completed_by').notNull().references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
+});
+
 // Task labels (for categorization)
 export const taskLabels = sqliteTable('task_labels', {
   id: text('id').primaryKey(),
@@ -244,7 +290,9 @@ export const tasks = sqliteTable('tasks', {
   sortOrder: integer('sort_order').notNull().default(0), // Order within column
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
-});
+}, (table) => ({
+  boardNumberIdx: uniqueIndex('tasks_board_number_idx').on(table.boardId, table.taskNumber)
+}));
 
 // Task label assignments (many-to-many)
 export const taskLabelAssignments = sqliteTable('task_label_assignments', {
@@ -285,6 +333,167 @@ export const taskWatchers = sqliteTable('task_watchers', {
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
 });
 
+// Task history (column, story point and sprint changes, used by reports)
+export const taskHistory = sqliteTable('task_history', {
+  id: text('id').primaryKey(),
+  taskId: text('task_id').notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+  boardId: text('board_id').notNull().references(() => boards.id, { onDelete: 'cascade' }),
+  userId: text('user_id').references(() => users.id, { onDelete: 'set null' }),
+  field: text('field', { enum: ['columnId', 'storyPoints', 'sprintId'] }).notNull(),
+  fromValue: text('from_value'),
+  toValue: text('to_value'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
+}, (table) => ({
+  boardCreatedIdx: index('task_history_board_created_idx').on(table.boardId, table.createdAt)
+}));
+
+// Task links (typed dependencies between tasks, possibly on different boards of the same organization).
+// One row per link; the inverse ("is blocked by", "is duplicated by") is derived from the target side.
+export const taskLinks = sqliteTable('task_links', {
+  id: text('id').primaryKey(),
+  sourceTaskId: text('source_task_id').notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+  targetTaskId: text('target_task_id').notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+  type: text('type', { enum: ['blocks', 'relates_to', 'duplicates'] }).notNull(),
+  createdBy: text('created_by').notNull().references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
+});
+
+// Keys a task had on boards it was moved away from, so "OLD-12" keeps resolving after the move.
+// Numbers listed here are never handed out again on that board.
+export const taskKeyAliases = sqliteTable('task_key_aliases', {
+  id: text('id').primaryKey(),
+  taskId: text('task_id').notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+  boardId: text('board_id').notNull().references(() => boards.id, { onDelete: 'cascade' }),
+  taskNumber: integer('task_number').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
+}, (table) => ({
+  boardNumberIdx: uniqueIndex('task_key_aliases_board_number_idx').on(table.boardId, table.taskNumber)
+}));
+
+// Saved filters (named task queries with view settings, per user or shared)
+export const savedFilters = sqliteTable('saved_filters', {
+  id: text('id').primaryKey(),
+  boardId: text('board_id').notNull().references(() => boards.id, { onDelete: 'cascade' }),
+  ownerId: text('owner_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  query: text('query').notNull().default(''), // Task query language, without ORDER BY
+  sort: text('sort'), // JSON array of { field, direction }
+  groupBy: text('group_by'), // Swimlane field, null for none
+  visibleFields: text('visible_fields'), // JSON array of card fields, null for all
+  visibility: text('visibility', { enum: ['private', 'board', 'groups'] }).notNull().default('private'),
+  isDefault: integer('is_default', { mode: 'boolean' }).notNull().default(false), // Board default, set by board admins
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
+});
+
+// Saved filter groups (junction table - groups a filter is shared with)
+export const savedFilterGroups = sqliteTable('saved_filter_groups', {
+  id: text('id').primaryKey(),
+  filterId: text('filter_id').notNull().references(() => savedFilters.id, { onDelete: 'cascade' }),
+  groupId: text('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
+});
+
+// Workflow transitions (allowed column moves; a board without any allows every move)
+export const workflowTransitions = sqliteTable('workflow_transitions', {
+  id: text('id').primaryKey(),
+  boardId: text('board_id').notNull().references(() => boards.id, { onDelete: 'cascade' }),
+  fromColumnId: text('from_column_id').notNull().references(() => boardColumns.id, { onDelete: 'cascade' }),
+  toColumnId: text('to_column_id').notNull().references(() => boardColumns.id, { onDelete: 'cascade' }),
+  requiredPermission: text('required_permission', { enum: ['write', 'admin'] }).notNull().default('write'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
+});
+
+// Workflow transition groups (junction table - when present, only these groups may perform the transition)
+export const workflowTransitionGroups = sqliteTable('workflow_transition_groups', {
+  id: text('id').primaryKey(),
+  transitionId: text('transition_id').notNull().references(() => workflowTransitions.id, { onDelete: 'cascade' }),
+  groupId: text('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
+});
+
+// Automation rules ("when <trigger> and <condition> then <actions>", per board)
+export const automationRules = sqliteTable('automation_rules', {
+  id: text('id').primaryKey(),
+  boardId: text('board_id').notNull().references(() => boards.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+  trigger: text('trigger').notNull(), // JSON { type, ...options }
+  condition: text('condition').notNull().default(''), // Task query language, empty matches every task
+  actions: text('actions').notNull(), // JSON array of { type, ...options }
+  createdBy: text('created_by').notNull().references(() => users.id), // Rules act as this user
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
+});
+
+// Automation runs (execution log; scheduled triggers use dedupeKey to fire once per occurrence)
+export const automationRuns = sqliteTable('automation_runs', {
+  id: text('id').primaryKey(),
+  ruleId: text('rule_id').notNull().references(() => automationRules.id, { onDelete: 'cascade' }),
+  boardId: text('board_id').notNull().references(() => boards.id, { onDelete: 'cascade' }),
+  taskId: text('task_id').references(() => tasks.id, { onDelete: 'set null' }),
+  trigger: text('trigger').notNull(), // Trigger type that fired
+  status: text('status', { enum: ['running', 'success', 'failed'] }).notNull(),
+  results: text('results').notNull(), // JSON array of { type, description, changed }
+  error: text('error'),
+  dedupeKey: text('dedupe_key'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
+}, (table) => ({
+  ruleCreatedIdx: index('automation_runs_rule_created_idx').on(table.ruleId, table.createdAt),
+  // One run per scheduled occurrence; runs without a dedupe key never conflict
+  ruleDedupeIdx: uniqueIndex('automation_runs_rule_dedupe_idx').on(table.ruleId, table.dedupeKey)
+}));
+
+// Recurring task templates (a task blueprint plus an RRULE-style recurrence)
+export const taskTemplates = sqliteTable('task_templates', {
+  id: text('id').primaryKey(),
+  boardId: text('board_id').notNull().references(() => boards.id, { onDelete: 'cascade' }),
+  title: text('title').notNull(),
+  description: text('description'),
+  type: text('type', { enum: ['story', 'task', 'bug', 'epic', 'subtask'] }).notNull().default('task'),
+  priority: text('priority', { enum: ['lowest', 'low', 'medium', 'high', 'highest'] }).notNull().default('medium'),
+  storyPoints: integer('story_points'),
+  assigneeId: text('assignee_id').references(() => users.id, { onDelete: 'set null' }),
+  recurrence: text('recurrence').notNull(), // RRULE, e.g. FREQ=MONTHLY;BYMONTHDAY=1
+  startsAt: integer('starts_at', { mode: 'timestamp' }).notNull(), // DTSTART; also sets the time of day
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+  createdBy: text('created_by').notNull().references(() => users.id), // Reporter of the created tasks
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
+});
+
+// Labels given to tasks created from a template
+export const taskTemplateLabels = sqliteTable('task_template_labels', {
+  id: text('id').primaryKey(),
+  templateId: text('template_id').notNull().references(() => taskTemplates.id, { onDelete: 'cascade' }),
+  labelId: text('label_id').notNull().references(() => taskLabels.id, { onDelete: 'cascade' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
+});
+
+// Occurrences a template has been instantiated for; the unique index makes each occurrence create at most one task
+export const taskTemplateOccurrences = sqliteTable('task_template_occurrences', {
+  id: text('id').primaryKey(),
+  templateId: text('template_id').notNull().references(() => taskTemplates.id, { onDelete: 'cascade' }),
+  occurrenceAt: integer('occurrence_at', { mode: 'timestamp' }).notNull(),
+  taskId: text('task_id').references(() => tasks.id, { onDelete: 'set null' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
+}, (table) => ({
+  templateOccurrenceIdx: uniqueIndex('task_template_occurrences_template_occurrence_idx').on(table.templateId, table.occurrenceAt)
+}));
+
+// Board templates (a snapshot of a board's columns, labels, workflow and group access)
+export const boardTemplates = sqliteTable('board_templates', {
+  id: text('id').primaryKey(),
+  organizationId: text('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  description: text('description'),
+  config: text('config').notNull(), // JSON BoardConfig, see lib/board-templates.ts
+  sourceBoardId: text('source_board_id').references(() => boards.id, { onDelete: 'set null' }),
+  createdBy: text('created_by').notNull().references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date())
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   organizationMemberships: many(organizationMembers),
@@ -347,14 +556,26 @@ export const projectsRelations = relations(projects, ({ one, many }) => ({
   activityLogs: many(activityLogs)
 }));
 
+export const activityLogsRelations = relations(activityLogs, ({ one }) => ({
+  user: one(users, { fields: [activityLogs.userId], references: [users.id] }),
+  project: one(projects, { fields: [activityLogs.projectId], references: [projects.id] }),
+  board: one(boards, { fields: [activityLogs.boardId], references: [boards.id] })
+}));
+
 export const projectGroupsRelations = relations(projectGroups, ({ one }) => ({
   project: one(projects, { fields: [projectGroups.projectId], references: [projects.id] }),
   group: one(groups, { fields: [projectGroups.groupId], references: [groups.id] })
 }));
 
-export const documentsRelations = relations(documents, ({ one }) => ({
+export const documentsRelations = relations(documents, ({ one, many }) => ({
   project: one(projects, { fields: [documents.projectId], references: [projects.id] }),
-  creator: one(users, { fields: [documents.createdBy], references: [users.id] })
+  creator: one(users, { fields: [documents.createdBy], references: [users.id] }),
+  revisions: many(documentRevisions)
+}));
+
+export const documentRevisionsRelations = relations(documentRevisions, ({ one }) => ({
+  document: one(documents, { fields: [documentRevisions.documentId], references: [documents.id] }),
+  author: one(users, { fields: [documentRevisions.authorId], references: [users.id] })
 }));
 
 export const credentialsRelations = relations(credentials, ({ one }) => ({
@@ -383,7 +604,12 @@ export const boardsRelations = relations(boards, ({ one, many }) => ({
   columns: many(boardColumns),
   sprints: many(sprints),
   tasks: many(tasks),
-  labels: many(taskLabels)
+  labels: many(taskLabels),
+  activityLogs: many(activityLogs),
+  savedFilters: many(savedFilters),
+  workflowTransitions: many(workflowTransitions),
+  automationRules: many(automationRules),
+  taskTemplates: many(taskTemplates)
 }));
 
 export const boardGroupsRelations = relations(boardGroups, ({ one }) => ({
@@ -393,15 +619,24 @@ export const boardGroupsRelations = relations(boardGroups, ({ one }) => ({
 
 export const boardColumnsRelations = relations(boardColumns, ({ one, many }) => ({
   board: one(boards, { fields: [boardColumns.boardId], references: [boards.id] }),
-  tasks: many(tasks)
+  tasks: many(tasks),
+  outgoingTransitions: many(workflowTransitions, { relationName: 'transitionFrom' }),
+  incomingTransitions: many(workflowTransitions, { relationName: 'transitionTo' })
 }));
 
 export const sprintsRelations = relations(sprints, ({ one, many }) => ({
   board: one(boards, { fields: [sprints.boardId], references: [boards.id] }),
   creator: one(users, { fields: [sprints.createdBy], references: [users.id] }),
+  summary: one(sprintSummaries, { fields: [sprints.id], references: [sprintSummaries.sprintId] }),
   tasks: many(tasks)
 }));
 
+export const sprintSummariesRelations = relations(sprintSummaries, ({ one }) => ({
+  sprint: one(sprints, { fields: [sprintSummaries.sprintId], references: [sprints.id] }),
+  board: one(boards, { fields: [sprintSummaries.boardId], references: [boards.id] }),
+  carriedOverTo: one(sprints, { fields: [sprintSummaries.carriedOverToSprintId], references: [sprints.id] })
+}));
+
 export const taskLabelsRelations = relations(taskLabels, ({ one, many }) => ({
   board: one(boards, { fields: [taskLabels.boardId], references: [boards.id] }),
   assignments: many(taskLabelAssignments)
@@ -418,7 +653,11 @@ export const tasksRelations = relations(tasks, ({ one, many }) => ({
   labelAssignments: many(taskLabelAssignments),
   comments: many(taskComments),
   attachments: many(taskAttachments),
-  watchers: many(taskWatchers)
+  watchers: many(taskWatchers),
+  outgoingLinks: many(taskLinks, { relationName: 'linkSource' }),
+  incomingLinks: many(taskLinks, { relationName: 'linkTarget' }),
+  history: many(taskHistory),
+  keyAliases: many(taskKeyAliases)
 }));
 
 export const taskLabelAssignmentsRelations = relations(taskLabelAssignments, ({ one }) => ({
@@ -441,6 +680,81 @@ export const taskWatchersRelations = relations(taskWatchers, ({ one }) => ({
   user: one(users, { fields: [taskWatchers.userId], references: [users.id] })
 }));
 
+export const taskHistoryRelations = relations(taskHistory, ({ one }) => ({
+  task: one(tasks, { fields: [taskHistory.taskId], references: [tasks.id] }),
+  board: one(boards, { fields: [taskHistory.boardId], references: [boards.id] }),
+  user: one(users, { fields: [taskHistory.userId], references: [users.id] })
+}));
+
+export const taskLinksRelations = relations(taskLinks, ({ one }) => ({
+  source: one(tasks, { fields: [taskLinks.sourceTaskId], references: [tasks.id], relationName: 'linkSource' }),
+  target: one(tasks, { fields: [taskLinks.targetTaskId], references: [tasks.id], relationName: 'linkTarget' }),
+  creator: one(users, { fields: [taskLinks.createdBy], references: [users.id] })
+}));
+
+export const taskKeyAliasesRelations = relations(taskKeyAliases, ({ one }) => ({
+  task: one(tasks, { fields: [taskKeyAliases.taskId], references: [tasks.id] }),
+  board: one(boards, { fields: [taskKeyAliases.boardId], references: [boards.id] })
+}));
+
+export const savedFiltersRelations = relations(savedFilters, ({ one, many }) => ({
+  board: one(boards, { fields: [savedFilters.boardId], references: [boards.id] }),
+  owner: one(users, { fields: [savedFilters.ownerId], references: [users.id] }),
+  sharedWith: many(savedFilterGroups)
+}));
+
+export const savedFilterGroupsRelations = relations(savedFilterGroups, ({ one }) => ({
+  filter: one(savedFilters, { fields: [savedFilterGroups.filterId], references: [savedFilters.id] }),
+  group: one(groups, { fields: [savedFilterGroups.groupId], references: [groups.id] })
+}));
+
+export const workflowTransitionsRelations = relations(workflowTransitions, ({ one, many }) => ({
+  board: one(boards, { fields: [workflowTransitions.boardId], references: [boards.id] }),
+  fromColumn: one(boardColumns, { fields: [workflowTransitions.fromColumnId], references: [boardColumns.id], relationName: 'transitionFrom' }),
+  toColumn: one(boardColumns, { fields: [workflowTransitions.toColumnId], references: [boardColumns.id], relationName: 'transitionTo' }),
+  groups: many(workflowTransitionGroups)
+}));
+
+export const automationRulesRelations = relations(automationRules, ({ one, many }) => ({
+  board: one(boards, { fields: [automationRules.boardId], references: [boards.id] }),
+  creator: one(users, { fields: [automationRules.createdBy], references: [users.id] }),
+  runs: many(automationRuns)
+}));
+
+export const automationRunsRelations = relations(automationRuns, ({ one }) => ({
+  rule: one(automationRules, { fields: [automationRuns.ruleId], references: [automationRules.id] }),
+  task: one(tasks, { fields: [automationRuns.taskId], references: [tasks.id] })
+}));
+
+export const boardTemplatesRelations = relations(boardTemplates, ({ one }) => ({
+  organization: one(organizations, { fields: [boardTemplates.organizationId], references: [organizations.id] }),
+  sourceBoard: one(boards, { fields: [boardTemplates.sourceBoardId], references: [boards.id] }),
+  creator: one(users, { fields: [boardTemplates.createdBy], references: [users.id] })
+}));
+
+export const taskTemplatesRelations = relations(taskTemplates, ({ one, many }) => ({
+  board: one(boards, { fields: [taskTemplates.boardId], references: [boards.id] }),
+  assignee: one(users, { fields: [taskTemplates.assigneeId], references: [users.id] }),
+  creator: one(users, { fields: [taskTemplates.createdBy], references: [users.id] }),
+  labels: many(taskTemplateLabels),
+  occurrences: many(taskTemplateOccurrences)
+}));
+
+export const taskTemplateLabelsRelations = relations(taskTemplateLabels, ({ one }) => ({
+  template: one(taskTemplates, { fields: [taskTemplateLabels.templateId], references: [taskTemplates.id] }),
+  label: one(taskLabels, { fields: [taskTemplateLabels.labelId], references: [taskLabels.id] })
+}));
+
+export const taskTemplateOccurrencesRelations = relations(taskTemplateOccurrences, ({ one }) => ({
+  template: one(taskTemplates, { fields: [taskTemplateOccurrences.templateId], references: [taskTemplates.id] }),
+  task: one(tasks, { fields: [taskTemplateOccurrences.taskId], references: [tasks.id] })
+}));
+
+export const workflowTransitionGroupsRelations = relations(workflowTransitionGroups, ({ one }) => ({
+  transition: one(workflowTransitions, { fields: [workflowTransitionGroups.transitionId], references: [workflowTransitions.id] }),
+  group: one(groups, { fields: [workflowTransitionGroups.groupId], references: [groups.id] })
+}));
+
 // Type exports
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
@@ -459,6 +773,7 @@ export type NewProject = typeof projects.$inferInsert;
 export type ProjectGroup = typeof projectGroups.$inferSelect;
 export type NewProjectGroup = typeof projectGroups.$inferInsert;
 export type Document = typeof documents.$inferSelect;
+export type DocumentRevision = typeof documentRevisions.$inferSelect;
 export type NewDocument = typeof documents.$inferInsert;
 export type Credential = typeof credentials.$inferSelect;
 export type NewCredential = typeof credentials.$inferInsert;
@@ -479,6 +794,8 @@ export type BoardColumn = typeof boardColumns.$inferSelect;
 export type NewBoardColumn = typeof boardColumns.$inferInsert;
 export type Sprint = typeof sprints.$inferSelect;
 export type NewSprint = typeof sprints.$inferInsert;
+export type SprintSummary = typeof sprintSummaries.$inferSelect;
+export type NewSprintSummary = typeof sprintSummaries.$inferInsert;
 export type Task = typeof tasks.$inferSelect;
 export type NewTask = typeof tasks.$inferInsert;
 export type TaskLabel = typeof taskLabels.$inferSelect;
@@ -491,3 +808,23 @@ export type TaskAttachment = typeof taskAttachments.$inferSelect;
 export type NewTaskAttachment = typeof taskAttachments.$inferInsert;
 export type TaskWatcher = typeof taskWatchers.$inferSelect;
 export type NewTaskWatcher = typeof taskWatchers.$inferInsert;
+export type TaskHistoryEntry = typeof taskHistory.$inferSelect;
+export type NewTaskHistoryEntry = typeof taskHistory.$inferInsert;
+export type TaskLink = typeof taskLinks.$inferSelect;
+export type NewTaskLink = typeof taskLinks.$inferInsert;
+export type TaskKeyAlias = typeof taskKeyAliases.$inferSelect;
+export type SavedFilter = typeof savedFilters.$inferSelect;
+export type NewSavedFilter = typeof savedFilters.$inferInsert;
+export type SavedFilterGroup = typeof savedFilterGroups.$inferSelect;
+export type NewSavedFilterGroup = typeof savedFilterGroups.$inferInsert;
+export type WorkflowTransition = typeof workflowTransitions.$inferSelect;
+export type NewWorkflowTransition = typeof workflowTransitions.$inferInsert;
+export type WorkflowTransitionGroup = typeof workflowTransitionGroups.$inferSelect;
+export type AutomationRule = typeof automationRules.$inferSelect;
+export type NewAutomationRule = typeof automationRules.$inferInsert;
+export type AutomationRun = typeof automationRuns.$inferSelect;
+export type TaskTemplate = typeof taskTemplates.$inferSelect;
+export type NewTaskTemplate = typeof taskTemplates.$inferInsert;
+export type TaskTemplateOccurrence = typeof taskTemplateOccurrences.$inferSelect;
+export type BoardTemplate = typeof boardTemplates.$inferSelect;
+export type NewBoardTemplate = typeof boardTemplates.$inferInsert;
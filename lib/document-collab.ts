@@ -0,0 +1,309 @@
+import { db } from './db';
+import { documents } from './db/schema';
+import type { Document, User } from './db/schema';
+import { eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { publish, subscribe } from './events';
+import { updateDocument } from './document-revisions';
+import { applyOperation, operationFromChange, transform, transformIndex, OperationError, TextOperation } from './ot';
+
+/**
+ * Live editing sessions for documents. Each open document has one session in
+ * this process holding the merged text; editors send operations at the
+ * revision they last saw, the session transforms them past anything that came
+ * in since, applies them and streams them to everyone (see lib/ot.ts). The
+ * merged text is saved to `documents` once editing pauses and when the last
+ * editor leaves. Like the event bus, sessions only span one server process.
+ */
+
+// Merged text is saved after this long without edits
+const PERSIST_DELAY_MS = 5000;
+// A session stays loaded this long after the last editor left, for reconnects
+const CLOSE_DELAY_MS = 30000;
+// Operations kept for transforming late ones; editors further behind resync
+const MAX_HISTORY = 1000;
+const MAX_CONTENT_LENGTH = 1_000_000;
+
+export interface CollabSelection {
+  anchor: number;
+  head: number;
+}
+
+export interface CollabParticipant {
+  clientId: string;
+  userId: string;
+  name: string;
+  selection: CollabSelection | null;
+}
+
+export type CollabEvent =
+  | { type: 'operation'; clientId: string | null; userId: string | null; revision: number; op: TextOperation }
+  | { type: 'presence'; clientId: string; selection: CollabSelection | null }
+  | { type: 'joined'; participant: CollabParticipant }
+  | { type: 'left'; clientId: string };
+
+export interface CollabSession {
+  documentId: string;
+  projectId: string;
+  content: string;
+  // Operations applied since the session was loaded; `history` ends here
+  revision: number;
+  history: TextOperation[];
+  participants: Map<string, CollabParticipant>;
+  // What was last written to `documents`, and at which revision
+  savedContent: string;
+  savedRevision: number;
+  lastEditorId: string | null;
+  persistTimer: ReturnType<typeof setTimeout> | null;
+  closeTimer: ReturnType<typeof setTimeout> | null;
+  saving: Promise<void>;
+}
+
+export class CollabError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'CollabError';
+    this.status = status;
+  }
+}
+
+// Survive hot reloads in development, like the event bus
+const globalForCollab = globalThis as unknown as { collabSessions?: Map<string, CollabSession> };
+const sessions = globalForCollab.collabSessions ?? new Map<string, CollabSession>();
+globalForCollab.collabSessions = sessions;
+
+const channel = (documentId: string) => `document:${documentId}`;
+
+function publishCollabEvent(documentId: string, event: CollabEvent) {
+  publish(channel(documentId), event);
+}
+
+export function subscribeToCollab(documentId: string, listener: (event: CollabEvent) => void) {
+  return subscribe(channel(documentId), listener);
+}
+
+/**
+ * The live session for a document, starting one from `document` if there is none
+ */
+export function openCollabSession(document: Document) {
+  let session = sessions.get(document.id);
+  if (!session) {
+    const content = document.content || '';
+    session = {
+      documentId: document.id,
+      projectId: document.projectId,
+      content,
+      revision: 0,
+      history: [],
+      participants: new Map(),
+      savedContent: content,
+      savedRevision: 0,
+      lastEditorId: null,
+      persistTimer: null,
+      closeTimer: null,
+      saving: Promise.resolve()
+    };
+    sessions.set(document.id, session);
+  }
+  return session;
+}
+
+export function getCollabSession(documentId: string) {
+  return sessions.get(documentId) ?? null;
+}
+
+/**
+ * Add an editor to a session. Returns their participant entry and the text
+ * and revision their editor starts from. Subscribe in the same tick so no
+ * operation falls in between.
+ */
+export function joinCollabSession(session: CollabSession, user: Pick<User, 'id' | 'username' | 'displayName'>) {
+  if (session.closeTimer) {
+    clearTimeout(session.closeTimer);
+    session.closeTimer = null;
+  }
+
+  const participant: CollabParticipant = {
+    clientId: uuidv4(),
+    userId: user.id,
+    name: user.displayName || user.username,
+    selection: null
+  };
+  const others = Array.from(session.participants.values());
+  session.participants.set(participant.clientId, participant);
+  publishCollabEvent(session.documentId, { type: 'joined', participant });
+
+  return {
+    participant,
+    snapshot: {
+      clientId: participant.clientId,
+      revision: session.revision,
+      content: session.content,
+      participants: others
+    }
+  };
+}
+
+export function leaveCollabSession(session: CollabSession, clientId: string) {
+  if (!session.participants.delete(clientId)) return;
+  publishCollabEvent(session.documentId, { type: 'left', clientId });
+
+  if (session.participants.size === 0) {
+    saveCollabSession(session);
+    session.closeTimer = setTimeout(() => {
+      if (session.participants.size === 0) sessions.delete(session.documentId);
+    }, CLOSE_DELAY_MS);
+  }
+}
+
+/**
+ * The participant behind `clientId`, which must belong to `userId`
+ */
+export function getCollabParticipant(session: CollabSession, clientId: unknown, userId: string) {
+  const participant = typeof clientId === 'string' ? session.participants.get(clientId) : undefined;
+  if (!participant || participant.userId !== userId) {
+    throw new CollabError('Not connected to this document', 409);
+  }
+  return participant;
+}
+
+// Apply an operation made at `revision` on top of everything since
+function applyAt(session: CollabSession, revision: number, op: TextOperation) {
+  const oldest = session.revision - session.history.length;
+  if (!Number.isInteger(revision) || revision < oldest || revision > session.revision) {
+    throw new CollabError('Editor is out of date, reconnect to continue', 409);
+  }
+
+  let transformed = op;
+  for (let i = revision - oldest; i < session.history.length; i++) {
+    transformed = transform(transformed, session.history[i])[0];
+  }
+
+  const content = applyOperation(session.content, transformed);
+  if (content.length > MAX_CONTENT_LENGTH) {
+    throw new CollabError('Document is too long', 413);
+  }
+
+  session.content = content;
+  session.revision++;
+  session.history.push(transformed);
+  if (session.history.length > MAX_HISTORY) {
+    session.history.splice(0, session.history.length - MAX_HISTORY);
+  }
+
+  // Keep cursors in place for editors joining later
+  for (const participant of Array.from(session.participants.values())) {
+    if (!participant.selection) continue;
+    participant.selection = {
+      anchor: transformIndex(participant.selection.anchor, transformed),
+      head: transformIndex(participant.selection.head, transformed)
+    };
+  }
+
+  return transformed;
+}
+
+/**
+ * Apply an editor's operation. Access is checked by the caller on every call.
+ * Returns the revision it became.
+ */
+export function submitCollabOperation(
+  session: CollabSession,
+  participant: CollabParticipant,
+  revision: number,
+  op: TextOperation
+) {
+  let applied: TextOperation;
+  try {
+    applied = applyAt(session, revision, op);
+  } catch (error) {
+    if (error instanceof OperationError) {
+      throw new CollabError(error.message);
+    }
+    throw error;
+  }
+
+  session.lastEditorId = participant.userId;
+  publishCollabEvent(session.documentId, {
+    type: 'operation',
+    clientId: participant.clientId,
+    userId: participant.userId,
+    revision: session.revision,
+    op: applied
+  });
+  schedulePersist(session);
+
+  return session.revision;
+}
+
+export function updateCollabPresence(
+  session: CollabSession,
+  participant: CollabParticipant,
+  selection: CollabSelection | null
+) {
+  participant.selection = selection;
+  publishCollabEvent(session.documentId, { type: 'presence', clientId: participant.clientId, selection });
+}
+
+function schedulePersist(session: CollabSession) {
+  if (session.persistTimer) clearTimeout(session.persistTimer);
+  session.persistTimer = setTimeout(() => saveCollabSession(session), PERSIST_DELAY_MS);
+}
+
+/**
+ * Write the merged text to the document (as a revision by whoever edited
+ * last). Saves run one after another.
+ */
+function saveCollabSession(session: CollabSession) {
+  if (session.persistTimer) {
+    clearTimeout(session.persistTimer);
+    session.persistTimer = null;
+  }
+
+  session.saving = session.saving.then(async () => {
+    if (session.revision === session.savedRevision) return;
+    const content = session.content;
+    const revision = session.revision;
+
+    try {
+      const document = await db.query.documents.findFirst({ where: eq(documents.id, session.documentId) });
+      if (!document) return;
+      await updateDocument(document, { content, updatedAt: new Date() }, session.lastEditorId || document.createdBy);
+      session.savedContent = content;
+      session.savedRevision = revision;
+    } catch (error) {
+      console.error('Save collaborative document error:', error);
+    }
+  });
+  return session.saving;
+}
+
+/**
+ * Bring a live session in line with a save made outside it (the documents API,
+ * restoring a revision). The save is taken as an edit of what the session
+ * last wrote, so edits made in the session since are kept on top of it.
+ */
+export function applyDocumentSave(documentId: string, content: string | null) {
+  const session = sessions.get(documentId);
+  if (!session) return;
+
+  const saved = content || '';
+  const historyCovers = session.savedRevision >= session.revision - session.history.length;
+  const base = historyCovers ? session.savedContent : session.content;
+  if (saved === base) return;
+
+  const op = operationFromChange(base, saved);
+  const applied = applyAt(session, historyCovers ? session.savedRevision : session.revision, op);
+
+  publishCollabEvent(documentId, { type: 'operation', clientId: null, userId: null, revision: session.revision, op: applied });
+
+  if (session.content === saved) {
+    session.savedContent = saved;
+    session.savedRevision = session.revision;
+  } else {
+    // Session edits were merged into the save, so the result still has to be written
+    saveCollabSession(session);
+  }
+}
@@ -0,0 +1,165 @@
+import { db } from './db';
+import { documentRevisions, documents } from './db/schema';
+import type { Document } from './db/schema';
+import { and, desc, eq, sql, SQL } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+const authorColumns = { id: true, username: true, displayName: true } as const;
+
+export class DocumentConflictError extends Error {
+  current: Document;
+
+  constructor(current: Document) {
+    super('The document was changed by someone else');
+    this.name = 'DocumentConflictError';
+    this.current = current;
+  }
+}
+
+/**
+ * ETag for a document version, sent with documents and expected back in If-Match
+ */
+export function documentETag(version: number) {
+  return `"${version}"`;
+}
+
+/**
+ * The version an If-Match header asks for, or null when it is missing, "*" or
+ * not one of our ETags
+ */
+export function parseDocumentETag(header: string | null) {
+  const match = header?.trim().match(/^(?:W\/)?"(\d+)"$/);
+  return match ? parseInt(match[1]) : null;
+}
+
+function revisionInsert(
+  documentId: string,
+  revisionNumber: number | SQL,
+  snapshot: { title: string; content: string | null },
+  authorId: string,
+  options: { restoredFrom?: number | null; createdAt?: Date } = {}
+) {
+  return db.insert(documentRevisions).values({
+    id: uuidv4(),
+    documentId,
+    revisionNumber,
+    title: snapshot.title,
+    content: snapshot.content,
+    authorId,
+    restoredFrom: options.restoredFrom ?? null,
+    createdAt: options.createdAt ?? new Date()
+  });
+}
+
+/**
+ * Create a document together with its first revision
+ */
+export async function createDocument(values: typeof documents.$inferInsert & { id: string }) {
+  await db.batch([
+    db.insert(documents).values({ ...values, version: 1 }),
+    revisionInsert(values.id, 1, { title: values.title, content: values.content ?? null }, values.createdBy)
+  ]);
+}
+
+/**
+ * Apply `updates` to a document and, when the title or content changed, bump
+ * its version and record the result as that revision, in one transaction.
+ * Returns the new version, or null if nothing worth a revision changed
+ * (moving a document in the tree is not a revision).
+ *
+ * With `expectedVersion` (from If-Match) the update only applies to that
+ * version. The revision is numbered from the version the document ends up
+ * with, so a stale update runs into the existing revision's unique index and
+ * the whole batch rolls back; that surfaces as a DocumentConflictError.
+ */
+export async function updateDocument(
+  document: Document,
+  updates: Partial<typeof documents.$inferInsert>,
+  authorId: string,
+  options: { expectedVersion?: number | null; restoredFrom?: number | null } = {}
+) {
+  const { expectedVersion = null, restoredFrom = null } = options;
+
+  if (expectedVersion !== null && document.version !== expectedVersion) {
+    throw new DocumentConflictError(document);
+  }
+
+  const title = updates.title ?? document.title;
+  const content = updates.content !== undefined ? updates.content : document.content;
+  if (title === document.title && content === document.content) {
+    await db.update(documents).set(updates).where(eq(documents.id, document.id));
+    return null;
+  }
+
+  try {
+    const [, [updated]] = await db.batch([
+      // Documents from before revisions were kept get their last saved state
+      // as a revision, attributed to the creator as the only author on record
+      revisionInsert(document.id, document.version, document, document.createdBy, { createdAt: document.updatedAt })
+        .onConflictDoNothing(),
+      db.update(documents)
+        .set({
+          ...updates,
+          // Also past any revisions recorded before the version column existed
+          version: sql`max(${documents.version}, (select coalesce(max(${documentRevisions.revisionNumber}), 0) from ${documentRevisions} where ${documentRevisions.documentId} = ${document.id})) + 1`
+        })
+        .where(and(
+          eq(documents.id, document.id),
+          expectedVersion !== null ? eq(documents.version, expectedVersion) : undefined
+        ))
+        .returning({ version: documents.version }),
+      revisionInsert(
+        document.id,
+        sql`(select ${documents.version} from ${documents} where ${documents.id} = ${document.id})`,
+        { title, content },
+        authorId,
+        { restoredFrom }
+      )
+    ]);
+    return updated.version;
+  } catch (error) {
+    const current = await db.query.documents.findFirst({ where: eq(documents.id, document.id) });
+    if (expectedVersion !== null && current && current.version !== expectedVersion) {
+      throw new DocumentConflictError(current);
+    }
+    throw error;
+  }
+}
+
+export async function getLatestRevisionNumber(documentId: string) {
+  const latest = await db.query.documentRevisions.findFirst({
+    where: eq(documentRevisions.documentId, documentId),
+    orderBy: desc(documentRevisions.revisionNumber),
+    columns: { revisionNumber: true }
+  });
+  return latest?.revisionNumber ?? null;
+}
+
+/**
+ * A document's revisions, newest first, without their content
+ */
+export async function listDocumentRevisions(documentId: string) {
+  return db.query.documentRevisions.findMany({
+    where: eq(documentRevisions.documentId, documentId),
+    orderBy: desc(documentRevisions.revisionNumber),
+    columns: { content: false },
+    extras: {
+      length: sql<number>`coalesce(length(${documentRevisions.content}), 0)`.as('length')
+    },
+    with: {
+      author: { columns: authorColumns }
+    }
+  });
+}
+
+export async function getDocumentRevision(documentId: string, revisionNumber: number) {
+  return db.query.documentRevisions.findFirst({
+    where: and(
+      eq(documentRevisions.documentId, documentId),
+      eq(documentRevisions.revisionNumber, revisionNumber)
+    ),
+    with: {
+      author: { columns: authorColumns }
+    }
+  });
+}
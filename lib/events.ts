@@ -0,0 +1,145 @@
+import { EventEmitter } from 'events';
+
+export type BoardEventType =
+  | 'task.created'
+  | 'task.updated'
+  | 'task.moved'
+  | 'task.deleted'
+  | 'column.created'
+  | 'column.updated'
+  | 'column.deleted'
+  | 'columns.reordered'
+  | 'comment.created'
+  | 'sprint.updated'
+  | 'sprint.completed'
+  | 'workflow.updated'
+  | 'automation.applied';
+
+export interface BoardEvent {
+  type: BoardEventType;
+  boardId: string;
+  actorId: string;
+  data: Record<string, any>;
+}
+
+export type UserEventType =
+  | 'notification.created'
+  | 'notification.read'
+  | 'notification.deleted'
+  | 'notifications.read_all'
+  | 'notifications.cleared';
+
+export interface UserEvent {
+  type: UserEventType;
+  userId: string;
+  data: Record<string, any>;
+}
+
+type Listener = (data: any) => void;
+
+// Keep a single emitter across hot reloads in development so that route
+// modules publishing and subscribing always share the same bus
+const globalForEvents = globalThis as unknown as { eventBus?: EventEmitter };
+
+const eventBus = globalForEvents.eventBus ?? new EventEmitter();
+eventBus.setMaxListeners(0);
+globalForEvents.eventBus = eventBus;
+
+export function publish(channel: string, data: any) {
+  eventBus.emit(channel, data);
+}
+
+/**
+ * Listen on a channel; returns a function that removes the listener
+ */
+export function subscribe(channel: string, listener: Listener) {
+  eventBus.on(channel, listener);
+  return () => {
+    eventBus.off(channel, listener);
+  };
+}
+
+export function publishBoardEvent(event: BoardEvent) {
+  publish(`board:${event.boardId}`, event);
+}
+
+export function subscribeToBoard(boardId: string, listener: (event: BoardEvent) => void) {
+  return subscribe(`board:${boardId}`, listener);
+}
+
+export function publishUserEvent(event: UserEvent) {
+  publish(`user:${event.userId}`, event);
+}
+
+export function subscribeToUser(userId: string, listener: (event: UserEvent) => void) {
+  return subscribe(`user:${userId}`, listener);
+}
+
+const HEARTBEAT_INTERVAL = 25000;
+
+/**
+ * Build a Server-Sent Events response. `start` receives a `send` function and
+ * returns a cleanup callback, which runs when the client disconnects.
+ */
+export function createEventStream(
+  request: Request,
+  start: (send: (event: string, data: any) => void) => () => void
+) {
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+
+      const send = (event: string, data: any) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      // Comment lines keep proxies from closing an idle connection
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_INTERVAL);
+      let unsubscribe: (() => void) | null = null;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime
+        }
+      };
+
+      // `send` can close the stream before `start` returns; unsubscribe then
+      unsubscribe = start(send);
+      if (closed) unsubscribe();
+      cleanup = close;
+
+      request.signal.addEventListener('abort', close);
+      write('retry: 5000\n\n');
+    },
+    cancel() {
+      cleanup?.();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
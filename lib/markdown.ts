@@ -0,0 +1,242 @@
+import { Marked, type TokenizerAndRendererExtension } from 'marked';
+import { markedHighlight } from 'marked-highlight';
+import hljs from 'highlight.js/lib/common';
+import sanitizeHtml from 'sanitize-html';
+import { db } from './db';
+import { boardColumns, files, organizationMembers, tasks, users } from './db/schema';
+import type { File } from './db/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { findTaskKeyReferences, TaskKeyReference } from './task-keys';
+
+/**
+ * Markdown for documents, rendered on the server: GitHub-flavoured (tables,
+ * task lists, fenced code with highlighting) plus three embeds that are looked
+ * up for the reader:
+ *
+ *   PROJ-42         a chip for the task with its current status
+ *   @username       a mention of a member of the organization
+ *   ![[file:ID]]    a file from the document's project, shown inline if an image
+ *
+ * Embeds that do not resolve (or that the reader cannot see) stay plain text.
+ * The HTML is sanitized last, so nothing written in the document gets past it.
+ */
+
+export interface MarkdownContext {
+  organizationId: string;
+  projectId: string;
+  // The reader: task chips only show tasks on boards they can read
+  userId: string;
+}
+
+interface TaskEmbed extends TaskKeyReference {
+  status: string;
+  statusColor: string | null;
+}
+
+interface Embeds {
+  tasks: Record<string, TaskEmbed>;
+  users: Record<string, { username: string; displayName: string | null }>;
+  files: Record<string, File>;
+}
+
+const TASK_KEY_START = /\b[A-Z]{2,10}-\d+\b/;
+const TASK_KEY_TOKEN = /^[A-Z]{2,10}-\d+\b/;
+const MENTION_START = /(?:^|[^\w@.])(@[a-z0-9])/i;
+const MENTION_TOKEN = /^@([a-z0-9][a-z0-9_.-]*)/i;
+const MENTION_PATTERN = /(?:^|[^\w@.])@([a-z0-9][a-z0-9_.-]*)/gi;
+const FILE_EMBED_TOKEN = /^!\[\[file:([\w-]+)\]\]/;
+const FILE_EMBED_PATTERN = /!\[\[file:([\w-]+)\]\]/g;
+
+// Most distinct mentions or files looked up for one document
+const MAX_EMBEDS = 50;
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// A trailing dot or dash ends the sentence rather than the username
+const mentionedUsername = (written: string) => written.replace(/[.-]+$/, '').toLowerCase();
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+};
+
+function collect(content: string, pattern: RegExp) {
+  const found = new Set<string>();
+  for (const match of Array.from(content.matchAll(pattern))) {
+    if (found.size >= MAX_EMBEDS) break;
+    found.add(match[1]);
+  }
+  return Array.from(found);
+}
+
+// Everything the embeds in `content` point at, loaded up front so rendering
+// itself stays synchronous
+async function loadEmbeds(content: string, context: MarkdownContext): Promise<Embeds> {
+  const usernames = collect(content, MENTION_PATTERN).map(mentionedUsername);
+  const fileIds = collect(content, FILE_EMBED_PATTERN);
+
+  const [taskRefs, mentioned, embeddedFiles] = await Promise.all([
+    findTaskKeyReferences(context.organizationId, context.userId, [content]),
+    usernames.length > 0
+      ? db.select({ username: users.username, displayName: users.displayName })
+        .from(users)
+        .innerJoin(organizationMembers, and(
+          eq(organizationMembers.userId, users.id),
+          eq(organizationMembers.organizationId, context.organizationId)
+        ))
+        .where(inArray(users.username, usernames))
+      : [],
+    fileIds.length > 0
+      ? db.query.files.findMany({
+        where: and(inArray(files.id, fileIds), eq(files.projectId, context.projectId))
+      })
+      : []
+  ]);
+
+  const taskIds = Array.from(new Set(Object.values(taskRefs).map(ref => ref.taskId)));
+  const statuses = taskIds.length > 0
+    ? await db.select({ taskId: tasks.id, status: boardColumns.name, color: boardColumns.color })
+      .from(tasks)
+      .innerJoin(boardColumns, eq(boardColumns.id, tasks.columnId))
+      .where(inArray(tasks.id, taskIds))
+    : [];
+  const statusByTask = new Map(statuses.map(row => [row.taskId, row]));
+
+  const embeds: Embeds = { tasks: {}, users: {}, files: {} };
+  for (const [key, ref] of Object.entries(taskRefs)) {
+    const status = statusByTask.get(ref.taskId);
+    embeds.tasks[key] = { ...ref, status: status?.status ?? '', statusColor: status?.color ?? null };
+  }
+  for (const user of mentioned) embeds.users[user.username] = user;
+  for (const file of embeddedFiles) embeds.files[file.id] = file;
+  return embeds;
+}
+
+function embedExtensions(embeds: Embeds): TokenizerAndRendererExtension[] {
+  return [
+    {
+      name: 'taskKey',
+      level: 'inline',
+      start: (src) => src.match(TASK_KEY_START)?.index,
+      tokenizer(src) {
+        if (this.lexer.state.inLink) return;
+        const match = src.match(TASK_KEY_TOKEN);
+        if (!match || !embeds.tasks[match[0]]) return;
+        return { type: 'taskKey', raw: match[0], key: match[0] };
+      },
+      renderer(token) {
+        const task = embeds.tasks[token.key];
+        const title = task.taskKey === token.key ? task.title : `${task.taskKey}: ${task.title}`;
+        const color = task.statusColor ? ` style="background-color: ${escapeHtml(task.statusColor)}"` : '';
+        return `<a class="task-chip" href="/boards/${encodeURIComponent(task.boardId)}?task=${encodeURIComponent(task.taskId)}" title="${escapeHtml(title)}">`
+          + `<span class="task-chip-key">${escapeHtml(token.key)}</span>`
+          + `<span class="task-chip-title">${escapeHtml(task.title)}</span>`
+          + (task.status ? `<span class="task-chip-status"${color}>${escapeHtml(task.status)}</span>` : '')
+          + '</a>';
+      }
+    },
+    {
+      name: 'mention',
+      level: 'inline',
+      start(src) {
+        const match = src.match(MENTION_START);
+        return match?.index === undefined ? undefined : match.index + match[0].length - match[1].length;
+      },
+      tokenizer(src) {
+        if (this.lexer.state.inLink) return;
+        const match = src.match(MENTION_TOKEN);
+        if (!match) return;
+        const username = mentionedUsername(match[1]);
+        if (!embeds.users[username]) return;
+        return { type: 'mention', raw: src.slice(0, username.length + 1), username };
+      },
+      renderer(token) {
+        const user = embeds.users[token.username];
+        return `<span class="mention" title="${escapeHtml(user.displayName || user.username)}">@${escapeHtml(user.username)}</span>`;
+      }
+    },
+    {
+      name: 'fileEmbed',
+      level: 'inline',
+      start: (src) => src.indexOf('![[file:'),
+      tokenizer(src) {
+        const match = src.match(FILE_EMBED_TOKEN);
+        if (!match || !embeds.files[match[1]]) return;
+        return { type: 'fileEmbed', raw: match[0], fileId: match[1] };
+      },
+      renderer(token) {
+        const file = embeds.files[token.fileId];
+        const href = `/api/files/${encodeURIComponent(file.id)}/download`;
+        const name = escapeHtml(file.originalName);
+        if (file.mimeType.startsWith('image/')) {
+          return `<a class="file-embed file-embed-image" href="${href}" title="${name}"><img src="${href}" alt="${name}" /></a>`;
+        }
+        return `<a class="file-embed" href="${href}">`
+          + `<span class="file-embed-name">${name}</span>`
+          + `<span class="file-embed-size">${formatFileSize(file.size)}</span>`
+          + '</a>';
+      }
+    }
+  ];
+}
+
+const highlighting = markedHighlight({
+  emptyLangClass: 'hljs',
+  langPrefix: 'hljs language-',
+  highlight(code, lang) {
+    const language = hljs.getLanguage(lang) ? lang : 'plaintext';
+    return hljs.highlight(code, { language }).value;
+  }
+});
+
+// What Markdown and the embeds produce, and nothing else: no raw HTML from the
+// document beyond these tags, no styles but a status colour, only safe links
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'br', 'hr', 'blockquote',
+    'ul', 'ol', 'li', 'input', 'table', 'thead', 'tbody', 'tr', 'th', 'td',
+    'pre', 'code', 'strong', 'em', 'del', 'a', 'img', 'span'
+  ],
+  allowedAttributes: {
+    a: ['href', 'title', 'class'],
+    img: ['src', 'alt', 'title'],
+    input: ['type', 'checked', 'disabled'],
+    ol: ['start'],
+    th: ['align'],
+    td: ['align'],
+    code: ['class'],
+    span: ['class', 'title', 'style']
+  },
+  allowedClasses: {
+    a: ['task-chip', 'file-embed', 'file-embed-image'],
+    code: ['hljs', 'language-*'],
+    span: ['hljs-*', 'task-chip-*', 'file-embed-*', 'mention']
+  },
+  allowedStyles: {
+    span: { 'background-color': [/^#[0-9a-f]{3,8}$/i] }
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowProtocolRelative: false,
+  transformTags: {
+    // Task list checkboxes are for show; ticking them would not save anything
+    input: (tagName, attribs) => attribs.type === 'checkbox'
+      ? { tagName, attribs: { ...attribs, disabled: '' } }
+      : { tagName: 'span', attribs: {} }
+  }
+};
+
+/**
+ * Render document content to sanitized HTML for the user in `context`
+ */
+export async function renderMarkdown(content: string, context: MarkdownContext) {
+  const embeds = await loadEmbeds(content, context);
+  const marked = new Marked(highlighting, { gfm: true, extensions: embedExtensions(embeds) });
+  const html = await marked.parse(content);
+  return sanitizeHtml(html, SANITIZE_OPTIONS);
+}
@@ -1,6 +1,8 @@
 import { db } from './db';
 import { notifications } from './db/schema';
+import { and, count, eq } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
+import { publishUserEvent, UserEventType } from './events';
 
 type NotificationType = 'info' | 'success' | 'warning' | 'error' | 'invite' | 'group' | 'project' | 'board' | 'task';
 
@@ -13,18 +15,54 @@ interface CreateNotificationParams {
   metadata?: Record<string, any>;
 }
 
-export async function createNotification(params: CreateNotificationParams) {
+export async function getUnreadCount(userId: string): Promise<number> {
+  const [result] = await db.select({ value: count() })
+    .from(notifications)
+    .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
+
+  return result?.value ?? 0;
+}
+
+/**
+ * Push a change to every open tab of the user, with the fresh unread count
+ */
+export async function publishNotificationEvent(
+  userId: string,
+  type: UserEventType,
+  data: Record<string, any> = {}
+) {
+  publishUserEvent({
+    type,
+    userId,
+    data: { ...data, unreadCount: await getUnreadCount(userId) }
+  });
+}
+
+/**
+ * The row for a new notification. For inserting inside a transaction; publish
+ * 'notification.created' once it has committed.
+ */
+export function buildNotification(params: CreateNotificationParams) {
   const { userId, type, title, message, link, metadata } = params;
-  
-  await db.insert(notifications).values({
+
+  return {
     id: uuidv4(),
     userId,
     type,
     title,
     message,
     link: link || null,
-    metadata: metadata ? JSON.stringify(metadata) : null
-  });
+    isRead: false,
+    metadata: metadata ? JSON.stringify(metadata) : null,
+    createdAt: new Date()
+  };
+}
+
+export async function createNotification(params: CreateNotificationParams) {
+  const notification = buildNotification(params);
+
+  await db.insert(notifications).values(notification);
+  await publishNotificationEvent(notification.userId, 'notification.created', { notification });
 }
 
 export async function notifyOrgInvite(userId: string, orgName: string, inviteToken: string) {
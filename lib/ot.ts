@@ -0,0 +1,253 @@
+/**
+ * Operational transformation for plain text, shared by the collaboration
+ * server and the editor. An operation walks the whole document: a positive
+ * number retains that many characters, a negative one deletes them, and a
+ * string is inserted. Positions are UTF-16 code units, as in the browser.
+ */
+
+export type TextOperation = (number | string)[];
+
+const isRetain = (part: number | string | undefined): part is number => typeof part === 'number' && part > 0;
+const isDelete = (part: number | string | undefined): part is number => typeof part === 'number' && part < 0;
+const isInsert = (part: number | string | undefined): part is string => typeof part === 'string';
+
+export class OperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OperationError';
+  }
+}
+
+// Builds operations in a canonical form: no empty parts, neighbours of the
+// same kind merged, and an insert always before a delete at the same spot
+class Builder {
+  ops: TextOperation = [];
+
+  retain(n: number) {
+    if (n === 0) return this;
+    const last = this.ops[this.ops.length - 1];
+    if (isRetain(last)) this.ops[this.ops.length - 1] = last + n;
+    else this.ops.push(n);
+    return this;
+  }
+
+  insert(text: string) {
+    if (text === '') return this;
+    const ops = this.ops;
+    const last = ops[ops.length - 1];
+    if (isInsert(last)) {
+      ops[ops.length - 1] = last + text;
+    } else if (isDelete(last)) {
+      const beforeLast = ops[ops.length - 2];
+      if (isInsert(beforeLast)) {
+        ops[ops.length - 2] = beforeLast + text;
+      } else {
+        ops[ops.length] = last;
+        ops[ops.length - 2] = text;
+      }
+    } else {
+      ops.push(text);
+    }
+    return this;
+  }
+
+  delete(n: number) {
+    const count = Math.abs(n);
+    if (count === 0) return this;
+    const last = this.ops[this.ops.length - 1];
+    if (isDelete(last)) this.ops[this.ops.length - 1] = last - count;
+    else this.ops.push(-count);
+    return this;
+  }
+}
+
+/**
+ * Length of the text an operation applies to
+ */
+export function baseLength(op: TextOperation) {
+  return op.reduce<number>((length, part) => length + (typeof part === 'number' ? Math.abs(part) : 0), 0);
+}
+
+/**
+ * Check that a value received from a client is a well-formed operation
+ */
+export function isTextOperation(value: unknown): value is TextOperation {
+  return Array.isArray(value) && value.every(part =>
+    (typeof part === 'number' && Number.isInteger(part) && part !== 0) ||
+    (typeof part === 'string' && part !== '')
+  );
+}
+
+export function applyOperation(text: string, op: TextOperation) {
+  if (text.length !== baseLength(op)) {
+    throw new OperationError('Operation does not match the document length');
+  }
+
+  let result = '';
+  let position = 0;
+  for (const part of op) {
+    if (isRetain(part)) {
+      result += text.slice(position, position + part);
+      position += part;
+    } else if (isInsert(part)) {
+      result += part;
+    } else {
+      position -= part;
+    }
+  }
+  return result;
+}
+
+/**
+ * Transform two concurrent operations on the same text into `[a', b']` so that
+ * applying a then b' gives the same text as b then a'. Where both insert at the
+ * same spot, `a`'s insert comes first.
+ */
+export function transform(a: TextOperation, b: TextOperation): [TextOperation, TextOperation] {
+  if (baseLength(a) !== baseLength(b)) {
+    throw new OperationError('Concurrent operations must apply to the same text');
+  }
+
+  const aPrime = new Builder();
+  const bPrime = new Builder();
+  let i = 0;
+  let j = 0;
+  let opA: number | string | undefined = a[i];
+  let opB: number | string | undefined = b[j];
+
+  while (opA !== undefined || opB !== undefined) {
+    if (isInsert(opA)) {
+      aPrime.insert(opA);
+      bPrime.retain(opA.length);
+      opA = a[++i];
+      continue;
+    }
+    if (isInsert(opB)) {
+      aPrime.retain(opB.length);
+      bPrime.insert(opB);
+      opB = b[++j];
+      continue;
+    }
+    if (opA === undefined || opB === undefined) {
+      throw new OperationError('Operations have different lengths');
+    }
+
+    let length: number;
+    if (isRetain(opA) && isRetain(opB)) {
+      length = Math.min(opA, opB);
+      aPrime.retain(length);
+      bPrime.retain(length);
+    } else if (isDelete(opA) && isDelete(opB)) {
+      // Both deleted the same text, so neither needs to any more
+      length = Math.min(-opA, -opB);
+    } else if (isDelete(opA)) {
+      length = Math.min(-opA, opB as number);
+      aPrime.delete(length);
+    } else {
+      length = Math.min(opA as number, -(opB as number));
+      bPrime.delete(length);
+    }
+
+    opA = consume(opA as number, length, () => a[++i]);
+    opB = consume(opB as number, length, () => b[++j]);
+  }
+
+  return [aPrime.ops, bPrime.ops];
+}
+
+// What is left of a retain or delete after `length` of it was used up
+function consume(part: number, length: number, next: () => number | string | undefined) {
+  const remaining = Math.abs(part) - length;
+  if (remaining === 0) return next();
+  return part > 0 ? remaining : -remaining;
+}
+
+/**
+ * Combine `a` followed by `b` into one operation
+ */
+export function compose(a: TextOperation, b: TextOperation): TextOperation {
+  const result = new Builder();
+  let i = 0;
+  let j = 0;
+  let opA: number | string | undefined = a[i];
+  let opB: number | string | undefined = b[j];
+
+  while (opA !== undefined || opB !== undefined) {
+    if (isDelete(opA)) {
+      result.delete(opA);
+      opA = a[++i];
+      continue;
+    }
+    if (isInsert(opB)) {
+      result.insert(opB);
+      opB = b[++j];
+      continue;
+    }
+    if (opA === undefined || opB === undefined) {
+      throw new OperationError('The second operation does not apply to the result of the first');
+    }
+
+    const lengthA: number = isInsert(opA) ? opA.length : opA;
+    const lengthB: number = Math.abs(opB as number);
+    const length = Math.min(lengthA, lengthB);
+
+    if (isRetain(opA) && isRetain(opB)) {
+      result.retain(length);
+    } else if (isInsert(opA) && isRetain(opB)) {
+      result.insert(opA.slice(0, length));
+    } else if (isRetain(opA)) {
+      result.delete(length);
+    }
+    // An insert that is deleted again leaves nothing behind
+
+    opA = lengthA === length
+      ? a[++i]
+      : isInsert(opA) ? opA.slice(length) : opA - length;
+    opB = lengthB === length
+      ? b[++j]
+      : (opB as number) > 0 ? (opB as number) - length : (opB as number) + length;
+  }
+
+  return result.ops;
+}
+
+/**
+ * Where a cursor at `index` ends up after `op`
+ */
+export function transformIndex(index: number, op: TextOperation) {
+  let remaining = index;
+  let newIndex = index;
+  for (const part of op) {
+    if (isRetain(part)) {
+      remaining -= part;
+    } else if (isInsert(part)) {
+      newIndex += part.length;
+    } else {
+      newIndex -= Math.min(remaining, -part);
+      remaining += part;
+    }
+    if (remaining < 0) break;
+  }
+  return newIndex;
+}
+
+/**
+ * An operation turning `before` into `after`, replacing whatever lies between
+ * their common start and end
+ */
+export function operationFromChange(before: string, after: string): TextOperation {
+  let start = 0;
+  const maxStart = Math.min(before.length, after.length);
+  while (start < maxStart && before[start] === after[start]) start++;
+
+  let end = 0;
+  const maxEnd = maxStart - start;
+  while (end < maxEnd && before[before.length - 1 - end] === after[after.length - 1 - end]) end++;
+
+  return new Builder()
+    .retain(start)
+    .insert(after.slice(start, after.length - end))
+    .delete(before.length - start - end)
+    .retain(end)
+    .ops;
+}
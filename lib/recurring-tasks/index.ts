@@ -0,0 +1,5 @@
+export { RECURRENCE_FREQUENCIES, RecurrenceError, parseRecurrence, latestOccurrence, nextOccurrence } from './recurrence';
+export type { Recurrence, RecurrenceFrequency } from './recurrence';
+export { TaskTemplateError, validateTemplateInput, setTemplateLabels, getNextOccurrence, getTaskTemplates } from './templates';
+export type { TaskTemplateInput } from './templates';
+export { createOccurrenceTask, runRecurringTasks } from './scheduler';
@@ -0,0 +1,253 @@
+/**
+ * A subset of RFC 5545 recurrence rules: FREQ (DAILY, WEEKLY, MONTHLY,
+ * YEARLY), INTERVAL, BYDAY (with ordinals such as 1MO or -1FR for monthly and
+ * yearly rules), BYMONTHDAY, BYMONTH, COUNT and UNTIL. Weeks start on Monday
+ * and all dates are UTC; the time of day comes from the start date.
+ */
+
+export const RECURRENCE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+
+const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on periods walked per call, so a rule that can never match doesn't spin forever
+const MAX_PERIODS = 20000;
+
+export interface Recurrence {
+  freq: RecurrenceFrequency;
+  interval: number;
+  // weekday: 0 = Monday ... 6 = Sunday; ordinal: nth (or nth from last) in the month
+  byDay?: { weekday: number; ordinal?: number }[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  count?: number;
+  until?: Date;
+}
+
+export class RecurrenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceError';
+  }
+}
+
+function parseIntList(key: string, value: string, min: number, max: number, allowNegative = false) {
+  return value.split(',').map(part => {
+    const n = Number(part);
+    const valid = Number.isInteger(n) && (
+      (n >= min && n <= max) || (allowNegative && n <= -min && n >= -max)
+    );
+    if (!valid) {
+      throw new RecurrenceError(`Invalid ${key} value: ${part}`);
+    }
+    return n;
+  });
+}
+
+function parseUntil(value: string) {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) {
+    throw new RecurrenceError(`Invalid UNTIL value: ${value}`);
+  }
+  const [, y, m, d, hh = '23', mm = '59', ss = '59'] = match;
+  return new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+}
+
+/**
+ * Parse an RRULE string such as `FREQ=MONTHLY;BYDAY=1MO` (an optional
+ * leading `RRULE:` is accepted)
+ */
+export function parseRecurrence(value: string): Recurrence {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new RecurrenceError('Recurrence rule is required');
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue;
+    const [key, val] = part.split('=');
+    if (!key || val === undefined || val === '') {
+      throw new RecurrenceError(`Invalid recurrence part: ${part}`);
+    }
+    parts[key.toUpperCase()] = val.toUpperCase();
+  }
+
+  const freq = parts.FREQ as RecurrenceFrequency;
+  if (!RECURRENCE_FREQUENCIES.includes(freq)) {
+    throw new RecurrenceError(`FREQ must be one of: ${RECURRENCE_FREQUENCIES.join(', ')}`);
+  }
+
+  const recurrence: Recurrence = { freq, interval: 1 };
+
+  for (const [key, val] of Object.entries(parts)) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        recurrence.interval = parseIntList(key, val, 1, 1000)[0];
+        break;
+      case 'COUNT':
+        recurrence.count = parseIntList(key, val, 1, 100000)[0];
+        break;
+      case 'UNTIL':
+        recurrence.until = parseUntil(val);
+        break;
+      case 'BYMONTH':
+        recurrence.byMonth = parseIntList(key, val, 1, 12);
+        break;
+      case 'BYMONTHDAY':
+        recurrence.byMonthDay = parseIntList(key, val, 1, 31, true);
+        break;
+      case 'BYDAY':
+        recurrence.byDay = val.split(',').map(day => {
+          const match = day.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+          const ordinal = match?.[1] ? Number(match[1]) : undefined;
+          if (!match || ordinal === 0 || (ordinal !== undefined && Math.abs(ordinal) > 5)) {
+            throw new RecurrenceError(`Invalid BYDAY value: ${day}`);
+          }
+          return { weekday: WEEKDAYS.indexOf(match[2]), ...(ordinal !== undefined && { ordinal }) };
+        });
+        break;
+      default:
+        throw new RecurrenceError(`Unsupported recurrence part: ${key}`);
+    }
+  }
+
+  if (recurrence.count && recurrence.until) {
+    throw new RecurrenceError('COUNT and UNTIL cannot be combined');
+  }
+  if (recurrence.byDay?.some(d => d.ordinal !== undefined)) {
+    const monthly = freq === 'MONTHLY' || (freq === 'YEARLY' && recurrence.byMonth);
+    if (!monthly) {
+      throw new RecurrenceError('BYDAY ordinals (e.g. 1MO) need FREQ=MONTHLY, or FREQ=YEARLY with BYMONTH');
+    }
+  }
+
+  return recurrence;
+}
+
+// Monday = 0 ... Sunday = 6
+const weekdayOf = (date: Date) => (date.getUTCDay() + 6) % 7;
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+function matchesFilters(recurrence: Recurrence, date: Date) {
+  if (recurrence.byMonth && !recurrence.byMonth.includes(date.getUTCMonth() + 1)) return false;
+  if (recurrence.byMonthDay) {
+    const day = date.getUTCDate();
+    const fromEnd = day - daysInMonth(date.getUTCFullYear(), date.getUTCMonth()) - 1;
+    if (!recurrence.byMonthDay.includes(day) && !recurrence.byMonthDay.includes(fromEnd)) return false;
+  }
+  return true;
+}
+
+// Candidate days (as day-of-month numbers) of one month
+function monthDays(recurrence: Recurrence, year: number, month: number, start: Date) {
+  const total = daysInMonth(year, month);
+  let days: number[];
+
+  if (recurrence.byMonthDay) {
+    days = recurrence.byMonthDay.map(d => d > 0 ? d : total + d + 1).filter(d => d >= 1 && d <= total);
+  } else if (recurrence.byDay) {
+    days = [];
+    for (let d = 1; d <= total; d++) days.push(d);
+  } else {
+    // Months without the start's day (e.g. the 31st) are skipped, as RFC 5545 does
+    days = start.getUTCDate() <= total ? [start.getUTCDate()] : [];
+  }
+
+  if (recurrence.byDay) {
+    const byDay = recurrence.byDay;
+    days = days.filter(d => {
+      const weekday = weekdayOf(new Date(Date.UTC(year, month, d)));
+      return byDay.some(rule => {
+        if (rule.weekday !== weekday) return false;
+        if (rule.ordinal === undefined) return true;
+        return rule.ordinal > 0
+          ? Math.ceil(d / 7) === rule.ordinal
+          : Math.ceil((total - d + 1) / 7) === -rule.ordinal;
+      });
+    });
+  }
+
+  return days.map(d => new Date(Date.UTC(year, month, d)));
+}
+
+// Candidate days of the period `index` intervals after the one containing `start`
+function periodDays(recurrence: Recurrence, start: Date, index: number) {
+  const step = index * recurrence.interval;
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+
+  switch (recurrence.freq) {
+    case 'DAILY': {
+      const day = new Date(Date.UTC(year, month, start.getUTCDate() + step));
+      const weekdayOk = !recurrence.byDay || recurrence.byDay.some(d => d.weekday === weekdayOf(day));
+      return weekdayOk && matchesFilters(recurrence, day) ? [day] : [];
+    }
+    case 'WEEKLY': {
+      const monday = Date.UTC(year, month, start.getUTCDate() - weekdayOf(start) + step * 7);
+      const weekdays = recurrence.byDay ? recurrence.byDay.map(d => d.weekday) : [weekdayOf(start)];
+      return Array.from(new Set(weekdays))
+        .sort((a, b) => a - b)
+        .map(weekday => new Date(monday + weekday * DAY_MS))
+        .filter(day => matchesFilters(recurrence, day));
+    }
+    case 'MONTHLY': {
+      const first = new Date(Date.UTC(year, month + step, 1));
+      if (recurrence.byMonth && !recurrence.byMonth.includes(first.getUTCMonth() + 1)) return [];
+      return monthDays(recurrence, first.getUTCFullYear(), first.getUTCMonth(), start);
+    }
+    case 'YEARLY': {
+      const months = recurrence.byMonth ? recurrence.byMonth.map(m => m - 1).sort((a, b) => a - b) : [month];
+      return months.flatMap(m => monthDays(recurrence, year + step, m, start));
+    }
+  }
+}
+
+/**
+ * Walk the occurrences of a recurrence from `start` in order, calling `visit`
+ * for each until it returns false or the rule runs out
+ */
+function eachOccurrence(recurrence: Recurrence, start: Date, visit: (occurrence: Date) => boolean) {
+  const timeOfDay = start.getTime() - Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  let seen = 0;
+
+  for (let index = 0; index < MAX_PERIODS; index++) {
+    for (const day of periodDays(recurrence, start, index)) {
+      const occurrence = new Date(day.getTime() + timeOfDay);
+      if (occurrence < start) continue;
+      if (recurrence.until && occurrence > recurrence.until) return;
+      if (!visit(occurrence)) return;
+      seen++;
+      if (recurrence.count && seen >= recurrence.count) return;
+    }
+  }
+}
+
+/**
+ * The most recent occurrence at or before `now`, or null when none is due yet
+ */
+export function latestOccurrence(recurrence: Recurrence, start: Date, now: Date): Date | null {
+  let latest: Date | null = null;
+  eachOccurrence(recurrence, start, occurrence => {
+    if (occurrence > now) return false;
+    latest = occurrence;
+    return true;
+  });
+  return latest;
+}
+
+/**
+ * The first occurrence after `after`, or null when the rule has ended
+ */
+export function nextOccurrence(recurrence: Recurrence, start: Date, after: Date): Date | null {
+  let next: Date | null = null;
+  eachOccurrence(recurrence, start, occurrence => {
+    if (occurrence <= after) return true;
+    next = occurrence;
+    return false;
+  });
+  return next;
+}
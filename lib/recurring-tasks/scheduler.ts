@@ -0,0 +1,90 @@
+import { db } from '../db';
+import { taskTemplateLabels, taskTemplateOccurrences, taskTemplates } from '../db/schema';
+import type { TaskTemplate } from '../db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { checkBoardAccess } from '../board-access';
+import { createTask, TaskCreateError } from '../task-create';
+import { parseRecurrence, latestOccurrence } from './recurrence';
+
+/**
+ * Create the task for one occurrence of a template, as the template's author
+ * and through the same path as the tasks API. The occurrence is claimed
+ * first, so running this twice (or from two schedulers at once) creates one
+ * task; when the task could not be created the claim is released and the
+ * next run retries.
+ * Returns null when the occurrence was already handled.
+ */
+export async function createOccurrenceTask(template: TaskTemplate, occurrenceAt: Date) {
+  const claimed = await db.insert(taskTemplateOccurrences)
+    .values({ id: uuidv4(), templateId: template.id, occurrenceAt })
+    .onConflictDoNothing()
+    .returning({ id: taskTemplateOccurrences.id });
+
+  if (claimed.length === 0) return null;
+  const occurrenceId = claimed[0].id;
+
+  try {
+    const { hasAccess, board, permission } = await checkBoardAccess(template.boardId, template.createdBy, 'write');
+    if (!hasAccess || !board) {
+      throw new TaskCreateError('The template author no longer has write access to this board', 403);
+    }
+
+    const labels = await db.query.taskTemplateLabels.findMany({
+      where: eq(taskTemplateLabels.templateId, template.id),
+      columns: { labelId: true }
+    });
+
+    // The occurrence records its task in the same batch that inserts it
+    const { task } = await createTask(board, {
+      title: template.title,
+      description: template.description,
+      type: template.type,
+      priority: template.priority,
+      storyPoints: template.storyPoints,
+      assigneeId: template.assigneeId,
+      labelIds: labels.map(l => l.labelId)
+    }, { userId: template.createdBy, permission }, taskId => [
+      db.update(taskTemplateOccurrences)
+        .set({ taskId })
+        .where(eq(taskTemplateOccurrences.id, occurrenceId))
+    ]);
+
+    return task;
+  } catch (error) {
+    // Once the task exists the occurrence stays claimed, even if something
+    // after it (activity, automations) failed, so no run creates it twice
+    await db.delete(taskTemplateOccurrences)
+      .where(and(eq(taskTemplateOccurrences.id, occurrenceId), isNull(taskTemplateOccurrences.taskId)));
+    throw error;
+  }
+}
+
+/**
+ * Create tasks for every enabled template with an occurrence due at `now`.
+ * Missed occurrences are not backfilled: if the scheduler was down for a
+ * while, only the most recent one is created. Meant to run every few minutes
+ * from scripts/run-recurring-tasks.ts.
+ */
+export async function runRecurringTasks(now: Date = new Date()) {
+  const templates = await db.query.taskTemplates.findMany({
+    where: eq(taskTemplates.enabled, true)
+  });
+
+  let created = 0;
+  const failed: { templateId: string; error: string }[] = [];
+
+  for (const template of templates) {
+    try {
+      const occurrenceAt = latestOccurrence(parseRecurrence(template.recurrence), template.startsAt, now);
+      if (!occurrenceAt) continue;
+
+      if (await createOccurrenceTask(template, occurrenceAt)) created++;
+    } catch (error) {
+      console.error(`Recurring task template ${template.id} failed:`, error);
+      failed.push({ templateId: template.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { created, failed };
+}
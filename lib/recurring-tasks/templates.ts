@@ -0,0 +1,192 @@
+import { db } from '../db';
+import { boards, taskLabels, taskTemplateLabels, taskTemplateOccurrences, taskTemplates } from '../db/schema';
+import type { TaskTemplate } from '../db/schema';
+import { and, asc, desc, eq, inArray } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { checkBoardAccess } from '../board-access';
+import { ALLOWED_PARENT_TYPES } from '../task-hierarchy';
+import { parseRecurrence, nextOccurrence, RecurrenceError } from './recurrence';
+
+const PRIORITIES = ['lowest', 'low', 'medium', 'high', 'highest'] as const;
+
+export interface TaskTemplateInput {
+  title?: string;
+  description?: string | null;
+  type?: string;
+  priority?: string;
+  storyPoints?: number | null;
+  assigneeId?: string | null;
+  labelIds?: string[];
+  recurrence?: string;
+  startsAt?: string | null;
+  enabled?: boolean;
+}
+
+export class TaskTemplateError extends Error {
+  details: Record<string, any>;
+
+  constructor(message: string, details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'TaskTemplateError';
+    this.details = details;
+  }
+}
+
+/**
+ * Check a create/update payload, returning the template columns to write and,
+ * when given, the label ids to attach
+ */
+export async function validateTemplateInput(boardId: string, input: TaskTemplateInput, partial = false) {
+  const values: Record<string, any> = {};
+
+  if (input.title !== undefined || !partial) {
+    if (typeof input.title !== 'string' || !input.title.trim()) {
+      throw new TaskTemplateError('Template title is required');
+    }
+    values.title = input.title.trim();
+  }
+
+  if (input.description !== undefined) {
+    values.description = input.description || null;
+  }
+
+  if (input.type !== undefined) {
+    if (!(input.type in ALLOWED_PARENT_TYPES)) {
+      throw new TaskTemplateError(`Invalid task type: ${input.type}`);
+    }
+    values.type = input.type;
+  }
+
+  if (input.priority !== undefined) {
+    if (!PRIORITIES.includes(input.priority as typeof PRIORITIES[number])) {
+      throw new TaskTemplateError(`Invalid priority. Expected one of: ${PRIORITIES.join(', ')}`);
+    }
+    values.priority = input.priority;
+  }
+
+  if (input.storyPoints !== undefined) {
+    if (input.storyPoints !== null && (!Number.isInteger(input.storyPoints) || input.storyPoints < 0)) {
+      throw new TaskTemplateError('storyPoints must be a whole number');
+    }
+    values.storyPoints = input.storyPoints;
+  }
+
+  if (input.assigneeId !== undefined) {
+    if (input.assigneeId) {
+      const { hasAccess } = typeof input.assigneeId === 'string'
+        ? await checkBoardAccess(boardId, input.assigneeId, 'write')
+        : { hasAccess: false };
+      if (!hasAccess) {
+        throw new TaskTemplateError('The assignee needs write access to this board', { assigneeId: input.assigneeId });
+      }
+    }
+    values.assigneeId = input.assigneeId || null;
+  }
+
+  if (input.recurrence !== undefined || !partial) {
+    try {
+      parseRecurrence(input.recurrence as string);
+    } catch (error) {
+      if (error instanceof RecurrenceError) {
+        throw new TaskTemplateError(error.message, { field: 'recurrence' });
+      }
+      throw error;
+    }
+    values.recurrence = (input.recurrence as string).trim().replace(/^RRULE:/i, '').toUpperCase();
+  }
+
+  if (input.startsAt !== undefined || !partial) {
+    const startsAt = input.startsAt ? new Date(input.startsAt) : new Date();
+    if (isNaN(startsAt.getTime())) {
+      throw new TaskTemplateError('startsAt must be a date', { field: 'startsAt' });
+    }
+    values.startsAt = startsAt;
+  }
+
+  if (input.enabled !== undefined) {
+    values.enabled = !!input.enabled;
+  }
+
+  let labelIds: string[] | undefined;
+  if (input.labelIds !== undefined) {
+    if (!Array.isArray(input.labelIds) || input.labelIds.some(id => typeof id !== 'string')) {
+      throw new TaskTemplateError('labelIds must be an array of label ids');
+    }
+    labelIds = Array.from(new Set(input.labelIds));
+    if (labelIds.length > 0) {
+      const labels = await db.query.taskLabels.findMany({
+        where: and(eq(taskLabels.boardId, boardId), inArray(taskLabels.id, labelIds)),
+        columns: { id: true }
+      });
+      if (labels.length !== labelIds.length) {
+        throw new TaskTemplateError('Labels must belong to this board');
+      }
+    }
+  }
+
+  return { values, labelIds };
+}
+
+/**
+ * Replace the labels a template gives its tasks
+ */
+export async function setTemplateLabels(templateId: string, labelIds: string[]) {
+  await db.delete(taskTemplateLabels).where(eq(taskTemplateLabels.templateId, templateId));
+  for (const labelId of labelIds) {
+    await db.insert(taskTemplateLabels).values({ id: uuidv4(), templateId, labelId });
+  }
+}
+
+/**
+ * When the template will next create a task, or null once its recurrence has
+ * ended (or it is disabled)
+ */
+export function getNextOccurrence(template: TaskTemplate, after: Date = new Date()) {
+  if (!template.enabled) return null;
+  return nextOccurrence(parseRecurrence(template.recurrence), template.startsAt, after);
+}
+
+/**
+ * A board's templates (or one of them) with labels, people and scheduling info
+ */
+export async function getTaskTemplates(boardId: string, templateId?: string) {
+  const templates = await db.query.taskTemplates.findMany({
+    where: templateId
+      ? and(eq(taskTemplates.boardId, boardId), eq(taskTemplates.id, templateId))
+      : eq(taskTemplates.boardId, boardId),
+    with: {
+      assignee: {
+        columns: { id: true, username: true, displayName: true, avatarUrl: true }
+      },
+      creator: {
+        columns: { id: true, username: true, displayName: true }
+      },
+      labels: {
+        with: { label: true }
+      },
+      occurrences: {
+        with: {
+          task: { columns: { id: true, taskNumber: true, title: true } }
+        },
+        orderBy: desc(taskTemplateOccurrences.occurrenceAt),
+        limit: 10
+      }
+    },
+    orderBy: asc(taskTemplates.title)
+  });
+
+  const board = await db.query.boards.findFirst({
+    where: eq(boards.id, boardId),
+    columns: { key: true }
+  });
+
+  return templates.map(({ labels, occurrences, ...template }) => ({
+    ...template,
+    labels: labels.map(l => l.label),
+    nextOccurrenceAt: getNextOccurrence(template),
+    occurrences: occurrences.map(({ task, ...occurrence }) => ({
+      ...occurrence,
+      task: task ? { ...task, taskKey: `${board?.key}-${task.taskNumber}` } : null
+    }))
+  }));
+}
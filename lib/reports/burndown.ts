@@ -0,0 +1,98 @@
+import type { Sprint } from '../db/schema';
+import { getDoneColumnIds } from '../board-columns';
+import { loadBoardTimelines, stateAt, TaskTimeline } from './timeline';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export interface SprintScope {
+  scopePoints: number;
+  remainingPoints: number;
+  completedPoints: number;
+  taskCount: number;
+}
+
+/**
+ * Points in a sprint at a moment in time, split into done and remaining
+ */
+export function sprintScopeAt(
+  timelines: TaskTimeline[],
+  sprintId: string,
+  doneColumnIds: string[],
+  at: Date
+): SprintScope {
+  const scope = { scopePoints: 0, remainingPoints: 0, completedPoints: 0, taskCount: 0 };
+
+  for (const timeline of timelines) {
+    const state = stateAt(timeline, at);
+    if (!state || state.sprintId !== sprintId) continue;
+
+    const points = state.storyPoints || 0;
+    scope.taskCount++;
+    scope.scopePoints += points;
+    if (state.columnId && doneColumnIds.includes(state.columnId)) {
+      scope.completedPoints += points;
+    } else {
+      scope.remainingPoints += points;
+    }
+  }
+
+  return scope;
+}
+
+/**
+ * The last moment a sprint's own scope is visible: just before completion moved
+ * unfinished tasks out, otherwise its end date (or now, while it is still running)
+ */
+export function sprintEnd(sprint: Sprint, now = new Date()) {
+  if (sprint.completedAt) return new Date(sprint.completedAt.getTime() - 1000);
+  return sprint.endDate && sprint.endDate < now ? sprint.endDate : now;
+}
+
+/**
+ * Daily remaining/scope/completed points for a sprint, plus the ideal line from
+ * the points committed at the start down to zero on the end date
+ */
+export async function getSprintBurndown(sprint: Sprint) {
+  if (!sprint.startDate || !sprint.endDate || sprint.status === 'planning') {
+    return null;
+  }
+
+  const timelines = await loadBoardTimelines(sprint.boardId);
+  const doneColumnIds = await getDoneColumnIds(sprint.boardId);
+
+  const start = sprint.startDate;
+  const last = sprintEnd(sprint);
+
+  // One point per day since the start, plus the latest moment (skipped when it
+  // would land within the hour of the last daily point)
+  const days = [];
+  for (let time = start.getTime(); time < last.getTime() - HOUR; time += DAY) {
+    days.push(new Date(time));
+  }
+  days.push(last);
+
+  const series = days.map(date => ({
+    date,
+    ...sprintScopeAt(timelines, sprint.id, doneColumnIds, date)
+  }));
+
+  const committedPoints = sprint.committedPoints ?? series[0].scopePoints;
+
+  return {
+    sprint: {
+      id: sprint.id,
+      name: sprint.name,
+      status: sprint.status,
+      startDate: sprint.startDate,
+      endDate: sprint.endDate,
+      completedAt: sprint.completedAt
+    },
+    committedPoints,
+    series,
+    ideal: [
+      { date: start, remainingPoints: committedPoints },
+      { date: sprint.endDate, remainingPoints: 0 }
+    ]
+  };
+}
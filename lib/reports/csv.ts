@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+
+type CsvValue = string | number | Date | null | undefined;
+
+// Text a spreadsheet would run as a formula. Numbers are written as they are.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(value: CsvValue) {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: CsvValue[][]) {
+  return [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Respond with JSON, or with CSV when the request asks for ?format=csv
+ */
+export function reportResponse(
+  request: Request,
+  name: string,
+  json: Record<string, any>,
+  csv: () => { headers: string[]; rows: CsvValue[][] }
+) {
+  const { searchParams } = new URL(request.url);
+
+  if (searchParams.get('format') === 'csv') {
+    const { headers, rows } = csv();
+    return new NextResponse(toCsv(headers, rows), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${name}.csv"`
+      }
+    });
+  }
+
+  return NextResponse.json(json);
+}
@@ -0,0 +1,196 @@
+import { db } from '../db';
+import { boards } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { getColumnStages } from '../board-columns';
+import { columnTransitions, loadBoardTimelines, stateAt, TaskTimeline } from './timeline';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+type Stages = Awaited<ReturnType<typeof getColumnStages>>;
+
+const toDays = (ms: number) => Math.round((ms / DAY) * 10) / 10;
+
+/**
+ * Nearest-rank percentile of an already sorted list
+ */
+export function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+const PERCENTILES = [50, 70, 85, 95];
+
+function summarize(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  return Object.fromEntries(PERCENTILES.map(p => [`p${p}`, percentile(sorted, p)])) as Record<string, number | null>;
+}
+
+/**
+ * When a task started (first entered an in-progress column, or went straight to
+ * done) and when it finished (entered done, if it is done now)
+ */
+function taskFlowDates(timeline: TaskTimeline, stages: Stages) {
+  const stageOf = new Map(stages.map(c => [c.id, c.stage]));
+  const transitions = columnTransitions(timeline);
+
+  const started = transitions.find(t => stageOf.get(t.columnId) === 'in_progress')
+    ?? transitions.find(t => stageOf.get(t.columnId) === 'done');
+
+  // The last move into done from a column that was not done. Tasks that were
+  // created done (or predate history) have no recorded completion.
+  let completedAt: Date | null = null;
+  if (timeline.current.columnId && stageOf.get(timeline.current.columnId) === 'done') {
+    let i = transitions.length - 1;
+    while (i > 0 && stageOf.get(transitions[i - 1].columnId) === 'done') i--;
+    if (i > 0) completedAt = transitions[i].at;
+  }
+
+  return { startedAt: started?.at ?? null, completedAt };
+}
+
+async function loadFlowData(boardId: string) {
+  const board = await db.query.boards.findFirst({ where: eq(boards.id, boardId), columns: { key: true } });
+  const [stages, timelines] = await Promise.all([getColumnStages(boardId), loadBoardTimelines(boardId)]);
+  return { key: board?.key ?? '', stages, timelines };
+}
+
+/**
+ * Tasks per column at the end of each day in the range
+ */
+export async function getCumulativeFlow(boardId: string, from: Date, to: Date) {
+  const { stages, timelines } = await loadFlowData(boardId);
+
+  const days = [];
+  for (let time = from.getTime() + DAY; time < to.getTime(); time += DAY) {
+    days.push(new Date(time));
+  }
+  days.push(to);
+
+  return {
+    columns: stages.map(({ id, name, color, stage }) => ({ id, name, color, stage })),
+    days: days.map(date => {
+      const counts: Record<string, number> = Object.fromEntries(stages.map(c => [c.id, 0]));
+      for (const timeline of timelines) {
+        const state = stateAt(timeline, date);
+        if (state?.columnId && state.columnId in counts) counts[state.columnId]++;
+      }
+      return { date, counts };
+    })
+  };
+}
+
+/**
+ * Cycle time (started → done) and lead time (created → done) for every task
+ * completed in the range, with percentiles for the scatter plot guides
+ */
+export async function getCycleTimes(boardId: string, from: Date, to: Date) {
+  return computeCycleTimes(await loadFlowData(boardId), from, to);
+}
+
+function computeCycleTimes(
+  { key, stages, timelines }: Awaited<ReturnType<typeof loadFlowData>>,
+  from: Date,
+  to: Date
+) {
+  const tasks = [];
+  for (const timeline of timelines) {
+    const { startedAt, completedAt } = taskFlowDates(timeline, stages);
+    if (!completedAt || completedAt < from || completedAt > to) continue;
+
+    tasks.push({
+      id: timeline.id,
+      taskKey: `${key}-${timeline.taskNumber}`,
+      title: timeline.title,
+      type: timeline.type,
+      createdAt: timeline.createdAt,
+      startedAt,
+      completedAt,
+      cycleTimeDays: toDays(completedAt.getTime() - (startedAt ?? completedAt).getTime()),
+      leadTimeDays: toDays(completedAt.getTime() - timeline.createdAt.getTime())
+    });
+  }
+
+  tasks.sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+
+  return {
+    tasks,
+    cycleTime: summarize(tasks.map(t => t.cycleTimeDays)),
+    leadTime: summarize(tasks.map(t => t.leadTimeDays))
+  };
+}
+
+// Monday 00:00 UTC of the week containing `date`
+function weekStart(date: Date) {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day;
+}
+
+/**
+ * Tasks and story points finished per week (weeks start on Monday, UTC)
+ */
+export async function getThroughput(boardId: string, from: Date, to: Date) {
+  const { stages, timelines } = await loadFlowData(boardId);
+
+  const weeks = new Map<number, { weekStart: Date; taskCount: number; points: number }>();
+  for (let week = weekStart(from); week <= to; week = new Date(week.getTime() + 7 * DAY)) {
+    weeks.set(week.getTime(), { weekStart: week, taskCount: 0, points: 0 });
+  }
+
+  for (const timeline of timelines) {
+    const { completedAt } = taskFlowDates(timeline, stages);
+    if (!completedAt || completedAt < from || completedAt > to) continue;
+
+    const week = weeks.get(weekStart(completedAt).getTime());
+    if (!week) continue;
+    week.taskCount++;
+    week.points += timeline.current.storyPoints || 0;
+  }
+
+  const result = Array.from(weeks.values());
+  const average = result.length > 0
+    ? Math.round(result.reduce((sum, w) => sum + w.taskCount, 0) / result.length * 10) / 10
+    : 0;
+
+  return { weeks: result, averageTaskCount: average };
+}
+
+/**
+ * Work in progress right now and how long each item has been in flight,
+ * compared against cycle-time percentiles of the last 90 days
+ */
+export async function getAgingWip(boardId: string, now = new Date()) {
+  const data = await loadFlowData(boardId);
+  const { key, stages, timelines } = data;
+  const column = new Map(stages.map(c => [c.id, c]));
+
+  const tasks = [];
+  for (const timeline of timelines) {
+    const current = timeline.current.columnId && column.get(timeline.current.columnId);
+    if (!current || current.stage !== 'in_progress') continue;
+
+    const { startedAt } = taskFlowDates(timeline, stages);
+    const since = startedAt ?? timeline.createdAt;
+
+    tasks.push({
+      id: timeline.id,
+      taskKey: `${key}-${timeline.taskNumber}`,
+      title: timeline.title,
+      type: timeline.type,
+      column: { id: current.id, name: current.name },
+      startedAt: since,
+      ageDays: toDays(now.getTime() - since.getTime())
+    });
+  }
+
+  tasks.sort((a, b) => b.ageDays - a.ageDays);
+
+  const { cycleTime } = computeCycleTimes(data, new Date(now.getTime() - 90 * DAY), now);
+
+  return {
+    columns: stages.filter(c => c.stage === 'in_progress').map(({ id, name }) => ({ id, name })),
+    tasks,
+    cycleTime
+  };
+}
@@ -0,0 +1,7 @@
+export { loadBoardTimelines, stateAt, columnTransitions } from './timeline';
+export type { TaskState, TaskTimeline, TaskTimelineEvent } from './timeline';
+export { getSprintBurndown, sprintScopeAt } from './burndown';
+export { getVelocity } from './velocity';
+export { getCumulativeFlow, getCycleTimes, getThroughput, getAgingWip, percentile } from './flow';
+export { parseReportRange, ReportRangeError } from './range';
+export { reportResponse, toCsv } from './csv';
@@ -0,0 +1,33 @@
+const DAY = 24 * 60 * 60 * 1000;
+
+export class ReportRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportRangeError';
+  }
+}
+
+/**
+ * Read ?from=&to= (YYYY-MM-DD or ISO dates), defaulting to the last
+ * `defaultDays` days up to now
+ */
+export function parseReportRange(searchParams: URLSearchParams, defaultDays: number) {
+  const now = new Date();
+  const toParam = searchParams.get('to');
+  const fromParam = searchParams.get('from');
+
+  const to = toParam ? new Date(toParam) : now;
+  const from = fromParam ? new Date(fromParam) : new Date(to.getTime() - defaultDays * DAY);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    throw new ReportRangeError('Invalid date range. Use YYYY-MM-DD for from and to');
+  }
+  if (from >= to) {
+    throw new ReportRangeError('"from" must be before "to"');
+  }
+  if (to.getTime() - from.getTime() > 366 * DAY) {
+    throw new ReportRangeError('Date range cannot exceed one year');
+  }
+
+  return { from, to: to > now ? now : to };
+}
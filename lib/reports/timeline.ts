@@ -0,0 +1,133 @@
+import { db } from '../db';
+import { taskHistory, taskKeyAliases, tasks } from '../db/schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import type { TrackedTaskField } from '../task-history';
+
+export interface TaskState {
+  // Null while the task is not on the board (before it arrived or after it moved away)
+  columnId: string | null;
+  storyPoints: number | null;
+  sprintId: string | null;
+}
+
+export interface TaskTimelineEvent {
+  field: TrackedTaskField;
+  from: string | null;
+  to: string | null;
+  at: Date;
+}
+
+export interface TaskTimeline {
+  id: string;
+  taskNumber: number;
+  title: string;
+  type: string;
+  createdAt: Date;
+  current: TaskState;
+  // Oldest first
+  events: TaskTimelineEvent[];
+}
+
+/**
+ * Every task on the board with its recorded column, point and sprint changes,
+ * plus tasks that have since moved to another board: they keep their old key
+ * and their history here ends with them leaving (everything going to null)
+ */
+export async function loadBoardTimelines(boardId: string): Promise<TaskTimeline[]> {
+  const boardTasks = await db.query.tasks.findMany({
+    where: eq(tasks.boardId, boardId),
+    columns: {
+      id: true, taskNumber: true, title: true, type: true, createdAt: true,
+      columnId: true, storyPoints: true, sprintId: true
+    }
+  });
+
+  const history = await db.query.taskHistory.findMany({
+    where: eq(taskHistory.boardId, boardId),
+    orderBy: asc(taskHistory.createdAt)
+  });
+
+  const events = new Map<string, TaskTimelineEvent[]>();
+  for (const entry of history) {
+    if (!events.has(entry.taskId)) events.set(entry.taskId, []);
+    events.get(entry.taskId)!.push({ field: entry.field, from: entry.fromValue, to: entry.toValue, at: entry.createdAt });
+  }
+
+  const timelines: TaskTimeline[] = boardTasks.map(task => ({
+    id: task.id,
+    taskNumber: task.taskNumber,
+    title: task.title,
+    type: task.type,
+    createdAt: task.createdAt,
+    current: { columnId: task.columnId, storyPoints: task.storyPoints, sprintId: task.sprintId },
+    events: events.get(task.id) || []
+  }));
+
+  const onBoard = new Set(boardTasks.map(task => task.id));
+  const movedAway = Array.from(events.keys()).filter(id => !onBoard.has(id));
+  if (movedAway.length > 0) {
+    const aliases = await db.query.taskKeyAliases.findMany({
+      where: and(eq(taskKeyAliases.boardId, boardId), inArray(taskKeyAliases.taskId, movedAway)),
+      with: { task: { columns: { title: true, type: true, createdAt: true } } }
+    });
+    for (const alias of aliases) {
+      // A task that left more than once has an old key for each visit
+      if (onBoard.has(alias.taskId)) continue;
+      onBoard.add(alias.taskId);
+      timelines.push({
+        id: alias.taskId,
+        taskNumber: alias.taskNumber,
+        title: alias.task.title,
+        type: alias.task.type,
+        createdAt: alias.task.createdAt,
+        current: { columnId: null, storyPoints: null, sprintId: null },
+        events: events.get(alias.taskId)!
+      });
+    }
+  }
+
+  return timelines;
+}
+
+/**
+ * A task's column, points and sprint at a point in time, or null if it did not
+ * exist yet. Works backwards from the current values by undoing later changes,
+ * so tasks created before history was recorded simply appear unchanged.
+ */
+export function stateAt(timeline: TaskTimeline, at: Date): TaskState | null {
+  if (timeline.createdAt.getTime() > at.getTime()) return null;
+
+  const state: TaskState = { ...timeline.current };
+  for (let i = timeline.events.length - 1; i >= 0; i--) {
+    const event = timeline.events[i];
+    if (event.at.getTime() <= at.getTime()) break;
+
+    switch (event.field) {
+      case 'storyPoints':
+        state.storyPoints = event.from === null ? null : Number(event.from);
+        break;
+      case 'columnId':
+      case 'sprintId':
+        state[event.field] = event.from;
+        break;
+    }
+  }
+
+  return state;
+}
+
+
+/**
+ * The columns a task has been in, oldest first, with the time it entered each one
+ */
+export function columnTransitions(timeline: TaskTimeline): { columnId: string; at: Date }[] {
+  const columnEvents = timeline.events.filter(e => e.field === 'columnId');
+  const initial = columnEvents.length > 0 ? columnEvents[0].from : timeline.current.columnId;
+
+  const transitions = initial ? [{ columnId: initial, at: timeline.createdAt }] : [];
+  for (const event of columnEvents) {
+    if (event.to) transitions.push({ columnId: event.to, at: event.at });
+  }
+
+  return transitions;
+}
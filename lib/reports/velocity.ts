@@ -0,0 +1,53 @@
+import { db } from '../db';
+import { sprints } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { getDoneColumnIds } from '../board-columns';
+import { loadBoardTimelines } from './timeline';
+import { sprintEnd, sprintScopeAt } from './burndown';
+
+/**
+ * Committed vs. completed points for the board's most recent completed sprints,
+ * oldest first. Stored sprint summaries are used when present; older sprints
+ * are reconstructed from task history.
+ */
+export async function getVelocity(boardId: string, limit = 6) {
+  const completed = await db.query.sprints.findMany({
+    where: and(eq(sprints.boardId, boardId), eq(sprints.status, 'completed')),
+    with: { summary: true }
+  });
+
+  const recent = completed
+    .sort((a, b) => (a.completedAt ?? a.endDate ?? a.updatedAt).getTime() - (b.completedAt ?? b.endDate ?? b.updatedAt).getTime())
+    .slice(-limit);
+
+  const needsHistory = recent.some(s => !s.summary);
+  const timelines = needsHistory ? await loadBoardTimelines(boardId) : [];
+  const doneColumnIds = needsHistory ? await getDoneColumnIds(boardId) : [];
+
+  const result = recent.map(sprint => {
+    let committedPoints = sprint.summary?.committedPoints;
+    let completedPoints = sprint.summary?.completedPoints;
+
+    if (!sprint.summary) {
+      const start = sprint.startedAt ?? sprint.startDate ?? sprint.createdAt;
+      committedPoints = sprint.committedPoints ?? sprintScopeAt(timelines, sprint.id, doneColumnIds, start).scopePoints;
+      completedPoints = sprintScopeAt(timelines, sprint.id, doneColumnIds, sprintEnd(sprint)).completedPoints;
+    }
+
+    return {
+      sprintId: sprint.id,
+      name: sprint.name,
+      startDate: sprint.startDate,
+      endDate: sprint.endDate,
+      completedAt: sprint.completedAt,
+      committedPoints: committedPoints ?? 0,
+      completedPoints: completedPoints ?? 0
+    };
+  });
+
+  const averageCompleted = result.length > 0
+    ? Math.round(result.reduce((sum, s) => sum + s.completedPoints, 0) / result.length * 10) / 10
+    : 0;
+
+  return { sprints: result, averageCompleted };
+}
@@ -0,0 +1,272 @@
+import { db } from './db';
+import { boardGroups, groupMembers, savedFilterGroups, savedFilters } from './db/schema';
+import { and, asc, eq, inArray, or } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { buildTaskQuery, QueryError } from './task-query';
+import type { BoardPermission } from './board-access';
+
+export const FILTER_GROUP_BY = ['assignee', 'priority', 'type', 'sprint', 'label', 'epic'] as const;
+export const FILTER_CARD_FIELDS = ['type', 'labels', 'priority', 'points', 'comments', 'due', 'assignee'] as const;
+export const FILTER_VISIBILITIES = ['private', 'board', 'groups'] as const;
+
+export type FilterGroupBy = typeof FILTER_GROUP_BY[number];
+export type FilterCardField = typeof FILTER_CARD_FIELDS[number];
+export type FilterVisibility = typeof FILTER_VISIBILITIES[number];
+
+export interface FilterSort {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface FilterInput {
+  name?: string;
+  query?: string;
+  sort?: FilterSort[] | null;
+  groupBy?: string | null;
+  visibleFields?: string[] | null;
+  visibility?: string;
+  groupIds?: string[];
+  isDefault?: boolean;
+}
+
+interface FilterScope {
+  boardId: string;
+  userId: string;
+}
+
+export class FilterValidationError extends Error {
+  details: Record<string, any>;
+
+  constructor(message: string, details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'FilterValidationError';
+    this.details = details;
+  }
+}
+
+/**
+ * The full query string a filter runs: its query plus ORDER BY from `sort`
+ */
+export function filterQueryString(filter: { query: string; sort: FilterSort[] | null }) {
+  const orderBy = filter.sort && filter.sort.length > 0
+    ? `ORDER BY ${filter.sort.map(s => `${s.field} ${s.direction.toUpperCase()}`).join(', ')}`
+    : '';
+  return [filter.query.trim(), orderBy].filter(Boolean).join(' ');
+}
+
+/**
+ * Check a create/update payload, returning the columns to write. Query and
+ * sort are compiled against the board so saved filters always run.
+ */
+export async function validateFilterInput(input: FilterInput, scope: FilterScope, partial = false) {
+  const values: Record<string, any> = {};
+
+  if (input.name !== undefined || !partial) {
+    if (!input.name || !input.name.trim()) {
+      throw new FilterValidationError('Filter name is required');
+    }
+    values.name = input.name.trim();
+  }
+
+  if (input.query !== undefined) {
+    values.query = (input.query || '').trim();
+  }
+
+  if (input.sort !== undefined) {
+    if (input.sort !== null && !Array.isArray(input.sort)) {
+      throw new FilterValidationError('Sort must be an array of { field, direction }');
+    }
+    const sort = (input.sort || []).map(s => ({
+      field: String(s.field || ''),
+      direction: s.direction === 'desc' ? 'desc' as const : 'asc' as const
+    }));
+    values.sort = sort.length > 0 ? JSON.stringify(sort) : null;
+  }
+
+  if (values.query !== undefined || values.sort !== undefined) {
+    const query = values.query ?? input.query ?? '';
+    const sort = values.sort ? JSON.parse(values.sort) : null;
+
+    if (/\bORDER\s+BY\b/i.test(query)) {
+      throw new FilterValidationError('Put ordering in "sort" rather than ORDER BY in the query');
+    }
+
+    try {
+      buildTaskQuery(filterQueryString({ query, sort }), { boardId: scope.boardId, userId: scope.userId });
+    } catch (error) {
+      if (error instanceof QueryError) {
+        throw new FilterValidationError(error.message, {
+          field: error.position >= query.length ? 'sort' : 'query',
+          position: error.position,
+          token: error.token
+        });
+      }
+      throw error;
+    }
+  }
+
+  if (input.groupBy !== undefined) {
+    if (input.groupBy && !FILTER_GROUP_BY.includes(input.groupBy as FilterGroupBy)) {
+      throw new FilterValidationError(`Invalid groupBy. Expected one of: ${FILTER_GROUP_BY.join(', ')}`);
+    }
+    values.groupBy = input.groupBy || null;
+  }
+
+  if (input.visibleFields !== undefined) {
+    if (input.visibleFields !== null) {
+      if (!Array.isArray(input.visibleFields)) {
+        throw new FilterValidationError('visibleFields must be an array');
+      }
+      const unknown = input.visibleFields.filter(f => !FILTER_CARD_FIELDS.includes(f as FilterCardField));
+      if (unknown.length > 0) {
+        throw new FilterValidationError(`Unknown visible fields: ${unknown.join(', ')}`);
+      }
+    }
+    values.visibleFields = input.visibleFields ? JSON.stringify(input.visibleFields) : null;
+  }
+
+  if (input.visibility !== undefined) {
+    if (!FILTER_VISIBILITIES.includes(input.visibility as FilterVisibility)) {
+      throw new FilterValidationError(`Invalid visibility. Expected one of: ${FILTER_VISIBILITIES.join(', ')}`);
+    }
+    values.visibility = input.visibility;
+  }
+
+  if (input.groupIds !== undefined) {
+    if (!Array.isArray(input.groupIds)) {
+      throw new FilterValidationError('groupIds must be an array');
+    }
+
+    // Only groups that can see the board may receive its filters
+    if (input.groupIds.length > 0) {
+      const access = await db.query.boardGroups.findMany({
+        where: and(eq(boardGroups.boardId, scope.boardId), inArray(boardGroups.groupId, input.groupIds)),
+        columns: { groupId: true }
+      });
+      const allowed = new Set(access.map(a => a.groupId));
+      const invalid = input.groupIds.filter(id => !allowed.has(id));
+      if (invalid.length > 0) {
+        throw new FilterValidationError('Filters can only be shared with groups that have access to this board', {
+          groupIds: invalid
+        });
+      }
+    }
+  }
+
+  if (input.isDefault !== undefined) {
+    values.isDefault = !!input.isDefault;
+    // A board default is visible to everyone on the board
+    if (values.isDefault) values.visibility = 'board';
+  }
+
+  return values;
+}
+
+/**
+ * Replace the set of groups a filter is shared with
+ */
+export async function setFilterGroups(filterId: string, groupIds: string[]) {
+  await db.delete(savedFilterGroups).where(eq(savedFilterGroups.filterId, filterId));
+  for (const groupId of Array.from(new Set(groupIds))) {
+    await db.insert(savedFilterGroups).values({ id: uuidv4(), filterId, groupId });
+  }
+}
+
+/**
+ * Only one filter per board can be the default
+ */
+export async function clearBoardDefault(boardId: string) {
+  await db.update(savedFilters)
+    .set({ isDefault: false })
+    .where(and(eq(savedFilters.boardId, boardId), eq(savedFilters.isDefault, true)));
+}
+
+/**
+ * Owners manage their filters; board admins also manage shared ones. Private
+ * filters stay owner-only, as nobody else can see them.
+ */
+export function canManageFilter(
+  filter: { ownerId: string; visibility: FilterVisibility },
+  userId: string,
+  permission: BoardPermission | null
+) {
+  return filter.ownerId === userId || (permission === 'admin' && filter.visibility !== 'private');
+}
+
+function serializeFilter(
+  filter: Awaited<ReturnType<typeof findFilters>>[number],
+  userId: string,
+  permission: BoardPermission | null
+) {
+  const { sharedWith, ...rest } = filter;
+  const sort: FilterSort[] | null = filter.sort ? JSON.parse(filter.sort) : null;
+
+  return {
+    ...rest,
+    sort,
+    visibleFields: filter.visibleFields ? JSON.parse(filter.visibleFields) as FilterCardField[] : null,
+    groups: sharedWith.map(sg => sg.group),
+    queryString: filterQueryString({ query: filter.query, sort }),
+    canEdit: canManageFilter(filter, userId, permission)
+  };
+}
+
+function findFilters(where: ReturnType<typeof and>) {
+  return db.query.savedFilters.findMany({
+    where,
+    with: {
+      owner: {
+        columns: { id: true, username: true, displayName: true }
+      },
+      sharedWith: {
+        with: {
+          group: { columns: { id: true, name: true } }
+        }
+      }
+    },
+    orderBy: asc(savedFilters.name)
+  });
+}
+
+/**
+ * Filters the user can see on a board: their own, board-wide ones (including
+ * the default) and ones shared with a group they belong to
+ */
+export async function listVisibleFilters(boardId: string, userId: string, permission: BoardPermission | null) {
+  const memberships = await db.query.groupMembers.findMany({
+    where: eq(groupMembers.userId, userId),
+    columns: { groupId: true }
+  });
+  const groupIds = memberships.map(m => m.groupId);
+
+  const sharedWithMe = groupIds.length > 0
+    ? (await db.query.savedFilterGroups.findMany({
+        where: inArray(savedFilterGroups.groupId, groupIds),
+        columns: { filterId: true }
+      })).map(sg => sg.filterId)
+    : [];
+
+  const filters = await findFilters(and(
+    eq(savedFilters.boardId, boardId),
+    or(
+      eq(savedFilters.ownerId, userId),
+      eq(savedFilters.visibility, 'board'),
+      eq(savedFilters.isDefault, true),
+      sharedWithMe.length > 0
+        ? and(eq(savedFilters.visibility, 'groups'), inArray(savedFilters.id, sharedWithMe))
+        : undefined
+    )
+  ));
+
+  return filters.map(filter => serializeFilter(filter, userId, permission));
+}
+
+export async function getVisibleFilter(
+  boardId: string,
+  filterId: string,
+  userId: string,
+  permission: BoardPermission | null
+) {
+  const filters = await listVisibleFilters(boardId, userId, permission);
+  return filters.find(f => f.id === filterId) || null;
+}
@@ -0,0 +1,358 @@
+import { db } from './db';
+import { boards, boardGroups, groupMembers, projectGroups, projects, tasks } from './db/schema';
+import { and, eq, inArray, or, sql, SQL } from 'drizzle-orm';
+
+/**
+ * Full-text search over tasks (title, description), comments, documents (title,
+ * content) and file names, with SQLite FTS5. Each kind has its own virtual table,
+ * kept in sync with its source table by triggers, so every write path is
+ * covered without the routes knowing. The tables and triggers are created on
+ * first use and filled from what is already there, and rebuilt when any of
+ * them has gone missing; drizzle.config.ts leaves `search_*` tables out of
+ * db:push.
+ */
+
+export type SearchResultType = 'task' | 'comment' | 'document' | 'file';
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  // HTML: escaped text with the matching words in <mark>
+  title: string;
+  snippet: string;
+  // Where the result lives: "FX-12 · Board" for tasks and comments, the project name otherwise
+  context: string;
+  url: string;
+}
+
+export class SearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchError';
+  }
+}
+
+// Words searched for at most; the rest of a long query is ignored
+const MAX_TERMS = 10;
+const MAX_LIMIT = 50;
+const SNIPPET_TOKENS = 16;
+
+// Wrapped around matches by FTS5, swapped for <mark> once the text is escaped
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+
+const SEARCH_TABLES = [
+  `CREATE VIRTUAL TABLE search_tasks USING fts5(
+    title, description, task_id UNINDEXED, board_id UNINDEXED,
+    tokenize = 'porter unicode61 remove_diacritics 2'
+  )`,
+  `CREATE VIRTUAL TABLE search_comments USING fts5(
+    content, comment_id UNINDEXED, task_id UNINDEXED, board_id UNINDEXED,
+    tokenize = 'porter unicode61 remove_diacritics 2'
+  )`,
+  `CREATE VIRTUAL TABLE search_documents USING fts5(
+    title, content, document_id UNINDEXED, project_id UNINDEXED,
+    tokenize = 'porter unicode61 remove_diacritics 2'
+  )`,
+  `CREATE VIRTUAL TABLE search_files USING fts5(
+    name, file_id UNINDEXED, project_id UNINDEXED,
+    tokenize = 'porter unicode61 remove_diacritics 2'
+  )`
+];
+
+const SEARCH_TRIGGERS = [
+  `CREATE TRIGGER search_tasks_insert AFTER INSERT ON tasks BEGIN
+    INSERT INTO search_tasks (title, description, task_id, board_id)
+    VALUES (new.title, coalesce(new.description, ''), new.id, new.board_id);
+  END`,
+  // Moving a task to another board moves its comments with it
+  `CREATE TRIGGER search_tasks_update AFTER UPDATE OF title, description, board_id ON tasks BEGIN
+    DELETE FROM search_tasks WHERE task_id = old.id;
+    INSERT INTO search_tasks (title, description, task_id, board_id)
+    VALUES (new.title, coalesce(new.description, ''), new.id, new.board_id);
+    UPDATE search_comments SET board_id = new.board_id
+    WHERE task_id = new.id AND new.board_id IS NOT old.board_id;
+  END`,
+  `CREATE TRIGGER search_tasks_delete AFTER DELETE ON tasks BEGIN
+    DELETE FROM search_tasks WHERE task_id = old.id;
+  END`,
+
+  `CREATE TRIGGER search_comments_insert AFTER INSERT ON task_comments BEGIN
+    INSERT INTO search_comments (content, comment_id, task_id, board_id)
+    VALUES (new.content, new.id, new.task_id, (SELECT board_id FROM tasks WHERE id = new.task_id));
+  END`,
+  `CREATE TRIGGER search_comments_update AFTER UPDATE OF content ON task_comments BEGIN
+    UPDATE search_comments SET content = new.content WHERE comment_id = new.id;
+  END`,
+  `CREATE TRIGGER search_comments_delete AFTER DELETE ON task_comments BEGIN
+    DELETE FROM search_comments WHERE comment_id = old.id;
+  END`,
+
+  `CREATE TRIGGER search_documents_insert AFTER INSERT ON documents BEGIN
+    INSERT INTO search_documents (title, content, document_id, project_id)
+    VALUES (new.title, coalesce(new.content, ''), new.id, new.project_id);
+  END`,
+  `CREATE TRIGGER search_documents_update AFTER UPDATE OF title, content ON documents BEGIN
+    UPDATE search_documents SET title = new.title, content = coalesce(new.content, '')
+    WHERE document_id = new.id;
+  END`,
+  `CREATE TRIGGER search_documents_delete AFTER DELETE ON documents BEGIN
+    DELETE FROM search_documents WHERE document_id = old.id;
+  END`,
+
+  `CREATE TRIGGER search_files_insert AFTER INSERT ON files BEGIN
+    INSERT INTO search_files (name, file_id, project_id) VALUES (new.name, new.id, new.project_id);
+  END`,
+  `CREATE TRIGGER search_files_update AFTER UPDATE OF name ON files BEGIN
+    UPDATE search_files SET name = new.name WHERE file_id = new.id;
+  END`,
+  `CREATE TRIGGER search_files_delete AFTER DELETE ON files BEGIN
+    DELETE FROM search_files WHERE file_id = old.id;
+  END`
+];
+
+// Index what is already there
+const SEARCH_BACKFILL = [
+  `INSERT INTO search_tasks (title, description, task_id, board_id)
+    SELECT title, coalesce(description, ''), id, board_id FROM tasks`,
+  `INSERT INTO search_comments (content, comment_id, task_id, board_id)
+    SELECT c.content, c.id, c.task_id, t.board_id FROM task_comments c JOIN tasks t ON t.id = c.task_id`,
+  `INSERT INTO search_documents (title, content, document_id, project_id)
+    SELECT title, coalesce(content, ''), id, project_id FROM documents`,
+  `INSERT INTO search_files (name, file_id, project_id) SELECT name, id, project_id FROM files`
+];
+
+const globalForSearch = globalThis as unknown as { searchIndexReady?: Promise<void> };
+
+const objectName = (statement: string) => statement.match(/^CREATE (?:VIRTUAL TABLE|TRIGGER) (\w+)/)![1];
+
+// Whether every search table and trigger is there. db:push rebuilds a table by
+// copying it, which drops its triggers but leaves the search tables, so the
+// triggers are checked too: without them the index silently goes stale.
+const hasSearchIndex = async () => {
+  const rows = await db.all<{ name: string }>(
+    sql`SELECT name FROM sqlite_master WHERE type IN ('table', 'trigger') AND name LIKE 'search%'`
+  );
+  const existing = new Set(rows.map(row => row.name));
+  return [...SEARCH_TABLES, ...SEARCH_TRIGGERS].every(statement => existing.has(objectName(statement)));
+};
+
+async function createSearchIndex() {
+  if (await hasSearchIndex()) return;
+
+  try {
+    // One transaction: the index appears complete or not at all. Whatever is
+    // left of an incomplete one is dropped and everything indexed afresh.
+    const [first, ...rest] = [
+      ...SEARCH_TRIGGERS.map(statement => `DROP TRIGGER IF EXISTS ${objectName(statement)}`),
+      ...SEARCH_TABLES.map(statement => `DROP TABLE IF EXISTS ${objectName(statement)}`),
+      ...SEARCH_TABLES,
+      ...SEARCH_TRIGGERS,
+      ...SEARCH_BACKFILL
+    ].map(statement => db.run(sql.raw(statement)));
+    await db.batch([first, ...rest]);
+  } catch (error) {
+    // Another process may have just created it
+    if (!(await hasSearchIndex())) throw error;
+  }
+}
+
+/**
+ * Create the search tables and triggers if this database does not have them
+ * yet, or rebuild the index if any of them has gone missing
+ */
+export function ensureSearchIndex() {
+  if (!globalForSearch.searchIndexReady) {
+    globalForSearch.searchIndexReady = createSearchIndex().catch(error => {
+      globalForSearch.searchIndexReady = undefined;
+      throw error;
+    });
+  }
+  return globalForSearch.searchIndexReady;
+}
+
+/**
+ * Turn what the user typed into an FTS5 query: every word must appear, the last
+ * one as a prefix so results show up while typing. Operators and quotes in the
+ * input are treated as plain text.
+ */
+export function toMatchQuery(input: string) {
+  // Quoted, each word is tokenized like the indexed text, so only quotes need removing
+  const words = input.replace(/"/g, ' ').split(/\s+/)
+    .filter(word => /[A-Za-z0-9\u00C0-\uFFFF]/.test(word))
+    .slice(0, MAX_TERMS);
+  if (words.length === 0) return null;
+  return words
+    .map((word, index) => `"${word}"${index === words.length - 1 ? '*' : ''}`)
+    .join(' ');
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+function markMatches(text: string | null) {
+  return escapeHtml(text || '')
+    .split(MATCH_START).join('<mark>')
+    .split(MATCH_END).join('</mark>');
+}
+
+// Boards and projects in the organization the user can read, the same rules as
+// checkBoardAccess and checkProjectAccess
+async function readableInOrganization(organizationId: string, userId: string) {
+  const userGroups = await db.query.groupMembers.findMany({
+    where: eq(groupMembers.userId, userId),
+    columns: { groupId: true }
+  });
+  const groupIds = userGroups.map(g => g.groupId);
+
+  const [readableBoards, readableProjects] = await Promise.all([
+    db.select({ id: boards.id, key: boards.key, name: boards.name })
+      .from(boards)
+      .where(and(
+        eq(boards.organizationId, organizationId),
+        groupIds.length > 0
+          ? or(
+            eq(boards.createdBy, userId),
+            inArray(boards.id, db.select({ boardId: boardGroups.boardId })
+              .from(boardGroups)
+              .where(inArray(boardGroups.groupId, groupIds)))
+          )
+          : eq(boards.createdBy, userId)
+      )),
+    groupIds.length > 0
+      ? db.select({ id: projects.id, name: projects.name })
+        .from(projects)
+        .where(and(
+          eq(projects.organizationId, organizationId),
+          inArray(projects.id, db.select({ projectId: projectGroups.projectId })
+            .from(projectGroups)
+            .where(inArray(projectGroups.groupId, groupIds)))
+        ))
+      : []
+  ]);
+
+  return {
+    boards: new Map(readableBoards.map(board => [board.id, board])),
+    projects: new Map(readableProjects.map(project => [project.id, project]))
+  };
+}
+
+interface SearchRow {
+  type: SearchResultType;
+  id: string;
+  task_id: string | null;
+  board_id: string | null;
+  project_id: string | null;
+  title: string | null;
+  snippet: string | null;
+  rank: number;
+}
+
+const idList = (ids: string[]) => sql.join(ids.map(id => sql`${id}`), sql`, `);
+
+/**
+ * Search an organization for `query`, best matches first, returning only what
+ * `userId` can read
+ */
+export async function search(organizationId: string, userId: string, query: string, limit = 20) {
+  const match = toMatchQuery(query);
+  if (!match) {
+    throw new SearchError('Search query must contain a word');
+  }
+
+  await ensureSearchIndex();
+  const readable = await readableInOrganization(organizationId, userId);
+  const boardIds = Array.from(readable.boards.keys());
+  const projectIds = Array.from(readable.projects.keys());
+
+  const start = MATCH_START;
+  const end = MATCH_END;
+  const selects: SQL[] = [];
+
+  // Titles count for more than the text under them
+  if (boardIds.length > 0) {
+    selects.push(sql`
+      SELECT 'task' AS type, task_id AS id, task_id, board_id, NULL AS project_id,
+        highlight(search_tasks, 0, ${start}, ${end}) AS title,
+        snippet(search_tasks, 1, ${start}, ${end}, '…', ${SNIPPET_TOKENS}) AS snippet,
+        bm25(search_tasks, 5.0, 1.0) AS rank
+      FROM search_tasks WHERE search_tasks MATCH ${match} AND board_id IN (${idList(boardIds)})
+    `);
+    selects.push(sql`
+      SELECT 'comment' AS type, comment_id AS id, task_id, board_id, NULL AS project_id,
+        NULL AS title,
+        snippet(search_comments, 0, ${start}, ${end}, '…', ${SNIPPET_TOKENS}) AS snippet,
+        bm25(search_comments) AS rank
+      FROM search_comments WHERE search_comments MATCH ${match} AND board_id IN (${idList(boardIds)})
+    `);
+  }
+  if (projectIds.length > 0) {
+    selects.push(sql`
+      SELECT 'document' AS type, document_id AS id, NULL AS task_id, NULL AS board_id, project_id,
+        highlight(search_documents, 0, ${start}, ${end}) AS title,
+        snippet(search_documents, 1, ${start}, ${end}, '…', ${SNIPPET_TOKENS}) AS snippet,
+        bm25(search_documents, 5.0, 1.0) AS rank
+      FROM search_documents WHERE search_documents MATCH ${match} AND project_id IN (${idList(projectIds)})
+    `);
+    selects.push(sql`
+      SELECT 'file' AS type, file_id AS id, NULL AS task_id, NULL AS board_id, project_id,
+        highlight(search_files, 0, ${start}, ${end}) AS title,
+        NULL AS snippet,
+        bm25(search_files) AS rank
+      FROM search_files WHERE search_files MATCH ${match} AND project_id IN (${idList(projectIds)})
+    `);
+  }
+
+  if (selects.length === 0) return [];
+
+  const rows = await db.all<SearchRow>(sql`
+    SELECT * FROM (${sql.join(selects, sql` UNION ALL `)})
+    ORDER BY rank
+    LIMIT ${Math.min(Math.max(limit, 1), MAX_LIMIT)}
+  `);
+
+  // Task keys and titles for task and comment results
+  const taskIds = Array.from(new Set(rows.map(row => row.task_id).filter((id): id is string => !!id)));
+  const taskRows = taskIds.length > 0
+    ? await db.select({ id: tasks.id, title: tasks.title, taskNumber: tasks.taskNumber })
+      .from(tasks)
+      .where(inArray(tasks.id, taskIds))
+    : [];
+  const taskById = new Map(taskRows.map(task => [task.id, task]));
+
+  const results: SearchResult[] = [];
+  for (const row of rows) {
+    if (row.type === 'task' || row.type === 'comment') {
+      const board = readable.boards.get(row.board_id || '');
+      const task = taskById.get(row.task_id || '');
+      if (!board || !task) continue;
+      results.push({
+        type: row.type,
+        id: row.id,
+        title: row.type === 'task' ? markMatches(row.title) : escapeHtml(task.title),
+        snippet: markMatches(row.snippet),
+        context: `${board.key}-${task.taskNumber} · ${board.name}`,
+        url: `/boards/${board.id}?task=${task.id}`
+      });
+    } else {
+      const project = readable.projects.get(row.project_id || '');
+      if (!project) continue;
+      results.push({
+        type: row.type,
+        id: row.id,
+        title: markMatches(row.title),
+        snippet: markMatches(row.snippet),
+        context: project.name,
+        url: row.type === 'document'
+          ? `/projects/${project.id}?document=${row.id}`
+          : `/projects/${project.id}?tab=files`
+      });
+    }
+  }
+
+  return results;
+}
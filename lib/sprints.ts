@@ -0,0 +1,189 @@
+import { db } from './db';
+import { sprints, sprintSummaries, taskHistory, tasks } from './db/schema';
+import { and, eq, inArray, notExists } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { v4 as uuidv4 } from 'uuid';
+import { getDoneColumnIds } from './board-columns';
+import { taskHistoryEntries } from './task-history';
+
+export const SPRINT_STATUSES = ['planning', 'active', 'completed'] as const;
+
+export class SprintStateError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'SprintStateError';
+    this.status = status;
+  }
+}
+
+async function getSprintTasks(sprintId: string) {
+  return db.query.tasks.findMany({
+    where: eq(tasks.sprintId, sprintId),
+    columns: { id: true, columnId: true, storyPoints: true }
+  });
+}
+
+const sumPoints = (list: { storyPoints: number | null }[]) =>
+  list.reduce((sum, t) => sum + (t.storyPoints || 0), 0);
+
+/**
+ * Check that a sprint can start and return the scope snapshot to store with it.
+ * A board has at most one active sprint, and a sprint needs dates to start.
+ */
+export async function prepareSprintStart(
+  sprint: { id: string; boardId: string; status: string },
+  dates: { startDate: Date | null; endDate: Date | null }
+) {
+  if (sprint.status !== 'planning') {
+    throw new SprintStateError(`Only planned sprints can be started (this one is ${sprint.status})`);
+  }
+
+  if (!dates.startDate || !dates.endDate) {
+    throw new SprintStateError('A sprint needs a start and end date before it can start');
+  }
+
+  if (dates.endDate <= dates.startDate) {
+    throw new SprintStateError('Sprint end date must be after its start date');
+  }
+
+  const active = await db.query.sprints.findFirst({
+    where: and(eq(sprints.boardId, sprint.boardId), eq(sprints.status, 'active')),
+    columns: { id: true, name: true }
+  });
+
+  if (active) {
+    throw new SprintStateError(`"${active.name}" is still active. Complete it before starting another sprint`, 409);
+  }
+
+  const sprintTasks = await getSprintTasks(sprint.id);
+
+  return {
+    status: 'active' as const,
+    startedAt: new Date(),
+    committedPoints: sumPoints(sprintTasks),
+    committedTaskCount: sprintTasks.length
+  };
+}
+
+/**
+ * The condition for the update that starts a sprint. prepareSprintStart checks
+ * the same things up front; repeating them in the update means that of two
+ * starts racing on one board, only one changes a row.
+ */
+export function sprintStartable(sprint: { id: string; boardId: string }) {
+  return and(
+    eq(sprints.id, sprint.id),
+    eq(sprints.status, 'planning'),
+    notExists(db.select({ id: sprints.id })
+      .from(sprints)
+      .where(and(eq(sprints.boardId, sprint.boardId), eq(sprints.status, 'active'))))
+  );
+}
+
+interface CompleteSprintParams {
+  sprint: typeof sprints.$inferSelect;
+  // Sprint that receives unfinished tasks; null sends them to the backlog
+  moveToSprintId: string | null;
+  userId: string;
+}
+
+/**
+ * Close an active sprint: snapshot committed vs. completed points, carry
+ * unfinished tasks over and store the summary for reports
+ */
+export async function completeSprint({ sprint, moveToSprintId, userId }: CompleteSprintParams) {
+  if (sprint.status !== 'active') {
+    throw new SprintStateError('Only the active sprint can be completed');
+  }
+
+  if (moveToSprintId) {
+    const target = await db.query.sprints.findFirst({
+      where: and(eq(sprints.id, moveToSprintId), eq(sprints.boardId, sprint.boardId)),
+      columns: { id: true, status: true }
+    });
+
+    if (!target || target.id === sprint.id) {
+      throw new SprintStateError('Next sprint not found on this board', 404);
+    }
+    if (target.status !== 'planning') {
+      throw new SprintStateError('Unfinished tasks can only move to a planned sprint');
+    }
+  }
+
+  const doneColumnIds = await getDoneColumnIds(sprint.boardId);
+  const sprintTasks = await getSprintTasks(sprint.id);
+  const completed = sprintTasks.filter(t => doneColumnIds.includes(t.columnId));
+  const unfinished = sprintTasks.filter(t => !doneColumnIds.includes(t.columnId));
+  const now = new Date();
+
+  const summary = {
+    id: uuidv4(),
+    sprintId: sprint.id,
+    boardId: sprint.boardId,
+    // Sprints started before scope snapshots existed fall back to their scope at completion
+    committedPoints: sprint.committedPoints ?? sumPoints(sprintTasks),
+    committedTaskCount: sprint.committedTaskCount ?? sprintTasks.length,
+    completedPoints: sumPoints(completed),
+    completedTaskCount: completed.length,
+    carriedOverPoints: sumPoints(unfinished),
+    carriedOverTaskCount: unfinished.length,
+    completedTaskIds: JSON.stringify(completed.map(t => t.id)),
+    carriedOverTaskIds: JSON.stringify(unfinished.map(t => t.id)),
+    carriedOverToSprintId: moveToSprintId,
+    completedBy: userId,
+    createdAt: now
+  };
+
+  // The status change, the carry-over and the summary are written in one
+  // batch (a single transaction). The status only changes while the sprint is
+  // still active, and only tasks still in the sprint move, so when two
+  // completions race the second one moves nothing and its summary insert
+  // fails, rolling its batch back.
+  const writes: BatchItem<'sqlite'>[] = [
+    db.update(sprints)
+      .set({ status: 'completed', completedAt: now, updatedAt: now })
+      .where(and(eq(sprints.id, sprint.id), eq(sprints.status, 'active')))
+  ];
+
+  if (unfinished.length > 0) {
+    writes.push(
+      db.update(tasks)
+        .set({ sprintId: moveToSprintId, updatedAt: now })
+        .where(and(inArray(tasks.id, unfinished.map(t => t.id)), eq(tasks.sprintId, sprint.id))),
+      db.insert(taskHistory).values(unfinished.flatMap(task => taskHistoryEntries(
+        { id: task.id, boardId: sprint.boardId },
+        userId,
+        { sprintId: { from: sprint.id, to: moveToSprintId } },
+        now
+      )))
+    );
+  }
+
+  writes.push(db.insert(sprintSummaries).values(summary));
+
+  try {
+    const [first, ...rest] = writes;
+    await db.batch([first, ...rest]);
+  } catch (error) {
+    const current = await db.query.sprints.findFirst({
+      where: eq(sprints.id, sprint.id),
+      columns: { status: true }
+    });
+    if (current && current.status !== 'active') {
+      throw new SprintStateError('This sprint has already been completed', 409);
+    }
+    throw error;
+  }
+
+  return serializeSprintSummary(summary);
+}
+
+export function serializeSprintSummary(summary: typeof sprintSummaries.$inferSelect) {
+  return {
+    ...summary,
+    completedTaskIds: JSON.parse(summary.completedTaskIds) as string[],
+    carriedOverTaskIds: JSON.parse(summary.carriedOverTaskIds) as string[]
+  };
+}
@@ -0,0 +1,257 @@
+import { db } from './db';
+import { boardColumns, notifications, taskLabelAssignments, taskWatchers, tasks } from './db/schema';
+import type { Board } from './db/schema';
+import { and, asc, eq, sql } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { v4 as uuidv4 } from 'uuid';
+import { buildNotification, publishNotificationEvent } from './notifications';
+import { recordBoardActivity } from './activity';
+import { publishBoardEvent } from './events';
+import { validateTaskParent, HierarchyError, TaskType } from './task-hierarchy';
+import { checkWipLimit } from './wip-limits';
+import { runAutomations } from './automation';
+import { bumpTaskCounter, lastTaskNumber } from './task-keys';
+import type { BoardPermission } from './board-access';
+
+export interface CreateTaskInput {
+  title?: string;
+  description?: string | null;
+  type?: TaskType;
+  priority?: 'lowest' | 'low' | 'medium' | 'high' | 'highest';
+  columnId?: string | null;
+  sprintId?: string | null;
+  assigneeId?: string | null;
+  storyPoints?: number | null;
+  dueDate?: string | Date | null;
+  labelIds?: string[];
+  parentTaskId?: string | null;
+  overrideWipLimit?: boolean;
+}
+
+export class TaskCreateError extends Error {
+  status: number;
+  details: Record<string, any>;
+
+  constructor(message: string, status = 400, details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'TaskCreateError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * Create a task on a board as `userId`: validation, WIP limits, labels,
+ * watchers, notifications, activity, automations and the live event. Used by
+ * the tasks API and by anything else that creates tasks on someone's behalf.
+ * `extraWrites` go into the batch that inserts the task, for callers that must
+ * record the new task id together with the task itself.
+ */
+export async function createTask(
+  board: Board,
+  input: CreateTaskInput,
+  actor: { userId: string; permission: BoardPermission | null },
+  extraWrites?: (taskId: string) => BatchItem<'sqlite'>[]
+) {
+  const {
+    title,
+    description,
+    type = 'task',
+    priority = 'medium',
+    columnId,
+    sprintId,
+    assigneeId,
+    storyPoints,
+    dueDate,
+    labelIds,
+    parentTaskId,
+    overrideWipLimit
+  } = input;
+  const boardId = board.id;
+
+  if (!title) {
+    throw new TaskCreateError('Task title is required');
+  }
+
+  try {
+    await validateTaskParent({ boardId, type, parentTaskId: parentTaskId || null });
+  } catch (error) {
+    if (error instanceof HierarchyError) {
+      throw new TaskCreateError(error.message);
+    }
+    throw error;
+  }
+
+  // Get or default column
+  let targetColumnId = columnId;
+  if (!targetColumnId) {
+    const defaultColumn = await db.query.boardColumns.findFirst({
+      where: and(
+        eq(boardColumns.boardId, boardId),
+        eq(boardColumns.isDefault, true)
+      )
+    });
+
+    if (!defaultColumn) {
+      const firstColumn = await db.query.boardColumns.findFirst({
+        where: eq(boardColumns.boardId, boardId),
+        orderBy: asc(boardColumns.sortOrder)
+      });
+      targetColumnId = firstColumn?.id;
+    } else {
+      targetColumnId = defaultColumn.id;
+    }
+  }
+
+  if (!targetColumnId) {
+    throw new TaskCreateError('No column available');
+  }
+
+  // Blocking limits can only be passed by a board admin who explicitly overrides them
+  const wipViolation = await checkWipLimit(targetColumnId);
+  if (wipViolation?.mode === 'block') {
+    if (!overrideWipLimit) {
+      throw new TaskCreateError(wipViolation.message, 409, {
+        ...wipViolation,
+        canOverride: actor.permission === 'admin'
+      });
+    }
+    if (actor.permission !== 'admin') {
+      throw new TaskCreateError('Only board admins can override WIP limits', 403);
+    }
+  }
+
+  // Get max sort order in target column
+  const columnTasks = await db.query.tasks.findMany({
+    where: eq(tasks.columnId, targetColumnId),
+    columns: { sortOrder: true }
+  });
+  const maxSort = columnTasks.reduce((max, t) => t.sortOrder > max ? t.sortOrder : max, -1);
+
+  // The number, task, labels, watchers and the assignee's notification are
+  // written in one batch (a single transaction), so the number is taken from
+  // the board's counter inside it rather than known up front
+  const taskId = uuidv4();
+  const taskNumber = lastTaskNumber(boardId);
+  const writes: BatchItem<'sqlite'>[] = [];
+
+  if (labelIds && Array.isArray(labelIds) && labelIds.length > 0) {
+    writes.push(db.insert(taskLabelAssignments).values(labelIds.map(labelId => ({
+      id: uuidv4(),
+      taskId,
+      labelId
+    }))));
+  }
+
+  // Reporter and assignee watch the task automatically
+  const watcherIds = Array.from(new Set([actor.userId, assigneeId].filter((id): id is string => !!id)));
+  writes.push(db.insert(taskWatchers).values(watcherIds.map(userId => ({ id: uuidv4(), taskId, userId }))));
+
+  // Notify assignee if assigned
+  const assignment = assigneeId && assigneeId !== actor.userId
+    ? buildNotification({
+      userId: assigneeId,
+      type: 'task',
+      title: 'Task Assigned',
+      message: '',
+      link: `/boards/${boardId}?task=${taskId}`
+    })
+    : null;
+  if (assignment) {
+    writes.push(db.insert(notifications).values({
+      ...assignment,
+      message: sql`'You have been assigned to "' || ${board.key} || '-' || ${taskNumber} || ': ' || ${title} || '".'`
+    }));
+  }
+
+  await db.batch([
+    bumpTaskCounter(boardId),
+    db.insert(tasks).values({
+      id: taskId,
+      boardId,
+      columnId: targetColumnId,
+      sprintId: sprintId || null,
+      taskNumber,
+      title,
+      description: description || null,
+      type,
+      priority,
+      storyPoints: storyPoints || null,
+      assigneeId: assigneeId || null,
+      reporterId: actor.userId,
+      parentTaskId: parentTaskId || null,
+      dueDate: dueDate ? new Date(dueDate) : null,
+      sortOrder: maxSort + 1
+    }),
+    ...writes,
+    ...(extraWrites?.(taskId) ?? [])
+  ]);
+
+  const inserted = await db.query.tasks.findFirst({
+    where: eq(tasks.id, taskId),
+    columns: { taskNumber: true }
+  });
+  const taskKey = `${board.key}-${inserted!.taskNumber}`;
+
+  if (assignment) {
+    const notification = await db.query.notifications.findFirst({ where: eq(notifications.id, assignment.id) });
+    await publishNotificationEvent(assignment.userId, 'notification.created', { notification });
+  }
+
+  await recordBoardActivity(board, {
+    userId: actor.userId,
+    action: 'created',
+    entityType: 'task',
+    entityId: taskId,
+    metadata: { taskKey, title }
+  });
+
+  if (wipViolation?.mode === 'block') {
+    await recordBoardActivity(board, {
+      userId: actor.userId,
+      action: 'wip_override',
+      entityType: 'task',
+      entityId: taskId,
+      metadata: {
+        taskKey,
+        column: wipViolation.column,
+        taskCount: wipViolation.taskCount
+      }
+    });
+  }
+
+  await runAutomations({ type: 'task_created', boardId, taskId });
+
+  // Fetch the created task
+  const newTask = await db.query.tasks.findFirst({
+    where: eq(tasks.id, taskId),
+    with: {
+      assignee: {
+        columns: { id: true, username: true, displayName: true, avatarUrl: true }
+      },
+      reporter: {
+        columns: { id: true, username: true, displayName: true }
+      },
+      column: {
+        columns: { id: true, name: true, color: true }
+      },
+      labelAssignments: {
+        with: { label: true }
+      }
+    }
+  });
+
+  const createdTask = {
+    ...newTask!,
+    labels: newTask?.labelAssignments?.map(la => la.label) || [],
+    taskKey
+  };
+
+  publishBoardEvent({ type: 'task.created', boardId, actorId: actor.userId, data: { task: createdTask } });
+
+  const warnings = wipViolation?.mode === 'warn'
+    ? [{ code: wipViolation.code, message: wipViolation.message, column: wipViolation.column }]
+    : [];
+
+  return { task: createdTask, warnings };
+}
@@ -0,0 +1,165 @@
+import { db } from './db';
+import { tasks } from './db/schema';
+import type { Task } from './db/schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { getDoneColumnIds } from './board-columns';
+
+export type TaskType = 'story' | 'task' | 'bug' | 'epic' | 'subtask';
+
+/**
+ * Which task types may sit directly under which. Epics are top level, stories,
+ * tasks and bugs belong to an epic, and subtasks break down one of those.
+ */
+export const ALLOWED_PARENT_TYPES: Record<TaskType, TaskType[]> = {
+  epic: [],
+  story: ['epic'],
+  task: ['epic'],
+  bug: ['epic'],
+  subtask: ['story', 'task', 'bug']
+};
+
+export class HierarchyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HierarchyError';
+  }
+}
+
+/**
+ * A task and everything below it on its board, parents first
+ */
+export async function getTaskSubtree(task: Task) {
+  const subtree: Task[] = [task];
+  const seen = new Set([task.id]);
+  for (let i = 0; i < subtree.length; i++) {
+    const children = await db.query.tasks.findMany({
+      where: and(eq(tasks.boardId, task.boardId), eq(tasks.parentTaskId, subtree[i].id))
+    });
+    for (const child of children) {
+      if (seen.has(child.id)) continue;
+      seen.add(child.id);
+      subtree.push(child);
+    }
+  }
+  return subtree;
+}
+
+interface ParentCheck {
+  boardId: string;
+  type: TaskType;
+  parentTaskId: string | null;
+  // Set when updating an existing task
+  taskId?: string;
+}
+
+/**
+ * Check that a task of `type` may live under `parentTaskId` (on the same board),
+ * and, for existing tasks, that its current children still fit under the new type
+ */
+export async function validateTaskParent({ boardId, type, parentTaskId, taskId }: ParentCheck) {
+  const allowed = ALLOWED_PARENT_TYPES[type];
+  if (!Array.isArray(allowed)) {
+    throw new HierarchyError(`Invalid task type: ${type}`);
+  }
+
+  if (parentTaskId) {
+    if (parentTaskId === taskId) {
+      throw new HierarchyError('A task cannot be its own parent');
+    }
+
+    const parent = await db.query.tasks.findFirst({
+      where: and(eq(tasks.id, parentTaskId), eq(tasks.boardId, boardId)),
+      columns: { id: true, type: true, parentTaskId: true }
+    });
+
+    if (!parent) {
+      throw new HierarchyError('Parent task not found on this board');
+    }
+
+    if (!allowed.includes(parent.type)) {
+      throw new HierarchyError(allowed.length > 0
+        ? `Tasks of type "${type}" can only be placed under: ${allowed.join(', ')}`
+        : `Tasks of type "${type}" cannot have a parent`);
+    }
+
+    // The type rules keep the tree shallow, but guard against cycles in existing data
+    const seen = new Set([parent.id]);
+    let ancestorId = parent.parentTaskId;
+    while (ancestorId) {
+      if (ancestorId === taskId || seen.has(ancestorId)) {
+        throw new HierarchyError('A task cannot be placed under one of its own children');
+      }
+      seen.add(ancestorId);
+      const ancestor = await db.query.tasks.findFirst({
+        where: eq(tasks.id, ancestorId),
+        columns: { parentTaskId: true }
+      });
+      ancestorId = ancestor?.parentTaskId ?? null;
+    }
+  }
+
+  if (taskId) {
+    const children = await db.query.tasks.findMany({
+      where: eq(tasks.parentTaskId, taskId),
+      columns: { type: true }
+    });
+    const misfit = children.find(child => !ALLOWED_PARENT_TYPES[child.type].includes(type));
+    if (misfit) {
+      throw new HierarchyError(`This task has children of type "${misfit.type}", which cannot sit under type "${type}"`);
+    }
+  }
+}
+
+/**
+ * Roll-up progress for every epic on a board. A child counts as done once it
+ * reaches one of the board's done columns (see getDoneColumnIds).
+ */
+export async function getBoardEpics(boardId: string) {
+  const doneColumnIds = await getDoneColumnIds(boardId);
+
+  const epics = await db.query.tasks.findMany({
+    where: and(eq(tasks.boardId, boardId), eq(tasks.type, 'epic')),
+    with: {
+      column: { columns: { id: true, name: true, color: true } },
+      assignee: { columns: { id: true, username: true, displayName: true, avatarUrl: true } }
+    },
+    orderBy: asc(tasks.taskNumber)
+  });
+
+  if (epics.length === 0) return [];
+
+  const children = await db.query.tasks.findMany({
+    where: inArray(tasks.parentTaskId, epics.map(e => e.id)),
+    columns: { id: true, parentTaskId: true, columnId: true, storyPoints: true, dueDate: true, createdAt: true },
+    with: { sprint: { columns: { startDate: true, endDate: true } } }
+  });
+
+  return epics.map(epic => {
+    const own = children.filter(c => c.parentTaskId === epic.id);
+    const done = own.filter(c => doneColumnIds.includes(c.columnId));
+    const totalPoints = own.reduce((sum, c) => sum + (c.storyPoints || 0), 0);
+    const donePoints = done.reduce((sum, c) => sum + (c.storyPoints || 0), 0);
+
+    // Weigh by story points when children are estimated, by count otherwise
+    const percentDone = totalPoints > 0
+      ? Math.round((donePoints / totalPoints) * 100)
+      : own.length > 0 ? Math.round((done.length / own.length) * 100) : 0;
+
+    // Work starts with the earliest child (its sprint start, else when it was created)
+    // and ends with the latest due date or sprint end among the epic and its children
+    const starts = own.map(c => c.sprint?.startDate ?? c.createdAt);
+    const ends = [epic.dueDate, ...own.map(c => c.dueDate ?? c.sprint?.endDate ?? null)]
+      .filter((d): d is Date => !!d);
+
+    return {
+      ...epic,
+      childCount: own.length,
+      doneCount: done.length,
+      totalPoints,
+      donePoints,
+      percentDone,
+      startDate: starts.length > 0 ? new Date(Math.min(...starts.map(d => d.getTime()))) : null,
+      endDate: ends.length > 0 ? new Date(Math.max(...ends.map(d => d.getTime()))) : null
+    };
+  });
+}
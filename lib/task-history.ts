@@ -0,0 +1,49 @@
+import { db } from './db';
+import { taskHistory } from './db/schema';
+import type { NewTaskHistoryEntry } from './db/schema';
+import { v4 as uuidv4 } from 'uuid';
+
+export const TRACKED_TASK_FIELDS = ['columnId', 'storyPoints', 'sprintId'] as const;
+export type TrackedTaskField = typeof TRACKED_TASK_FIELDS[number];
+
+const toValue = (value: any) => value === null || value === undefined ? null : String(value);
+
+/**
+ * The history rows for a set of changes, for callers that write them as part
+ * of a db.batch. Accepts the { field: { from, to } } map produced by
+ * diffFields; other fields are ignored.
+ */
+export function taskHistoryEntries(
+  task: { id: string; boardId: string },
+  userId: string | null,
+  changes: Record<string, { from: any; to: any }>,
+  at: Date = new Date()
+): NewTaskHistoryEntry[] {
+  return TRACKED_TASK_FIELDS
+    .filter(field => changes[field])
+    .map(field => ({
+      id: uuidv4(),
+      taskId: task.id,
+      boardId: task.boardId,
+      userId,
+      field,
+      fromValue: toValue(changes[field].from),
+      toValue: toValue(changes[field].to),
+      createdAt: at
+    }));
+}
+
+/**
+ * Record column, story point and sprint changes for reports
+ */
+export async function recordTaskHistory(
+  task: { id: string; boardId: string },
+  userId: string | null,
+  changes: Record<string, { from: any; to: any }>,
+  at: Date = new Date()
+) {
+  const entries = taskHistoryEntries(task, userId, changes, at);
+  if (entries.length > 0) {
+    await db.insert(taskHistory).values(entries);
+  }
+}
@@ -0,0 +1,134 @@
+import { db } from './db';
+import { boards, taskKeyAliases, tasks } from './db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { checkBoardAccess } from './board-access';
+
+const TASK_KEY_PATTERN = /^([A-Za-z][A-Za-z0-9]*)-(\d+)$/;
+
+// Keys as they appear in free text. Board keys are 2-10 uppercase letters, which
+// keeps things like "utf-8" from matching.
+export const TASK_KEY_REFERENCE_PATTERN = /\b([A-Z]{2,10})-(\d+)\b/g;
+
+// Most distinct keys looked up for one piece of text
+const MAX_REFERENCES = 50;
+
+export interface TaskKeyReference {
+  taskId: string;
+  boardId: string;
+  // The task's current key, which differs from the written one after a move
+  taskKey: string;
+  title: string;
+}
+
+/**
+ * Split a key like "PROJ-42" into its board key and task number
+ */
+export function parseTaskKey(key: string) {
+  const match = key.trim().match(TASK_KEY_PATTERN);
+  if (!match) return null;
+  return { boardKey: match[1].toUpperCase(), taskNumber: parseInt(match[2]) };
+}
+
+/**
+ * Bump a board's task counter in a single UPDATE, so concurrent callers never
+ * get the same number. The counter never goes below the highest number already
+ * in use (including old keys of tasks moved away), which also covers boards
+ * created before it existed. Not awaited here so it can be part of a db.batch;
+ * read the new value with `lastTaskNumber`.
+ */
+export function bumpTaskCounter(boardId: string) {
+  return db.update(boards)
+    .set({
+      taskCounter: sql`max(
+        ${boards.taskCounter},
+        (select coalesce(max(${tasks.taskNumber}), 0) from ${tasks} where ${tasks.boardId} = ${boardId}),
+        (select coalesce(max(${taskKeyAliases.taskNumber}), 0) from ${taskKeyAliases} where ${taskKeyAliases.boardId} = ${boardId})
+      ) + 1`
+    })
+    .where(eq(boards.id, boardId));
+}
+
+/**
+ * The number last handed out on a board, as an SQL value for use in the same
+ * batch right after `bumpTaskCounter`
+ */
+export function lastTaskNumber(boardId: string) {
+  return sql<number>`(select ${boards.taskCounter} from ${boards} where ${boards.id} = ${boardId})`;
+}
+
+/**
+ * Hand out the next task number on a board
+ */
+export async function allocateTaskNumber(boardId: string) {
+  const [{ taskNumber }] = await bumpTaskCounter(boardId).returning({ taskNumber: boards.taskCounter });
+  return taskNumber;
+}
+
+/**
+ * Find the task a key refers to within an organization, following old keys of
+ * tasks that have since moved to another board. `board` is the board the task
+ * is on now, and `aliased` tells whether the key was an old one.
+ */
+export async function resolveTaskKey(organizationId: string, key: string) {
+  const parsed = parseTaskKey(key);
+  if (!parsed) return null;
+
+  const keyBoard = await db.query.boards.findFirst({
+    where: and(eq(boards.organizationId, organizationId), eq(boards.key, parsed.boardKey))
+  });
+  if (!keyBoard) return null;
+
+  const task = await db.query.tasks.findFirst({
+    where: and(eq(tasks.boardId, keyBoard.id), eq(tasks.taskNumber, parsed.taskNumber))
+  });
+  if (task) return { task, board: keyBoard, aliased: false };
+
+  const alias = await db.query.taskKeyAliases.findFirst({
+    where: and(eq(taskKeyAliases.boardId, keyBoard.id), eq(taskKeyAliases.taskNumber, parsed.taskNumber)),
+    with: { task: true }
+  });
+  if (!alias?.task) return null;
+
+  const board = await db.query.boards.findFirst({ where: eq(boards.id, alias.task.boardId) });
+  if (!board || board.organizationId !== organizationId) return null;
+
+  return { task: alias.task, board, aliased: true };
+}
+
+/**
+ * Resolve the task keys mentioned in some texts (comments, document content)
+ * to the tasks they point at, keyed by the key as written. Keys that match no
+ * task, or a task on a board the user cannot read, are left out.
+ */
+export async function findTaskKeyReferences(organizationId: string, userId: string, texts: (string | null | undefined)[]) {
+  const keys = new Set<string>();
+  for (const text of texts) {
+    for (const match of Array.from((text || '').matchAll(TASK_KEY_REFERENCE_PATTERN))) {
+      if (keys.size >= MAX_REFERENCES) break;
+      keys.add(match[0]);
+    }
+  }
+
+  const references: Record<string, TaskKeyReference> = {};
+  const readable = new Map<string, boolean>();
+
+  for (const key of Array.from(keys)) {
+    const resolved = await resolveTaskKey(organizationId, key);
+    if (!resolved) continue;
+
+    const { task, board } = resolved;
+    if (!readable.has(board.id)) {
+      readable.set(board.id, (await checkBoardAccess(board.id, userId)).hasAccess);
+    }
+    if (!readable.get(board.id)) continue;
+
+    references[key] = {
+      taskId: task.id,
+      boardId: board.id,
+      taskKey: `${board.key}-${task.taskNumber}`,
+      title: task.title
+    };
+  }
+
+  return references;
+}
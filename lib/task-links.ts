@@ -0,0 +1,169 @@
+import { db } from './db';
+import { boards, taskLinks, tasks } from './db/schema';
+import { and, eq, inArray, or } from 'drizzle-orm';
+import { checkBoardAccess } from './board-access';
+import { getDoneColumnIds } from './board-columns';
+import { resolveTaskKey } from './task-keys';
+
+export type StoredLinkType = 'blocks' | 'relates_to' | 'duplicates';
+
+/**
+ * Link types as seen from one task. The inverse types are never stored: "A is
+ * blocked by B" is saved as "B blocks A".
+ */
+export const TASK_LINK_TYPES = ['blocks', 'is_blocked_by', 'relates_to', 'duplicates', 'is_duplicated_by'] as const;
+export type TaskLinkType = typeof TASK_LINK_TYPES[number];
+
+const INVERSE: Record<StoredLinkType, TaskLinkType> = {
+  blocks: 'is_blocked_by',
+  relates_to: 'relates_to',
+  duplicates: 'is_duplicated_by'
+};
+
+export const TASK_LINK_LABELS: Record<TaskLinkType, string> = {
+  blocks: 'blocks',
+  is_blocked_by: 'is blocked by',
+  relates_to: 'relates to',
+  duplicates: 'duplicates',
+  is_duplicated_by: 'is duplicated by'
+};
+
+/**
+ * Turn "taskId <type> otherTaskId" into the row that gets stored
+ */
+export function normalizeLink(type: TaskLinkType, taskId: string, otherTaskId: string) {
+  switch (type) {
+    case 'is_blocked_by':
+      return { sourceTaskId: otherTaskId, targetTaskId: taskId, type: 'blocks' as const };
+    case 'is_duplicated_by':
+      return { sourceTaskId: otherTaskId, targetTaskId: taskId, type: 'duplicates' as const };
+    default:
+      return { sourceTaskId: taskId, targetTaskId: otherTaskId, type };
+  }
+}
+
+/**
+ * Find an existing link between two tasks with the same meaning, in either
+ * direction for the symmetric "relates to"
+ */
+export async function findExistingLink(link: ReturnType<typeof normalizeLink>) {
+  const forward = and(eq(taskLinks.sourceTaskId, link.sourceTaskId), eq(taskLinks.targetTaskId, link.targetTaskId));
+  const backward = and(eq(taskLinks.sourceTaskId, link.targetTaskId), eq(taskLinks.targetTaskId, link.sourceTaskId));
+
+  return db.query.taskLinks.findFirst({
+    where: and(
+      eq(taskLinks.type, link.type),
+      link.type === 'relates_to' ? or(forward, backward) : forward
+    )
+  });
+}
+
+/**
+ * Resolve the other end of a link from either a task id or a key like "PROJ-42"
+ * (old keys of moved tasks included). Only tasks in the given organization are
+ * considered.
+ */
+export async function resolveLinkTarget(
+  input: { targetTaskId?: string; targetKey?: string },
+  organizationId: string
+) {
+  if (input.targetKey && !input.targetTaskId) {
+    const resolved = await resolveTaskKey(organizationId, input.targetKey);
+    return resolved && { task: resolved.task, board: resolved.board };
+  }
+
+  if (!input.targetTaskId) return null;
+
+  const task = await db.query.tasks.findFirst({ where: eq(tasks.id, input.targetTaskId) });
+  if (!task) return null;
+
+  const board = await db.query.boards.findFirst({ where: eq(boards.id, task.boardId) });
+  if (!board || board.organizationId !== organizationId) return null;
+
+  return { task, board };
+}
+
+const linkedTaskColumns = {
+  columns: { id: true, boardId: true, taskNumber: true, title: true, type: true, priority: true },
+  with: {
+    board: { columns: { id: true, key: true } },
+    column: { columns: { id: true, name: true, color: true } }
+  }
+} as const;
+
+/**
+ * Links of a task from its own point of view. Links to tasks on boards the
+ * user cannot read are left out.
+ */
+export async function getTaskLinks(taskId: string, userId: string) {
+  const links = await db.query.taskLinks.findMany({
+    where: or(eq(taskLinks.sourceTaskId, taskId), eq(taskLinks.targetTaskId, taskId)),
+    with: {
+      source: linkedTaskColumns,
+      target: linkedTaskColumns
+    }
+  });
+
+  const readable = new Map<string, boolean>();
+  const result = [];
+
+  for (const link of links) {
+    const outgoing = link.sourceTaskId === taskId;
+    const other = outgoing ? link.target : link.source;
+
+    if (!readable.has(other.boardId)) {
+      const { hasAccess } = await checkBoardAccess(other.boardId, userId);
+      readable.set(other.boardId, hasAccess);
+    }
+    if (!readable.get(other.boardId)) continue;
+
+    const type: TaskLinkType = outgoing ? link.type : INVERSE[link.type];
+    const { board, ...task } = other;
+
+    result.push({
+      id: link.id,
+      type,
+      label: TASK_LINK_LABELS[type],
+      createdAt: link.createdAt,
+      task: { ...task, taskKey: `${board.key}-${task.taskNumber}` }
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Tasks blocking this one that are not yet in a done column of their board
+ */
+export async function getOpenBlockers(taskId: string) {
+  const links = await db.query.taskLinks.findMany({
+    where: and(eq(taskLinks.targetTaskId, taskId), eq(taskLinks.type, 'blocks')),
+    columns: { sourceTaskId: true }
+  });
+
+  if (links.length === 0) return [];
+
+  const blockers = await db.query.tasks.findMany({
+    where: inArray(tasks.id, links.map(l => l.sourceTaskId)),
+    columns: { id: true, boardId: true, columnId: true, taskNumber: true, title: true },
+    with: { board: { columns: { key: true } } }
+  });
+
+  const doneColumns = new Map<string, string[]>();
+  const open = [];
+
+  for (const blocker of blockers) {
+    if (!doneColumns.has(blocker.boardId)) {
+      doneColumns.set(blocker.boardId, await getDoneColumnIds(blocker.boardId));
+    }
+    if (doneColumns.get(blocker.boardId)!.includes(blocker.columnId)) continue;
+
+    open.push({
+      id: blocker.id,
+      taskKey: `${blocker.board.key}-${blocker.taskNumber}`,
+      title: blocker.title
+    });
+  }
+
+  return open;
+}
@@ -0,0 +1,320 @@
+import { db } from './db';
+import { boardColumns, sprints, taskHistory, taskKeyAliases, taskLabelAssignments, taskLabels, tasks } from './db/schema';
+import type { Board, Task } from './db/schema';
+import { and, asc, eq, inArray, ne } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { v4 as uuidv4 } from 'uuid';
+import { checkBoardAccess } from './board-access';
+import { recordBoardActivity } from './activity';
+import { publishBoardEvent } from './events';
+import { taskHistoryEntries } from './task-history';
+import { notifyTaskWatchers } from './task-watchers';
+import { bumpTaskCounter, lastTaskNumber } from './task-keys';
+import { checkWipLimit } from './wip-limits';
+import { getTaskSubtree } from './task-hierarchy';
+
+export interface MoveTaskInput {
+  targetBoardId?: string;
+  // Defaults to the column with the same name on the target board, or its default column
+  columnId?: string | null;
+  // Defaults to an open sprint with the same name; null moves the task to the backlog
+  sprintId?: string | null;
+  overrideWipLimit?: boolean;
+}
+
+export class TaskMoveError extends Error {
+  status: number;
+  details: Record<string, any>;
+
+  constructor(message: string, status = 400, details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'TaskMoveError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+const byName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Move a task, together with its subtasks, to another board in the same
+ * organization. Each moved task gets the next number on the target board and
+ * its old key is kept as an alias. Columns, labels and sprints are matched by
+ * name; labels without a match are dropped, and assignees who cannot see the
+ * target board are unassigned. Comments, attachments, watchers and links stay
+ * with the task.
+ */
+export async function moveTask(task: Task, sourceBoard: Board, input: MoveTaskInput, userId: string) {
+  const { targetBoardId, columnId, sprintId, overrideWipLimit } = input;
+
+  if (!targetBoardId || typeof targetBoardId !== 'string') {
+    throw new TaskMoveError('targetBoardId is required');
+  }
+  if (targetBoardId === sourceBoard.id) {
+    throw new TaskMoveError('The task is already on this board');
+  }
+
+  const { hasAccess, board: targetBoard, permission } = await checkBoardAccess(targetBoardId, userId, 'write');
+  if (!targetBoard || targetBoard.organizationId !== sourceBoard.organizationId) {
+    throw new TaskMoveError('Target board not found', 404);
+  }
+  if (!hasAccess) {
+    throw new TaskMoveError('Write access to the target board is required', 403);
+  }
+
+  // The task and everything below it, parents first
+  const moving = await getTaskSubtree(task);
+
+  // Columns
+  const sourceColumns = await db.query.boardColumns.findMany({
+    where: eq(boardColumns.boardId, sourceBoard.id),
+    columns: { id: true, name: true }
+  });
+  const targetColumns = await db.query.boardColumns.findMany({
+    where: eq(boardColumns.boardId, targetBoard.id),
+    orderBy: asc(boardColumns.sortOrder)
+  });
+  const fallbackColumn = targetColumns.find(c => c.isDefault) || targetColumns[0];
+  if (!fallbackColumn) {
+    throw new TaskMoveError('The target board has no columns');
+  }
+  if (columnId && !targetColumns.some(c => c.id === columnId)) {
+    throw new TaskMoveError('Column not found on the target board');
+  }
+
+  const mapColumn = (fromColumnId: string) => {
+    const name = sourceColumns.find(c => c.id === fromColumnId)?.name;
+    return ((name && targetColumns.find(c => byName(c.name) === byName(name))) || fallbackColumn).id;
+  };
+
+  const rootColumnId = columnId || mapColumn(task.columnId);
+
+  // Only the moved task itself counts against the target column's WIP limit
+  const wipViolation = await checkWipLimit(rootColumnId);
+  if (wipViolation?.mode === 'block') {
+    if (!overrideWipLimit) {
+      throw new TaskMoveError(wipViolation.message, 409, { ...wipViolation, canOverride: permission === 'admin' });
+    }
+    if (permission !== 'admin') {
+      throw new TaskMoveError('Only board admins can override WIP limits', 403);
+    }
+  }
+
+  // Sprints: completed sprints on the target board are never picked
+  const sourceSprints = await db.query.sprints.findMany({
+    where: eq(sprints.boardId, sourceBoard.id),
+    columns: { id: true, name: true }
+  });
+  const targetSprints = await db.query.sprints.findMany({
+    where: and(eq(sprints.boardId, targetBoard.id), ne(sprints.status, 'completed')),
+    columns: { id: true, name: true }
+  });
+  if (sprintId && !targetSprints.some(s => s.id === sprintId)) {
+    throw new TaskMoveError('Sprint not found on the target board, or already completed');
+  }
+
+  const mapSprint = (fromSprintId: string | null) => {
+    const name = sourceSprints.find(s => s.id === fromSprintId)?.name;
+    return (name && targetSprints.find(s => byName(s.name) === byName(name))?.id) || null;
+  };
+
+  // Labels
+  const sourceLabels = await db.query.taskLabels.findMany({
+    where: eq(taskLabels.boardId, sourceBoard.id),
+    columns: { id: true, name: true }
+  });
+  const targetLabels = await db.query.taskLabels.findMany({
+    where: eq(taskLabels.boardId, targetBoard.id),
+    columns: { id: true, name: true }
+  });
+  const labelMap = new Map<string, string>();
+  for (const label of sourceLabels) {
+    const match = targetLabels.find(l => byName(l.name) === byName(label.name));
+    if (match) labelMap.set(label.id, match.id);
+  }
+
+  const assigneeIds = Array.from(new Set(moving.map(t => t.assigneeId).filter((id): id is string => !!id)));
+  const assigneeAccess = new Map<string, boolean>();
+  for (const assigneeId of assigneeIds) {
+    assigneeAccess.set(assigneeId, (await checkBoardAccess(targetBoard.id, assigneeId)).hasAccess);
+  }
+
+  const assignments = await db.query.taskLabelAssignments.findMany({
+    where: inArray(taskLabelAssignments.taskId, moving.map(t => t.id))
+  });
+
+  // Everything is read up front and written in one batch (a single
+  // transaction), so a failure never leaves part of the subtree moved. New
+  // numbers come from the target board's counter inside the batch.
+  const now = new Date();
+  const nextSortOrder = new Map<string, number>();
+  const droppedLabels = new Set<string>();
+  const writes: BatchItem<'sqlite'>[] = [];
+
+  for (const current of moving) {
+    const isRoot = current.id === task.id;
+    const toColumnId = isRoot ? rootColumnId : mapColumn(current.columnId);
+    const toSprintId = isRoot && sprintId !== undefined ? sprintId || null : mapSprint(current.sprintId);
+
+    if (!nextSortOrder.has(toColumnId)) {
+      const columnTasks = await db.query.tasks.findMany({
+        where: eq(tasks.columnId, toColumnId),
+        columns: { sortOrder: true }
+      });
+      nextSortOrder.set(toColumnId, columnTasks.reduce((max, t) => t.sortOrder > max ? t.sortOrder : max, -1) + 1);
+    }
+    const sortOrder = nextSortOrder.get(toColumnId)!;
+    nextSortOrder.set(toColumnId, sortOrder + 1);
+
+    writes.push(
+      bumpTaskCounter(targetBoard.id),
+      db.insert(taskKeyAliases).values({
+        id: uuidv4(),
+        taskId: current.id,
+        boardId: sourceBoard.id,
+        taskNumber: current.taskNumber
+      }),
+      db.update(tasks)
+        .set({
+          boardId: targetBoard.id,
+          columnId: toColumnId,
+          sprintId: toSprintId,
+          taskNumber: lastTaskNumber(targetBoard.id),
+          assigneeId: current.assigneeId && assigneeAccess.get(current.assigneeId) ? current.assigneeId : null,
+          // The parent of the moved task stays behind; its subtasks keep theirs
+          parentTaskId: isRoot ? null : current.parentTaskId,
+          sortOrder,
+          updatedAt: now
+        })
+        .where(eq(tasks.id, current.id))
+    );
+
+    for (const assignment of assignments.filter(a => a.taskId === current.id)) {
+      const labelId = labelMap.get(assignment.labelId);
+      if (labelId) {
+        writes.push(db.update(taskLabelAssignments).set({ labelId }).where(eq(taskLabelAssignments.id, assignment.id)));
+      } else {
+        droppedLabels.add(sourceLabels.find(l => l.id === assignment.labelId)?.name || assignment.labelId);
+        writes.push(db.delete(taskLabelAssignments).where(eq(taskLabelAssignments.id, assignment.id)));
+      }
+    }
+
+    // The task leaves the source board's reports now (everything it tracks
+    // goes to null there) and arrives on the target board's in its new column
+    // and sprint, so past flow and burndown on both boards stay as they were
+    const history = [
+      ...taskHistoryEntries({ id: current.id, boardId: sourceBoard.id }, userId, {
+        columnId: { from: current.columnId, to: null },
+        ...(current.storyPoints !== null && { storyPoints: { from: current.storyPoints, to: null } }),
+        ...(current.sprintId && { sprintId: { from: current.sprintId, to: null } })
+      }, now),
+      ...taskHistoryEntries({ id: current.id, boardId: targetBoard.id }, userId, {
+        columnId: { from: null, to: toColumnId },
+        ...(toSprintId && { sprintId: { from: null, to: toSprintId } })
+      }, now)
+    ];
+    writes.push(db.insert(taskHistory).values(history));
+  }
+
+  const [first, ...rest] = writes;
+  await db.batch([first, ...rest]);
+
+  const numbers = await db.query.tasks.findMany({
+    where: inArray(tasks.id, moving.map(t => t.id)),
+    columns: { id: true, taskNumber: true }
+  });
+  const moved = moving.map(current => ({
+    id: current.id,
+    fromKey: `${sourceBoard.key}-${current.taskNumber}`,
+    toKey: `${targetBoard.key}-${numbers.find(n => n.id === current.id)!.taskNumber}`
+  }));
+
+  const [root, ...subtasks] = moved;
+  const metadata = {
+    title: task.title,
+    fromKey: root.fromKey,
+    toKey: root.toKey,
+    fromBoardId: sourceBoard.id,
+    toBoardId: targetBoard.id,
+    ...(subtasks.length > 0 && { subtasks: subtasks.map(s => ({ fromKey: s.fromKey, toKey: s.toKey })) })
+  };
+  await recordBoardActivity(sourceBoard, {
+    userId,
+    action: 'moved_out',
+    entityType: 'task',
+    entityId: task.id,
+    metadata: { taskKey: root.fromKey, ...metadata }
+  });
+  await recordBoardActivity(targetBoard, {
+    userId,
+    action: 'moved_in',
+    entityType: 'task',
+    entityId: task.id,
+    metadata: { taskKey: root.toKey, ...metadata }
+  });
+
+  if (wipViolation?.mode === 'block') {
+    await recordBoardActivity(targetBoard, {
+      userId,
+      action: 'wip_override',
+      entityType: 'task',
+      entityId: task.id,
+      metadata: { taskKey: root.toKey, column: wipViolation.column, taskCount: wipViolation.taskCount }
+    });
+  }
+
+  await notifyTaskWatchers({
+    taskId: task.id,
+    actorId: userId,
+    title: 'Task Moved',
+    message: `${root.fromKey} "${task.title}" was moved to ${targetBoard.name} and is now ${root.toKey}.`,
+    link: `/boards/${targetBoard.id}?task=${task.id}`
+  });
+
+  const movedTasks = await db.query.tasks.findMany({
+    where: inArray(tasks.id, moved.map(m => m.id)),
+    with: {
+      assignee: {
+        columns: { id: true, username: true, displayName: true, avatarUrl: true }
+      },
+      reporter: {
+        columns: { id: true, username: true, displayName: true }
+      },
+      column: {
+        columns: { id: true, name: true, color: true }
+      },
+      sprint: {
+        columns: { id: true, name: true, status: true }
+      },
+      labelAssignments: {
+        with: { label: true }
+      }
+    }
+  });
+
+  let movedTask;
+  for (const { id, toKey } of moved) {
+    const found = movedTasks.find(t => t.id === id)!;
+    const response = {
+      ...found,
+      labels: found.labelAssignments.map(la => la.label),
+      taskKey: toKey
+    };
+    if (id === task.id) movedTask = response;
+
+    publishBoardEvent({ type: 'task.deleted', boardId: sourceBoard.id, actorId: userId, data: { taskId: id } });
+    publishBoardEvent({ type: 'task.created', boardId: targetBoard.id, actorId: userId, data: { task: response } });
+  }
+
+  const warnings = wipViolation?.mode === 'warn'
+    ? [{ code: wipViolation.code, message: wipViolation.message, column: wipViolation.column }]
+    : [];
+
+  return {
+    task: movedTask!,
+    board: { id: targetBoard.id, name: targetBoard.name, key: targetBoard.key },
+    moved,
+    droppedLabels: Array.from(droppedLabels),
+    warnings
+  };
+}
@@ -0,0 +1,363 @@
+import { SQL, and, asc, desc, eq, gt, gte, inArray, isNull, lt, lte, not, or, sql } from 'drizzle-orm';
+import type { SQLiteColumn } from 'drizzle-orm/sqlite-core';
+import { db } from '@/lib/db';
+import { boardColumns, sprints, taskLabelAssignments, taskLabels, tasks, users } from '@/lib/db/schema';
+import type {
+  ComparisonOperator,
+  OrderByClause,
+  QueryContext,
+  QueryField,
+  QueryNode,
+  QueryValue,
+  TaskQuery
+} from './types';
+import { QueryError } from './errors';
+
+const PRIORITIES = ['lowest', 'low', 'medium', 'high', 'highest'] as const;
+const TASK_TYPES = ['story', 'task', 'bug', 'epic', 'subtask'] as const;
+
+const EQUALITY: ComparisonOperator[] = ['=', '!='];
+const ORDINAL: ComparisonOperator[] = ['=', '!=', '>', '>=', '<', '<='];
+const TEXT: ComparisonOperator[] = ['=', '!=', '~', '!~'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNIT_MS: Record<string, number> = { h: 60 * 60 * 1000, d: DAY_MS, w: 7 * DAY_MS };
+
+interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+interface FieldSpec {
+  operators: ComparisonOperator[];
+  emptiable: boolean;
+  // Equality predicate for a single value, also used by IN lists
+  match: (value: QueryValue, ctx: QueryContext) => SQL;
+  // Range predicate for ordinal fields (>, >=, <, <=)
+  compare?: (operator: ComparisonOperator, value: QueryValue, ctx: QueryContext) => SQL;
+  empty?: () => SQL;
+  orderBy?: () => SQL | SQLiteColumn;
+}
+
+function lower(value: QueryValue) {
+  return value.raw.toLowerCase();
+}
+
+function invalid(message: string, value: QueryValue): never {
+  throw new QueryError(message, value.position, value.raw);
+}
+
+function userMatch(column: SQLiteColumn) {
+  return (value: QueryValue, ctx: QueryContext) => {
+    if (!value.quoted && lower(value) === 'me') {
+      return eq(column, ctx.userId);
+    }
+    return inArray(column, db.select({ id: users.id }).from(users).where(or(
+      eq(sql`lower(${users.username})`, lower(value)),
+      eq(users.id, value.raw)
+    )));
+  };
+}
+
+function enumValue<T extends string>(values: readonly T[], value: QueryValue, label: string): T {
+  const match = values.find(v => v === lower(value));
+  if (!match) invalid(`Unknown ${label} "${value.raw}". Expected one of: ${values.join(', ')}`, value);
+  return match;
+}
+
+function numberValue(value: QueryValue): number {
+  const number = Number(value.raw);
+  if (value.raw === '' || !Number.isFinite(number)) invalid(`Expected a number but found "${value.raw}"`, value);
+  return number;
+}
+
+function taskNumberValue(value: QueryValue): number {
+  // Accept both `PROJ-42` and a bare `42`
+  const match = value.raw.match(/^(?:[A-Za-z][A-Za-z0-9]*-)?(\d+)$/);
+  if (!match) invalid(`Expected a task key like PROJ-42 but found "${value.raw}"`, value);
+  return parseInt(match[1]);
+}
+
+function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Dates are either absolute days (`2024-05-01`, `today`), which cover the
+ * whole day, or instants relative to now (`now`, `7d`, `-2w`, `12h`)
+ */
+function dateValue(value: QueryValue, ctx: QueryContext): DateRange {
+  const now = ctx.now || new Date();
+  const raw = lower(value);
+
+  if (raw === 'now') return { start: now, end: now };
+
+  if (raw === 'today') {
+    const start = startOfDay(now);
+    return { start, end: new Date(start.getTime() + DAY_MS) };
+  }
+
+  const relative = raw.match(/^([+-]?)(\d+)([hdw])$/);
+  if (relative) {
+    const offset = parseInt(relative[2]) * UNIT_MS[relative[3]] * (relative[1] === '-' ? -1 : 1);
+    const instant = new Date(now.getTime() + offset);
+    return { start: instant, end: instant };
+  }
+
+  const absolute = raw.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (absolute) {
+    const start = new Date(parseInt(absolute[1]), parseInt(absolute[2]) - 1, parseInt(absolute[3]));
+    if (!isNaN(start.getTime())) {
+      return { start, end: new Date(start.getTime() + DAY_MS) };
+    }
+  }
+
+  return invalid(`Expected a date (2024-05-01, today, now, 7d, -2w) but found "${value.raw}"`, value);
+}
+
+function dateField(column: SQLiteColumn, emptiable: boolean): FieldSpec {
+  return {
+    operators: ORDINAL,
+    emptiable,
+    match: (value, ctx) => {
+      const { start, end } = dateValue(value, ctx);
+      return start.getTime() === end.getTime() ? eq(column, start) : and(gte(column, start), lt(column, end))!;
+    },
+    compare: (operator, value, ctx) => {
+      const { start, end } = dateValue(value, ctx);
+      const instant = start.getTime() === end.getTime();
+      switch (operator) {
+        case '<': return lt(column, start);
+        case '<=': return instant ? lte(column, start) : lt(column, end);
+        case '>': return instant ? gt(column, start) : gte(column, end);
+        default: return gte(column, start);
+      }
+    },
+    empty: () => isNull(column),
+    orderBy: () => column
+  };
+}
+
+function numberCompare(column: SQLiteColumn, operator: ComparisonOperator, number: number) {
+  switch (operator) {
+    case '<': return lt(column, number);
+    case '<=': return lte(column, number);
+    case '>': return gt(column, number);
+    default: return gte(column, number);
+  }
+}
+
+function textMatch(columns: SQLiteColumn[]) {
+  return (value: QueryValue) => or(...columns.map(column => eq(sql`lower(${column})`, lower(value))))!;
+}
+
+function textContains(columns: SQLiteColumn[], value: QueryValue) {
+  const pattern = `%${value.raw.replace(/[\\%_]/g, c => '\\' + c)}%`;
+  return or(...columns.map(column => sql`${column} like ${pattern} escape '\\'`))!;
+}
+
+const priorityRank = sql<number>`case ${tasks.priority} ${sql.raw(
+  PRIORITIES.map((priority, rank) => `when '${priority}' then ${rank}`).join(' ')
+)} end`;
+
+// Relational queries qualify every column in `where` with the tasks alias, so
+// anything touching another table has to be a subquery built with db.select
+const FIELDS: Record<QueryField, FieldSpec> = {
+  assignee: {
+    operators: EQUALITY,
+    emptiable: true,
+    match: userMatch(tasks.assigneeId),
+    empty: () => isNull(tasks.assigneeId)
+  },
+  reporter: {
+    operators: EQUALITY,
+    emptiable: false,
+    match: userMatch(tasks.reporterId)
+  },
+  priority: {
+    operators: ORDINAL,
+    emptiable: false,
+    match: value => eq(tasks.priority, enumValue(PRIORITIES, value, 'priority')),
+    compare: (operator, value) => {
+      const rank = PRIORITIES.indexOf(enumValue(PRIORITIES, value, 'priority'));
+      const allowed = PRIORITIES.filter((_, i) =>
+        operator === '>' ? i > rank : operator === '>=' ? i >= rank : operator === '<' ? i < rank : i <= rank
+      );
+      return allowed.length > 0 ? inArray(tasks.priority, allowed) : sql`0`;
+    },
+    orderBy: () => priorityRank
+  },
+  type: {
+    operators: EQUALITY,
+    emptiable: false,
+    match: value => eq(tasks.type, enumValue(TASK_TYPES, value, 'type')),
+    orderBy: () => tasks.type
+  },
+  status: {
+    operators: EQUALITY,
+    emptiable: false,
+    match: (value, ctx) => inArray(tasks.columnId, db.select({ id: boardColumns.id }).from(boardColumns).where(and(
+      eq(boardColumns.boardId, ctx.boardId),
+      or(eq(sql`lower(${boardColumns.name})`, lower(value)), eq(boardColumns.id, value.raw))
+    ))),
+    orderBy: () => sql`(${db.select({ sortOrder: boardColumns.sortOrder })
+      .from(boardColumns)
+      .where(eq(boardColumns.id, tasks.columnId))})`
+  },
+  sprint: {
+    operators: EQUALITY,
+    emptiable: true,
+    // Unquoted `active`, `planning` or `completed` also match by sprint status
+    match: (value, ctx) => inArray(tasks.sprintId, db.select({ id: sprints.id }).from(sprints).where(and(
+      eq(sprints.boardId, ctx.boardId),
+      or(
+        eq(sql`lower(${sprints.name})`, lower(value)),
+        eq(sprints.id, value.raw),
+        value.quoted ? undefined : eq(sprints.status, lower(value) as 'planning' | 'active' | 'completed')
+      )
+    ))),
+    empty: () => isNull(tasks.sprintId)
+  },
+  label: {
+    operators: EQUALITY,
+    emptiable: true,
+    match: value => inArray(tasks.id, db.select({ taskId: taskLabelAssignments.taskId })
+      .from(taskLabelAssignments)
+      .innerJoin(taskLabels, eq(taskLabels.id, taskLabelAssignments.labelId))
+      .where(or(eq(sql`lower(${taskLabels.name})`, lower(value)), eq(taskLabels.id, value.raw)))),
+    empty: () => not(inArray(tasks.id, db.select({ taskId: taskLabelAssignments.taskId }).from(taskLabelAssignments)))
+  },
+  points: {
+    operators: ORDINAL,
+    emptiable: true,
+    match: value => eq(tasks.storyPoints, numberValue(value)),
+    compare: (operator, value) => numberCompare(tasks.storyPoints, operator, numberValue(value)),
+    empty: () => isNull(tasks.storyPoints),
+    orderBy: () => tasks.storyPoints
+  },
+  due: dateField(tasks.dueDate, true),
+  created: dateField(tasks.createdAt, false),
+  updated: dateField(tasks.updatedAt, false),
+  title: {
+    operators: TEXT,
+    emptiable: false,
+    match: textMatch([tasks.title]),
+    orderBy: () => sql`lower(${tasks.title})`
+  },
+  description: {
+    operators: TEXT,
+    emptiable: true,
+    match: textMatch([tasks.description]),
+    empty: () => or(isNull(tasks.description), eq(tasks.description, ''))!
+  },
+  text: {
+    operators: ['~', '!~'],
+    emptiable: false,
+    match: textMatch([tasks.title, tasks.description])
+  },
+  key: {
+    operators: ORDINAL,
+    emptiable: false,
+    match: value => eq(tasks.taskNumber, taskNumberValue(value)),
+    compare: (operator, value) => numberCompare(tasks.taskNumber, operator, taskNumberValue(value)),
+    orderBy: () => tasks.taskNumber
+  },
+  parent: {
+    operators: EQUALITY,
+    emptiable: true,
+    match: (value, ctx) => {
+      const byKey = value.raw.match(/^(?:[A-Za-z][A-Za-z0-9]*-)?(\d+)$/);
+      return or(
+        eq(tasks.parentTaskId, value.raw),
+        byKey
+          ? inArray(tasks.parentTaskId, db.select({ id: tasks.id }).from(tasks).where(and(
+              eq(tasks.boardId, ctx.boardId),
+              eq(tasks.taskNumber, parseInt(byKey[1]))
+            )))
+          : undefined
+      )!;
+    },
+    empty: () => isNull(tasks.parentTaskId)
+  }
+};
+
+function compileNode(node: QueryNode, ctx: QueryContext): SQL {
+  switch (node.kind) {
+    case 'and':
+      return and(compileNode(node.left, ctx), compileNode(node.right, ctx))!;
+    case 'or':
+      return or(compileNode(node.left, ctx), compileNode(node.right, ctx))!;
+    case 'not':
+      return not(compileNode(node.operand, ctx));
+    case 'empty': {
+      const spec = FIELDS[node.field];
+      if (!spec.emptiable || !spec.empty) {
+        throw new QueryError(`"${node.field}" is never empty`, node.position, node.field);
+      }
+      return node.negated ? not(spec.empty()) : spec.empty();
+    }
+    case 'in': {
+      const spec = FIELDS[node.field];
+      if (node.field === 'text') {
+        throw new QueryError('"text" only supports ~ and !~', node.position, node.field);
+      }
+      const condition = or(...node.values.map(value => spec.match(value, ctx)))!;
+      return node.negated ? not(condition) : condition;
+    }
+    case 'comparison': {
+      const spec = FIELDS[node.field];
+      const { operator, value } = node;
+
+      if (!spec.operators.includes(operator)) {
+        throw new QueryError(
+          `Operator "${operator}" is not supported for "${node.field}". Use one of: ${spec.operators.join(', ')}`,
+          node.position,
+          node.field
+        );
+      }
+
+      switch (operator) {
+        case '=':
+          return spec.match(value, ctx);
+        case '!=':
+          return not(spec.match(value, ctx));
+        case '~':
+          return textContains(textColumns(node.field), value);
+        case '!~':
+          return not(textContains(textColumns(node.field), value));
+        default:
+          return spec.compare!(operator, value, ctx);
+      }
+    }
+  }
+}
+
+function textColumns(field: QueryField): SQLiteColumn[] {
+  if (field === 'text') return [tasks.title, tasks.description];
+  return [field === 'title' ? tasks.title : tasks.description];
+}
+
+function compileOrderBy(clause: OrderByClause): SQL[] {
+  const spec = FIELDS[clause.field];
+  if (!spec.orderBy) {
+    throw new QueryError(`Cannot ORDER BY "${clause.field}"`, clause.position, clause.field);
+  }
+
+  const expression = spec.orderBy();
+  // Keep tasks without a value at the end regardless of direction
+  return [
+    sql`${expression} is null`,
+    clause.direction === 'desc' ? desc(expression) : asc(expression)
+  ];
+}
+
+/**
+ * Compile a parsed query into SQL for `db.query.tasks.findMany`. The caller
+ * still scopes the result to the board.
+ */
+export function compileTaskQuery(query: TaskQuery, ctx: QueryContext) {
+  return {
+    where: query.where ? compileNode(query.where, ctx) : undefined,
+    orderBy: query.orderBy.flatMap(compileOrderBy)
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * A query that cannot be parsed or compiled. `position` is the 0-based offset
+ * of the offending token in the query string so clients can highlight it.
+ */
+export class QueryError extends Error {
+  position: number;
+  token: string;
+
+  constructor(message: string, position: number, token: string) {
+    super(message);
+    this.name = 'QueryError';
+    this.position = position;
+    this.token = token;
+  }
+}
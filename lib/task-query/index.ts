@@ -0,0 +1,14 @@
+import type { QueryContext } from './types';
+import { parseTaskQuery, QUERY_FIELDS } from './parser';
+import { compileTaskQuery } from './compiler';
+
+/**
+ * Parse and compile a task query in one step. Throws QueryError on bad input.
+ */
+export function buildTaskQuery(input: string, ctx: QueryContext) {
+  return compileTaskQuery(parseTaskQuery(input), ctx);
+}
+
+export { parseTaskQuery, compileTaskQuery, QUERY_FIELDS };
+export { QueryError } from './errors';
+export type { TaskQuery, QueryNode, QueryField, QueryContext, OrderByClause } from './types';
@@ -0,0 +1,70 @@
+import type { Token } from './types';
+import { QueryError } from './errors';
+
+const OPERATORS = ['!=', '>=', '<=', '!~', '=', '>', '<', '~'];
+
+// Bare words cover field names, keywords and unquoted values such as
+// `me`, `high`, `7d`, `-7d`, `2024-05-01` or `PROJ-42`
+const WORD_CHAR = /[A-Za-z0-9_\-.:@+]/;
+
+export function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ type: 'lparen', value: char, position: i++ });
+      continue;
+    }
+    if (char === ')') {
+      tokens.push({ type: 'rparen', value: char, position: i++ });
+      continue;
+    }
+    if (char === ',') {
+      tokens.push({ type: 'comma', value: char, position: i++ });
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = i++;
+      let value = '';
+      while (i < input.length && input[i] !== char) {
+        // Backslash escapes the quote character (or another backslash)
+        if (input[i] === '\\' && i + 1 < input.length) i++;
+        value += input[i++];
+      }
+      if (i >= input.length) {
+        throw new QueryError('Unterminated string', start, input.slice(start));
+      }
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => input.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    if (WORD_CHAR.test(char)) {
+      const start = i;
+      while (i < input.length && WORD_CHAR.test(input[i])) i++;
+      tokens.push({ type: 'word', value: input.slice(start, i), position: start });
+      continue;
+    }
+
+    throw new QueryError(`Unexpected character "${char}"`, i, char);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: input.length });
+  return tokens;
+}
@@ -0,0 +1,242 @@
+import type {
+  ComparisonOperator,
+  OrderByClause,
+  QueryField,
+  QueryNode,
+  QueryValue,
+  TaskQuery,
+  Token
+} from './types';
+import { QueryError } from './errors';
+import { tokenize } from './lexer';
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  assignee: 'assignee',
+  reporter: 'reporter',
+  priority: 'priority',
+  type: 'type',
+  status: 'status',
+  column: 'status',
+  sprint: 'sprint',
+  label: 'label',
+  labels: 'label',
+  points: 'points',
+  storypoints: 'points',
+  due: 'due',
+  duedate: 'due',
+  created: 'created',
+  createdat: 'created',
+  updated: 'updated',
+  updatedat: 'updated',
+  title: 'title',
+  summary: 'title',
+  description: 'description',
+  text: 'text',
+  key: 'key',
+  parent: 'parent'
+};
+
+export const QUERY_FIELDS = Array.from(new Set(Object.values(FIELD_ALIASES)));
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(input: string) {
+    this.tokens = tokenize(input);
+  }
+
+  parse(): TaskQuery {
+    let where: QueryNode | null = null;
+
+    if (!this.isKeyword('ORDER') && this.peek().type !== 'eof') {
+      where = this.parseOr();
+    }
+
+    const orderBy = this.isKeyword('ORDER') ? this.parseOrderBy() : [];
+
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new QueryError(`Unexpected "${token.value}", expected AND, OR or ORDER BY`, token.position, token.value);
+    }
+
+    return { where, orderBy };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private isKeyword(keyword: string, token: Token = this.peek()) {
+    return token.type === 'word' && token.value.toUpperCase() === keyword;
+  }
+
+  private expectKeyword(keyword: string) {
+    const token = this.next();
+    if (!this.isKeyword(keyword, token)) {
+      throw new QueryError(`Expected ${keyword} but found ${describe(token)}`, token.position, token.value);
+    }
+  }
+
+  private expect(type: Token['type'], label: string) {
+    const token = this.next();
+    if (token.type !== type) {
+      throw new QueryError(`Expected ${label} but found ${describe(token)}`, token.position, token.value);
+    }
+    return token;
+  }
+
+  private parseOr(): QueryNode {
+    let left = this.parseAnd();
+    while (this.isKeyword('OR')) {
+      this.next();
+      left = { kind: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): QueryNode {
+    let left = this.parseNot();
+    while (this.isKeyword('AND')) {
+      this.next();
+      left = { kind: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): QueryNode {
+    if (this.isKeyword('NOT')) {
+      this.next();
+      return { kind: 'not', operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    if (this.peek().type === 'lparen') {
+      this.next();
+      const node = this.parseOr();
+      this.expect('rparen', '")"');
+      return node;
+    }
+    return this.parseClause();
+  }
+
+  private parseField(): { field: QueryField; position: number } {
+    const token = this.next();
+    if (token.type !== 'word') {
+      throw new QueryError(`Expected a field name but found ${describe(token)}`, token.position, token.value);
+    }
+
+    const field = FIELD_ALIASES[token.value.toLowerCase()];
+    if (!field) {
+      throw new QueryError(
+        `Unknown field "${token.value}". Known fields: ${QUERY_FIELDS.join(', ')}`,
+        token.position,
+        token.value
+      );
+    }
+
+    return { field, position: token.position };
+  }
+
+  private parseValue(): QueryValue {
+    const token = this.next();
+    if (token.type !== 'word' && token.type !== 'string') {
+      throw new QueryError(`Expected a value but found ${describe(token)}`, token.position, token.value);
+    }
+    return { raw: token.value, quoted: token.type === 'string', position: token.position };
+  }
+
+  private parseClause(): QueryNode {
+    const { field, position } = this.parseField();
+    const token = this.peek();
+
+    if (this.isKeyword('IS')) {
+      this.next();
+      const negated = this.isKeyword('NOT');
+      if (negated) this.next();
+      const empty = this.next();
+      if (!this.isKeyword('EMPTY', empty) && !this.isKeyword('NULL', empty)) {
+        throw new QueryError(`Expected EMPTY but found ${describe(empty)}`, empty.position, empty.value);
+      }
+      return { kind: 'empty', field, negated, position };
+    }
+
+    if (this.isKeyword('IN') || this.isKeyword('NOT')) {
+      const negated = this.isKeyword('NOT');
+      if (negated) {
+        this.next();
+        this.expectKeyword('IN');
+      } else {
+        this.next();
+      }
+
+      this.expect('lparen', '"(" after IN');
+      const values = [this.parseValue()];
+      while (this.peek().type === 'comma') {
+        this.next();
+        values.push(this.parseValue());
+      }
+      this.expect('rparen', '")" to close the IN list');
+
+      return { kind: 'in', field, negated, values, position };
+    }
+
+    if (token.type === 'operator') {
+      this.next();
+      const operator = token.value as ComparisonOperator;
+      const value = this.parseValue();
+
+      // `field = EMPTY` and `field != EMPTY` read better than IS [NOT] EMPTY to some people
+      if (!value.quoted && ['EMPTY', 'NULL'].includes(value.raw.toUpperCase()) && (operator === '=' || operator === '!=')) {
+        return { kind: 'empty', field, negated: operator === '!=', position };
+      }
+
+      return { kind: 'comparison', field, operator, value, position };
+    }
+
+    throw new QueryError(
+      `Expected an operator (=, !=, >, >=, <, <=, ~, !~, IN, IS) after "${field}" but found ${describe(token)}`,
+      token.position,
+      token.value
+    );
+  }
+
+  private parseOrderBy(): OrderByClause[] {
+    this.expectKeyword('ORDER');
+    this.expectKeyword('BY');
+
+    const clauses: OrderByClause[] = [];
+    do {
+      if (clauses.length > 0) this.next();
+
+      const { field, position } = this.parseField();
+      let direction: OrderByClause['direction'] = 'asc';
+      if (this.isKeyword('ASC') || this.isKeyword('DESC')) {
+        direction = this.next().value.toLowerCase() as OrderByClause['direction'];
+      }
+      clauses.push({ field, direction, position });
+    } while (this.peek().type === 'comma');
+
+    return clauses;
+  }
+}
+
+function describe(token: Token) {
+  return token.type === 'eof' ? 'end of query' : `"${token.value}"`;
+}
+
+/**
+ * Parse a JQL-like query, e.g.
+ * `assignee = me AND priority >= high AND label in (backend) ORDER BY due ASC`
+ */
+export function parseTaskQuery(input: string): TaskQuery {
+  return new Parser(input).parse();
+}
@@ -0,0 +1,88 @@
+export type QueryField =
+  | 'assignee'
+  | 'reporter'
+  | 'priority'
+  | 'type'
+  | 'status'
+  | 'sprint'
+  | 'label'
+  | 'points'
+  | 'due'
+  | 'created'
+  | 'updated'
+  | 'title'
+  | 'description'
+  | 'text'
+  | 'key'
+  | 'parent';
+
+export type ComparisonOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~' | '!~';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface QueryValue {
+  raw: string;
+  quoted: boolean;
+  position: number;
+}
+
+export interface ComparisonNode {
+  kind: 'comparison';
+  field: QueryField;
+  operator: ComparisonOperator;
+  value: QueryValue;
+  position: number;
+}
+
+export interface InNode {
+  kind: 'in';
+  field: QueryField;
+  negated: boolean;
+  values: QueryValue[];
+  position: number;
+}
+
+export interface EmptyNode {
+  kind: 'empty';
+  field: QueryField;
+  negated: boolean;
+  position: number;
+}
+
+export interface LogicalNode {
+  kind: 'and' | 'or';
+  left: QueryNode;
+  right: QueryNode;
+}
+
+export interface NotNode {
+  kind: 'not';
+  operand: QueryNode;
+}
+
+export type QueryNode = ComparisonNode | InNode | EmptyNode | LogicalNode | NotNode;
+
+export interface OrderByClause {
+  field: QueryField;
+  direction: SortDirection;
+  position: number;
+}
+
+export interface TaskQuery {
+  where: QueryNode | null;
+  orderBy: OrderByClause[];
+}
+
+export type TokenType = 'word' | 'string' | 'operator' | 'lparen' | 'rparen' | 'comma' | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+export interface QueryContext {
+  boardId: string;
+  userId: string;
+  now?: Date;
+}
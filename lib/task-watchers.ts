@@ -0,0 +1,74 @@
+import { db } from './db';
+import { taskWatchers } from './db/schema';
+import { eq, and } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { createNotification } from './notifications';
+
+/**
+ * Start watching a task (no-op if the user already watches it)
+ */
+export async function watchTask(taskId: string, userId: string) {
+  const existing = await db.query.taskWatchers.findFirst({
+    where: and(eq(taskWatchers.taskId, taskId), eq(taskWatchers.userId, userId))
+  });
+
+  if (existing) return existing;
+
+  const watcher = { id: uuidv4(), taskId, userId, createdAt: new Date() };
+  await db.insert(taskWatchers).values(watcher);
+  return watcher;
+}
+
+export async function unwatchTask(taskId: string, userId: string) {
+  await db.delete(taskWatchers)
+    .where(and(eq(taskWatchers.taskId, taskId), eq(taskWatchers.userId, userId)));
+}
+
+export async function getTaskWatcherIds(taskId: string): Promise<string[]> {
+  const watchers = await db.query.taskWatchers.findMany({
+    where: eq(taskWatchers.taskId, taskId),
+    columns: { userId: true }
+  });
+
+  return watchers.map(w => w.userId);
+}
+
+interface NotifyWatchersParams {
+  taskId: string;
+  actorId: string;
+  title: string;
+  message: string;
+  link: string;
+  // Users to notify even if they are not watching (e.g. assignee, reporter)
+  include?: (string | null | undefined)[];
+  // Users who already got a more specific notification for this change
+  exclude?: (string | null | undefined)[];
+}
+
+/**
+ * Notify everyone watching a task, except the user who made the change
+ */
+export async function notifyTaskWatchers(params: NotifyWatchersParams) {
+  const { taskId, actorId, title, message, link, include = [], exclude = [] } = params;
+
+  const recipients = new Set<string>(await getTaskWatcherIds(taskId));
+  for (const userId of include) {
+    if (userId) recipients.add(userId);
+  }
+
+  recipients.delete(actorId);
+  for (const userId of exclude) {
+    if (userId) recipients.delete(userId);
+  }
+
+  for (const userId of Array.from(recipients)) {
+    await createNotification({
+      userId,
+      type: 'task',
+      title,
+      message,
+      link,
+      metadata: { taskId }
+    });
+  }
+}
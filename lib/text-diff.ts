@@ -0,0 +1,135 @@
+export type DiffMode = 'line' | 'word';
+
+export interface DiffChunk {
+  type: 'equal' | 'insert' | 'delete';
+  // Line chunks hold their lines joined with "\n", word chunks the text as is
+  value: string;
+}
+
+export interface TextDiff {
+  mode: DiffMode;
+  chunks: DiffChunk[];
+  // Lines (or words) added and removed
+  added: number;
+  removed: number;
+}
+
+export interface DiffOp {
+  type: DiffChunk['type'];
+  token: string;
+}
+
+// Past this many edits the diff stops looking for a minimal one and reports
+// the whole text as replaced, which keeps very different texts cheap to compare
+const MAX_EDIT_DISTANCE = 2000;
+
+function tokenize(text: string, mode: DiffMode) {
+  if (mode === 'line') return text === '' ? [] : text.split('\n');
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+/**
+ * Edit script turning `a` into `b` (Myers' algorithm), or null when it would
+ * take more than MAX_EDIT_DISTANCE edits
+ */
+function shortestEdit(a: string[], b: string[]) {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // v as it was before each round, for k in -d..d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace, d);
+      }
+    }
+  }
+
+  return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[], edits: number) {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = edits; d > 0; d--) {
+    const previous = trace[d];
+    const at = (k: number) => previous[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', token: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      ops.push({ type: 'insert', token: b[--y] });
+    } else {
+      ops.push({ type: 'delete', token: a[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ type: 'equal', token: a[--x] });
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Edit script turning the tokens `a` into `b`, one op per token
+ */
+export function diffTokens(a: string[], b: string[]): DiffOp[] {
+  return shortestEdit(a, b) || [
+    ...a.map(token => ({ type: 'delete' as const, token })),
+    ...b.map(token => ({ type: 'insert' as const, token }))
+  ];
+}
+
+/**
+ * Compare two texts line by line or word by word. Runs of the same kind of
+ * change are merged into one chunk, deletions before insertions.
+ */
+export function diffText(before: string, after: string, mode: DiffMode = 'line'): TextDiff {
+  const ops = diffTokens(tokenize(before, mode), tokenize(after, mode));
+
+  const chunks: DiffChunk[] = [];
+  const separator = mode === 'line' ? '\n' : '';
+  let tokens: string[] = [];
+  let added = 0;
+  let removed = 0;
+
+  for (let i = 0; i < ops.length; i++) {
+    const op = ops[i];
+    const counts = mode === 'line' || op.token.trim() !== '';
+    if (op.type === 'insert' && counts) added++;
+    if (op.type === 'delete' && counts) removed++;
+
+    tokens.push(op.token);
+    if (ops[i + 1]?.type !== op.type) {
+      chunks.push({ type: op.type, value: tokens.join(separator) });
+      tokens = [];
+    }
+  }
+
+  return { mode, chunks, added, removed };
+}
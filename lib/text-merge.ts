@@ -0,0 +1,86 @@
+import { diffTokens } from './text-diff';
+
+export type MergeChunk =
+  | { type: 'clean'; lines: string[] }
+  | { type: 'conflict'; base: string[]; mine: string[]; theirs: string[] };
+
+export interface TextMerge {
+  chunks: MergeChunk[];
+  conflicts: number;
+}
+
+export function splitLines(text: string) {
+  return text === '' ? [] : text.split('\n');
+}
+
+// For each line of `base`, where it is in `other` if kept there, otherwise -1
+function alignLines(base: string[], other: string[]) {
+  const positions: number[] = new Array(base.length).fill(-1);
+  let i = 0;
+  let j = 0;
+  for (const op of diffTokens(base, other)) {
+    if (op.type === 'equal') positions[i++] = j++;
+    else if (op.type === 'delete') i++;
+    else j++;
+  }
+  return positions;
+}
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * Three-way merge of two edits of `base`, line by line (diff3). Between lines
+ * both sides kept, a change made on only one side is taken as is; where both
+ * sides changed the same lines differently the chunk is a conflict.
+ */
+export function mergeText(base: string, mine: string, theirs: string): TextMerge {
+  const baseLines = splitLines(base);
+  const mineLines = splitLines(mine);
+  const theirLines = splitLines(theirs);
+  const inMine = alignLines(baseLines, mineLines);
+  const inTheirs = alignLines(baseLines, theirLines);
+
+  const chunks: MergeChunk[] = [];
+  const addClean = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.type === 'clean') last.lines.push(...lines);
+    else chunks.push({ type: 'clean', lines: [...lines] });
+  };
+
+  let b = 0;
+  let m = 0;
+  let t = 0;
+  while (b < baseLines.length || m < mineLines.length || t < theirLines.length) {
+    // The next base line both sides kept ends the current chunk
+    let next = b;
+    while (next < baseLines.length && (inMine[next] === -1 || inTheirs[next] === -1)) next++;
+    const mineEnd = next < baseLines.length ? inMine[next] : mineLines.length;
+    const theirEnd = next < baseLines.length ? inTheirs[next] : theirLines.length;
+
+    if (next === b && mineEnd === m && theirEnd === t) {
+      addClean([baseLines[b]]);
+      b++;
+      m++;
+      t++;
+      continue;
+    }
+
+    const original = baseLines.slice(b, next);
+    const mineChunk = mineLines.slice(m, mineEnd);
+    const theirChunk = theirLines.slice(t, theirEnd);
+    if (sameLines(mineChunk, original)) {
+      addClean(theirChunk);
+    } else if (sameLines(theirChunk, original) || sameLines(mineChunk, theirChunk)) {
+      addClean(mineChunk);
+    } else {
+      chunks.push({ type: 'conflict', base: original, mine: mineChunk, theirs: theirChunk });
+    }
+
+    b = next;
+    m = mineEnd;
+    t = theirEnd;
+  }
+
+  return { chunks, conflicts: chunks.filter(chunk => chunk.type === 'conflict').length };
+}
@@ -1,3 +1,5 @@
+import type { ActivityEntityType } from './activity';
+
 export interface User {
   id: string;
   username: string;
@@ -112,6 +114,7 @@ export interface Document {
   content: string | null;
   parentId: string | null;
   sortOrder: number;
+  version: number;
   createdBy: string;
   createdAt: Date;
   updatedAt: Date;
@@ -119,6 +122,19 @@ export interface Document {
   children?: Document[];
 }
 
+export interface DocumentRevision {
+  id: string;
+  documentId: string;
+  revisionNumber: number;
+  title: string;
+  content?: string | null; // Not included when listing revisions
+  length?: number; // Content length, when listing revisions
+  authorId: string;
+  restoredFrom: number | null;
+  createdAt: Date;
+  author?: Pick<User, 'id' | 'username' | 'displayName'>;
+}
+
 export interface Credential {
   id: string;
   projectId: string;
@@ -169,6 +185,20 @@ export interface Notification {
   createdAt: Date;
 }
 
+export interface ActivityLog {
+  id: string;
+  organizationId: string | null;
+  projectId: string | null;
+  boardId: string | null;
+  userId: string;
+  action: string;
+  entityType: ActivityEntityType;
+  entityId: string | null;
+  metadata: Record<string, any> | null;
+  createdAt: Date;
+  user?: Pick<User, 'id' | 'username' | 'displayName' | 'avatarUrl'>;
+}
+
 // ========================================
 // BOARD & TASK TYPES
 // ========================================
@@ -209,6 +239,7 @@ export interface BoardColumn {
   sortOrder: number;
   isDefault: boolean;
   wipLimit: number | null;
+  wipMode: WipLimitMode;
   createdAt: Date;
   tasks?: Task[];
 }
@@ -221,13 +252,35 @@ export interface Sprint {
   startDate: Date | null;
   endDate: Date | null;
   status: 'planning' | 'active' | 'completed';
+  committedPoints: number | null;
+  committedTaskCount: number | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
   createdBy: string;
   createdAt: Date;
   updatedAt: Date;
   creator?: Pick<User, 'id' | 'username' | 'displayName'>;
+  summary?: SprintSummary | null;
   tasks?: Task[];
 }
 
+export interface SprintSummary {
+  id: string;
+  sprintId: string;
+  boardId: string;
+  committedPoints: number;
+  committedTaskCount: number;
+  completedPoints: number;
+  completedTaskCount: number;
+  carriedOverPoints: number;
+  carriedOverTaskCount: number;
+  completedTaskIds: string[];
+  carriedOverTaskIds: string[];
+  carriedOverToSprintId: string | null;
+  completedBy: string;
+  createdAt: Date;
+}
+
 export interface TaskLabel {
   id: string;
   boardId: string;
@@ -263,6 +316,9 @@ export interface Task {
   subtasks?: Task[];
   comments?: TaskComment[];
   attachments?: TaskAttachment[];
+  watchers?: TaskWatcher[];
+  isWatching?: boolean;
+  links?: TaskLink[];
   board?: Pick<Board, 'id' | 'name' | 'key'>;
 }
 
@@ -289,12 +345,57 @@ export interface TaskAttachment {
   uploader?: Pick<User, 'id' | 'username' | 'displayName'>;
 }
 
+export interface TaskWatcher {
+  id: string;
+  taskId: string;
+  userId: string;
+  createdAt: Date;
+  user?: Pick<User, 'id' | 'username' | 'displayName' | 'avatarUrl'>;
+}
+
+export type TaskLinkType = 'blocks' | 'is_blocked_by' | 'relates_to' | 'duplicates' | 'is_duplicated_by';
+
+export interface TaskLink {
+  id: string;
+  type: TaskLinkType;
+  label: string;
+  createdAt: Date;
+  task: Pick<Task, 'id' | 'boardId' | 'taskNumber' | 'title' | 'type' | 'priority'> & {
+    taskKey: string;
+    column?: Pick<BoardColumn, 'id' | 'name' | 'color'>;
+  };
+}
+
+export interface EpicProgress extends Task {
+  taskKey: string;
+  childCount: number;
+  doneCount: number;
+  totalPoints: number;
+  donePoints: number;
+  percentDone: number;
+  startDate: Date | null;
+  endDate: Date | null;
+}
+
+export interface SearchResult {
+  type: 'task' | 'comment' | 'document' | 'file';
+  id: string;
+  // Escaped HTML with the matching words in <mark>
+  title: string;
+  snippet: string;
+  context: string;
+  url: string;
+}
+
 export type PermissionLevel = 'read' | 'write' | 'admin';
 export type GroupRole = 'admin' | 'member';
 export type OrganizationRole = 'owner' | 'admin' | 'member';
 export type ProjectStatus = 'active' | 'archived' | 'completed';
 export type CredentialType = 'api_key' | 'password' | 'token' | 'certificate' | 'other';
+// Defined with the activity log, where new entity types are added
+export type { ActivityEntityType };
 export type NotificationType = 'info' | 'success' | 'warning' | 'error' | 'invite' | 'group' | 'project' | 'board' | 'task';
 export type SprintStatus = 'planning' | 'active' | 'completed';
+export type WipLimitMode = 'off' | 'warn' | 'block';
 export type TaskType = 'story' | 'task' | 'bug' | 'epic' | 'subtask';
 export type TaskPriority = 'lowest' | 'low' | 'medium' | 'high' | 'highest';
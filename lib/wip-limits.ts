@@ -0,0 +1,43 @@
+import { db } from './db';
+import { boardColumns, tasks } from './db/schema';
+import { count, eq } from 'drizzle-orm';
+
+export const WIP_LIMIT_MODES = ['off', 'warn', 'block'] as const;
+export type WipLimitMode = typeof WIP_LIMIT_MODES[number];
+
+export interface WipLimitViolation {
+  code: 'wip_limit_exceeded';
+  message: string;
+  mode: Exclude<WipLimitMode, 'off'>;
+  column: { id: string; name: string; wipLimit: number };
+  // Tasks in the column once the new one is added
+  taskCount: number;
+}
+
+/**
+ * Check whether adding one more task to a column would take it over its WIP
+ * limit. Returns null when the column has no limit, enforcement is off, or
+ * there is still room.
+ */
+export async function checkWipLimit(columnId: string): Promise<WipLimitViolation | null> {
+  const column = await db.query.boardColumns.findFirst({
+    where: eq(boardColumns.id, columnId),
+    columns: { id: true, name: true, wipLimit: true, wipMode: true }
+  });
+
+  if (!column || !column.wipLimit || column.wipMode === 'off') return null;
+
+  const [{ total }] = await db.select({ total: count() })
+    .from(tasks)
+    .where(eq(tasks.columnId, columnId));
+
+  if (total + 1 <= column.wipLimit) return null;
+
+  return {
+    code: 'wip_limit_exceeded',
+    message: `${column.name} is limited to ${column.wipLimit} task${column.wipLimit === 1 ? '' : 's'} and already has ${total}`,
+    mode: column.wipMode,
+    column: { id: column.id, name: column.name, wipLimit: column.wipLimit },
+    taskCount: total + 1
+  };
+}
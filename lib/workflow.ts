@@ -0,0 +1,301 @@
+import { db } from './db';
+import {
+  boardColumns, boardGroups, groupMembers, taskLabelAssignments, workflowTransitionGroups, workflowTransitions
+} from './db/schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { v4 as uuidv4 } from 'uuid';
+import type { BoardPermission } from './board-access';
+
+/**
+ * Task fields a column can require before a task may enter it
+ */
+export const WORKFLOW_REQUIRED_FIELDS = [
+  'assigneeId', 'storyPoints', 'dueDate', 'sprintId', 'description', 'labelIds', 'parentTaskId'
+] as const;
+export type WorkflowRequiredField = typeof WORKFLOW_REQUIRED_FIELDS[number];
+
+export const REQUIRED_FIELD_LABELS: Record<WorkflowRequiredField, string> = {
+  assigneeId: 'assignee',
+  storyPoints: 'story points',
+  dueDate: 'due date',
+  sprintId: 'sprint',
+  description: 'description',
+  labelIds: 'labels',
+  parentTaskId: 'parent'
+};
+
+export const TRANSITION_PERMISSIONS = ['write', 'admin'] as const;
+export type TransitionPermission = typeof TRANSITION_PERMISSIONS[number];
+
+export interface WorkflowInput {
+  transitions?: { fromColumnId: string; toColumnId: string; requiredPermission?: string; groupIds?: string[] }[];
+  requiredFields?: Record<string, string[]>;
+}
+
+export class WorkflowError extends Error {
+  status: number;
+  code: string;
+  details: Record<string, any>;
+
+  constructor(message: string, status = 400, code = 'invalid_workflow', details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'WorkflowError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+const parseRequiredFields = (value: string | null): WorkflowRequiredField[] =>
+  value ? JSON.parse(value) : [];
+
+/**
+ * A board's workflow: its allowed transitions (none means every move is
+ * allowed) and the fields each column requires
+ */
+export async function getBoardWorkflow(boardId: string) {
+  const columns = await db.query.boardColumns.findMany({
+    where: eq(boardColumns.boardId, boardId),
+    columns: { id: true, requiredFields: true },
+    orderBy: asc(boardColumns.sortOrder)
+  });
+
+  const transitions = await db.query.workflowTransitions.findMany({
+    where: eq(workflowTransitions.boardId, boardId),
+    with: {
+      groups: {
+        with: { group: { columns: { id: true, name: true } } }
+      }
+    }
+  });
+
+  return {
+    transitions: transitions.map(({ groups, ...transition }) => ({
+      ...transition,
+      groups: groups.map(g => g.group)
+    })),
+    requiredFields: Object.fromEntries(columns.map(c => [c.id, parseRequiredFields(c.requiredFields)]))
+  };
+}
+
+/**
+ * Check a workflow definition against the board's columns and groups,
+ * returning it in normalized form
+ */
+export async function validateWorkflowInput(boardId: string, input: WorkflowInput) {
+  const transitions = input.transitions ?? [];
+  const requiredFields = input.requiredFields ?? {};
+
+  if (!Array.isArray(transitions)) {
+    throw new WorkflowError('transitions must be an array of { fromColumnId, toColumnId }');
+  }
+  if (typeof requiredFields !== 'object' || Array.isArray(requiredFields)) {
+    throw new WorkflowError('requiredFields must map column ids to field lists');
+  }
+
+  const columns = await db.query.boardColumns.findMany({
+    where: eq(boardColumns.boardId, boardId),
+    columns: { id: true }
+  });
+  const columnIds = new Set(columns.map(c => c.id));
+
+  const access = await db.query.boardGroups.findMany({
+    where: eq(boardGroups.boardId, boardId),
+    columns: { groupId: true }
+  });
+  const boardGroupIds = new Set(access.map(a => a.groupId));
+
+  const seen = new Set<string>();
+  const normalized = transitions.map(t => {
+    if (!columnIds.has(t.fromColumnId) || !columnIds.has(t.toColumnId)) {
+      throw new WorkflowError('Transitions must connect columns of this board', 400, 'invalid_workflow', { transition: t });
+    }
+    if (t.fromColumnId === t.toColumnId) {
+      throw new WorkflowError('A transition must lead to a different column');
+    }
+
+    const key = `${t.fromColumnId}:${t.toColumnId}`;
+    if (seen.has(key)) {
+      throw new WorkflowError('Each transition can only be listed once', 400, 'invalid_workflow', { transition: t });
+    }
+    seen.add(key);
+
+    const requiredPermission = t.requiredPermission ?? 'write';
+    if (!TRANSITION_PERMISSIONS.includes(requiredPermission as TransitionPermission)) {
+      throw new WorkflowError(`Invalid requiredPermission. Expected one of: ${TRANSITION_PERMISSIONS.join(', ')}`);
+    }
+
+    const groupIds = Array.from(new Set(t.groupIds ?? []));
+    const invalid = groupIds.filter(id => !boardGroupIds.has(id));
+    if (invalid.length > 0) {
+      throw new WorkflowError('Transitions can only be limited to groups that have access to this board', 400, 'invalid_workflow', {
+        groupIds: invalid
+      });
+    }
+
+    return {
+      fromColumnId: t.fromColumnId,
+      toColumnId: t.toColumnId,
+      requiredPermission: requiredPermission as TransitionPermission,
+      groupIds
+    };
+  });
+
+  const fields: Record<string, WorkflowRequiredField[]> = {};
+  for (const [columnId, list] of Object.entries(requiredFields)) {
+    if (!columnIds.has(columnId)) {
+      throw new WorkflowError('Required fields must belong to columns of this board', 400, 'invalid_workflow', { columnId });
+    }
+    if (!Array.isArray(list)) {
+      throw new WorkflowError('Required fields must be an array per column');
+    }
+    const unknown = list.filter(f => !WORKFLOW_REQUIRED_FIELDS.includes(f as WorkflowRequiredField));
+    if (unknown.length > 0) {
+      throw new WorkflowError(`Unknown required fields: ${unknown.join(', ')}`);
+    }
+    fields[columnId] = Array.from(new Set(list)) as WorkflowRequiredField[];
+  }
+
+  return { transitions: normalized, requiredFields: fields };
+}
+
+/**
+ * Replace a board's workflow with a validated definition. Columns missing
+ * from `requiredFields` no longer require anything. Everything is written in
+ * one batch (a single transaction): a partial transition list would silently
+ * block moves that should be allowed.
+ */
+export async function saveBoardWorkflow(
+  boardId: string,
+  workflow: Awaited<ReturnType<typeof validateWorkflowInput>>
+) {
+  const columns = await db.query.boardColumns.findMany({
+    where: eq(boardColumns.boardId, boardId),
+    columns: { id: true, requiredFields: true }
+  });
+
+  const writes: BatchItem<'sqlite'>[] = [];
+
+  for (const transition of workflow.transitions) {
+    const transitionId = uuidv4();
+    writes.push(db.insert(workflowTransitions).values({
+      id: transitionId,
+      boardId,
+      fromColumnId: transition.fromColumnId,
+      toColumnId: transition.toColumnId,
+      requiredPermission: transition.requiredPermission
+    }));
+    if (transition.groupIds.length > 0) {
+      writes.push(db.insert(workflowTransitionGroups).values(
+        transition.groupIds.map(groupId => ({ id: uuidv4(), transitionId, groupId }))
+      ));
+    }
+  }
+
+  for (const column of columns) {
+    const fields = workflow.requiredFields[column.id] ?? [];
+    const value = fields.length > 0 ? JSON.stringify(fields) : null;
+    if (value !== column.requiredFields) {
+      writes.push(db.update(boardColumns).set({ requiredFields: value }).where(eq(boardColumns.id, column.id)));
+    }
+  }
+
+  await db.batch([
+    db.delete(workflowTransitions).where(eq(workflowTransitions.boardId, boardId)),
+    ...writes
+  ]);
+}
+
+const isMissing = (value: any) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+interface TransitionCheck {
+  boardId: string;
+  userId: string;
+  permission: BoardPermission | null;
+  fromColumnId: string;
+  toColumnId: string;
+  // The task as it will be after the update; labelIds are looked up when not given
+  task: { id: string; labelIds?: string[] } & Record<string, any>;
+}
+
+/**
+ * Check a column move against the board workflow: the transition must be
+ * allowed, the user must be allowed to perform it (board admins always are
+ * when the transition exists) and the task must have every field the target
+ * column requires
+ */
+export async function validateTransition({ boardId, userId, permission, fromColumnId, toColumnId, task }: TransitionCheck) {
+  const columns = await db.query.boardColumns.findMany({
+    where: and(eq(boardColumns.boardId, boardId), inArray(boardColumns.id, [fromColumnId, toColumnId])),
+    columns: { id: true, name: true, requiredFields: true }
+  });
+  const from = columns.find(c => c.id === fromColumnId);
+  const to = columns.find(c => c.id === toColumnId);
+
+  if (!to) {
+    throw new WorkflowError('Column not found on this board', 400, 'invalid_column');
+  }
+  const move = `from ${from?.name ?? 'this column'} to ${to.name}`;
+
+  const transitions = await db.query.workflowTransitions.findMany({
+    where: eq(workflowTransitions.boardId, boardId),
+    with: { groups: { columns: { groupId: true } } }
+  });
+
+  if (transitions.length > 0) {
+    const transition = transitions.find(t => t.fromColumnId === fromColumnId && t.toColumnId === toColumnId);
+
+    if (!transition) {
+      const allowed = transitions.filter(t => t.fromColumnId === fromColumnId).map(t => t.toColumnId);
+      throw new WorkflowError(
+        `The board workflow does not allow moving ${move}`,
+        400,
+        'transition_not_allowed',
+        { from: fromColumnId, to: toColumnId, allowedColumnIds: allowed }
+      );
+    }
+
+    if (permission !== 'admin') {
+      if (transition.requiredPermission === 'admin') {
+        throw new WorkflowError(`Only board admins can move tasks ${move}`, 403, 'transition_forbidden');
+      }
+
+      if (transition.groups.length > 0) {
+        const memberships = await db.query.groupMembers.findMany({
+          where: and(
+            eq(groupMembers.userId, userId),
+            inArray(groupMembers.groupId, transition.groups.map(g => g.groupId))
+          ),
+          columns: { groupId: true }
+        });
+        if (memberships.length === 0) {
+          throw new WorkflowError(`You are not in a group allowed to move tasks ${move}`, 403, 'transition_forbidden');
+        }
+      }
+    }
+  }
+
+  const required = parseRequiredFields(to.requiredFields);
+  if (required.length === 0) return;
+
+  const values: Record<string, any> = { ...task };
+  if (required.includes('labelIds') && values.labelIds === undefined) {
+    const assignments = await db.query.taskLabelAssignments.findMany({
+      where: eq(taskLabelAssignments.taskId, task.id),
+      columns: { labelId: true }
+    });
+    values.labelIds = assignments.map(a => a.labelId);
+  }
+
+  const missing = required.filter(field => isMissing(values[field]));
+  if (missing.length > 0) {
+    throw new WorkflowError(
+      `${to.name} requires ${missing.map(f => REQUIRED_FIELD_LABELS[f]).join(', ')}`,
+      400,
+      'required_fields_missing',
+      { missingFields: missing }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Scheduled Automations
+ *
+ * Evaluates time-based automation rules (e.g. "when a due date passes").
+ * Each occurrence fires once, so it is safe to run as often as you like;
+ * schedule it every few minutes with cron or a similar job runner.
+ *
+ * Usage: npm run automations:run
+ */
+
+import { runScheduledAutomations } from '../lib/automation';
+
+async function main() {
+  const { fired } = await runScheduledAutomations();
+  console.log(`Automations: ${fired} scheduled rule run${fired === 1 ? '' : 's'}`);
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error('Scheduled automations failed:', err);
+  process.exit(1);
+});
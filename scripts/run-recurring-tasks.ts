@@ -0,0 +1,22 @@
+/**
+ * Recurring Tasks
+ *
+ * Creates the tasks due from recurring task templates. Each occurrence
+ * creates one task, so it is safe to run as often as you like; schedule it
+ * every few minutes with cron or a similar job runner.
+ *
+ * Usage: npm run recurring-tasks:run
+ */
+
+import { runRecurringTasks } from '../lib/recurring-tasks';
+
+async function main() {
+  const { created, failed } = await runRecurringTasks();
+  console.log(`Recurring tasks: ${created} created${failed.length > 0 ? `, ${failed.length} failed` : ''}`);
+  process.exit(failed.length > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error('Recurring tasks failed:', err);
+  process.exit(1);
+});
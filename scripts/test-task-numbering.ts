@@ -0,0 +1,90 @@
+/**
+ * Task Numbering Check
+ *
+ * Creates tasks on one board from several processes at once, against the
+ * SQLite database in data/, and checks that every task got its own number
+ * with no gaps. Uses a throwaway user, organization and board, which are
+ * removed afterwards.
+ *
+ * Usage: npm run test:task-numbering [-- <processes> <tasks per process>]
+ */
+
+import { spawn } from 'child_process';
+import { eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../lib/db';
+import { boards, organizations, tasks, users } from '../lib/db/schema';
+import { createBoard } from '../lib/board-templates';
+import { createTask } from '../lib/task-create';
+
+async function worker(boardId: string, userId: string, count: number) {
+  const board = await db.query.boards.findFirst({ where: eq(boards.id, boardId) });
+  for (let i = 0; i < count; i++) {
+    await createTask(board!, { title: `Task ${process.pid}.${i}` }, { userId, permission: 'admin' });
+  }
+}
+
+function runWorker(boardId: string, userId: string, count: number) {
+  return new Promise<void>((resolve, reject) => {
+    const child = spawn(process.execPath, [...process.execArgv, __filename, 'worker', boardId, userId, String(count)], {
+      stdio: 'inherit'
+    });
+    child.on('error', reject);
+    child.on('exit', code => code === 0 ? resolve() : reject(new Error(`Worker exited with code ${code}`)));
+  });
+}
+
+async function main() {
+  const processes = parseInt(process.argv[2] || '4');
+  const perProcess = parseInt(process.argv[3] || '25');
+
+  const userId = uuidv4();
+  const organizationId = uuidv4();
+  await db.insert(users).values({
+    id: userId,
+    username: `numbering-${userId.slice(0, 8)}`,
+    email: `numbering-${userId}@example.invalid`,
+    passwordHash: '-'
+  });
+  await db.insert(organizations).values({
+    id: organizationId,
+    name: 'Task numbering check',
+    slug: `numbering-${organizationId}`,
+    createdBy: userId
+  });
+
+  try {
+    const { boardId } = await createBoard({ organizationId, name: 'Numbering', key: 'NUM' }, userId);
+
+    const started = Date.now();
+    await Promise.all(Array.from({ length: processes }, () => runWorker(boardId, userId, perProcess)));
+
+    const created = await db.query.tasks.findMany({
+      where: eq(tasks.boardId, boardId),
+      columns: { taskNumber: true }
+    });
+    const numbers = created.map(t => t.taskNumber).sort((a, b) => a - b);
+    const expected = processes * perProcess;
+    const unique = new Set(numbers).size;
+    const contiguous = numbers.every((n, index) => n === index + 1);
+    const board = await db.query.boards.findFirst({ where: eq(boards.id, boardId) });
+
+    console.log(`${created.length} of ${expected} tasks created by ${processes} processes in ${Date.now() - started}ms`);
+    console.log(`${unique} distinct numbers, ${contiguous ? 'no gaps' : 'with gaps'}, board counter at ${board?.taskCounter}`);
+
+    const ok = created.length === expected && unique === expected && contiguous && board?.taskCounter === expected;
+    console.log(ok ? 'OK' : 'FAILED');
+    process.exitCode = ok ? 0 : 1;
+  } finally {
+    await db.delete(organizations).where(eq(organizations.id, organizationId));
+    await db.delete(users).where(eq(users.id, userId));
+  }
+}
+
+const [mode, boardId, userId, count] = process.argv.slice(2);
+const run = mode === 'worker' ? worker(boardId, userId, parseInt(count)) : main();
+
+run.then(() => process.exit()).catch((err) => {
+  console.error('Task numbering check failed:', err);
+  process.exit(1);
+});